@@ -0,0 +1,143 @@
+"use client";
+import React, { useMemo } from "react";
+import { buildEventTimeline } from "../video/EventRecorder";
+import type { EventRecording } from "../video/EventRecorder";
+import type { VideoState } from "../video/types";
+
+interface VideoEventTimelineProps {
+  recording: EventRecording;
+  width?: number;
+  className?: string;
+}
+
+// 各状态在时间线上的颜色
+const STATE_COLORS: Record<VideoState, string> = {
+  idle: "#9ca3af",
+  loading: "#60a5fa",
+  canplay: "#93c5fd",
+  play: "#86efac",
+  playing: "#22c55e",
+  pause: "#fde047",
+  paused: "#facc15",
+  seeking: "#a78bfa",
+  waiting: "#f97316",
+  ended: "#64748b",
+  error: "#ef4444"
+};
+
+const MARKER_COLORS: Record<string, string> = {
+  error: "#ef4444",
+  buffering: "#f97316"
+};
+
+const LANE_HEIGHT = 40;
+const LABEL_WIDTH = 64;
+const PADDING = 8;
+
+// 录制事件时间线：状态区间、缓冲量曲线、质量切换与错误/缓冲标记
+export const VideoEventTimeline: React.FC<VideoEventTimelineProps> = ({
+  recording,
+  width = 800,
+  className
+}) => {
+  const timeline = useMemo(() => buildEventTimeline(recording), [recording]);
+  const plotWidth = width - LABEL_WIDTH - PADDING;
+  const height = LANE_HEIGHT * 3 + PADDING * 4 + 16;
+  const duration = Math.max(timeline.duration, 1);
+  const x = (time: number) => LABEL_WIDTH + (time / duration) * plotWidth;
+  const maxLevel = Math.max(1, ...timeline.buffer.map(point => point.level));
+
+  const lanes = {
+    state: PADDING,
+    buffer: PADDING * 2 + LANE_HEIGHT,
+    quality: PADDING * 3 + LANE_HEIGHT * 2
+  };
+
+  const bufferPath = timeline.buffer
+    .map(point => `${x(point.time)},${lanes.buffer + LANE_HEIGHT - (point.level / maxLevel) * LANE_HEIGHT}`)
+    .join(" ");
+
+  if (recording.events.length === 0) {
+    return <div className={className}>暂无录制事件</div>;
+  }
+
+  return (
+    <figure className={className}>
+      <svg
+        role="img"
+        aria-label={`事件时间线，共 ${recording.events.length} 个事件，时长 ${(timeline.duration / 1000).toFixed(1)} 秒`}
+        viewBox={`0 0 ${width} ${height}`}
+        width="100%"
+      >
+        <text x={0} y={lanes.state + LANE_HEIGHT / 2} fontSize={12} dominantBaseline="middle">状态</text>
+        <text x={0} y={lanes.buffer + LANE_HEIGHT / 2} fontSize={12} dominantBaseline="middle">缓冲</text>
+        <text x={0} y={lanes.quality + LANE_HEIGHT / 2} fontSize={12} dominantBaseline="middle">质量</text>
+
+        {/* 同一时间戳可能有多次转换，key需包含下标 */}
+        {timeline.states.map((segment, index) => (
+          <rect
+            key={`${index}-${segment.state}-${segment.start}`}
+            data-state={segment.state}
+            x={x(segment.start)}
+            y={lanes.state}
+            width={Math.max(1, x(segment.end) - x(segment.start))}
+            height={LANE_HEIGHT}
+            fill={STATE_COLORS[segment.state]}
+          >
+            <title>{`${segment.state} ${(segment.start / 1000).toFixed(2)}s - ${(segment.end / 1000).toFixed(2)}s`}</title>
+          </rect>
+        ))}
+
+        <rect x={LABEL_WIDTH} y={lanes.buffer} width={plotWidth} height={LANE_HEIGHT} fill="#f3f4f6" />
+        {timeline.buffer.length > 1 && (
+          <polyline points={bufferPath} fill="none" stroke="#3b82f6" strokeWidth={1.5} />
+        )}
+        <text x={LABEL_WIDTH + plotWidth} y={lanes.buffer + 10} fontSize={10} textAnchor="end">
+          {`${maxLevel.toFixed(1)}s`}
+        </text>
+
+        {timeline.qualitySwitches.map((change, index) => (
+          <g key={`quality-${index}-${change.time}-${change.to}`} data-quality={change.to}>
+            <line
+              x1={x(change.time)}
+              x2={x(change.time)}
+              y1={lanes.quality}
+              y2={lanes.quality + LANE_HEIGHT}
+              stroke="#6366f1"
+            />
+            <text x={x(change.time) + 2} y={lanes.quality + LANE_HEIGHT / 2} fontSize={10} dominantBaseline="middle">
+              {`${change.from}→${change.to}`}
+            </text>
+          </g>
+        ))}
+
+        {timeline.markers.map((marker, index) => (
+          <line
+            key={`${index}-${marker.type}-${marker.time}`}
+            data-marker={marker.type}
+            x1={x(marker.time)}
+            x2={x(marker.time)}
+            y1={lanes.state}
+            y2={lanes.quality + LANE_HEIGHT}
+            stroke={MARKER_COLORS[marker.type] ?? "#6b7280"}
+            strokeDasharray="3 2"
+          >
+            <title>{`${marker.label} @ ${(marker.time / 1000).toFixed(2)}s`}</title>
+          </line>
+        ))}
+
+        <text x={LABEL_WIDTH} y={height - 4} fontSize={10}>0s</text>
+        <text x={LABEL_WIDTH + plotWidth} y={height - 4} fontSize={10} textAnchor="end">
+          {`${(timeline.duration / 1000).toFixed(1)}s`}
+        </text>
+      </svg>
+      {recording.dropped > 0 && (
+        <figcaption className="text-xs text-gray-500">
+          {`缓冲已满，最早的 ${recording.dropped} 个事件已被覆盖`}
+        </figcaption>
+      )}
+    </figure>
+  );
+};
+
+export default VideoEventTimeline;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { VideoEventTimeline } from '../VideoEventTimeline';
+import { RECORDING_VERSION } from '../../video/EventRecorder';
+import type { EventRecording, RecordedEvent } from '../../video/EventRecorder';
+import type { VideoState } from '../../video/types';
+
+const recordedEvent = (event: string, time: number, state: VideoState, payload: Record<string, any> = {}): RecordedEvent => ({
+  event: `video:${event}`,
+  time,
+  data: { type: event, timestamp: time, currentTime: time / 1000, duration: 10, payload },
+  snapshot: { state, currentTime: time / 1000, bufferLevel: 2, stream: null }
+});
+
+describe('VideoEventTimeline', () => {
+  test('同一时间戳的多次状态转换和标记应该全部渲染且key不冲突', () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    // 加速回放中同一毫秒内的暂停→播放→暂停和两个错误
+    const recording: EventRecording = {
+      version: RECORDING_VERSION,
+      startedAt: 0,
+      dropped: 0,
+      events: [
+        recordedEvent('playing', 0, 'playing'),
+        recordedEvent('pause', 500, 'paused'),
+        recordedEvent('play', 500, 'playing'),
+        recordedEvent('pause', 500, 'paused'),
+        recordedEvent('error', 800, 'paused', { message: 'first' }),
+        recordedEvent('error', 800, 'paused', { message: 'second' }),
+        recordedEvent('playing', 1000, 'playing')
+      ]
+    };
+
+    const { container } = render(<VideoEventTimeline recording={recording} />);
+
+    expect(Array.from(container.querySelectorAll('[data-state]'), rect => rect.getAttribute('data-state'))).toEqual([
+      'playing', 'paused', 'playing', 'paused', 'playing'
+    ]);
+    expect(container.querySelectorAll('[data-marker="error"]')).toHaveLength(2);
+    expect(errorSpy.mock.calls.flat().some(arg => String(arg).includes('same key'))).toBe(false);
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,604 @@
+// 插播广告管理器 - 按VMAP/VAST调度片头、片中、片尾广告，在同一个<video>元素上切换广告与正片
+
+import type {
+  IVideoPlayer,
+  VideoAdBreakPosition,
+  VideoAdEndReason,
+  VideoAdInfo,
+  VideoError,
+  VideoEventData,
+  VideoEventListener
+} from './types';
+
+import type {
+  AdBreakOffset,
+  VASTAd,
+  VASTDocument,
+  VASTMediaFile,
+  VASTTrackingEvent
+} from './VASTParser';
+import { parseVAST, parseVMAP, mergeTracking } from './VASTParser';
+import { normalizeVideoError } from './ErrorCatalog';
+
+// 手动配置的广告时段，vast可以是地址或XML
+export interface AdBreakConfig {
+  id?: string;
+  offset: AdBreakOffset;
+  vast: string;
+}
+
+export interface AdManagerOptions {
+  // VMAP地址或XML
+  vmap?: string;
+  // 单个片头广告的VAST地址或XML
+  vast?: string;
+  breaks?: AdBreakConfig[];
+  // 包装广告最大跳转层数
+  maxWrapperDepth?: number;
+  // 默认使用fetch，测试时可替换为本地文件
+  fetchXML?: (url: string) => Promise<string>;
+  // 默认使用Image请求追踪像素
+  trackPixel?: (url: string) => void;
+}
+
+// VAST错误码
+const VAST_ERROR_CODES = {
+  wrapperLimit: 302,
+  wrapperFailed: 301,
+  noAds: 303,
+  mediaNotSupported: 403,
+  mediaFailed: 405
+};
+
+const DEFAULT_MAX_WRAPPER_DEPTH = 5;
+
+interface ScheduledBreak {
+  id: string;
+  offset: AdBreakOffset;
+  vast?: VASTDocument;
+  // 地址或XML
+  source?: string;
+  played: boolean;
+}
+
+interface ActiveAd {
+  ad: VASTAd;
+  info: VideoAdInfo;
+  breakId: string;
+  started: boolean;
+  paused: boolean;
+  quartiles: Set<VASTTrackingEvent>;
+  finish: (reason: VideoAdEndReason, error?: VideoError) => void;
+}
+
+const isXML = (source: string): boolean => source.trimStart().startsWith('<');
+
+const defaultFetchXML = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Ad request failed with status ${response.status}`);
+  }
+  return response.text();
+};
+
+const defaultTrackPixel = (url: string): void => {
+  if (typeof Image !== 'undefined') {
+    new Image().src = url;
+  }
+};
+
+// 私有工具 - 格式化为VAST时间（HH:MM:SS.mmm）
+const formatVASTTime = (seconds: number): string => {
+  const safe = Math.max(0, seconds || 0);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const ms = Math.round(safe * 1000);
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+/**
+ * 替换追踪地址中的VAST宏
+ */
+export const replaceVASTMacros = (url: string, macros: Record<string, string | number | undefined>): string => {
+  return url.replace(/\[([A-Z_]+)\]/g, (match, name: string) => {
+    const value = macros[name];
+    return value === undefined ? match : encodeURIComponent(String(value));
+  });
+};
+
+/**
+ * 选择元素可播放的媒体文件：优先渐进式下载，其次宽度最接近播放器的
+ */
+export const selectMediaFile = (files: VASTMediaFile[], element: HTMLVideoElement): VASTMediaFile | null => {
+  const width = element.clientWidth || element.videoWidth || 640;
+
+  return files
+    .filter(file => !file.type || element.canPlayType(file.type) !== '')
+    .sort((a, b) =>
+      Number(b.delivery === 'progressive') - Number(a.delivery === 'progressive') ||
+      Math.abs(a.width - width) - Math.abs(b.width - width)
+    )[0] ?? null;
+};
+
+/**
+ * 从解析出的广告中选择要播放的广告：带sequence的组成广告组按顺序播放，否则只播放第一个独立广告
+ */
+export const selectAdPod = (ads: VASTAd[]): VASTAd[] => {
+  const pod = ads
+    .filter(ad => ad.sequence !== undefined)
+    .sort((a, b) => a.sequence! - b.sequence!);
+  return pod.length > 0 ? pod : ads.slice(0, 1);
+};
+
+export class AdManager {
+  private _player: IVideoPlayer;
+  private _element: HTMLVideoElement;
+  private _options: AdManagerOptions;
+  private _fetchXML: (url: string) => Promise<string>;
+  private _trackPixel: (url: string) => void;
+  private _breaks: ScheduledBreak[] = [];
+  private _ready: Promise<void>;
+  private _scheduleLoaded = false;
+  private _contentStarted = false;
+  // 广告时段进行中（含请求广告阶段），期间不再触发其他时段
+  private _breakActive = false;
+  private _breakContentTime = 0;
+  private _currentAd: ActiveAd | null = null;
+  private _isDestroyed = false;
+
+  constructor(player: IVideoPlayer, options: AdManagerOptions) {
+    this._player = player;
+    this._element = player.element;
+    this._options = options;
+    this._fetchXML = options.fetchXML ?? defaultFetchXML;
+    this._trackPixel = options.trackPixel ?? defaultTrackPixel;
+
+    player.on('play', this.handleContentPlay);
+    player.on('timeupdate', this.handleContentTimeUpdate);
+    player.on('ended', this.handleContentEnded);
+
+    this._ready = this.loadSchedule().then(
+      () => {
+        this._scheduleLoaded = true;
+      },
+      error => {
+        this._scheduleLoaded = true;
+        console.warn('Failed to load ad schedule:', error);
+      }
+    );
+  }
+
+  /**
+   * 广告时间表加载完成（失败时同样resolve）
+   */
+  get ready(): Promise<void> {
+    return this._ready;
+  }
+
+  get isPlayingAd(): boolean {
+    return this._breakActive;
+  }
+
+  get currentAd(): VideoAdInfo | null {
+    return this._currentAd ? { ...this._currentAd.info } : null;
+  }
+
+  /**
+   * 当前广告是否已到可跳过时间
+   */
+  get canSkip(): boolean {
+    const skipOffset = this._currentAd?.info.skipOffset;
+    return skipOffset !== null && skipOffset !== undefined && this._element.currentTime >= skipOffset;
+  }
+
+  /**
+   * 跳过当前广告
+   */
+  skip(): boolean {
+    if (!this._currentAd || !this.canSkip) return false;
+
+    this.track('skip');
+    this._currentAd.finish('skipped');
+    return true;
+  }
+
+  /**
+   * 点击当前广告：上报点击并打开落地页
+   */
+  click(): void {
+    const current = this._currentAd;
+    if (!current) return;
+
+    this.track('clickTracking');
+    if (current.info.clickThrough && typeof window !== 'undefined') {
+      window.open(current.info.clickThrough, '_blank', 'noopener');
+    }
+  }
+
+  // 事件系统 - 广告事件与内容事件共用播放器的事件发射器
+  on<T extends 'adbreakstart' | 'adbreakend' | 'adstart' | 'adend'>(event: T, listener: VideoEventListener<T>): void {
+    this._player.on(event, listener);
+  }
+
+  off<T extends 'adbreakstart' | 'adbreakend' | 'adstart' | 'adend'>(event: T, listener: VideoEventListener<T>): void {
+    this._player.off(event, listener);
+  }
+
+  /**
+   * 销毁：中止进行中的广告并把元素交还给正片
+   */
+  destroy(): void {
+    if (this._isDestroyed) return;
+
+    this._isDestroyed = true;
+    this._player.off('play', this.handleContentPlay);
+    this._player.off('timeupdate', this.handleContentTimeUpdate);
+    this._player.off('ended', this.handleContentEnded);
+
+    if (this._breakActive) {
+      this.detachAdMedia();
+      this._currentAd = null;
+      this._breakActive = false;
+      this._player.restoreMedia(this._breakContentTime, false);
+    }
+  }
+
+  // 私有方法 - 加载VMAP或手动配置的广告时段
+  private async loadSchedule(): Promise<void> {
+    const { vmap, vast, breaks = [] } = this._options;
+
+    if (vmap) {
+      const document = parseVMAP(isXML(vmap) ? vmap : await this._fetchXML(vmap));
+      if (this._isDestroyed) return;
+
+      document.forEach(adBreak => this._breaks.push({
+        id: adBreak.id,
+        offset: adBreak.offset,
+        vast: adBreak.vast,
+        source: adBreak.adTagUri,
+        played: false
+      }));
+    }
+
+    if (vast) {
+      this._breaks.push({ id: 'preroll', offset: 'start', source: vast, played: false });
+    }
+
+    breaks.forEach((adBreak, index) => this._breaks.push({
+      id: adBreak.id ?? `break-${index}`,
+      offset: adBreak.offset,
+      source: adBreak.vast,
+      played: false
+    }));
+  }
+
+  // 私有方法 - 广告时段在正片中的位置
+  private resolvePosition(offset: AdBreakOffset): { position: VideoAdBreakPosition; time: number } | null {
+    const duration = this._element.duration;
+
+    if (offset === 'start') return { position: 'preroll', time: 0 };
+    if (offset === 'end') return { position: 'postroll', time: Infinity };
+    if (typeof offset === 'number') return { position: 'midroll', time: offset };
+
+    // 百分比位置需要时长
+    if (!Number.isFinite(duration) || duration <= 0) return null;
+    if (offset.percent <= 0) return { position: 'preroll', time: 0 };
+    if (offset.percent >= 100) return { position: 'postroll', time: Infinity };
+    return { position: 'midroll', time: (duration * offset.percent) / 100 };
+  }
+
+  private findBreaks(position: VideoAdBreakPosition): ScheduledBreak[] {
+    return this._breaks.filter(adBreak =>
+      !adBreak.played && this.resolvePosition(adBreak.offset)?.position === position
+    );
+  }
+
+  // 首次播放时插入片头广告
+  private handleContentPlay = async (): Promise<void> => {
+    if (this._contentStarted || this._breakActive) return;
+    this._contentStarted = true;
+
+    if (!this._scheduleLoaded) {
+      this._element.pause();
+      await this._ready;
+      if (this._isDestroyed) return;
+    }
+
+    const preroll = this.findBreaks('preroll')[0];
+    if (preroll) {
+      this.runBreak(preroll, 'preroll');
+    } else if (this._element.paused) {
+      this._player.play().catch(() => {});
+    }
+  };
+
+  // 播放位置越过片中广告时插入；跳转越过多个时只播放最后一个
+  private handleContentTimeUpdate = (event: VideoEventData<'timeupdate'>): void => {
+    if (this._breakActive || !this._scheduleLoaded || this._element.seeking) return;
+
+    const time = event.currentTime;
+    const due = this.findBreaks('midroll').filter(adBreak => this.resolvePosition(adBreak.offset)!.time <= time);
+    if (due.length === 0) return;
+
+    due.forEach(adBreak => {
+      adBreak.played = true;
+    });
+    this.runBreak(due[due.length - 1], 'midroll');
+  };
+
+  // 正片结束时插入片尾广告
+  private handleContentEnded = (): void => {
+    if (this._breakActive || !this._scheduleLoaded) return;
+
+    const postroll = this.findBreaks('postroll')[0];
+    if (postroll) {
+      this.runBreak(postroll, 'postroll');
+    }
+  };
+
+  // 私有方法 - 播放一个广告时段，结束后恢复正片
+  private async runBreak(adBreak: ScheduledBreak, position: VideoAdBreakPosition): Promise<void> {
+    adBreak.played = true;
+    this._breakActive = true;
+    this._breakContentTime = position === 'postroll' ? this._element.duration : this._element.currentTime;
+    const resumeContent = position !== 'postroll';
+
+    this._element.pause();
+
+    let ads: Array<{ ad: VASTAd; media: VASTMediaFile }> = [];
+    try {
+      const document = adBreak.vast ?? (adBreak.source ? await this.loadVAST(adBreak.source) : null);
+      ads = document ? await this.resolveAds(document) : [];
+    } catch (error) {
+      console.warn(`Failed to load ad break '${adBreak.id}':`, error);
+    }
+
+    if (this._isDestroyed) return;
+
+    if (ads.length === 0) {
+      this._breakActive = false;
+      if (resumeContent) {
+        this._player.play().catch(() => {});
+      }
+      return;
+    }
+
+    this.emitAdEvent('adbreakstart', { breakId: adBreak.id, position, adCount: ads.length });
+    this._player.releaseMedia();
+
+    for (let index = 0; index < ads.length; index++) {
+      await this.playAd(adBreak.id, ads[index].ad, ads[index].media, index, ads.length);
+      if (this._isDestroyed) return;
+    }
+
+    this._currentAd = null;
+    this._breakActive = false;
+    this.emitAdEvent('adbreakend', { breakId: adBreak.id, position });
+    this._player.restoreMedia(this._breakContentTime, resumeContent);
+  }
+
+  private async loadVAST(source: string): Promise<VASTDocument> {
+    return parseVAST(isXML(source) ? source : await this._fetchXML(source));
+  }
+
+  // 私有方法 - 展开包装广告，合并追踪地址，并选出可播放的广告组
+  private async resolveAds(document: VASTDocument): Promise<Array<{ ad: VASTAd; media: VASTMediaFile }>> {
+    const ads = await this.unwrap(document, 0, {});
+    if (ads.length === 0) {
+      this.firePixels(document.errors, { ERRORCODE: VAST_ERROR_CODES.noAds });
+    }
+
+    const playable: Array<{ ad: VASTAd; media: VASTMediaFile }> = [];
+    for (const ad of selectAdPod(ads)) {
+      const media = selectMediaFile(ad.mediaFiles, this._element);
+      if (media) {
+        playable.push({ ad, media });
+      } else {
+        this.firePixels(ad.tracking.error, { ERRORCODE: VAST_ERROR_CODES.mediaNotSupported });
+      }
+    }
+    return playable;
+  }
+
+  private async unwrap(
+    document: VASTDocument,
+    depth: number,
+    inherited: VASTAd['tracking'],
+    sequence?: number
+  ): Promise<VASTAd[]> {
+    const ads: VASTAd[] = document.ads.map(ad => ({
+      ...ad,
+      sequence: sequence ?? ad.sequence,
+      tracking: mergeTracking(ad.tracking, inherited)
+    }));
+
+    for (const wrapper of document.wrappers) {
+      const tracking = mergeTracking(inherited, wrapper.tracking);
+      const maxDepth = this._options.maxWrapperDepth ?? DEFAULT_MAX_WRAPPER_DEPTH;
+
+      if (depth >= maxDepth) {
+        this.firePixels(tracking.error, { ERRORCODE: VAST_ERROR_CODES.wrapperLimit });
+        continue;
+      }
+
+      try {
+        const wrapped = await this.loadVAST(wrapper.adTagUri);
+        ads.push(...await this.unwrap(wrapped, depth + 1, tracking, sequence ?? wrapper.sequence));
+      } catch (error) {
+        console.warn(`Failed to resolve ad wrapper '${wrapper.id}':`, error);
+        this.firePixels(tracking.error, { ERRORCODE: VAST_ERROR_CODES.wrapperFailed });
+      }
+    }
+
+    return ads;
+  }
+
+  // 私有方法 - 在元素上播放单个广告，结束（完成、跳过或出错）时resolve
+  private playAd(breakId: string, ad: VASTAd, media: VASTMediaFile, index: number, total: number): Promise<void> {
+    return new Promise(resolve => {
+      const info: VideoAdInfo = {
+        id: ad.id,
+        title: ad.title,
+        duration: ad.duration,
+        skipOffset: ad.skipOffset,
+        clickThrough: ad.clickThrough,
+        mediaUrl: media.url
+      };
+
+      const current: ActiveAd = {
+        ad,
+        info,
+        breakId,
+        started: false,
+        paused: false,
+        quartiles: new Set(),
+        finish: (reason, error) => {
+          if (this._currentAd !== current) return;
+
+          this.detachAdMedia();
+          this._currentAd = null;
+          if (!this._isDestroyed) {
+            this.emitAdEvent('adend', { breakId, ad: info, reason, error });
+          }
+          resolve();
+        }
+      };
+
+      this._currentAd = current;
+      this.emitAdEvent('adstart', { breakId, ad: info, index, total });
+
+      const element = this._element;
+      element.addEventListener('playing', this.handleAdPlaying);
+      element.addEventListener('timeupdate', this.handleAdTimeUpdate);
+      element.addEventListener('pause', this.handleAdPause);
+      element.addEventListener('ended', this.handleAdEnded);
+      element.addEventListener('error', this.handleAdError);
+
+      element.src = media.url;
+      element.load();
+      element.play().catch(error => this.failAd(error));
+    });
+  }
+
+  private detachAdMedia(): void {
+    const element = this._element;
+    element.removeEventListener('playing', this.handleAdPlaying);
+    element.removeEventListener('timeupdate', this.handleAdTimeUpdate);
+    element.removeEventListener('pause', this.handleAdPause);
+    element.removeEventListener('ended', this.handleAdEnded);
+    element.removeEventListener('error', this.handleAdError);
+    element.pause();
+  }
+
+  // 首次开始播放时上报曝光，之后的playing视为从暂停恢复
+  private handleAdPlaying = (): void => {
+    const current = this._currentAd;
+    if (!current) return;
+
+    if (!current.started) {
+      current.started = true;
+      this.track('impression');
+      this.track('start');
+    } else if (current.paused) {
+      current.paused = false;
+      this.track('resume');
+    }
+  };
+
+  private handleAdTimeUpdate = (): void => {
+    const current = this._currentAd;
+    if (!current || !current.started) return;
+
+    const duration = Number.isFinite(this._element.duration) && this._element.duration > 0
+      ? this._element.duration
+      : current.ad.duration;
+    if (duration <= 0) return;
+
+    const progress = this._element.currentTime / duration;
+    const quartiles: Array<[VASTTrackingEvent, number]> = [
+      ['firstQuartile', 0.25],
+      ['midpoint', 0.5],
+      ['thirdQuartile', 0.75]
+    ];
+
+    for (const [event, threshold] of quartiles) {
+      if (progress >= threshold && !current.quartiles.has(event)) {
+        current.quartiles.add(event);
+        this.track(event);
+      }
+    }
+  };
+
+  private handleAdPause = (): void => {
+    const current = this._currentAd;
+    if (!current || !current.started || this._element.ended) return;
+
+    current.paused = true;
+    this.track('pause');
+  };
+
+  private handleAdEnded = (): void => {
+    if (!this._currentAd) return;
+
+    this.track('complete');
+    this._currentAd.finish('complete');
+  };
+
+  private handleAdError = (): void => {
+    const mediaError = this._element.error;
+    this.failAd(mediaError, mediaError?.message || 'Ad media failed');
+  };
+
+  private failAd(error: unknown, message = error instanceof Error ? error.message : 'Ad playback failed'): void {
+    const current = this._currentAd;
+    if (!current) return;
+
+    this.track('error', { ERRORCODE: VAST_ERROR_CODES.mediaFailed });
+    current.finish('error', normalizeVideoError({
+      source: 'ad',
+      error,
+      message,
+      fatal: false,
+      details: { error, adId: current.info.id }
+    }));
+  }
+
+  // 私有方法 - 上报当前广告的追踪事件
+  private track(event: VASTTrackingEvent, macros: Record<string, string | number> = {}): void {
+    const current = this._currentAd;
+    if (!current) return;
+
+    this.firePixels(current.ad.tracking[event], {
+      ADPLAYHEAD: formatVASTTime(this._element.currentTime),
+      ASSETURI: current.info.mediaUrl,
+      ...macros
+    });
+  }
+
+  private firePixels(urls: string[] | undefined, macros: Record<string, string | number> = {}): void {
+    urls?.forEach(url => {
+      this._trackPixel(replaceVASTMacros(url, {
+        TIMESTAMP: new Date().toISOString(),
+        CACHEBUSTING: String(Math.floor(Math.random() * 1e8)).padStart(8, '0'),
+        ...macros
+      }));
+    });
+  }
+
+  private emitAdEvent<T extends 'adbreakstart' | 'adbreakend' | 'adstart' | 'adend'>(
+    type: T,
+    payload: VideoEventData<T>['payload']
+  ): void {
+    this._player.emit(type, {
+      type,
+      timestamp: Date.now(),
+      currentTime: this._breakContentTime,
+      duration: this._element.duration || 0,
+      payload
+    } as VideoEventData<T>);
+  }
+}
+
+// 工厂函数
+export const createAdManager = (player: IVideoPlayer, options: AdManagerOptions): AdManager => {
+  return new AdManager(player, options);
+};
@@ -0,0 +1,741 @@
+// DASH 流媒体播放器 - 基于 Media Source Extensions 的自适应比特率播放
+
+import type {
+  BaseDASHConfig,
+  DASHVideoConfig,
+  VideoQuality,
+  VideoReadyInfo,
+  VideoEventType,
+  VideoSource
+} from './types';
+import { HTML5VideoAPI } from './VideoAPI';
+import { HTTPStatusError, VideoErrorCode, getErrorDefinition, normalizeVideoError } from './ErrorCatalog';
+import type { VideoErrorCodeValue } from './ErrorCatalog';
+import { MPDParseError, parseMPD } from './MPDParser';
+import type { MPDManifest, MPDAdaptationSet, MPDRepresentation, MPDSegment } from './MPDParser';
+
+// DASH特定的质量级别映射
+interface DASHQualityLevel {
+  bitrate: number;
+  width: number;
+  height: number;
+  representationId: string;
+  name: VideoQuality;
+}
+
+// 单条媒体流（视频或音频）的加载状态
+interface DASHStream {
+  adaptationSet: MPDAdaptationSet;
+  representation: MPDRepresentation;
+  sourceBuffer: SourceBuffer;
+  nextSegmentIndex: number;
+  initializedRepresentationId: string | null;
+  loading: boolean;
+  ended: boolean;
+}
+
+// DASH默认配置
+const DEFAULT_DASH_CONFIG: Required<BaseDASHConfig> = {
+  maxBufferLength: 30,
+  backBufferLength: 30,
+  initialBandwidthEstimate: 1000000,
+  abrBandwidthFactor: 0.8,
+  abrEwmaAlpha: 0.3,
+  manifestLoadingTimeOut: 10000,
+  segmentLoadingTimeOut: 20000,
+  segmentLoadingMaxRetry: 3,
+  segmentLoadingRetryDelay: 1000,
+  debug: false
+};
+
+// 调度间隔（毫秒）
+const SCHEDULE_INTERVAL = 500;
+
+// DASH播放器类 - 扩展HTML5VideoAPI
+export class DASHPlayer<T extends Record<string, any> = Record<string, any>>
+  extends HTML5VideoAPI<DASHVideoConfig<T>> {
+
+  private _manifest: MPDManifest | null = null;
+  private _mediaSource: MediaSource | null = null;
+  private _objectUrl: string | null = null;
+  private _streams: DASHStream[] = [];
+  private _qualityLevels: DASHQualityLevel[] = [];
+  private _currentLevel = -1; // -1 表示自动质量
+  private _bandwidthEstimate: number;
+  private _scheduleTimer: ReturnType<typeof setInterval> | null = null;
+  private _abortController: AbortController | null = null;
+  private _dashConfig: typeof DEFAULT_DASH_CONFIG;
+  private _isDestroying = false;
+
+  constructor(element: HTMLVideoElement, config: DASHVideoConfig<T>) {
+    super(element, config);
+
+    this._dashConfig = { ...DEFAULT_DASH_CONFIG, ...(config.dash || {}) };
+    this._bandwidthEstimate = this._dashConfig.initialBandwidthEstimate;
+
+    this.loadSources();
+  }
+
+  // DASH配置就绪后再加载源
+  protected get autoLoadSources(): boolean {
+    return false;
+  }
+
+  // 重写源检查 - 通过MSE播放DASH
+  protected canPlaySource(source: VideoSource): boolean {
+    if (source.type === 'dash') {
+      return isMediaSourceSupported();
+    }
+    return super.canPlaySource(source);
+  }
+
+  // 重写源加载 - DASH源交给MSE管线，其他源回到HTML5播放
+  protected loadSource(source: VideoSource): void {
+    this.teardownDASH();
+
+    if (source.type !== 'dash') {
+      super.loadSource(source);
+      return;
+    }
+
+    this.initializeDASH(source).catch(error => {
+      // 绑定MediaSource或处理质量级别时的异常作为错误事件报告
+      if (this._isDestroying) return;
+      this.handleDASHError(error, VideoErrorCode.MEDIA_PIPELINE_ERROR, { url: source.src });
+    });
+  }
+
+  // 重写ready详情 - MSE管线接管时报告表示数
+  protected getReadyDetails(): Pick<VideoReadyInfo, 'method' | 'levels'> {
+    return this._manifest
+      ? { method: 'mse', levels: this._qualityLevels.length }
+      : super.getReadyDetails();
+  }
+
+  // 重写媒体让渡 - 释放MSE管线，收回时由loadSource重新创建
+  protected detachSource(): void {
+    this.teardownDASH();
+  }
+
+  // 辅助方法 - 发射带有type的事件
+  private emitEvent<E extends VideoEventType>(
+    type: E,
+    payload: any,
+    currentTime?: number,
+    duration?: number
+  ): void {
+    this.emit(type, {
+      type,
+      timestamp: Date.now(),
+      currentTime: currentTime ?? this.element.currentTime,
+      duration: duration ?? (this.element.duration || 0),
+      payload
+    });
+  }
+
+  // 辅助方法 - 调试日志
+  private log(...args: any[]): void {
+    if (this._dashConfig.debug) {
+      console.log('DASH:', ...args);
+    }
+  }
+
+  // 私有方法 - 初始化DASH
+  private async initializeDASH(source: VideoSource): Promise<void> {
+    if (!isMediaSourceSupported()) {
+      this.handleDASHError('MediaSource Extensions not supported', VideoErrorCode.MSE_UNSUPPORTED);
+      return;
+    }
+
+    const controller = new AbortController();
+    this._abortController = controller;
+
+    try {
+      this._manifest = await this.loadManifest(source.src);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        // 清单内容无效归为解析失败，其余（网络、超时、HTTP状态）归为加载失败
+        const code = error instanceof MPDParseError ? VideoErrorCode.MANIFEST_PARSE_FAILED : VideoErrorCode.MANIFEST_LOAD_FAILED;
+        this.handleDASHError(error, code, { url: source.src });
+      }
+      return;
+    }
+
+    // 加载期间源已被切换或播放器已销毁
+    if (controller.signal.aborted) return;
+
+    if (this._manifest.type === 'dynamic') {
+      this.handleDASHError('Dynamic (live) MPD manifests are not supported', VideoErrorCode.LIVE_MANIFEST_UNSUPPORTED);
+      return;
+    }
+
+    this.processQualityLevels();
+    this.attachMediaSource();
+  }
+
+  // 私有方法 - 加载MPD清单
+  private async loadManifest(url: string): Promise<MPDManifest> {
+    const response = await this.fetchWithTimeout(url, this._dashConfig.manifestLoadingTimeOut);
+    if (!response.ok) {
+      throw new HTTPStatusError(response.status, url, `Manifest request failed with status ${response.status}`);
+    }
+
+    const manifest = parseMPD(await response.text(), response.url || url);
+    if (manifest.periods.length === 0) {
+      throw new MPDParseError('MPD manifest has no periods');
+    }
+
+    if (manifest.periods.length > 1) {
+      console.warn('DASH: Multi-period manifests are not supported, only the first period will play');
+    }
+
+    return manifest;
+  }
+
+  // 私有方法 - 带超时的请求
+  private async fetchWithTimeout(url: string, timeout: number): Promise<Response> {
+    const controller = new AbortController();
+    const parentSignal = this._abortController?.signal;
+    const onParentAbort = () => controller.abort();
+    parentSignal?.addEventListener('abort', onParentAbort);
+
+    const timer = setTimeout(() => controller.abort(), timeout);
+    try {
+      return await fetch(url, { signal: controller.signal });
+    } finally {
+      clearTimeout(timer);
+      parentSignal?.removeEventListener('abort', onParentAbort);
+    }
+  }
+
+  // 私有方法 - 处理质量级别
+  private processQualityLevels(): void {
+    const videoSet = this.getPeriod()?.adaptationSets.find(set => set.contentType === 'video');
+    if (!videoSet) return;
+
+    this._qualityLevels = videoSet.representations.map(representation => ({
+      bitrate: representation.bandwidth,
+      width: representation.width || 0,
+      height: representation.height || 0,
+      representationId: representation.id,
+      name: this.getQualityNameFromHeight(representation.height || 0)
+    }));
+
+    // 排序：从高质量到低质量
+    this._qualityLevels.sort((a, b) => b.bitrate - a.bitrate);
+  }
+
+  // 私有方法 - 根据高度获取质量名称
+  private getQualityNameFromHeight(height: number): VideoQuality {
+    if (height >= 2160) return '2160p';
+    if (height >= 1440) return '1440p';
+    if (height >= 1080) return '1080p';
+    if (height >= 720) return '720p';
+    if (height >= 480) return '480p';
+    if (height >= 360) return '360p';
+    return '240p';
+  }
+
+  // 私有方法 - 当前周期（仅支持第一个周期）
+  private getPeriod() {
+    return this._manifest?.periods[0];
+  }
+
+  // 私有方法 - 绑定MediaSource
+  private attachMediaSource(): void {
+    this._mediaSource = new MediaSource();
+    this._objectUrl = URL.createObjectURL(this._mediaSource);
+
+    this._mediaSource.addEventListener('sourceopen', this.handleSourceOpen, { once: true });
+    this.element.src = this._objectUrl;
+  }
+
+  // 私有方法 - MediaSource打开后创建SourceBuffer
+  private handleSourceOpen = (): void => {
+    const mediaSource = this._mediaSource;
+    const period = this.getPeriod();
+    if (!mediaSource || mediaSource !== this._mediaSource || !period || this._isDestroying) return;
+
+    if (this._manifest!.duration > 0) {
+      mediaSource.duration = this._manifest!.duration;
+    }
+
+    const contentTypes: Array<'video' | 'audio'> = ['video', 'audio'];
+    for (const contentType of contentTypes) {
+      const adaptationSet = period.adaptationSets.find(set =>
+        set.contentType === contentType &&
+        set.representations.some(rep => MediaSource.isTypeSupported(this.getMimeCodec(rep)))
+      );
+      if (!adaptationSet) continue;
+
+      const representation = contentType === 'video'
+        ? this.selectVideoRepresentation(adaptationSet)
+        : adaptationSet.representations[adaptationSet.representations.length - 1];
+
+      try {
+        const sourceBuffer = mediaSource.addSourceBuffer(this.getMimeCodec(representation));
+        this._streams.push({
+          adaptationSet,
+          representation,
+          sourceBuffer,
+          nextSegmentIndex: 0,
+          initializedRepresentationId: null,
+          loading: false,
+          ended: false
+        });
+      } catch (error) {
+        this.handleDASHError(error, VideoErrorCode.CODEC_UNSUPPORTED, { mimeType: this.getMimeCodec(representation) });
+        return;
+      }
+    }
+
+    if (this._streams.length === 0) {
+      this.handleDASHError('No playable representations in MPD manifest', VideoErrorCode.CODEC_UNSUPPORTED);
+      return;
+    }
+
+    this.element.addEventListener('seeking', this.handleSeeking);
+    this._scheduleTimer = setInterval(this.scheduleLoading, SCHEDULE_INTERVAL);
+
+    this.scheduleLoading();
+  };
+
+  // 私有方法 - 生成MSE mime类型
+  private getMimeCodec(representation: MPDRepresentation): string {
+    return representation.codecs
+      ? `${representation.mimeType}; codecs="${representation.codecs}"`
+      : representation.mimeType;
+  }
+
+  // 私有方法 - 选择视频表示（手动质量或ABR）
+  private selectVideoRepresentation(adaptationSet: MPDAdaptationSet): MPDRepresentation {
+    const playable = adaptationSet.representations.filter(rep => MediaSource.isTypeSupported(this.getMimeCodec(rep)));
+
+    if (this._currentLevel !== -1) {
+      const level = this._qualityLevels[this._currentLevel];
+      const manual = playable.find(rep => rep.id === level?.representationId);
+      if (manual) return manual;
+    }
+
+    // ABR：选择带宽估计范围内码率最高的表示（representations已按码率升序）
+    const budget = this._bandwidthEstimate * this._dashConfig.abrBandwidthFactor;
+    let selected = playable[0];
+    for (const representation of playable) {
+      if (representation.bandwidth <= budget) {
+        selected = representation;
+      }
+    }
+    return selected;
+  }
+
+  // 私有方法 - 缓冲调度
+  private scheduleLoading = (): void => {
+    // 结束后的MediaSource在追加数据时会重新打开，seek回已清理的范围仍需加载
+    if (this._isDestroying || !this._mediaSource || this._mediaSource.readyState === 'closed') return;
+
+    for (const stream of this._streams) {
+      if (stream.loading || stream.ended) continue;
+
+      if (stream.adaptationSet.contentType === 'video') {
+        this.updateVideoRepresentation(stream);
+      }
+
+      const bufferAhead = this.getBufferAhead(stream.sourceBuffer);
+      if (bufferAhead >= this._dashConfig.maxBufferLength) continue;
+
+      this.loadNextSegment(stream);
+    }
+  };
+
+  // 私有方法 - 根据ABR结果切换视频表示；setQuality调用时由其自行报告质量变更
+  private updateVideoRepresentation(stream: DASHStream, reportChange = true): void {
+    const next = this.selectVideoRepresentation(stream.adaptationSet);
+    if (next.id === stream.representation.id) return;
+
+    const from = this.getQualityNameFromHeight(stream.representation.height || 0);
+    const to = this.getQualityNameFromHeight(next.height || 0);
+    this.log(`switching representation ${stream.representation.id} -> ${next.id}`);
+
+    // 保持时间轴位置，按新表示重新定位分片
+    const position = stream.representation.segments[stream.nextSegmentIndex]?.start ?? this.element.currentTime;
+    stream.representation = next;
+    stream.nextSegmentIndex = this.findSegmentIndex(next.segments, position);
+
+    if (reportChange && this._currentLevel === -1 && from !== to) {
+      this.emitEvent('qualitychange', { from, to });
+    }
+  }
+
+  // 私有方法 - 加载下一个分片
+  private async loadNextSegment(stream: DASHStream): Promise<void> {
+    const { representation } = stream;
+    const segment = representation.segments[stream.nextSegmentIndex];
+
+    if (!segment) {
+      stream.ended = true;
+      this.maybeEndOfStream();
+      return;
+    }
+
+    stream.loading = true;
+
+    try {
+      if (stream.initializedRepresentationId !== representation.id && representation.initialization) {
+        const initData = await this.fetchSegment(representation.initialization);
+        await this.appendBuffer(stream.sourceBuffer, initData);
+        stream.initializedRepresentationId = representation.id;
+      }
+
+      // 等待期间可能发生了seek或质量切换
+      if (stream.representation !== representation || representation.segments[stream.nextSegmentIndex] !== segment) {
+        return;
+      }
+
+      const data = await this.fetchSegment(segment.url, segment);
+      if (stream.representation !== representation || representation.segments[stream.nextSegmentIndex] !== segment) {
+        return;
+      }
+
+      await this.appendBuffer(stream.sourceBuffer, data);
+      stream.nextSegmentIndex++;
+
+      this.trimBackBuffer(stream.sourceBuffer);
+    } catch (error) {
+      // 播放器已销毁或源已切换，丢弃该流的结果
+      if (this._isDestroying || !this._streams.includes(stream)) return;
+
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        // 缓冲区已满，先清理后缓冲再重试
+        this.trimBackBuffer(stream.sourceBuffer, 0);
+        return;
+      }
+
+      this.handleDASHError(error, VideoErrorCode.SEGMENT_LOAD_FAILED, { url: segment.url, representation: representation.id });
+      stream.ended = true;
+    } finally {
+      stream.loading = false;
+    }
+  }
+
+  // 私有方法 - 下载分片（带重试与带宽测量）
+  private async fetchSegment(url: string, segment?: MPDSegment): Promise<ArrayBuffer> {
+    const { segmentLoadingMaxRetry, segmentLoadingRetryDelay, segmentLoadingTimeOut } = this._dashConfig;
+    const signal = this._abortController?.signal;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= segmentLoadingMaxRetry; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, segmentLoadingRetryDelay));
+      }
+      if (signal?.aborted) break;
+
+      try {
+        const startTime = performance.now();
+        const response = await this.fetchWithTimeout(url, segmentLoadingTimeOut);
+        if (!response.ok) {
+          throw new HTTPStatusError(response.status, url, `Segment request failed with status ${response.status}`);
+        }
+
+        const data = await response.arrayBuffer();
+        if (segment) {
+          this.updateBandwidthEstimate(data.byteLength, performance.now() - startTime);
+        }
+        return data;
+      } catch (error) {
+        lastError = error;
+        if (signal?.aborted) {
+          throw error;
+        }
+        this.log(`segment load failed (attempt ${attempt + 1})`, url, error);
+      }
+    }
+
+    throw lastError;
+  }
+
+  // 私有方法 - 更新带宽估计（指数加权移动平均）
+  private updateBandwidthEstimate(bytes: number, elapsedMs: number): void {
+    if (elapsedMs <= 0 || bytes <= 0) return;
+
+    const sample = (bytes * 8 * 1000) / elapsedMs;
+    const alpha = this._dashConfig.abrEwmaAlpha;
+    this._bandwidthEstimate = alpha * sample + (1 - alpha) * this._bandwidthEstimate;
+  }
+
+  // 私有方法 - 追加数据到SourceBuffer
+  private appendBuffer(sourceBuffer: SourceBuffer, data: ArrayBuffer): Promise<void> {
+    return this.runBufferOperation(sourceBuffer, () => sourceBuffer.appendBuffer(data));
+  }
+
+  // 私有方法 - 等待SourceBuffer操作完成
+  private runBufferOperation(sourceBuffer: SourceBuffer, operation: () => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onUpdateEnd = () => {
+        cleanup();
+        resolve();
+      };
+      const onError = () => {
+        cleanup();
+        reject(new Error('SourceBuffer operation failed'));
+      };
+      const cleanup = () => {
+        sourceBuffer.removeEventListener('updateend', onUpdateEnd);
+        sourceBuffer.removeEventListener('error', onError);
+      };
+
+      sourceBuffer.addEventListener('updateend', onUpdateEnd);
+      sourceBuffer.addEventListener('error', onError);
+
+      try {
+        operation();
+      } catch (error) {
+        cleanup();
+        reject(error);
+      }
+    });
+  }
+
+  // 私有方法 - 清理后缓冲
+  private trimBackBuffer(sourceBuffer: SourceBuffer, backBufferLength = this._dashConfig.backBufferLength): void {
+    if (sourceBuffer.updating || sourceBuffer.buffered.length === 0) return;
+
+    const removeEnd = this.element.currentTime - backBufferLength;
+    const bufferStart = sourceBuffer.buffered.start(0);
+    if (removeEnd - bufferStart > 1) {
+      this.runBufferOperation(sourceBuffer, () => sourceBuffer.remove(bufferStart, removeEnd)).catch(error => {
+        this.log('back buffer trim failed', error);
+      });
+    }
+  }
+
+  // 私有方法 - 计算当前位置之后的缓冲时长
+  private getBufferAhead(sourceBuffer: SourceBuffer): number {
+    try {
+      const buffered = sourceBuffer.buffered;
+      const currentTime = this.element.currentTime;
+      for (let i = 0; i < buffered.length; i++) {
+        if (buffered.start(i) <= currentTime + 0.1 && buffered.end(i) > currentTime) {
+          return buffered.end(i) - currentTime;
+        }
+      }
+    } catch (error) {
+      // SourceBuffer已从MediaSource移除
+    }
+    return 0;
+  }
+
+  // 私有方法 - 获取缓冲级别
+  private getBufferLevel(): number {
+    const buffered = this.element.buffered;
+    if (buffered.length === 0) return 0;
+    return Math.max(0, buffered.end(buffered.length - 1) - this.element.currentTime);
+  }
+
+  // 私有方法 - 根据时间查找分片索引
+  private findSegmentIndex(segments: MPDSegment[], time: number): number {
+    const index = segments.findIndex(segment => time < segment.start + segment.duration);
+    return index === -1 ? segments.length : index;
+  }
+
+  // 私有方法 - 处理seek：从新位置已缓冲范围的末尾重新调度
+  private handleSeeking = (): void => {
+    const currentTime = this.element.currentTime;
+
+    for (const stream of this._streams) {
+      const position = currentTime + this.getBufferAhead(stream.sourceBuffer);
+      stream.nextSegmentIndex = this.findSegmentIndex(stream.representation.segments, position);
+      stream.ended = false;
+    }
+
+    this.scheduleLoading();
+  };
+
+  // 私有方法 - 所有流加载完毕时结束MediaSource
+  private maybeEndOfStream(): void {
+    const mediaSource = this._mediaSource;
+    if (!mediaSource || mediaSource.readyState !== 'open') return;
+    if (!this._streams.every(stream => stream.ended && !stream.sourceBuffer.updating)) return;
+
+    try {
+      mediaSource.endOfStream();
+    } catch (error) {
+      this.log('endOfStream failed', error);
+    }
+  }
+
+  // 私有方法 - 处理DASH错误
+  private handleDASHError(
+    error: unknown,
+    code: VideoErrorCodeValue,
+    details: Record<string, any> = {},
+    fatal = true
+  ): void {
+    const videoError = normalizeVideoError({
+      source: 'dash',
+      error,
+      code,
+      fatal,
+      details: {
+        ...details,
+        error
+      }
+    });
+
+    // 致命错误且还有备用源时切换源，否则进入error状态
+    if (fatal) {
+      this.handleFatalError(videoError, getErrorDefinition(code).type === 'src_not_supported' ? 'unsupported' : 'error');
+      return;
+    }
+
+    this.emitEvent('error', videoError);
+  }
+
+  // 重写质量控制方法
+  setQuality(quality: VideoQuality): void {
+    if (this._qualityLevels.length === 0) {
+      super.setQuality(quality);
+      return;
+    }
+
+    const oldQuality = this.getCurrentQuality();
+    if (quality === oldQuality) return;
+
+    if (quality === 'auto') {
+      this._currentLevel = -1;
+    } else {
+      const levelIndex = this._qualityLevels.findIndex(level => level.name === quality);
+      if (levelIndex === -1) return;
+      this._currentLevel = levelIndex;
+    }
+
+    // 立即按新表示调度后续分片
+    const videoStream = this._streams.find(stream => stream.adaptationSet.contentType === 'video');
+    if (videoStream && !videoStream.loading) {
+      this.updateVideoRepresentation(videoStream, false);
+    }
+
+    this.emitEvent('qualitychange', { from: oldQuality, to: quality });
+    this.recordQualityChange();
+  }
+
+  // 重写获取可用质量方法
+  getAvailableQualities(): VideoQuality[] {
+    const qualities: VideoQuality[] = ['auto'];
+
+    if (this._qualityLevels.length > 0) {
+      qualities.push(...this._qualityLevels.map(level => level.name));
+    }
+
+    return [...new Set(qualities)]; // 去重
+  }
+
+  // 获取当前质量
+  getCurrentQuality(): VideoQuality {
+    if (this._currentLevel === -1) {
+      return 'auto';
+    }
+
+    return this._qualityLevels[this._currentLevel]?.name || 'auto';
+  }
+
+  // 重写当前码率 - 视频流当前表示的带宽，用于stats.averageBitrate的时间加权
+  protected getCurrentBitrate(): number {
+    return this._streams.find(stream => stream.adaptationSet.contentType === 'video')?.representation.bandwidth ?? 0;
+  }
+
+  // 获取DASH统计信息
+  getDASHStats(): Record<string, any> {
+    const videoStream = this._streams.find(stream => stream.adaptationSet.contentType === 'video');
+
+    return {
+      isLive: this._manifest?.type === 'dynamic',
+      currentLevel: this._currentLevel,
+      levels: this._qualityLevels,
+      bufferLength: this.getBufferLevel(),
+      currentRepresentation: videoStream?.representation.id ?? null,
+      currentBitrate: this.getCurrentBitrate(),
+      bandwidthEstimate: this._bandwidthEstimate,
+      url: this._manifest?.url
+    };
+  }
+
+  /**
+   * 运行时调整后缓冲时长并立即清理（内存预算回收）
+   */
+  setBackBufferLength(seconds: number): void {
+    this._dashConfig.backBufferLength = seconds;
+    for (const stream of this._streams) {
+      this.trimBackBuffer(stream.sourceBuffer);
+    }
+  }
+
+  // 私有方法 - 释放MSE管线
+  private teardownDASH(): void {
+    if (this._scheduleTimer) {
+      clearInterval(this._scheduleTimer);
+      this._scheduleTimer = null;
+    }
+
+    this._abortController?.abort();
+    this._abortController = null;
+    this.element.removeEventListener('seeking', this.handleSeeking);
+
+    if (this._mediaSource?.readyState === 'open') {
+      try {
+        this._mediaSource.endOfStream();
+      } catch (error) {
+        // 忽略：可能仍有SourceBuffer在更新
+      }
+    }
+    this._mediaSource = null;
+    this._streams = [];
+
+    if (this._objectUrl) {
+      URL.revokeObjectURL(this._objectUrl);
+      this._objectUrl = null;
+    }
+
+    this._manifest = null;
+    this._qualityLevels = [];
+    this._currentLevel = -1;
+  }
+
+  // 重写销毁方法
+  destroy(): void {
+    this._isDestroying = true;
+    this.teardownDASH();
+
+    super.destroy();
+  }
+}
+
+// MSE支持检测
+const isMediaSourceSupported = (): boolean => {
+  return typeof window !== 'undefined' && typeof (window as any).MediaSource === 'function';
+};
+
+// 工厂函数
+export const createDASHPlayer = <T extends Record<string, any>>(
+  element: HTMLVideoElement,
+  config: DASHVideoConfig<T>
+): DASHPlayer<T> => {
+  return new DASHPlayer(element, config);
+};
+
+// 类型守卫
+export const isDASHPlayer = (player: any): player is DASHPlayer => {
+  return player instanceof DASHPlayer;
+};
+
+// DASH支持检测
+export const detectDASHSupport = (): {
+  mse: boolean;
+  supported: boolean;
+} => {
+  const mse = isMediaSourceSupported();
+
+  return {
+    mse,
+    supported: mse
+  };
+};
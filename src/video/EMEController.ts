@@ -0,0 +1,294 @@
+// 加密内容控制器 - 原生EME：请求密钥系统访问、挂载MediaKeys、按encrypted事件建立会话并获取许可证；
+// ClearKey可直接使用本地配置的密钥，无需许可证服务器
+
+import type { DRMConfig, VideoError } from './types';
+import { VideoErrorCode, normalizeVideoError } from './ErrorCatalog';
+import type { VideoErrorCodeValue } from './ErrorCatalog';
+
+export const CLEARKEY_KEY_SYSTEM = 'org.w3.clearkey';
+
+// 未指定时请求的编码能力（fMP4 H.264/AAC）
+const DEFAULT_VIDEO_CONTENT_TYPE = 'video/mp4; codecs="avc1.42E01E"';
+const DEFAULT_AUDIO_CONTENT_TYPE = 'audio/mp4; codecs="mp4a.40.2"';
+
+// 视为失败的密钥状态及其错误码
+const FAILED_KEY_STATUSES: Record<string, VideoErrorCodeValue> = {
+  'internal-error': VideoErrorCode.KEY_INTERNAL_ERROR,
+  'output-restricted': VideoErrorCode.KEY_OUTPUT_RESTRICTED,
+  expired: VideoErrorCode.KEY_EXPIRED
+};
+
+export interface EMEControllerOptions {
+  config: DRMConfig;
+  // 由播放器判定是否走原生EME（hls.js自行处理drmSystems时为false）
+  isEnabled: () => boolean;
+  onError: (error: VideoError) => void;
+}
+
+// 带错误码的EME步骤失败
+class DRMFailure extends Error {
+  constructor(readonly code: VideoErrorCodeValue, message: string, readonly details: Record<string, any> = {}) {
+    super(message);
+  }
+}
+
+// 执行一个EME步骤，失败时标记错误码
+async function step<T>(code: VideoErrorCodeValue, message: string, run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    throw error instanceof DRMFailure ? error : new DRMFailure(code, message, { cause: error });
+  }
+}
+
+function bytesToString(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i]);
+  }
+  return result;
+}
+
+function stringToBuffer(value: string): ArrayBuffer {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(bytesToString(bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * 统一为JWK使用的base64url；打包工具常输出32位十六进制的keyId/key
+ */
+export function normalizeClearKeyId(value: string): string {
+  if (/^[0-9a-f]{32}$/i.test(value)) {
+    const bytes = new Uint8Array(16);
+    for (let i = 0; i < 16; i++) {
+      bytes[i] = parseInt(value.slice(i * 2, i * 2 + 2), 16);
+    }
+    return toBase64Url(bytes);
+  }
+  return value.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * 按ClearKey许可证请求（JSON {kids, type}）从本地密钥生成JWK Set许可证
+ */
+export function createClearKeyLicense(message: ArrayBuffer, keys: Record<string, string>): ArrayBuffer {
+  const request = JSON.parse(bytesToString(new Uint8Array(message))) as { kids?: string[]; type?: string };
+  const available = new Map(
+    Object.entries(keys).map(([kid, key]) => [normalizeClearKeyId(kid), normalizeClearKeyId(key)])
+  );
+
+  const jwks = (request.kids ?? [])
+    .filter(kid => available.has(kid))
+    .map(kid => ({ kty: 'oct', kid, k: available.get(kid)! }));
+
+  if (jwks.length === 0) {
+    throw new DRMFailure(VideoErrorCode.KEY_NOT_FOUND, 'No ClearKey key for requested key IDs', { kids: request.kids });
+  }
+
+  return stringToBuffer(JSON.stringify({ keys: jwks, type: request.type ?? 'temporary' }));
+}
+
+export class EMEController {
+  private _element: HTMLVideoElement;
+  private _options: EMEControllerOptions;
+  private _mediaKeys: Promise<MediaKeys> | null = null;
+  private _hasMediaKeys = false;
+  private _sessions: MediaKeySession[] = [];
+  // 已建立会话的初始化数据（同一PSSH会随每个轨道重复触发encrypted）
+  private _initData = new Set<string>();
+  // 已上报密钥状态错误的会话
+  private _failedSessions = new Set<MediaKeySession>();
+  private _isDestroyed = false;
+
+  constructor(element: HTMLVideoElement, options: EMEControllerOptions) {
+    this._element = element;
+    this._options = options;
+
+    element.addEventListener('encrypted', this.handleEncrypted);
+  }
+
+  get keySystem(): string {
+    return this._options.config.keySystem;
+  }
+
+  get sessionCount(): number {
+    return this._sessions.length;
+  }
+
+  destroy(): void {
+    if (this._isDestroyed) return;
+
+    this._isDestroyed = true;
+    this._element.removeEventListener('encrypted', this.handleEncrypted);
+
+    for (const session of this._sessions) {
+      session.close().catch(() => {});
+    }
+    this._sessions = [];
+    this._initData.clear();
+    this._failedSessions.clear();
+
+    if (this._hasMediaKeys) {
+      this._hasMediaKeys = false;
+      this._element.setMediaKeys(null).catch(() => {});
+    }
+    this._mediaKeys = null;
+  }
+
+  private handleEncrypted = (event: Event): void => {
+    const { initDataType, initData } = event as MediaEncryptedEvent;
+    if (this._isDestroyed || !initData || !this._options.isEnabled()) return;
+
+    const key = `${initDataType}:${toBase64Url(new Uint8Array(initData))}`;
+    if (this._initData.has(key)) return;
+    this._initData.add(key);
+
+    this.createSession(initDataType, initData).catch(this.fail);
+  };
+
+  private async createSession(initDataType: string, initData: ArrayBuffer): Promise<void> {
+    const mediaKeys = await this.getMediaKeys(initDataType);
+    if (this._isDestroyed) return;
+
+    const session = mediaKeys.createSession();
+    this._sessions.push(session);
+    session.addEventListener('message', event => {
+      this.handleMessage(session, event as MediaKeyMessageEvent).catch(this.fail);
+    });
+    session.addEventListener('keystatuseschange', () => this.checkKeyStatuses(session));
+
+    await step(VideoErrorCode.KEY_SESSION_FAILED, 'Failed to generate license request', () =>
+      session.generateRequest(initDataType, initData)
+    );
+  }
+
+  // 所有会话共用一个MediaKeys，首个encrypted事件时创建
+  private getMediaKeys(initDataType: string): Promise<MediaKeys> {
+    if (!this._mediaKeys) {
+      this._mediaKeys = this.setupMediaKeys(initDataType);
+    }
+    return this._mediaKeys;
+  }
+
+  private async setupMediaKeys(initDataType: string): Promise<MediaKeys> {
+    const { config } = this._options;
+
+    if (typeof navigator === 'undefined' || typeof navigator.requestMediaKeySystemAccess !== 'function') {
+      throw new DRMFailure(VideoErrorCode.EME_UNSUPPORTED, 'Encrypted Media Extensions are not supported');
+    }
+
+    const access = await step(VideoErrorCode.KEY_SYSTEM_UNSUPPORTED, `Key system ${config.keySystem} is not supported`, () =>
+      navigator.requestMediaKeySystemAccess(config.keySystem, [this.createKeySystemConfiguration(initDataType)])
+    );
+    const mediaKeys = await step(VideoErrorCode.KEY_SYSTEM_UNSUPPORTED, 'Failed to create MediaKeys', () =>
+      access.createMediaKeys()
+    );
+
+    if (config.serverCertificate) {
+      const certificate = await this.loadServerCertificate(config.serverCertificate);
+      await step(VideoErrorCode.SERVER_CERTIFICATE_FAILED, 'Failed to set server certificate', () =>
+        mediaKeys.setServerCertificate(certificate)
+      );
+    }
+
+    if (this._isDestroyed) return mediaKeys;
+
+    await step(VideoErrorCode.KEY_SESSION_FAILED, 'Failed to attach MediaKeys', () => this._element.setMediaKeys(mediaKeys));
+    this._hasMediaKeys = true;
+    return mediaKeys;
+  }
+
+  private createKeySystemConfiguration(initDataType: string): MediaKeySystemConfiguration {
+    const { videoRobustness = '', audioRobustness = '' } = this._options.config;
+
+    return {
+      initDataTypes: [initDataType],
+      videoCapabilities: [{ contentType: DEFAULT_VIDEO_CONTENT_TYPE, robustness: videoRobustness }],
+      audioCapabilities: [{ contentType: DEFAULT_AUDIO_CONTENT_TYPE, robustness: audioRobustness }],
+      distinctiveIdentifier: 'optional',
+      persistentState: 'optional',
+      sessionTypes: ['temporary']
+    };
+  }
+
+  private async loadServerCertificate(source: string | ArrayBuffer): Promise<ArrayBuffer> {
+    if (typeof source !== 'string') return source;
+
+    const response = await step(VideoErrorCode.SERVER_CERTIFICATE_FAILED, 'Server certificate request failed', () => fetch(source));
+    if (!response.ok) {
+      throw new DRMFailure(VideoErrorCode.SERVER_CERTIFICATE_FAILED, `Server certificate request failed with status ${response.status}`, {
+        status: response.status
+      });
+    }
+    return response.arrayBuffer();
+  }
+
+  private async handleMessage(session: MediaKeySession, event: MediaKeyMessageEvent): Promise<void> {
+    const license = await this.requestLicense(event.message);
+    if (this._isDestroyed) return;
+
+    await step(VideoErrorCode.KEY_SESSION_FAILED, 'Failed to update key session', () => session.update(license));
+  }
+
+  // ClearKey本地密钥直接生成许可证，否则POST原始challenge到许可证服务器
+  private async requestLicense(message: ArrayBuffer): Promise<ArrayBuffer> {
+    const { config } = this._options;
+
+    if (config.clearKeys && config.keySystem === CLEARKEY_KEY_SYSTEM) {
+      return createClearKeyLicense(message, config.clearKeys);
+    }
+
+    if (!config.licenseUrl) {
+      throw new DRMFailure(VideoErrorCode.LICENSE_SERVER_MISSING, 'No license server configured');
+    }
+
+    const url = config.licenseUrl;
+    const response = await step(VideoErrorCode.LICENSE_REQUEST_FAILED, 'License request failed', () =>
+      fetch(url, { method: 'POST', headers: config.headers, body: message })
+    );
+    if (!response.ok) {
+      throw new DRMFailure(VideoErrorCode.LICENSE_REQUEST_FAILED, `License request failed with status ${response.status}`, {
+        status: response.status
+      });
+    }
+    return response.arrayBuffer();
+  }
+
+  private checkKeyStatuses(session: MediaKeySession): void {
+    if (this._isDestroyed || this._failedSessions.has(session)) return;
+
+    session.keyStatuses.forEach((status, keyId) => {
+      const code = FAILED_KEY_STATUSES[status];
+      if (this._failedSessions.has(session) || !code) return;
+
+      this._failedSessions.add(session);
+      const bytes = keyId instanceof ArrayBuffer ? new Uint8Array(keyId) : new Uint8Array(keyId.buffer, keyId.byteOffset, keyId.byteLength);
+      this.fail(new DRMFailure(code, `Key status ${status}`, {
+        keyStatus: status,
+        keyId: toBase64Url(bytes)
+      }));
+    });
+  }
+
+  private fail = (error: unknown): void => {
+    if (this._isDestroyed) return;
+
+    const failure = error instanceof DRMFailure
+      ? error
+      : new DRMFailure(VideoErrorCode.KEY_SESSION_FAILED, error instanceof Error ? error.message : 'EME error', { cause: error });
+
+    this._options.onError(normalizeVideoError({
+      source: 'eme',
+      code: failure.code,
+      message: failure.message,
+      details: { keySystem: this.keySystem, ...failure.details }
+    }));
+  };
+}
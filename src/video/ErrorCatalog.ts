@@ -0,0 +1,359 @@
+// 错误码目录 - 为媒体错误、hls.js错误详情、自动播放拦截、EME失败和HTTP状态分配稳定的错误码，
+// 每个错误码带分类、可否重试和面向用户的消息键；所有播放器通过normalizeVideoError生成VideoError
+
+import type { VideoError, VideoErrorType } from './types';
+
+// 错误码按千位分段：1媒体元素 2播放请求 3加载 4HTTP状态 5媒体管线 6加密内容 9未知
+export const VideoErrorCode = {
+  MEDIA_ABORTED: 1001,
+  MEDIA_NETWORK: 1002,
+  MEDIA_DECODE: 1003,
+  MEDIA_SRC_NOT_SUPPORTED: 1004,
+
+  AUTOPLAY_BLOCKED: 2001,
+  PLAY_INTERRUPTED: 2002,
+  PLAY_FAILED: 2003,
+
+  NETWORK_ERROR: 3000,
+  MANIFEST_LOAD_FAILED: 3001,
+  MANIFEST_LOAD_TIMEOUT: 3002,
+  MANIFEST_PARSE_FAILED: 3003,
+  LIVE_MANIFEST_UNSUPPORTED: 3004,
+  LEVEL_LOAD_FAILED: 3011,
+  LEVEL_LOAD_TIMEOUT: 3012,
+  LEVEL_PARSE_FAILED: 3013,
+  SEGMENT_LOAD_FAILED: 3021,
+  SEGMENT_LOAD_TIMEOUT: 3022,
+  KEY_LOAD_FAILED: 3031,
+  KEY_LOAD_TIMEOUT: 3032,
+  SEGMENT_DECRYPT_FAILED: 3033,
+
+  // 4000 + 状态码；其余4xx/5xx归入HTTP_CLIENT_ERROR/HTTP_SERVER_ERROR
+  HTTP_CLIENT_ERROR: 4400,
+  HTTP_UNAUTHORIZED: 4401,
+  HTTP_FORBIDDEN: 4403,
+  HTTP_NOT_FOUND: 4404,
+  HTTP_REQUEST_TIMEOUT: 4408,
+  HTTP_GONE: 4410,
+  HTTP_TOO_MANY_REQUESTS: 4429,
+  HTTP_SERVER_ERROR: 4500,
+
+  MEDIA_PIPELINE_ERROR: 5000,
+  MSE_UNSUPPORTED: 5001,
+  CODEC_UNSUPPORTED: 5002,
+  BUFFER_APPEND_FAILED: 5003,
+  BUFFER_FULL: 5004,
+  BUFFER_STALLED: 5005,
+  FRAGMENT_PARSE_FAILED: 5006,
+  REMUX_FAILED: 5007,
+
+  EME_UNSUPPORTED: 6001,
+  KEY_SYSTEM_UNSUPPORTED: 6002,
+  LICENSE_SERVER_MISSING: 6003,
+  LICENSE_REQUEST_FAILED: 6004,
+  SERVER_CERTIFICATE_FAILED: 6005,
+  KEY_SESSION_FAILED: 6006,
+  KEY_NOT_FOUND: 6007,
+  KEY_OUTPUT_RESTRICTED: 6008,
+  KEY_EXPIRED: 6009,
+  KEY_INTERNAL_ERROR: 6010,
+
+  UNKNOWN: 9999
+} as const;
+
+export type VideoErrorCodeName = keyof typeof VideoErrorCode;
+export type VideoErrorCodeValue = typeof VideoErrorCode[VideoErrorCodeName];
+
+export interface VideoErrorDefinition {
+  code: VideoErrorCodeValue;
+  name: VideoErrorCodeName;
+  type: VideoErrorType;
+  // 重试（重新加载或换源后重试）可能成功；权限、格式类错误重试无意义
+  retryable: boolean;
+  // 面向用户的消息键，由界面按语言解析
+  messageKey: string;
+}
+
+const define = (
+  name: VideoErrorCodeName,
+  type: VideoErrorType,
+  retryable: boolean,
+  messageKey: string
+): VideoErrorDefinition => ({ code: VideoErrorCode[name], name, type, retryable, messageKey });
+
+const DEFINITIONS: VideoErrorDefinition[] = [
+  define('MEDIA_ABORTED', 'aborted', true, 'video.error.aborted'),
+  define('MEDIA_NETWORK', 'network', true, 'video.error.network'),
+  define('MEDIA_DECODE', 'decode', false, 'video.error.decode'),
+  define('MEDIA_SRC_NOT_SUPPORTED', 'src_not_supported', false, 'video.error.unsupported'),
+
+  define('AUTOPLAY_BLOCKED', 'autoplay_blocked', false, 'video.error.autoplayBlocked'),
+  define('PLAY_INTERRUPTED', 'aborted', true, 'video.error.aborted'),
+  define('PLAY_FAILED', 'unknown', true, 'video.error.playFailed'),
+
+  define('NETWORK_ERROR', 'network', true, 'video.error.network'),
+  define('MANIFEST_LOAD_FAILED', 'network', true, 'video.error.network'),
+  define('MANIFEST_LOAD_TIMEOUT', 'timeout', true, 'video.error.timeout'),
+  define('MANIFEST_PARSE_FAILED', 'manifest', false, 'video.error.manifest'),
+  define('LIVE_MANIFEST_UNSUPPORTED', 'src_not_supported', false, 'video.error.unsupported'),
+  define('LEVEL_LOAD_FAILED', 'network', true, 'video.error.network'),
+  define('LEVEL_LOAD_TIMEOUT', 'timeout', true, 'video.error.timeout'),
+  define('LEVEL_PARSE_FAILED', 'manifest', false, 'video.error.manifest'),
+  define('SEGMENT_LOAD_FAILED', 'network', true, 'video.error.network'),
+  define('SEGMENT_LOAD_TIMEOUT', 'timeout', true, 'video.error.timeout'),
+  define('KEY_LOAD_FAILED', 'network', true, 'video.error.network'),
+  define('KEY_LOAD_TIMEOUT', 'timeout', true, 'video.error.timeout'),
+  define('SEGMENT_DECRYPT_FAILED', 'decode', false, 'video.error.decode'),
+
+  define('HTTP_CLIENT_ERROR', 'http', false, 'video.error.http'),
+  define('HTTP_UNAUTHORIZED', 'http', false, 'video.error.unauthorized'),
+  define('HTTP_FORBIDDEN', 'http', false, 'video.error.forbidden'),
+  define('HTTP_NOT_FOUND', 'http', false, 'video.error.notFound'),
+  define('HTTP_REQUEST_TIMEOUT', 'http', true, 'video.error.timeout'),
+  define('HTTP_GONE', 'http', false, 'video.error.notFound'),
+  define('HTTP_TOO_MANY_REQUESTS', 'http', true, 'video.error.busy'),
+  define('HTTP_SERVER_ERROR', 'http', true, 'video.error.server'),
+
+  define('MEDIA_PIPELINE_ERROR', 'decode', true, 'video.error.decode'),
+  define('MSE_UNSUPPORTED', 'src_not_supported', false, 'video.error.unsupported'),
+  define('CODEC_UNSUPPORTED', 'src_not_supported', false, 'video.error.unsupported'),
+  define('BUFFER_APPEND_FAILED', 'decode', true, 'video.error.decode'),
+  define('BUFFER_FULL', 'decode', true, 'video.error.decode'),
+  define('BUFFER_STALLED', 'network', true, 'video.error.network'),
+  define('FRAGMENT_PARSE_FAILED', 'decode', true, 'video.error.decode'),
+  define('REMUX_FAILED', 'decode', false, 'video.error.decode'),
+
+  define('EME_UNSUPPORTED', 'key_system_unsupported', false, 'video.error.drmUnsupported'),
+  define('KEY_SYSTEM_UNSUPPORTED', 'key_system_unsupported', false, 'video.error.drmUnsupported'),
+  define('LICENSE_SERVER_MISSING', 'license_request_failed', false, 'video.error.license'),
+  define('LICENSE_REQUEST_FAILED', 'license_request_failed', true, 'video.error.license'),
+  define('SERVER_CERTIFICATE_FAILED', 'license_request_failed', true, 'video.error.license'),
+  define('KEY_SESSION_FAILED', 'key_session_failed', false, 'video.error.drm'),
+  define('KEY_NOT_FOUND', 'key_session_failed', false, 'video.error.drm'),
+  define('KEY_OUTPUT_RESTRICTED', 'key_status_error', false, 'video.error.outputRestricted'),
+  define('KEY_EXPIRED', 'key_status_error', false, 'video.error.licenseExpired'),
+  define('KEY_INTERNAL_ERROR', 'key_status_error', false, 'video.error.drm'),
+
+  define('UNKNOWN', 'unknown', false, 'video.error.unknown')
+];
+
+export const VIDEO_ERROR_CATALOG: ReadonlyMap<number, VideoErrorDefinition> =
+  new Map(DEFINITIONS.map(definition => [definition.code, definition]));
+
+// 消息键的默认中文文案
+export const DEFAULT_ERROR_MESSAGES: Record<string, string> = {
+  'video.error.aborted': '视频加载已中断',
+  'video.error.network': '网络连接异常，请稍后重试',
+  'video.error.timeout': '加载超时，请检查网络后重试',
+  'video.error.decode': '视频解码失败',
+  'video.error.unsupported': '当前浏览器不支持该视频格式',
+  'video.error.autoplayBlocked': '浏览器阻止了自动播放，请点击播放',
+  'video.error.playFailed': '播放失败，请重试',
+  'video.error.manifest': '视频清单无效',
+  'video.error.http': '视频请求被拒绝',
+  'video.error.unauthorized': '请登录后观看',
+  'video.error.forbidden': '没有观看该视频的权限',
+  'video.error.notFound': '视频不存在或已下架',
+  'video.error.busy': '服务繁忙，请稍后重试',
+  'video.error.server': '服务器异常，请稍后重试',
+  'video.error.drmUnsupported': '当前浏览器不支持播放加密内容',
+  'video.error.license': '获取播放许可失败',
+  'video.error.drm': '加密内容播放失败',
+  'video.error.outputRestricted': '当前设备或显示器不满足加密内容的输出要求',
+  'video.error.licenseExpired': '播放许可已过期',
+  'video.error.unknown': '播放出现未知错误'
+};
+
+// hls.js ErrorDetails到错误码的映射
+const HLS_ERROR_CODES: Record<string, VideoErrorCodeValue> = {
+  manifestLoadError: VideoErrorCode.MANIFEST_LOAD_FAILED,
+  manifestLoadTimeOut: VideoErrorCode.MANIFEST_LOAD_TIMEOUT,
+  manifestParsingError: VideoErrorCode.MANIFEST_PARSE_FAILED,
+  manifestIncompatibleCodecsError: VideoErrorCode.CODEC_UNSUPPORTED,
+  levelEmptyError: VideoErrorCode.LEVEL_PARSE_FAILED,
+  levelLoadError: VideoErrorCode.LEVEL_LOAD_FAILED,
+  levelLoadTimeOut: VideoErrorCode.LEVEL_LOAD_TIMEOUT,
+  levelParsingError: VideoErrorCode.LEVEL_PARSE_FAILED,
+  audioTrackLoadError: VideoErrorCode.LEVEL_LOAD_FAILED,
+  audioTrackLoadTimeOut: VideoErrorCode.LEVEL_LOAD_TIMEOUT,
+  subtitleTrackLoadError: VideoErrorCode.LEVEL_LOAD_FAILED,
+  subtitleTrackLoadTimeOut: VideoErrorCode.LEVEL_LOAD_TIMEOUT,
+  fragLoadError: VideoErrorCode.SEGMENT_LOAD_FAILED,
+  fragLoadTimeOut: VideoErrorCode.SEGMENT_LOAD_TIMEOUT,
+  fragParsingError: VideoErrorCode.FRAGMENT_PARSE_FAILED,
+  fragDecryptError: VideoErrorCode.SEGMENT_DECRYPT_FAILED,
+  keyLoadError: VideoErrorCode.KEY_LOAD_FAILED,
+  keyLoadTimeOut: VideoErrorCode.KEY_LOAD_TIMEOUT,
+  bufferAddCodecError: VideoErrorCode.CODEC_UNSUPPORTED,
+  bufferIncompatibleCodecsError: VideoErrorCode.CODEC_UNSUPPORTED,
+  bufferAppendError: VideoErrorCode.BUFFER_APPEND_FAILED,
+  bufferAppendingError: VideoErrorCode.BUFFER_APPEND_FAILED,
+  bufferFullError: VideoErrorCode.BUFFER_FULL,
+  bufferStalledError: VideoErrorCode.BUFFER_STALLED,
+  bufferNudgeOnStall: VideoErrorCode.BUFFER_STALLED,
+  bufferSeekOverHole: VideoErrorCode.BUFFER_STALLED,
+  remuxAllocError: VideoErrorCode.REMUX_FAILED,
+  keySystemNoKeys: VideoErrorCode.KEY_NOT_FOUND,
+  keySystemNoAccess: VideoErrorCode.KEY_SYSTEM_UNSUPPORTED,
+  keySystemNoSession: VideoErrorCode.KEY_SESSION_FAILED,
+  keySystemNoConfiguredLicense: VideoErrorCode.LICENSE_SERVER_MISSING,
+  keySystemLicenseRequestFailed: VideoErrorCode.LICENSE_REQUEST_FAILED,
+  keySystemServerCertificateRequestFailed: VideoErrorCode.SERVER_CERTIFICATE_FAILED,
+  keySystemServerCertificateUpdateFailed: VideoErrorCode.SERVER_CERTIFICATE_FAILED,
+  keySystemSessionUpdateFailed: VideoErrorCode.KEY_SESSION_FAILED,
+  keySystemStatusOutputRestricted: VideoErrorCode.KEY_OUTPUT_RESTRICTED,
+  keySystemStatusInternalError: VideoErrorCode.KEY_INTERNAL_ERROR
+};
+
+// 未识别的hls.js错误详情按错误类型归类
+const HLS_ERROR_TYPE_CODES: Record<string, VideoErrorCodeValue> = {
+  networkError: VideoErrorCode.NETWORK_ERROR,
+  mediaError: VideoErrorCode.MEDIA_PIPELINE_ERROR,
+  muxError: VideoErrorCode.REMUX_FAILED,
+  keySystemError: VideoErrorCode.KEY_SESSION_FAILED
+};
+
+// 请求被超时中止时对应的超时错误码
+const TIMEOUT_CODES: Partial<Record<VideoErrorCodeValue, VideoErrorCodeValue>> = {
+  [VideoErrorCode.MANIFEST_LOAD_FAILED]: VideoErrorCode.MANIFEST_LOAD_TIMEOUT,
+  [VideoErrorCode.LEVEL_LOAD_FAILED]: VideoErrorCode.LEVEL_LOAD_TIMEOUT,
+  [VideoErrorCode.SEGMENT_LOAD_FAILED]: VideoErrorCode.SEGMENT_LOAD_TIMEOUT,
+  [VideoErrorCode.KEY_LOAD_FAILED]: VideoErrorCode.KEY_LOAD_TIMEOUT
+};
+
+// 带HTTP状态的请求失败，由加载器抛出以便映射到HTTP错误码
+export class HTTPStatusError extends Error {
+  constructor(readonly status: number, readonly url: string, message = `Request failed with status ${status}`) {
+    super(message);
+    this.name = 'HTTPStatusError';
+  }
+}
+
+// 错误来源决定如何解读原始错误
+export type VideoErrorSource = 'media' | 'play' | 'hls' | 'dash' | 'eme' | 'ad';
+
+export interface VideoErrorInput {
+  source: VideoErrorSource;
+  // 原始错误：MediaError、play()的DOMException、hls.js错误数据、HTTPStatusError等
+  error?: unknown;
+  // 从原始错误无法识别时使用的错误码，也用于区分请求的资源（清单、分片、许可证）
+  code?: VideoErrorCodeValue;
+  message?: string;
+  fatal?: boolean;
+  details?: Record<string, any>;
+}
+
+/**
+ * 查询错误码定义，未收录的错误码视为UNKNOWN
+ */
+export function getErrorDefinition(code: number): VideoErrorDefinition {
+  return VIDEO_ERROR_CATALOG.get(code) ?? VIDEO_ERROR_CATALOG.get(VideoErrorCode.UNKNOWN)!;
+}
+
+/**
+ * HTTP状态码对应的错误码
+ */
+export function getHTTPErrorCode(status: number): VideoErrorCodeValue {
+  const code = 4000 + status;
+  if (VIDEO_ERROR_CATALOG.has(code)) return code as VideoErrorCodeValue;
+  return status >= 500 ? VideoErrorCode.HTTP_SERVER_ERROR : VideoErrorCode.HTTP_CLIENT_ERROR;
+}
+
+/**
+ * 按消息键取面向用户的文案
+ */
+export function getErrorMessage(
+  error: Pick<VideoError, 'code' | 'messageKey'>,
+  messages: Record<string, string> = DEFAULT_ERROR_MESSAGES
+): string {
+  // 未经normalizeVideoError生成的错误按错误码查询消息键
+  const messageKey = error.messageKey ?? getErrorDefinition(error.code).messageKey;
+  return messages[messageKey] ?? messages['video.error.unknown'] ?? messageKey;
+}
+
+const getErrorName = (error: unknown): string | undefined =>
+  typeof error === 'object' && error !== null && typeof (error as { name?: unknown }).name === 'string'
+    ? (error as { name: string }).name
+    : undefined;
+
+const getHTTPStatus = (input: VideoErrorInput): number | undefined => {
+  const { error } = input;
+  if (error instanceof HTTPStatusError) return error.status;
+
+  // hls.js网络错误的response.code为HTTP状态，0表示请求未完成
+  const responseCode = input.source === 'hls' ? (error as any)?.response?.code : undefined;
+  const status = typeof responseCode === 'number' ? responseCode : input.details?.status;
+  return typeof status === 'number' && status >= 400 ? status : undefined;
+};
+
+const resolveCode = (input: VideoErrorInput): VideoErrorCodeValue => {
+  const { source, error } = input;
+  const name = getErrorName(error);
+
+  if (source === 'media' || (source === 'ad' && typeof (error as MediaError | null)?.code === 'number')) {
+    const mediaCode = (error as MediaError | null)?.code;
+    if (mediaCode && mediaCode >= 1 && mediaCode <= 4) return (1000 + mediaCode) as VideoErrorCodeValue;
+  }
+
+  if (source === 'play') {
+    switch (name) {
+      case 'NotAllowedError': return VideoErrorCode.AUTOPLAY_BLOCKED;
+      case 'AbortError': return VideoErrorCode.PLAY_INTERRUPTED;
+      case 'NotSupportedError': return VideoErrorCode.MEDIA_SRC_NOT_SUPPORTED;
+      default: return input.code ?? VideoErrorCode.PLAY_FAILED;
+    }
+  }
+
+  if (source === 'hls' && typeof error === 'object' && error !== null) {
+    const { type, details } = error as { type?: string; details?: string };
+    const code = (details && HLS_ERROR_CODES[details]) || (type && HLS_ERROR_TYPE_CODES[type]);
+    if (code) return code;
+  }
+
+  // fetch被超时中止
+  if ((name === 'AbortError' || name === 'TimeoutError') && input.code && TIMEOUT_CODES[input.code]) {
+    return TIMEOUT_CODES[input.code]!;
+  }
+
+  return input.code ?? VideoErrorCode.UNKNOWN;
+};
+
+const resolveMessage = (input: VideoErrorInput, definition: VideoErrorDefinition): string => {
+  if (input.message) return input.message;
+
+  const { error } = input;
+  if (typeof error === 'string') return error;
+  if (error instanceof Error && error.message) return error.message;
+  if (input.source === 'hls' && typeof (error as any)?.details === 'string') return (error as any).details;
+  if (typeof (error as MediaError | null)?.message === 'string' && (error as MediaError).message) {
+    return (error as MediaError).message;
+  }
+  return definition.name;
+};
+
+/**
+ * 统一的错误映射：识别原始错误得到错误码；带HTTP状态时以HTTP错误码为准，
+ * 原资源错误码保留在details.resourceCode中
+ */
+export function normalizeVideoError(input: VideoErrorInput): VideoError & Required<Pick<VideoError, 'retryable' | 'messageKey'>> {
+  const resourceCode = resolveCode(input);
+  const httpStatus = getHTTPStatus(input);
+  const code = httpStatus !== undefined ? getHTTPErrorCode(httpStatus) : resourceCode;
+  const definition = getErrorDefinition(code);
+
+  return {
+    type: definition.type,
+    code,
+    message: resolveMessage(input, definition),
+    timestamp: Date.now(),
+    fatal: input.fatal ?? true,
+    retryable: definition.retryable,
+    messageKey: definition.messageKey,
+    ...(httpStatus !== undefined && { httpStatus }),
+    details: {
+      source: input.source,
+      ...(httpStatus !== undefined && { resourceCode }),
+      ...input.details
+    }
+  };
+}
@@ -0,0 +1,474 @@
+// 跨标签页/跨框架事件桥 - 通过可替换的传输层（BroadcastChannel、postMessage）在EventDelegate与远端之间
+// 镜像事件，校验来源和事件结构，并支持请求/响应式命令（如父页面暂停所有播放器）
+
+import type { EventDelegate, EmitterListener } from './EventEmitter';
+import type {
+  IVideoPlayer,
+  VideoError,
+  VideoEventData,
+  VideoEventMap,
+  VideoEventType,
+  VideoPluginEventMap,
+  VideoSource
+} from './types';
+import { isVideoFormat, isVideoQuality } from './types';
+import { toSerializable } from './EventRecorder';
+
+export const BRIDGE_PROTOCOL = 'video-event-bridge';
+export const BRIDGE_VERSION = 1;
+
+interface BridgeEnvelope {
+  protocol: typeof BRIDGE_PROTOCOL;
+  version: typeof BRIDGE_VERSION;
+  // 发送方标识，用于忽略自己的消息和定向命令
+  peer: string;
+}
+
+export interface BridgeEventMessage extends BridgeEnvelope {
+  kind: 'event';
+  event: string;
+  data: VideoEventData;
+}
+
+export interface BridgeCommandMessage extends BridgeEnvelope {
+  kind: 'command';
+  id: string;
+  command: string;
+  args?: unknown;
+  // 只由该远端执行，未指定时所有远端都可响应
+  target?: string;
+}
+
+export interface BridgeResponseMessage extends BridgeEnvelope {
+  kind: 'response';
+  id: string;
+  // 发起请求的远端
+  to: string;
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+export type BridgeMessage = BridgeEventMessage | BridgeCommandMessage | BridgeResponseMessage;
+
+// 传输接口
+export interface BridgeTransport {
+  send(message: BridgeMessage): void;
+  // origin为null表示传输层不提供来源；返回取消监听的函数
+  listen(handler: (message: unknown, origin: string | null) => void): () => void;
+  close?(): void;
+}
+
+export interface BridgeCommandContext {
+  peer: string;
+  origin: string | null;
+}
+
+export type BridgeCommandHandler = (args: unknown, context: BridgeCommandContext) => unknown;
+
+export interface BridgeCommandResult<T = unknown> {
+  peer: string;
+  ok: boolean;
+  result?: T;
+  error?: string;
+}
+
+export interface BridgeRequestOptions {
+  // 只发给指定远端，收到它的响应即完成
+  target?: string;
+  // 等待响应的时长（毫秒）
+  timeout?: number;
+  // 收到该数量的响应后提前完成，默认等到超时
+  expect?: number;
+}
+
+export interface EventBridgeOptions {
+  transport: BridgeTransport;
+  // 镜像的事件类型（发出和接收都过滤），默认全部内置事件；插件事件需在此列出才会被接收
+  events?: VideoEventType[];
+  // 接受的消息来源，'*'表示任意；默认只接受同源或传输层不提供来源的消息
+  allowedOrigins?: string[];
+  peerId?: string;
+  // 本端响应的命令
+  commands?: Record<string, BridgeCommandHandler>;
+  // 默认请求超时（毫秒）
+  timeout?: number;
+  // 远端事件在发射到全局发射器之前回调，可获知来源
+  onRemoteEvent?: (data: VideoEventData, peer: string) => void;
+}
+
+export const DEFAULT_BRIDGE_OPTIONS = {
+  timeout: 3000
+} as const;
+
+const VIDEO_EVENT_PREFIX = 'video:';
+
+// BroadcastChannel传输 - 同源的多个标签页/窗口
+export class BroadcastChannelTransport implements BridgeTransport {
+  private _channel: BroadcastChannel;
+
+  constructor(name = BRIDGE_PROTOCOL) {
+    this._channel = new BroadcastChannel(name);
+  }
+
+  send(message: BridgeMessage): void {
+    this._channel.postMessage(message);
+  }
+
+  listen(handler: (message: unknown, origin: string | null) => void): () => void {
+    const onMessage = (event: MessageEvent) => handler(event.data, event.origin || null);
+    this._channel.addEventListener('message', onMessage);
+    return () => this._channel.removeEventListener('message', onMessage);
+  }
+
+  close(): void {
+    this._channel.close();
+  }
+}
+
+export interface PostMessageTransportOptions {
+  // 发送时的targetOrigin，跨域嵌入时应指定对方的源而不是'*'
+  targetOrigin: string;
+  // 接收消息的窗口，默认当前窗口
+  source?: Window;
+}
+
+// postMessage传输 - 父页面与iframe之间，只接收来自目标窗口的消息
+export class PostMessageTransport implements BridgeTransport {
+  private _target: Window;
+  private _targetOrigin: string;
+  private _source: Window;
+
+  constructor(target: Window, options: PostMessageTransportOptions) {
+    this._target = target;
+    this._targetOrigin = options.targetOrigin;
+    this._source = options.source ?? window;
+  }
+
+  send(message: BridgeMessage): void {
+    this._target.postMessage(message, this._targetOrigin);
+  }
+
+  listen(handler: (message: unknown, origin: string | null) => void): () => void {
+    const onMessage = (event: MessageEvent) => {
+      if (event.source && event.source !== this._target) return;
+      handler(event.data, event.origin || null);
+    };
+    this._source.addEventListener('message', onMessage);
+    return () => this._source.removeEventListener('message', onMessage);
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// 内置事件类型，Record保证与VideoEventType的内置成员保持一致
+const BUILTIN_EVENT_TYPES: Record<Exclude<VideoEventType, keyof VideoPluginEventMap>, true> = {
+  loadstart: true, loadedmetadata: true, loadeddata: true, canplay: true, canplaythrough: true,
+  play: true, playing: true, pause: true, seeking: true, seeked: true, waiting: true,
+  timeupdate: true, progress: true, volumechange: true, ratechange: true, ended: true,
+  error: true, stalled: true, suspend: true, abort: true, emptied: true, durationchange: true,
+  qualitychange: true, fullscreenchange: true, pip: true, buffering: true, ready: true,
+  sourcechange: true, recovering: true, recovered: true, recoveryfailed: true,
+  texttrackchange: true, cuechange: true, audiotrackchange: true, chapterchange: true, cuepoint: true,
+  adbreakstart: true, adbreakend: true, adstart: true, adend: true, liveedge: true, behindlive: true
+};
+
+const isVideoErrorData = (value: unknown): value is VideoError =>
+  isRecord(value) &&
+  typeof value.type === 'string' &&
+  isFiniteNumber(value.code) &&
+  typeof value.message === 'string' &&
+  isFiniteNumber(value.timestamp) &&
+  typeof value.fatal === 'boolean';
+
+const isVideoSourceData = (value: unknown): value is VideoSource =>
+  isRecord(value) && typeof value.src === 'string' && isVideoFormat(value.type);
+
+// 按事件类型校验payload结构，未列出的类型只要求payload存在
+const PAYLOAD_VALIDATORS: Partial<Record<VideoEventType, (payload: unknown) => boolean>> = {
+  error: isVideoErrorData,
+  qualitychange: payload => isRecord(payload) && isVideoQuality(payload.from) && isVideoQuality(payload.to),
+  sourcechange: payload => isRecord(payload) &&
+    (payload.from === null || isVideoSourceData(payload.from)) &&
+    isVideoSourceData(payload.to) &&
+    (payload.reason === 'error' || payload.reason === 'unsupported') &&
+    isFiniteNumber(payload.index) &&
+    (payload.error === undefined || isVideoErrorData(payload.error)),
+  timeupdate: payload => isRecord(payload) && isFiniteNumber(payload.currentTime) && isFiniteNumber(payload.duration),
+  volumechange: payload => isRecord(payload) &&
+    isFiniteNumber(payload.volume) && payload.volume >= 0 && payload.volume <= 1 &&
+    typeof payload.muted === 'boolean',
+  ratechange: payload => isRecord(payload) && isFiniteNumber(payload.rate) && typeof payload.preservesPitch === 'boolean'
+};
+
+/**
+ * 校验远端事件数据结构：type为内置事件或customTypes中的插件事件且与事件名一致，
+ * 时间字段为有限数值，payload符合该事件类型的结构
+ */
+export function isValidVideoEventData(
+  event: string,
+  data: unknown,
+  customTypes?: ReadonlySet<string> | null
+): data is VideoEventData {
+  if (!isRecord(data) || typeof data.type !== 'string' || event !== `${VIDEO_EVENT_PREFIX}${data.type}`) return false;
+
+  const type = data.type;
+  const known = Object.prototype.hasOwnProperty.call(BUILTIN_EVENT_TYPES, type) || !!customTypes?.has(type);
+  if (!known) return false;
+
+  const validatePayload = PAYLOAD_VALIDATORS[type as VideoEventType];
+  return isFiniteNumber(data.timestamp) &&
+    isFiniteNumber(data.currentTime) &&
+    isFiniteNumber(data.duration) &&
+    'payload' in data &&
+    (!validatePayload || validatePayload(data.payload));
+}
+
+// 消息外层结构校验，其他库的postMessage消息不属于本协议
+const isBridgeEnvelope = (message: unknown): message is Record<string, any> & BridgeEnvelope =>
+  isRecord(message) && message.protocol === BRIDGE_PROTOCOL;
+
+const isValidMessage = (message: Record<string, any>, customTypes: ReadonlySet<string> | null): message is BridgeMessage => {
+  if (message.version !== BRIDGE_VERSION || typeof message.peer !== 'string') return false;
+
+  switch (message.kind) {
+    case 'event':
+      return typeof message.event === 'string' && isValidVideoEventData(message.event, message.data, customTypes);
+    case 'command':
+      return typeof message.id === 'string' &&
+        typeof message.command === 'string' &&
+        (message.target === undefined || typeof message.target === 'string');
+    case 'response':
+      return typeof message.id === 'string' && typeof message.to === 'string' && typeof message.ok === 'boolean';
+    default:
+      return false;
+  }
+};
+
+interface PendingRequest {
+  command: string;
+  responses: BridgeCommandResult[];
+  expect: number;
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (responses: BridgeCommandResult[]) => void;
+  reject: (error: Error) => void;
+}
+
+export class EventBridge {
+  private _delegate: EventDelegate<VideoEventMap>;
+  private _transport: BridgeTransport;
+  private _options: EventBridgeOptions;
+  private _peerId: string;
+  private _events: Set<string> | null;
+  private _commands = new Map<string, BridgeCommandHandler>();
+  private _pending = new Map<string, PendingRequest>();
+  private _sequence = 0;
+  // 正在把远端事件发射到全局发射器，此时不再回传
+  private _relaying = false;
+  private _unlisten: () => void;
+
+  constructor(delegate: EventDelegate<VideoEventMap>, options: EventBridgeOptions) {
+    this._delegate = delegate;
+    this._transport = options.transport;
+    this._options = options;
+    this._peerId = options.peerId ?? `peer_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+    this._events = options.events ? new Set(options.events) : null;
+
+    Object.entries(options.commands ?? {}).forEach(([name, handler]) => this.handle(name, handler));
+
+    delegate.getGlobalEmitter().on(`${VIDEO_EVENT_PREFIX}*`, this.handleLocalEvent);
+    this._unlisten = this._transport.listen(this.handleMessage);
+  }
+
+  get peerId(): string {
+    return this._peerId;
+  }
+
+  /**
+   * 注册本端响应的命令，返回注销函数
+   */
+  handle(command: string, handler: BridgeCommandHandler): () => void {
+    this._commands.set(command, handler);
+    return () => {
+      if (this._commands.get(command) === handler) this._commands.delete(command);
+    };
+  }
+
+  /**
+   * 向远端发送命令并收集响应；超时仍没有任何响应时拒绝
+   */
+  request<T = unknown>(
+    command: string,
+    args?: unknown,
+    options: BridgeRequestOptions = {}
+  ): Promise<BridgeCommandResult<T>[]> {
+    const id = `${this._peerId}:${++this._sequence}`;
+    const timeout = options.timeout ?? this._options.timeout ?? DEFAULT_BRIDGE_OPTIONS.timeout;
+
+    return new Promise<BridgeCommandResult<T>[]>((resolve, reject) => {
+      const pending: PendingRequest = {
+        command,
+        responses: [],
+        expect: options.target ? 1 : options.expect ?? Infinity,
+        timer: setTimeout(() => this.settle(id), timeout),
+        resolve: resolve as PendingRequest['resolve'],
+        reject
+      };
+      this._pending.set(id, pending);
+
+      this.send({ kind: 'command', id, command, args: toSerializable(args), target: options.target });
+    });
+  }
+
+  destroy(): void {
+    this._delegate.getGlobalEmitter().off(`${VIDEO_EVENT_PREFIX}*`, this.handleLocalEvent);
+    this._unlisten();
+    this._transport.close?.();
+
+    for (const [id, pending] of this._pending) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(`Event bridge destroyed before '${pending.command}' completed`));
+      this._pending.delete(id);
+    }
+    this._commands.clear();
+  }
+
+  private send(message: Omit<BridgeEventMessage, keyof BridgeEnvelope> |
+    Omit<BridgeCommandMessage, keyof BridgeEnvelope> |
+    Omit<BridgeResponseMessage, keyof BridgeEnvelope>): void {
+    try {
+      this._transport.send({
+        protocol: BRIDGE_PROTOCOL,
+        version: BRIDGE_VERSION,
+        peer: this._peerId,
+        ...message
+      } as BridgeMessage);
+    } catch (error) {
+      console.warn('Failed to send event bridge message:', error);
+    }
+  }
+
+  private isAllowedOrigin(origin: string | null): boolean {
+    const allowed = this._options.allowedOrigins;
+    if (!allowed) {
+      return origin === null || typeof location === 'undefined' || origin === location.origin;
+    }
+    return allowed.includes('*') || (origin !== null && allowed.includes(origin));
+  }
+
+  private isMirrored(event: string): boolean {
+    return this._events === null || this._events.has(event.slice(VIDEO_EVENT_PREFIX.length));
+  }
+
+  private handleLocalEvent: EmitterListener<VideoEventData, keyof VideoEventMap> = (data, control) => {
+    const event = String(control.name);
+    if (this._relaying || !this.isMirrored(event)) return;
+
+    this.send({ kind: 'event', event, data: toSerializable(data) });
+  };
+
+  private handleMessage = (message: unknown, origin: string | null): void => {
+    if (!isBridgeEnvelope(message) || message.peer === this._peerId) return;
+
+    if (!this.isAllowedOrigin(origin)) {
+      console.warn(`Rejected event bridge message from disallowed origin '${origin}'`);
+      return;
+    }
+    if (!isValidMessage(message, this._events)) {
+      console.warn('Rejected malformed event bridge message:', message);
+      return;
+    }
+
+    switch (message.kind) {
+      case 'event':
+        this.receiveEvent(message);
+        break;
+      case 'command':
+        this.receiveCommand(message, origin);
+        break;
+      case 'response':
+        this.receiveResponse(message);
+        break;
+    }
+  };
+
+  private receiveEvent(message: BridgeEventMessage): void {
+    if (!this.isMirrored(message.event)) return;
+
+    this._options.onRemoteEvent?.(message.data, message.peer);
+    this._relaying = true;
+    try {
+      // isValidVideoEventData已校验data.type与事件名一致
+      const event = message.event as keyof VideoEventMap;
+      this._delegate.getGlobalEmitter().emit(event, message.data as VideoEventMap[typeof event]);
+    } finally {
+      this._relaying = false;
+    }
+  }
+
+  // 没有对应处理器时不响应，由其他远端处理
+  private async receiveCommand(message: BridgeCommandMessage, origin: string | null): Promise<void> {
+    if (message.target !== undefined && message.target !== this._peerId) return;
+
+    const handler = this._commands.get(message.command);
+    if (!handler) return;
+
+    const reply = { kind: 'response' as const, id: message.id, to: message.peer };
+    try {
+      const result = await handler(message.args, { peer: message.peer, origin });
+      this.send({ ...reply, ok: true, result: toSerializable(result) });
+    } catch (error) {
+      this.send({ ...reply, ok: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private receiveResponse(message: BridgeResponseMessage): void {
+    const pending = message.to === this._peerId ? this._pending.get(message.id) : undefined;
+    if (!pending) return;
+
+    pending.responses.push({ peer: message.peer, ok: message.ok, result: message.result, error: message.error });
+    if (pending.responses.length >= pending.expect) {
+      this.settle(message.id);
+    }
+  }
+
+  private settle(id: string): void {
+    const pending = this._pending.get(id);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this._pending.delete(id);
+    if (pending.responses.length > 0) {
+      pending.resolve(pending.responses);
+    } else {
+      pending.reject(new Error(`Event bridge command '${pending.command}' timed out`));
+    }
+  }
+}
+
+/**
+ * 常用播放器命令：pause/play作用于全部播放器并返回数量，status返回各播放器状态
+ */
+export function createPlayerCommands(getPlayers: () => IVideoPlayer[]): Record<string, BridgeCommandHandler> {
+  return {
+    pause: () => {
+      const players = getPlayers();
+      players.forEach(player => player.pause());
+      return players.length;
+    },
+    play: async () => {
+      const results = await Promise.allSettled(getPlayers().map(player => player.play()));
+      return results.filter(result => result.status === 'fulfilled').length;
+    },
+    status: () => getPlayers().map(player => ({
+      state: player.state,
+      currentTime: player.element.currentTime || 0,
+      duration: player.element.duration || 0,
+      paused: player.element.paused
+    }))
+  };
+}
@@ -6,34 +6,91 @@ import type {
   VideoEventData,
   VideoEventListeners,
   VideoEventMap,
-  VideoEventName
+  VideoEventName,
+  VideoEventControl,
+  VideoEventListenerOptions,
+  VideoEmitMode
 } from './types';
 
+// 通配事件名：'*' 匹配所有事件，'video:*' 匹配该命名空间下的事件
+export type WildcardEventName = '*' | `${string}:*`;
+
+// 发射器监听器，第二个参数用于传播控制；返回值为thenable时emitAsync会等待它
+export type EmitterListener<T, K extends PropertyKey = PropertyKey> = (
+  data: T,
+  control: VideoEventControl<K>
+) => void;
+
+interface ListenerEntry {
+  key: PropertyKey;
+  listener: Function;
+  priority: number;
+  once: boolean;
+  // 全局注册序号，同优先级按注册顺序执行
+  order: number;
+  removed: boolean;
+  // 移除时解除AbortSignal的监听
+  cleanup?: () => void;
+}
+
+const isWildcard = (key: PropertyKey): key is WildcardEventName =>
+  typeof key === 'string' && key.endsWith('*');
+
+const matchesWildcard = (pattern: WildcardEventName, event: PropertyKey): boolean =>
+  typeof event === 'string' && event.startsWith(pattern.slice(0, -1));
+
+const byPriority = (a: ListenerEntry, b: ListenerEntry) => b.priority - a.priority || a.order - b.order;
+
+let listenerOrder = 0;
+
 // 泛型事件发射器类
 export class VideoEventEmitter<TEventMap extends Record<keyof TEventMap, any> = VideoEventMap> {
-  private eventListeners: Map<keyof TEventMap, Set<Function>> = new Map();
-  private onceListeners: Map<keyof TEventMap, Set<Function>> = new Map();
+  // 每个事件（或通配模式）的监听器，按优先级排序
+  private eventListeners: Map<PropertyKey, ListenerEntry[]> = new Map();
   private maxListeners: number = 10;
+  // 已发出泄漏警告的事件，每个事件只警告一次
+  private leakWarned: Set<PropertyKey> = new Set();
 
   /**
    * 添加事件监听器
    */
   on<K extends keyof TEventMap>(
     event: K,
-    listener: (data: TEventMap[K]) => void
-  ): this {
-    if (!this.eventListeners.has(event)) {
-      this.eventListeners.set(event, new Set());
-    }
-    
-    const eventListeners = this.eventListeners.get(event)!;
-    
-    // 检查监听器数量限制
-    if (eventListeners.size >= this.maxListeners) {
-      console.warn(`Maximum listeners (${this.maxListeners}) exceeded for event '${String(event)}'`);
+    listener: EmitterListener<TEventMap[K], K>,
+    options?: VideoEventListenerOptions
+  ): this;
+  on(
+    event: WildcardEventName,
+    listener: EmitterListener<TEventMap[keyof TEventMap], keyof TEventMap>,
+    options?: VideoEventListenerOptions
+  ): this;
+  on(event: PropertyKey, listener: Function, options: VideoEventListenerOptions = {}): this {
+    if (options.signal?.aborted) return this;
+
+    const entries = this.eventListeners.get(event) ?? [];
+    const once = options.once ?? false;
+    if (entries.some(entry => entry.listener === listener && entry.once === once)) return this;
+
+    const entry: ListenerEntry = {
+      key: event,
+      listener,
+      priority: options.priority ?? 0,
+      once,
+      order: listenerOrder++,
+      removed: false
+    };
+
+    if (options.signal) {
+      const signal = options.signal;
+      const abort = () => this.removeEntry(entry);
+      signal.addEventListener('abort', abort, { once: true });
+      entry.cleanup = () => signal.removeEventListener('abort', abort);
     }
-    
-    eventListeners.add(listener);
+
+    entries.push(entry);
+    entries.sort(byPriority);
+    this.eventListeners.set(event, entries);
+    this.checkLeak(event, entries.length);
     return this;
   }
 
@@ -42,128 +99,103 @@ export class VideoEventEmitter<TEventMap extends Record<keyof TEventMap, any> =
    */
   once<K extends keyof TEventMap>(
     event: K,
-    listener: (data: TEventMap[K]) => void
-  ): this {
-    if (!this.onceListeners.has(event)) {
-      this.onceListeners.set(event, new Set());
-    }
-    
-    this.onceListeners.get(event)!.add(listener);
-    return this;
+    listener: EmitterListener<TEventMap[K], K>,
+    options?: Omit<VideoEventListenerOptions, 'once'>
+  ): this;
+  once(
+    event: WildcardEventName,
+    listener: EmitterListener<TEventMap[keyof TEventMap], keyof TEventMap>,
+    options?: Omit<VideoEventListenerOptions, 'once'>
+  ): this;
+  once(event: PropertyKey, listener: Function, options: Omit<VideoEventListenerOptions, 'once'> = {}): this {
+    return this.on(event as keyof TEventMap, listener as EmitterListener<any, any>, { ...options, once: true });
   }
 
   /**
    * 移除事件监听器
    */
-  off<K extends keyof TEventMap>(
-    event: K,
-    listener: (data: TEventMap[K]) => void
-  ): this {
-    const eventListeners = this.eventListeners.get(event);
-    if (eventListeners) {
-      eventListeners.delete(listener);
-      if (eventListeners.size === 0) {
-        this.eventListeners.delete(event);
-      }
-    }
-    
-    const onceEventListeners = this.onceListeners.get(event);
-    if (onceEventListeners) {
-      onceEventListeners.delete(listener);
-      if (onceEventListeners.size === 0) {
-        this.onceListeners.delete(event);
-      }
-    }
-    
+  off<K extends keyof TEventMap>(event: K | WildcardEventName, listener: Function): this {
+    const entries = this.eventListeners.get(event);
+    entries?.filter(entry => entry.listener === listener).forEach(entry => this.removeEntry(entry));
     return this;
   }
 
   /**
    * 移除指定事件的所有监听器
    */
-  removeAllListeners<K extends keyof TEventMap>(event?: K): this {
-    if (event) {
-      this.eventListeners.delete(event);
-      this.onceListeners.delete(event);
-    } else {
-      this.eventListeners.clear();
-      this.onceListeners.clear();
+  removeAllListeners<K extends keyof TEventMap>(event?: K | WildcardEventName): this {
+    const keys = event !== undefined ? [event] : Array.from(this.eventListeners.keys());
+    for (const key of keys) {
+      [...(this.eventListeners.get(key) ?? [])].forEach(entry => this.removeEntry(entry));
     }
     return this;
   }
 
   /**
-   * 发射事件
+   * 发射事件，按优先级同步调用监听器；异步监听器不等待，其错误只记录
    */
   emit<K extends keyof TEventMap>(event: K, data: TEventMap[K]): boolean {
-    let hasListeners = false;
+    const entries = this.collectListeners(event);
+    if (entries.length === 0) return false;
 
-    // 触发普通监听器
-    const eventListeners = this.eventListeners.get(event);
-    if (eventListeners && eventListeners.size > 0) {
-      hasListeners = true;
-      // 复制监听器集合，避免在执行过程中被修改
-      const listenersArray = Array.from(eventListeners);
-      for (const listener of listenersArray) {
-        try {
-          listener(data);
-        } catch (error) {
-          console.error(`Error in event listener for '${String(event)}':`, error);
-        }
-      }
+    const control = this.createControl(event);
+    for (const entry of entries) {
+      if (control.propagationStopped) break;
+      this.invoke(entry, event, data, control);
     }
+    return true;
+  }
 
-    // 触发一次性监听器
-    const onceEventListeners = this.onceListeners.get(event);
-    if (onceEventListeners && onceEventListeners.size > 0) {
-      hasListeners = true;
-      const listenersArray = Array.from(onceEventListeners);
-      // 先清除一次性监听器
-      this.onceListeners.delete(event);
-      
-      for (const listener of listenersArray) {
-        try {
-          listener(data);
-        } catch (error) {
-          console.error(`Error in once event listener for '${String(event)}':`, error);
-        }
+  /**
+   * 发射事件并等待异步监听器：series模式逐个等待，可在任一监听器中停止传播；
+   * parallel模式同步调用全部监听器后等待它们完成
+   */
+  async emitAsync<K extends keyof TEventMap>(
+    event: K,
+    data: TEventMap[K],
+    mode: VideoEmitMode = 'series'
+  ): Promise<boolean> {
+    const entries = this.collectListeners(event);
+    if (entries.length === 0) return false;
+
+    const control = this.createControl(event);
+    const pending: Promise<void>[] = [];
+    for (const entry of entries) {
+      if (control.propagationStopped) break;
+      const result = this.invoke(entry, event, data, control);
+      if (!result) continue;
+
+      if (mode === 'series') {
+        await result;
+      } else {
+        pending.push(result);
       }
     }
 
-    return hasListeners;
+    await Promise.all(pending);
+    return true;
   }
 
   /**
-   * 获取事件的监听器数量
+   * 获取事件的监听器数量（不含匹配它的通配监听器）
    */
-  listenerCount<K extends keyof TEventMap>(event: K): number {
-    const regularCount = this.eventListeners.get(event)?.size || 0;
-    const onceCount = this.onceListeners.get(event)?.size || 0;
-    return regularCount + onceCount;
+  listenerCount<K extends keyof TEventMap>(event: K | WildcardEventName): number {
+    return this.eventListeners.get(event)?.length || 0;
   }
 
   /**
-   * 获取所有事件名称
+   * 获取所有事件名称（含通配模式）
    */
-  eventNames(): (keyof TEventMap)[] {
-    const allEvents = new Set<keyof TEventMap>();
-    
-    for (const event of this.eventListeners.keys()) {
-      allEvents.add(event);
-    }
-    
-    for (const event of this.onceListeners.keys()) {
-      allEvents.add(event);
-    }
-    
-    return Array.from(allEvents);
+  eventNames(): (keyof TEventMap | WildcardEventName)[] {
+    return Array.from(this.eventListeners.keys()) as (keyof TEventMap | WildcardEventName)[];
   }
 
   /**
-   * 设置最大监听器数量
+   * 设置最大监听器数量，0表示不限制
    */
   setMaxListeners(n: number): this {
     this.maxListeners = n;
+    this.leakWarned.clear();
     return this;
   }
 
@@ -177,17 +209,15 @@ export class VideoEventEmitter<TEventMap extends Record<keyof TEventMap, any> =
   /**
    * 检查是否有指定事件的监听器
    */
-  hasListeners<K extends keyof TEventMap>(event: K): boolean {
+  hasListeners<K extends keyof TEventMap>(event: K | WildcardEventName): boolean {
     return this.listenerCount(event) > 0;
   }
 
   /**
-   * 获取指定事件的所有监听器
+   * 获取指定事件的所有监听器，按执行顺序排列
    */
-  listeners<K extends keyof TEventMap>(event: K): Function[] {
-    const regularListeners = Array.from(this.eventListeners.get(event) || []);
-    const onceListeners = Array.from(this.onceListeners.get(event) || []);
-    return [...regularListeners, ...onceListeners];
+  listeners<K extends keyof TEventMap>(event: K | WildcardEventName): Function[] {
+    return (this.eventListeners.get(event) ?? []).map(entry => entry.listener);
   }
 
   /**
@@ -196,79 +226,105 @@ export class VideoEventEmitter<TEventMap extends Record<keyof TEventMap, any> =
   destroy(): void {
     this.removeAllListeners();
   }
-}
 
-// 专门用于视频事件的发射器
-export class VideoEventEmitterTyped extends VideoEventEmitter<Record<string, any>> {
-  /**
-   * 类型安全的视频事件发射
-   */
-  emitVideoEvent<T extends VideoEventType>(
-    type: T,
-    eventData: Omit<VideoEventData<T>, 'type'>
-  ): boolean {
-    const fullEventData = {
-      type,
-      ...eventData
-    } as VideoEventData<T>;
-    
-    const eventName = `video:${type}`;
-    return this.emit(eventName, fullEventData);
+  // 事件自身和匹配的通配监听器合并后按优先级排序
+  private collectListeners(event: PropertyKey): ListenerEntry[] {
+    const entries = [...(this.eventListeners.get(event) ?? [])];
+    for (const [key, wildcardEntries] of this.eventListeners) {
+      if (key !== event && isWildcard(key) && matchesWildcard(key, event)) {
+        entries.push(...wildcardEntries);
+      }
+    }
+    return entries.sort(byPriority);
   }
 
-  /**
-   * 类型安全的视频事件监听
-   */
-  onVideoEvent<T extends VideoEventType>(
-    type: T,
-    listener: VideoEventListener<T>
-  ): this {
-    const eventName = `video:${type}`;
-    return this.on(eventName, listener);
+  private createControl<K extends PropertyKey>(name: K): VideoEventControl<K> {
+    let stopped = false;
+    return {
+      name,
+      get propagationStopped() {
+        return stopped;
+      },
+      stopPropagation: () => {
+        stopped = true;
+      }
+    };
   }
 
-  /**
-   * 类型安全的一次性视频事件监听
-   */
-  onceVideoEvent<T extends VideoEventType>(
-    type: T,
-    listener: VideoEventListener<T>
-  ): this {
-    const eventName = `video:${type}`;
-    return this.once(eventName, listener);
+  // 调用单个监听器；返回的Promise已处理拒绝，不会抛出
+  private invoke(
+    entry: ListenerEntry,
+    event: PropertyKey,
+    data: unknown,
+    control: VideoEventControl<any>
+  ): Promise<void> | undefined {
+    // 前面的监听器可能已移除它
+    if (entry.removed) return undefined;
+    if (entry.once) this.removeEntry(entry);
+
+    const report = (error: unknown) => {
+      console.error(`Error in event listener for '${String(event)}':`, error);
+    };
+
+    try {
+      const result = entry.listener(data, control);
+      if (result && typeof result.then === 'function') {
+        return Promise.resolve(result).then(() => undefined, report);
+      }
+    } catch (error) {
+      report(error);
+    }
+    return undefined;
   }
 
-  /**
-   * 移除视频事件监听器
-   */
-  offVideoEvent<T extends VideoEventType>(
-    type: T,
-    listener: VideoEventListener<T>
-  ): this {
-    const eventName = `video:${type}`;
-    return this.off(eventName, listener);
+  private removeEntry(entry: ListenerEntry): void {
+    if (entry.removed) return;
+    entry.removed = true;
+    entry.cleanup?.();
+
+    const entries = this.eventListeners.get(entry.key);
+    if (!entries) return;
+
+    const index = entries.indexOf(entry);
+    if (index > -1) entries.splice(index, 1);
+    if (entries.length === 0) {
+      this.eventListeners.delete(entry.key);
+      this.leakWarned.delete(entry.key);
+    }
+  }
+
+  // 超出上限通常意味着组件重复注册未清理，附带本次注册的调用栈便于定位
+  private checkLeak(event: PropertyKey, count: number): void {
+    if (this.maxListeners <= 0 || count <= this.maxListeners || this.leakWarned.has(event)) return;
+
+    this.leakWarned.add(event);
+    const stack = new Error().stack?.split('\n').slice(1).join('\n') ?? '';
+    console.warn(
+      `Maximum listeners (${this.maxListeners}) exceeded for event '${String(event)}': ${count} listeners registered. ` +
+      `Use setMaxListeners() to raise the limit if this is intended.\n${stack}`
+    );
   }
 }
 
 // 事件委托器 - 用于管理多个事件源
 export class EventDelegate<TEventMap extends Record<string, any> = VideoEventMap> {
   private emitters: Map<string, VideoEventEmitter<TEventMap>> = new Map();
+  private forwarders: Map<string, EmitterListener<TEventMap[keyof TEventMap], keyof TEventMap>> = new Map();
   private globalEmitter: VideoEventEmitter<TEventMap> = new VideoEventEmitter();
 
   /**
-   * 注册事件发射器
+   * 注册事件发射器，其所有事件转发到全局发射器；同ID重复注册时替换
    */
   register(id: string, emitter: VideoEventEmitter<TEventMap>): this {
-    this.emitters.set(id, emitter);
-    
-    // 将所有事件转发到全局发射器
-    const forwardEvent = <K extends keyof TEventMap>(event: K) => {
-      emitter.on(event, (data: TEventMap[K]) => {
-        this.globalEmitter.emit(event, data);
-      });
+    this.detach(id);
+
+    const forward: EmitterListener<TEventMap[keyof TEventMap], keyof TEventMap> = (data, control) => {
+      this.globalEmitter.emit(control.name, data);
     };
+    emitter.on('*', forward);
 
-    // 这里需要手动处理事件转发，因为我们无法动态获取所有可能的事件类型
+    this.emitters.set(id, emitter);
+    this.forwarders.set(id, forward);
     return this;
   }
 
@@ -278,8 +334,8 @@ export class EventDelegate<TEventMap extends Record<string, any> = VideoEventMap
   unregister(id: string): this {
     const emitter = this.emitters.get(id);
     if (emitter) {
+      this.detach(id);
       emitter.destroy();
-      this.emitters.delete(id);
     }
     return this;
   }
@@ -315,8 +371,18 @@ export class EventDelegate<TEventMap extends Record<string, any> = VideoEventMap
       emitter.destroy();
     }
     this.emitters.clear();
+    this.forwarders.clear();
     this.globalEmitter.destroy();
   }
+
+  // 停止转发并移除发射器，不销毁它
+  private detach(id: string): void {
+    const emitter = this.emitters.get(id);
+    const forward = this.forwarders.get(id);
+    if (emitter && forward) emitter.off('*', forward);
+    this.emitters.delete(id);
+    this.forwarders.delete(id);
+  }
 }
 
 // 事件中间件系统
@@ -356,6 +422,30 @@ export class VideoEventEmitterWithMiddleware<TEventMap extends Record<string, an
    * 重写emit方法以支持中间件
    */
   emit<K extends keyof TEventMap>(event: K, data: TEventMap[K]): boolean {
+    let hasListeners = false;
+    this.runMiddlewares(event, data, () => {
+      hasListeners = super.emit(event, data);
+    });
+    return hasListeners;
+  }
+
+  /**
+   * 中间件同步执行，全部放行后再等待监听器
+   */
+  emitAsync<K extends keyof TEventMap>(
+    event: K,
+    data: TEventMap[K],
+    mode?: VideoEmitMode
+  ): Promise<boolean> {
+    let result: Promise<boolean> = Promise.resolve(false);
+    this.runMiddlewares(event, data, () => {
+      result = super.emitAsync(event, data, mode);
+    });
+    return result;
+  }
+
+  // 依次执行中间件，最后一个调用next后执行done
+  private runMiddlewares<K extends keyof TEventMap>(event: K, data: TEventMap[K], done: () => void): void {
     let index = 0;
     const middlewares = this.middlewares;
 
@@ -370,12 +460,81 @@ export class VideoEventEmitterWithMiddleware<TEventMap extends Record<string, an
         }
       } else {
         // 所有中间件执行完毕，执行原始的emit
-        super.emit(event, data);
+        done();
       }
     };
 
     next();
-    return true;
+  }
+}
+
+// 专门用于视频事件的发射器（事件名为 video:${type}，支持中间件拦截）
+export class VideoEventEmitterTyped extends VideoEventEmitterWithMiddleware<Record<string, any>> {
+  /**
+   * 类型安全的视频事件发射
+   */
+  emitVideoEvent<T extends VideoEventType>(
+    type: T,
+    eventData: Omit<VideoEventData<T>, 'type'>
+  ): boolean {
+    const fullEventData = {
+      type,
+      ...eventData
+    } as VideoEventData<T>;
+    
+    const eventName = `video:${type}`;
+    return this.emit(eventName, fullEventData);
+  }
+
+  /**
+   * 发射视频事件并等待异步监听器
+   */
+  emitVideoEventAsync<T extends VideoEventType>(
+    type: T,
+    eventData: Omit<VideoEventData<T>, 'type'>,
+    mode?: VideoEmitMode
+  ): Promise<boolean> {
+    const fullEventData = {
+      type,
+      ...eventData
+    } as VideoEventData<T>;
+
+    return this.emitAsync(`video:${type}`, fullEventData, mode);
+  }
+
+  /**
+   * 类型安全的视频事件监听
+   */
+  onVideoEvent<T extends VideoEventType>(
+    type: T,
+    listener: VideoEventListener<T>,
+    options?: VideoEventListenerOptions
+  ): this {
+    const eventName = `video:${type}`;
+    return this.on(eventName, listener, options);
+  }
+
+  /**
+   * 类型安全的一次性视频事件监听
+   */
+  onceVideoEvent<T extends VideoEventType>(
+    type: T,
+    listener: VideoEventListener<T>,
+    options?: Omit<VideoEventListenerOptions, 'once'>
+  ): this {
+    const eventName = `video:${type}`;
+    return this.once(eventName, listener, options);
+  }
+
+  /**
+   * 移除视频事件监听器
+   */
+  offVideoEvent<T extends VideoEventType>(
+    type: T,
+    listener: VideoEventListener<T>
+  ): this {
+    const eventName = `video:${type}`;
+    return this.off(eventName, listener);
   }
 }
 
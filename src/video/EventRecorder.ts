@@ -0,0 +1,350 @@
+// 事件录制与回放 - 以环形缓冲记录事件、状态快照和流统计，可导出/导入JSON并回放到新的发射器，
+// 并从录制生成时间线（状态区间、缓冲量、质量切换）供调试面板绘制
+
+import type {
+  IVideoPlayer,
+  VideoEventData,
+  VideoEventType,
+  VideoPlugin,
+  VideoQuality,
+  VideoState
+} from './types';
+import type { EventMiddleware, VideoEventEmitter } from './EventEmitter';
+
+// 录制时的播放器快照
+export interface RecordedSnapshot {
+  state: VideoState;
+  currentTime: number;
+  // 当前位置之后已缓冲的时长（秒）
+  bufferLevel: number;
+  // HLS/DASH流统计（精简字段）
+  stream: Record<string, number> | null;
+}
+
+export interface RecordedEvent {
+  // 发射器上的事件名（如 video:timeupdate），回放时原样发射
+  event: string;
+  // 相对录制开始的时间（毫秒）
+  time: number;
+  data: VideoEventData<any>;
+  snapshot: RecordedSnapshot | null;
+}
+
+export interface EventRecording {
+  version: typeof RECORDING_VERSION;
+  startedAt: number;
+  // 环形缓冲覆盖掉的事件数
+  dropped: number;
+  events: RecordedEvent[];
+}
+
+export interface EventRecorderOptions {
+  // 环形缓冲容量，默认1000
+  capacity?: number;
+  // 不录制的事件类型（如高频的timeupdate）
+  exclude?: VideoEventType[];
+}
+
+export const RECORDING_VERSION = 1;
+
+export const DEFAULT_RECORDER_CAPACITY = 1000;
+
+const VIDEO_EVENT_PREFIX = 'video:';
+
+// 流统计中保留的数值字段，避免每个事件都复制完整的级别列表
+const STREAM_STAT_KEYS = ['currentLevel', 'currentBitrate', 'bandwidthEstimate', 'bufferLength'];
+
+type StatsAwarePlayer = IVideoPlayer & {
+  getHLSStats?: () => Record<string, any>;
+  getDASHStats?: () => Record<string, any>;
+};
+
+// 事件数据可能包含DOM元素、Error等无法序列化的对象
+export const toSerializable = <T>(value: T): T => {
+  const seen = new WeakSet<object>();
+  return JSON.parse(JSON.stringify(value, (_key, item) => {
+    if (typeof Element !== 'undefined' && item instanceof Element) {
+      return item.id ? `${item.tagName.toLowerCase()}#${item.id}` : item.tagName.toLowerCase();
+    }
+    if (item instanceof Error) {
+      return { name: item.name, message: item.message };
+    }
+    if (typeof item === 'object' && item !== null) {
+      if (seen.has(item)) return undefined;
+      seen.add(item);
+    }
+    return item;
+  }) ?? 'null');
+};
+
+const getBufferLevel = (element: HTMLVideoElement): number => {
+  const { buffered, currentTime } = element;
+  for (let i = 0; i < (buffered?.length ?? 0); i++) {
+    if (buffered.start(i) <= currentTime && currentTime <= buffered.end(i)) {
+      return buffered.end(i) - currentTime;
+    }
+  }
+  return 0;
+};
+
+const takeSnapshot = (player: IVideoPlayer): RecordedSnapshot => {
+  const source = player as StatsAwarePlayer;
+  const stats = source.getHLSStats?.() ?? source.getDASHStats?.();
+  let stream: Record<string, number> | null = null;
+
+  if (stats && Object.keys(stats).length > 0) {
+    stream = {};
+    for (const key of STREAM_STAT_KEYS) {
+      if (typeof stats[key] === 'number') stream[key] = stats[key];
+    }
+  }
+
+  return {
+    state: player.state,
+    currentTime: player.element.currentTime || 0,
+    bufferLevel: getBufferLevel(player.element),
+    stream
+  };
+};
+
+export class EventRecorder {
+  private _capacity: number;
+  private _exclude: Set<string>;
+  private _buffer: RecordedEvent[] = [];
+  // 环形缓冲写入位置
+  private _head = 0;
+  private _dropped = 0;
+  private _startedAt = Date.now();
+  private _player: IVideoPlayer | null = null;
+
+  constructor(options: EventRecorderOptions = {}) {
+    this._capacity = Math.max(1, options.capacity ?? DEFAULT_RECORDER_CAPACITY);
+    this._exclude = new Set((options.exclude ?? []).map(type => `${VIDEO_EVENT_PREFIX}${type}`));
+  }
+
+  get size(): number {
+    return this._buffer.length;
+  }
+
+  /**
+   * 绑定播放器后每个事件附带状态快照和流统计
+   */
+  attach(player: IVideoPlayer | null): void {
+    this._player = player;
+  }
+
+  record(event: string, data: VideoEventData<any>): void {
+    if (this._exclude.has(event)) return;
+
+    const entry: RecordedEvent = {
+      event,
+      time: Date.now() - this._startedAt,
+      data: toSerializable(data),
+      snapshot: this._player ? takeSnapshot(this._player) : null
+    };
+
+    if (this._buffer.length < this._capacity) {
+      this._buffer.push(entry);
+    } else {
+      this._buffer[this._head] = entry;
+      this._head = (this._head + 1) % this._capacity;
+      this._dropped++;
+    }
+  }
+
+  /**
+   * 按时间顺序返回缓冲中的事件
+   */
+  getEvents(): RecordedEvent[] {
+    return [...this._buffer.slice(this._head), ...this._buffer.slice(0, this._head)];
+  }
+
+  clear(): void {
+    this._buffer = [];
+    this._head = 0;
+    this._dropped = 0;
+    this._startedAt = Date.now();
+  }
+
+  toJSON(): EventRecording {
+    return {
+      version: RECORDING_VERSION,
+      startedAt: this._startedAt,
+      dropped: this._dropped,
+      events: this.getEvents()
+    };
+  }
+
+  export(): string {
+    return JSON.stringify(this.toJSON());
+  }
+
+  // 挂到VideoEventEmitterWithMiddleware上，记录后继续传递
+  middleware: EventMiddleware<Record<string, any>> = (event, data, next) => {
+    this.record(String(event), data);
+    next();
+  };
+
+  /**
+   * 以插件形式安装到播放器：记录所有视频事件并附带该播放器的快照
+   */
+  plugin(name = 'recorder'): VideoPlugin {
+    return {
+      name,
+      setup: context => this.attach(context.player),
+      onEvent: event => {
+        this.record(`${VIDEO_EVENT_PREFIX}${event.type}`, event);
+      },
+      destroy: () => this.attach(null)
+    };
+  }
+}
+
+/**
+ * 解析导出的录制JSON，版本不匹配或结构无效时抛出错误
+ */
+export function importRecording(json: string): EventRecording {
+  const recording = JSON.parse(json) as EventRecording;
+
+  if (!recording || recording.version !== RECORDING_VERSION || !Array.isArray(recording.events)) {
+    throw new Error(`Unsupported event recording (expected version ${RECORDING_VERSION})`);
+  }
+  return recording;
+}
+
+export interface ReplayOptions {
+  // 回放倍速，默认1（实时）；Infinity立即同步发射全部事件
+  speed?: number;
+  onEvent?: (entry: RecordedEvent, index: number) => void;
+}
+
+export interface EventReplay {
+  // 全部事件发射完成或停止时resolve
+  readonly finished: Promise<void>;
+  stop(): void;
+}
+
+/**
+ * 按录制时的间隔把事件回放到发射器
+ */
+export function replayRecording(
+  recording: EventRecording,
+  emitter: VideoEventEmitter<Record<string, any>>,
+  options: ReplayOptions = {}
+): EventReplay {
+  const speed = options.speed ?? 1;
+  const events = recording.events;
+  let index = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let resolveFinished: () => void = () => {};
+  const finished = new Promise<void>(resolve => {
+    resolveFinished = resolve;
+  });
+
+  const emitAt = (i: number) => {
+    const entry = events[i];
+    options.onEvent?.(entry, i);
+    emitter.emit(entry.event, entry.data);
+  };
+
+  const scheduleNext = () => {
+    if (index >= events.length) {
+      timer = null;
+      resolveFinished();
+      return;
+    }
+
+    const delay = index === 0 ? 0 : (events[index].time - events[index - 1].time) / speed;
+    timer = setTimeout(() => {
+      emitAt(index++);
+      scheduleNext();
+    }, Math.max(0, delay));
+  };
+
+  if (speed === Infinity) {
+    for (; index < events.length; index++) emitAt(index);
+    resolveFinished();
+  } else {
+    scheduleNext();
+  }
+
+  return {
+    finished,
+    stop: () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      index = events.length;
+      resolveFinished();
+    }
+  };
+}
+
+// 时间线数据
+export interface TimelineStateSegment {
+  state: VideoState;
+  start: number;
+  end: number;
+}
+
+export interface TimelineBufferPoint {
+  time: number;
+  level: number;
+}
+
+export interface TimelineQualitySwitch {
+  time: number;
+  from: VideoQuality;
+  to: VideoQuality;
+}
+
+export interface TimelineMarker {
+  time: number;
+  type: string;
+  label: string;
+}
+
+export interface EventTimeline {
+  duration: number;
+  states: TimelineStateSegment[];
+  buffer: TimelineBufferPoint[];
+  qualitySwitches: TimelineQualitySwitch[];
+  // 错误、缓冲开始等需要关注的事件
+  markers: TimelineMarker[];
+}
+
+/**
+ * 从录制生成时间线：相邻快照状态相同的区间合并为一段
+ */
+export function buildEventTimeline(recording: EventRecording): EventTimeline {
+  const events = recording.events;
+  const duration = events.length > 0 ? events[events.length - 1].time : 0;
+  const states: TimelineStateSegment[] = [];
+  const buffer: TimelineBufferPoint[] = [];
+  const qualitySwitches: TimelineQualitySwitch[] = [];
+  const markers: TimelineMarker[] = [];
+
+  for (const { event, time, data, snapshot } of events) {
+    const type = event.startsWith(VIDEO_EVENT_PREFIX) ? event.slice(VIDEO_EVENT_PREFIX.length) : event;
+
+    if (snapshot) {
+      const last = states[states.length - 1];
+      if (last && last.state === snapshot.state) {
+        last.end = time;
+      } else {
+        if (last) last.end = time;
+        states.push({ state: snapshot.state, start: time, end: time });
+      }
+      buffer.push({ time, level: snapshot.bufferLevel });
+    }
+
+    if (type === 'qualitychange') {
+      qualitySwitches.push({ time, from: data.payload.from, to: data.payload.to });
+    } else if (type === 'error') {
+      markers.push({ time, type, label: data.payload?.message ?? 'error' });
+    } else if (type === 'buffering' && data.payload?.isBuffering) {
+      markers.push({ time, type, label: 'buffering' });
+    }
+  }
+
+  return { duration, states, buffer, qualitySwitches, markers };
+}
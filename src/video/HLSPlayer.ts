@@ -6,11 +6,19 @@ import type {
   HLSConfig, 
   HLSVideoConfig, 
   VideoQuality, 
+  VideoReadyInfo,
   VideoState,
   VideoError,
-  VideoEventType
+  VideoEventType,
+  VideoSource,
+  HLSErrorClass,
+  HLSRecoveryStage,
+  HLSRecoveryPolicy,
+  VideoTextTrack,
+  VideoAudioTrack
 } from './types';
 import { HTML5VideoAPI } from './VideoAPI';
+import { VideoErrorCode, normalizeVideoError } from './ErrorCatalog';
 
 // HLS特定的质量级别映射
 interface HLSQualityLevel {
@@ -21,6 +29,25 @@ interface HLSQualityLevel {
   name: VideoQuality;
 }
 
+// 已调度的恢复操作
+interface HLSRecoveryPlan {
+  errorClass: HLSErrorClass;
+  stage: HLSRecoveryStage;
+  attempt: number;
+  maxAttempts: number;
+  delay: number;
+}
+
+// 默认恢复策略
+const DEFAULT_RECOVERY_POLICY = {
+  maxAttempts: { network: 3, media: 2, other: 1 } as Record<HLSErrorClass, number>,
+  baseDelay: 500,
+  maxDelay: 8000,
+  backoffMultiplier: 2,
+  swapAudioCodec: true,
+  resetWindow: 30000
+};
+
 // HLS播放器类 - 扩展HTML5VideoAPI
 export class HLSPlayer<T extends Record<string, any> = Record<string, any>> 
   extends HTML5VideoAPI<HLSVideoConfig<T>> {
@@ -29,15 +56,75 @@ export class HLSPlayer<T extends Record<string, any> = Record<string, any>>
   private _isHLSSupported = false;
   private _qualityLevels: HLSQualityLevel[] = [];
   private _currentLevel = -1; // -1 表示自动质量
+  // 实际播放中的级别，自动模式下用于报告切换前后的质量
+  private _activeQuality: VideoQuality = 'auto';
   private _isLiveStream = false;
+  private _hlsSource: VideoSource | null = null;
+  private _subtitleTracks: Array<{ name: string; lang?: string; default?: boolean; characteristics?: string }> = [];
+  private _audioTracks: Array<{ name: string; lang?: string; default?: boolean; characteristics?: string }> = [];
+  
+  // 错误恢复状态
+  private _recoveryAttempts: Record<HLSErrorClass, number> = { network: 0, media: 0, other: 0 };
+  private _recoveryTimer: ReturnType<typeof setTimeout> | null = null;
+  private _recoveryResetTimer: ReturnType<typeof setTimeout> | null = null;
+  private _activeRecovery: HLSRecoveryPlan | null = null;
 
   constructor(element: HTMLVideoElement, config: HLSVideoConfig<T>) {
     super(element, config);
     
     this._isHLSSupported = this.checkHLSSupport();
+    this.loadSources();
+  }
+
+  // HLS实例创建后再加载源
+  protected get autoLoadSources(): boolean {
+    return false;
+  }
+
+  // 重写源检查 - 支持通过HLS.js播放
+  protected canPlaySource(source: VideoSource): boolean {
+    if (source.type === 'hls') {
+      return this.checkHLSSupport();
+    }
+    return super.canPlaySource(source);
+  }
+
+  // 重写源加载 - HLS源交给HLS.js或原生HLS，其他源回到HTML5播放
+  protected loadSource(source: VideoSource): void {
+    this.teardownHLS();
+    
+    if (source.type !== 'hls') {
+      this._hlsSource = null;
+      super.loadSource(source);
+      return;
+    }
+    
+    this._hlsSource = source;
     this.initializeHLS();
   }
 
+  // 重写ready详情 - hls.js接管时报告质量级别数
+  protected getReadyDetails(): Pick<VideoReadyInfo, 'method' | 'levels'> {
+    return this._hls
+      ? { method: 'hls.js', levels: this._qualityLevels.length }
+      : super.getReadyDetails();
+  }
+
+  // 重写直播判定 - hls.js接管时以媒体播放列表类型为准
+  protected isLiveSource(): boolean {
+    return this._hls ? this._isLiveStream : super.isLiveSource();
+  }
+
+  // 重写默认目标延迟 - 使用hls.js按liveSyncDurationCount/lowLatencyMode计算的目标
+  protected getDefaultTargetLatency(): number | null {
+    return this._hls?.targetLatency ?? null;
+  }
+
+  // 重写媒体让渡 - 释放HLS.js实例，收回时由loadSource重新创建
+  protected detachSource(): void {
+    this.teardownHLS();
+  }
+
   // 辅助方法 - 发射带有type的事件
   private emitEvent<T extends VideoEventType>(
     type: T, 
@@ -86,10 +173,8 @@ export class HLSPlayer<T extends Record<string, any> = Record<string, any>>
 
   // 私有方法 - 使用原生HLS
   private loadHLSNatively(): void {
-    const hlsSource = this.config.sources.find(source => source.type === 'hls');
-    if (hlsSource) {
-      this.element.src = hlsSource.src;
-      this.emitEvent('ready', { method: 'native' }, 0, 0);
+    if (this._hlsSource) {
+      this.element.src = this._hlsSource.src;
     }
   }
 
@@ -104,7 +189,7 @@ export class HLSPlayer<T extends Record<string, any> = Record<string, any>>
 
   // 私有方法 - 创建HLS配置
   private createHLSConfig(): Partial<Hls['config']> {
-    const userConfig = this.config.hls || {};
+    const { recovery, ...userConfig } = this.config.hls || {};
     
     return {
       // 默认配置
@@ -136,11 +221,45 @@ export class HLSPlayer<T extends Record<string, any> = Record<string, any>>
       progressive: false,
       debug: false,
       
+      // 加密内容
+      ...this.createDRMConfig(),
+      
       // 用户自定义配置
       ...userConfig
     };
   }
 
+  // 私有方法 - 将drm配置映射为hls.js的EME配置；仅使用本地ClearKey密钥时交给原生EME
+  private createDRMConfig(): Partial<Hls['config']> {
+    const drm = this.config.drm;
+    if (!drm?.licenseUrl) return {};
+
+    const headers = drm.headers;
+    return {
+      emeEnabled: true,
+      drmSystems: {
+        [drm.keySystem]: {
+          licenseUrl: drm.licenseUrl,
+          serverCertificateUrl: typeof drm.serverCertificate === 'string' ? drm.serverCertificate : undefined
+        }
+      },
+      drmSystemOptions: {
+        audioRobustness: drm.audioRobustness,
+        videoRobustness: drm.videoRobustness
+      },
+      licenseXhrSetup: headers
+        ? (xhr: XMLHttpRequest) => {
+            Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+          }
+        : undefined
+    };
+  }
+
+  // 受保护方法 - hls.js配置了许可证服务器时由其EME控制器处理encrypted事件
+  protected usesNativeEME(): boolean {
+    return !this._hls || !this.config.drm?.licenseUrl;
+  }
+
   // 私有方法 - 绑定HLS事件
   private bindHLSEvents(): void {
     if (!this._hls) return;
@@ -152,51 +271,52 @@ export class HLSPlayer<T extends Record<string, any> = Record<string, any>>
       },
       
       [Hls.Events.MANIFEST_LOADED]: (event, data) => {
-        this._isLiveStream = data.live;
         this.processQualityLevels(data.levels);
-        
-        this.emitEvent('ready', { 
-          method: 'hls.js',
-          live: this._isLiveStream,
-          levels: data.levels.length
-        }, 0, data.totalduration || 0);
       },
       
       [Hls.Events.LEVEL_LOADED]: (event, data) => {
+        // 主播放列表不含直播信息，以媒体播放列表（无EXT-X-ENDLIST）为准
+        this._isLiveStream = data.details.live;
+        
         this.emitEvent('progress', {
           loaded: data.details.endSN - data.details.startSN,
           total: data.details.fragments.length
         });
+        
+        if (data.details.dateRanges) {
+          this.handleDateRanges(data.details.dateRanges);
+        }
       },
       
       [Hls.Events.LEVEL_SWITCHING]: (event, data) => {
-        const newLevel = this._qualityLevels[data.level];
-        const oldLevel = this._qualityLevels[this._currentLevel] || { name: 'auto' as VideoQuality };
+        // data.level是hls.js级别索引，_qualityLevels已按画质排序
+        const from = this._activeQuality;
+        const to = this._qualityLevels.find(level => level.level === data.level)?.name || 'auto';
+        this._activeQuality = to;
         
-        this._currentLevel = data.level;
-        
-        this.emitEvent('qualitychange', {
-          from: oldLevel.name,
-          to: newLevel?.name || 'auto'
-        });
+        // 手动选择已在setQuality中发射，这里只报告自动切换
+        if (this._currentLevel === -1 && from !== to) {
+          this.emitEvent('qualitychange', { from, to });
+        }
       },
       
       [Hls.Events.FRAG_BUFFERED]: () => {
-        // 分片缓冲完成
+        // 分片重新缓冲说明恢复成功
+        if (this._activeRecovery) {
+          this.handleRecoverySucceeded();
+        }
       },
       
-      [Hls.Events.BUFFER_APPENDING]: () => {
-        this.emitEvent('buffering', {
-          isBuffering: true,
-          bufferLevel: this.getBufferLevel()
-        });
+      [Hls.Events.SUBTITLE_TRACKS_UPDATED]: (event, data) => {
+        this.handleSubtitleTracksUpdated(data.subtitleTracks || []);
       },
       
-      [Hls.Events.BUFFER_APPENDED]: () => {
-        this.emitEvent('buffering', {
-          isBuffering: false,
-          bufferLevel: this.getBufferLevel()
-        });
+      [Hls.Events.AUDIO_TRACKS_UPDATED]: (event, data) => {
+        this.handleAudioTracksUpdated(data.audioTracks || []);
+      },
+      
+      [Hls.Events.AUDIO_TRACK_SWITCHED]: (event, data) => {
+        this.emitAudioTrackChange(`hls-audio-${data.id}`);
       },
       
       [Hls.Events.ERROR]: (event, data) => {
@@ -210,6 +330,109 @@ export class HLSPlayer<T extends Record<string, any> = Record<string, any>>
     });
   }
 
+  // 私有方法 - 转换EXT-X-DATERANGE为定时元数据
+  private handleDateRanges(dateRanges: Record<string, any>): void {
+    const ranges = Object.values(dateRanges)
+      .filter(range => range && range.isValid !== false && Number.isFinite(range.startTime))
+      .map(range => ({
+        id: range.id,
+        class: range.class || '',
+        startTime: range.startTime,
+        duration: range.duration ?? null,
+        attributes: { ...range.attr }
+      }));
+    
+    this.applyDateRanges(ranges);
+  }
+
+  // 私有方法 - 合并HLS字幕轨道
+  private handleSubtitleTracksUpdated(tracks: any[]): void {
+    this._subtitleTracks = tracks;
+    
+    // 由播放器统一管理字幕选择，避免hls.js自行启用默认字幕
+    const activeTrack = this.getTextTracks().find(track => track.active);
+    if (!activeTrack && this._hls) {
+      this._hls.subtitleTrack = -1;
+    }
+    
+    this.notifyTextTracksChanged();
+    
+    if (!activeTrack) {
+      const defaultIndex = tracks.findIndex(track => track.default);
+      if (defaultIndex !== -1) {
+        this.setTextTrack(`hls-${defaultIndex}`);
+      }
+    }
+  }
+
+  // 私有方法 - 更新HLS音轨并按首选语言选择
+  private handleAudioTracksUpdated(tracks: any[]): void {
+    this._audioTracks = tracks;
+    
+    const audioTracks = this.getAudioTracks();
+    this.emitAudioTrackChange(audioTracks.find(track => track.active)?.id ?? null);
+    this.applyPreferredAudioTrack(audioTracks);
+  }
+
+  // 重写音轨 - hls.js解析的多音轨（原生HLS回退到HTMLMediaElement.audioTracks）
+  getAudioTracks(): VideoAudioTrack[] {
+    if (!this._hls) return super.getAudioTracks();
+    
+    const activeIndex = this._hls.audioTrack;
+    return this._audioTracks.map((track, index) => ({
+      id: `hls-audio-${index}`,
+      label: track.name || track.lang || `hls-audio-${index}`,
+      language: track.lang || '',
+      kind: track.characteristics?.includes('describes-video') ? 'description' : 'main',
+      active: index === activeIndex
+    }));
+  }
+
+  // 重写音轨切换 - 切换完成后由AUDIO_TRACK_SWITCHED发射audiotrackchange
+  setAudioTrack(id: string): void {
+    if (!this._hls) {
+      super.setAudioTrack(id);
+      return;
+    }
+    
+    const index = id.startsWith('hls-audio-') ? parseInt(id.slice(10), 10) : -1;
+    if (!this._audioTracks[index]) {
+      console.warn(`Audio track '${id}' does not exist`);
+      return;
+    }
+    
+    this._hls.audioTrack = index;
+  }
+
+  // 重写流内字幕 - HLS字幕轨道
+  protected getStreamTextTracks(): VideoTextTrack[] {
+    return this._subtitleTracks.map((track, index) => ({
+      id: `hls-${index}`,
+      kind: track.characteristics?.includes('describes-music-and-sound') ? 'captions' : 'subtitles',
+      label: track.name || track.lang || `hls-${index}`,
+      language: track.lang || '',
+      origin: 'stream' as const,
+      active: false
+    }));
+  }
+
+  // 重写流内字幕切换
+  protected selectStreamTextTrack(id: string | null): void {
+    if (!this._hls) return;
+    
+    const index = id?.startsWith('hls-') ? parseInt(id.slice(4), 10) : -1;
+    this._hls.subtitleDisplay = index !== -1 && this.textTrackDisplay === 'native';
+    this._hls.subtitleTrack = index;
+  }
+
+  // 重写流内字幕解析 - hls.js以字幕名称和语言创建TextTrack
+  protected resolveStreamTextTrackId(textTrack: TextTrack): string | null {
+    const index = this._subtitleTracks.findIndex(track =>
+      (track.name || '') === textTrack.label && (track.lang || '') === textTrack.language
+    );
+    return index === -1 ? null : `hls-${index}`;
+  }
+
   // 私有方法 - 处理质量级别
   private processQualityLevels(levels: any[]): void {
     this._qualityLevels = levels.map((level, index) => ({
@@ -256,34 +479,38 @@ export class HLSPlayer<T extends Record<string, any> = Record<string, any>>
 
   // 私有方法 - 加载HLS源
   private loadHLSSource(): void {
-    if (!this._hls) return;
+    if (!this._hls || !this._hlsSource) return;
+    
+    this._hls.attachMedia(this.element);
+    this._hls.loadSource(this._hlsSource.src);
+  }
+
+  // 私有方法 - 释放HLS.js实例
+  private teardownHLS(): void {
+    this.clearRecoveryTimers();
+    this.resetRecoveryState();
     
-    const hlsSource = this.config.sources.find(source => source.type === 'hls');
-    if (hlsSource) {
-      this._hls.attachMedia(this.element);
-      this._hls.loadSource(hlsSource.src);
+    if (this._hls) {
+      this._hls.destroy();
+      this._hls = null;
     }
+    
+    this._qualityLevels = [];
+    this._currentLevel = -1;
+    this._activeQuality = 'auto';
+    this._isLiveStream = false;
+    this._subtitleTracks = [];
+    this._audioTracks = [];
   }
 
   // 私有方法 - 处理HLS错误
   private handleHLSError(error: any, fatal = true): void {
-    let videoError: VideoError;
-    
-    if (typeof error === 'string') {
-      videoError = {
-        type: 'unknown',
-        code: 0,
-        message: error,
-        timestamp: Date.now(),
-        fatal,
-        details: {}
-      };
-    } else {
-      videoError = {
-        type: this.mapHLSErrorType(error.type),
-        code: 0,
-        message: error.details || 'HLS Error',
-        timestamp: Date.now(),
+    // 字符串错误只来自初始化阶段：浏览器既不支持MSE也不支持原生HLS
+    const videoError: VideoError = typeof error === 'string'
+      ? normalizeVideoError({ source: 'hls', error, code: VideoErrorCode.MSE_UNSUPPORTED, fatal })
+      : normalizeVideoError({
+        source: 'hls',
+        error,
         fatal: error.fatal || fatal,
         details: {
           hlsError: error,
@@ -291,52 +518,186 @@ export class HLSPlayer<T extends Record<string, any> = Record<string, any>>
           details: error.details,
           reason: error.reason
         }
-      };
-    }
+      });
 
-    this.emitEvent('error', videoError);
+    if (!this._hls || !error.fatal) {
+      this.emitEvent('error', videoError);
+      return;
+    }
 
-    // 尝试恢复
-    if (this._hls && error.fatal) {
-      this.attemptRecovery(error);
+    // 致命错误先按策略尝试恢复
+    const plan = this.planRecovery(error, videoError);
+    if (plan) {
+      videoError.recoverable = true;
+      this.emitEvent('error', videoError);
+      this.scheduleRecovery(plan, videoError);
+      return;
     }
+
+    // 恢复策略用尽，放弃恢复
+    const errorClass = this.getErrorClass(error.type);
+    videoError.recoverable = false;
+    this.emitEvent('recoveryfailed', {
+      errorClass,
+      attempts: this._recoveryAttempts[errorClass],
+      error: videoError
+    });
+
+    // 无法恢复时切换到下一个源，否则进入error状态
+    this.handleFatalError(videoError);
   }
 
-  // 私有方法 - 映射HLS错误类型
-  private mapHLSErrorType(hlsErrorType: string): 'network' | 'decode' | 'src_not_supported' | 'unknown' {
+  // 私有方法 - 映射HLS错误分类
+  private getErrorClass(hlsErrorType: string): HLSErrorClass {
     switch (hlsErrorType) {
       case 'networkError':
         return 'network';
       case 'mediaError':
-        return 'decode';
-      case 'muxError':
-        return 'src_not_supported';
+        return 'media';
       default:
-        return 'unknown';
+        return 'other';
     }
   }
 
-  // 私有方法 - 尝试错误恢复
-  private attemptRecovery(error: any): void {
+  // 私有方法 - 合并恢复策略
+  private getRecoveryPolicy(): typeof DEFAULT_RECOVERY_POLICY {
+    const policy: HLSRecoveryPolicy = this.config.hls?.recovery || {};
+    
+    return {
+      ...DEFAULT_RECOVERY_POLICY,
+      ...policy,
+      maxAttempts: { ...DEFAULT_RECOVERY_POLICY.maxAttempts, ...policy.maxAttempts }
+    };
+  }
+
+  // 私有方法 - 制定恢复计划，返回null表示该错误无法或不应再恢复
+  private planRecovery(error: any, videoError: VideoError): HLSRecoveryPlan | null {
+    // 错误目录判定重试无意义的错误（清单无效、编解码器或密钥系统不可用等）直接放弃；
+    // 未识别的错误仍按分类策略有限次恢复
+    if (!videoError.retryable && videoError.code !== VideoErrorCode.UNKNOWN) {
+      console.log(`HLS: ${error.details} is not recoverable`);
+      return null;
+    }
+
+    const policy = this.getRecoveryPolicy();
+    const errorClass = this.getErrorClass(error.type);
+    const maxAttempts = policy.maxAttempts[errorClass];
+    const attempt = this._recoveryAttempts[errorClass] + 1;
+
+    if (attempt > maxAttempts) {
+      console.log(`HLS: Giving up ${errorClass} error recovery after ${maxAttempts} attempts`);
+      return null;
+    }
+
+    this._recoveryAttempts[errorClass] = attempt;
+
+    let stage: HLSRecoveryStage;
+    switch (errorClass) {
+      case 'network':
+        stage = 'startLoad';
+        break;
+      case 'media':
+        // 重复的媒体错误通常是音频编解码器不匹配，先切换编解码器
+        stage = attempt === 2 && policy.swapAudioCodec ? 'swapAudioCodec' : 'recoverMediaError';
+        break;
+      default:
+        stage = 'reinitialize';
+        break;
+    }
+
+    const delay = Math.min(
+      policy.maxDelay,
+      policy.baseDelay * Math.pow(policy.backoffMultiplier, attempt - 1)
+    );
+
+    return { errorClass, stage, attempt, maxAttempts, delay };
+  }
+
+  // 私有方法 - 退避后执行恢复
+  private scheduleRecovery(plan: HLSRecoveryPlan, videoError: VideoError): void {
+    this.clearRecoveryTimers();
+
+    this.emitEvent('recovering', { ...plan, error: videoError });
+
+    this._recoveryTimer = setTimeout(() => {
+      this._recoveryTimer = null;
+      this.executeRecovery(plan);
+    }, plan.delay);
+  }
+
+  // 私有方法 - 执行恢复阶段
+  private executeRecovery(plan: HLSRecoveryPlan): void {
     if (!this._hls) return;
 
-    switch (error.type) {
-      case 'networkError':
-        console.log('HLS: Attempting network error recovery...');
+    console.log(`HLS: Recovery attempt ${plan.attempt}/${plan.maxAttempts} (${plan.stage})`);
+    this._activeRecovery = plan;
+
+    switch (plan.stage) {
+      case 'startLoad':
         this._hls.startLoad();
         break;
-      case 'mediaError':
-        console.log('HLS: Attempting media error recovery...');
+      case 'swapAudioCodec':
+        this._hls.swapAudioCodec();
         this._hls.recoverMediaError();
         break;
-      default:
-        console.log('HLS: Attempting generic recovery...');
+      case 'recoverMediaError':
+        this._hls.recoverMediaError();
+        break;
+      case 'reinitialize':
         this._hls.destroy();
         this.initializeHLSJS();
         break;
     }
   }
 
+  // 私有方法 - 恢复成功
+  private handleRecoverySucceeded(): void {
+    const plan = this._activeRecovery!;
+    this._activeRecovery = null;
+
+    this.emitEvent('recovered', {
+      errorClass: plan.errorClass,
+      stage: plan.stage,
+      attempts: plan.attempt
+    });
+
+    // 稳定播放一段时间后才重置计数，避免“恢复-失败”无限循环
+    const { resetWindow } = this.getRecoveryPolicy();
+    if (this._recoveryResetTimer) {
+      clearTimeout(this._recoveryResetTimer);
+    }
+    this._recoveryResetTimer = setTimeout(() => {
+      this._recoveryResetTimer = null;
+      this.resetRecoveryState();
+    }, resetWindow);
+  }
+
+  // 私有方法 - 清理恢复定时器
+  private clearRecoveryTimers(): void {
+    if (this._recoveryTimer) {
+      clearTimeout(this._recoveryTimer);
+      this._recoveryTimer = null;
+    }
+    if (this._recoveryResetTimer) {
+      clearTimeout(this._recoveryResetTimer);
+      this._recoveryResetTimer = null;
+    }
+  }
+
+  // 私有方法 - 重置恢复计数
+  private resetRecoveryState(): void {
+    this._recoveryAttempts = { network: 0, media: 0, other: 0 };
+    this._activeRecovery = null;
+  }
+
+  // 获取恢复状态
+  getRecoveryState(): { attempts: Record<HLSErrorClass, number>; recovering: boolean } {
+    return {
+      attempts: { ...this._recoveryAttempts },
+      recovering: this._recoveryTimer !== null || this._activeRecovery !== null
+    };
+  }
+
   // 重写质量控制方法
   setQuality(quality: VideoQuality): void {
     if (!this._hls) {
@@ -345,23 +706,23 @@ export class HLSPlayer<T extends Record<string, any> = Record<string, any>>
     }
 
     const oldQuality = this.getCurrentQuality();
+    if (quality === oldQuality) return;
 
     if (quality === 'auto') {
       this._hls.currentLevel = -1; // 启用自动质量
       this._currentLevel = -1;
     } else {
       const levelIndex = this._qualityLevels.findIndex(level => level.name === quality);
-      if (levelIndex !== -1) {
-        this._hls.currentLevel = this._qualityLevels[levelIndex].level;
-        this._currentLevel = levelIndex;
-      }
+      if (levelIndex === -1) return;
+      this._hls.currentLevel = this._qualityLevels[levelIndex].level;
+      this._currentLevel = levelIndex;
     }
 
     // 发射质量变更事件
     this.emitEvent('qualitychange', { from: oldQuality, to: quality });
 
     // 更新统计
-    this.stats.qualityChanges++;
+    this.recordQualityChange();
   }
 
   // 重写获取可用质量方法
@@ -385,6 +746,11 @@ export class HLSPlayer<T extends Record<string, any> = Record<string, any>>
     return this._qualityLevels[this._currentLevel]?.name || 'auto';
   }
 
+  // 重写当前码率 - 正在播放的级别，用于stats.averageBitrate的时间加权
+  protected getCurrentBitrate(): number {
+    return this._hls?.levels[this._hls.currentLevel]?.bitrate ?? 0;
+  }
+
   // 获取HLS统计信息
   getHLSStats(): Record<string, any> {
     if (!this._hls) return {};
@@ -397,11 +763,25 @@ export class HLSPlayer<T extends Record<string, any> = Record<string, any>>
       loadLevel: this._hls.loadLevel,
       autoLevelEnabled: this._hls.autoLevelEnabled,
       autoLevelCapping: this._hls.autoLevelCapping,
+      currentBitrate: this.getCurrentBitrate(),
       bandwidthEstimate: this._hls.bandwidthEstimate,
       url: this._hls.url
     };
   }
 
+  /**
+   * 运行时调整后缓冲时长并立即清理当前位置之前超出的部分（内存预算回收）
+   */
+  setBackBufferLength(seconds: number): void {
+    if (!this._hls) return;
+
+    this._hls.config.backBufferLength = seconds;
+    const flushEnd = this.element.currentTime - seconds;
+    if (flushEnd > 0) {
+      this._hls.trigger(Hls.Events.BUFFER_FLUSHING, { startOffset: 0, endOffset: flushEnd, type: null });
+    }
+  }
+
   // 设置HLS特定配置
   updateHLSConfig(config: Partial<HLSConfig<T>>): void {
     if (!this._hls) return;
@@ -427,13 +807,8 @@ export class HLSPlayer<T extends Record<string, any> = Record<string, any>>
 
   // 重写销毁方法
   destroy(): void {
-    if (this._hls) {
-      this._hls.destroy();
-      this._hls = null;
-    }
-    
-    this._qualityLevels = [];
-    this._currentLevel = -1;
+    this.teardownHLS();
+    this._hlsSource = null;
     
     super.destroy();
   }
@@ -0,0 +1,221 @@
+// 快捷键控制器 - 在播放器或其容器获得焦点时处理键盘操作
+
+import type {
+  HotkeyAction,
+  HotkeyConfig,
+  IVideoPlayer
+} from './types';
+
+// 默认按键映射（YouTube风格）
+export const DEFAULT_HOTKEY_KEYMAP: Record<HotkeyAction, string[]> = {
+  togglePlay: [' ', 'k'],
+  seekBackward: ['ArrowLeft'],
+  seekForward: ['ArrowRight'],
+  seekBackwardLong: ['j'],
+  seekForwardLong: ['l'],
+  volumeUp: ['ArrowUp'],
+  volumeDown: ['ArrowDown'],
+  toggleMute: ['m'],
+  toggleFullscreen: ['f'],
+  togglePiP: ['p'],
+  decreaseRate: ['<'],
+  increaseRate: ['>'],
+  seekPercent: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9']
+};
+
+const DEFAULT_HOTKEY_OPTIONS = {
+  seekStep: 5,
+  longSeekStep: 10,
+  volumeStep: 0.1
+};
+
+// 自带键盘交互的控件（自定义控件的按钮、滑块、菜单）
+const INTERACTIVE_CONTROL_SELECTOR = 'button, [role="slider"], [role="menu"]';
+
+// 焦点在可编辑元素或自带键盘交互的控件内时不拦截按键
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable ||
+    ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) ||
+    target.closest(INTERACTIVE_CONTROL_SELECTOR) !== null;
+};
+
+// 字母键不区分大小写，其余按键（如 '<'、'ArrowLeft'）原样匹配
+const normalizeKey = (key: string): string => (key.length === 1 ? key.toLowerCase() : key);
+
+export class HotkeyController {
+  private _player: IVideoPlayer;
+  private _container: HTMLElement;
+  private _bindings = new Map<string, HotkeyAction>();
+  private _options: Required<Omit<HotkeyConfig, 'keymap' | 'container'>>;
+  private _addedTabIndex = false;
+
+  constructor(player: IVideoPlayer, config: HotkeyConfig = {}) {
+    this._player = player;
+    this._container = config.container ?? player.element;
+    this._options = {
+      seekStep: config.seekStep ?? DEFAULT_HOTKEY_OPTIONS.seekStep,
+      longSeekStep: config.longSeekStep ?? DEFAULT_HOTKEY_OPTIONS.longSeekStep,
+      volumeStep: config.volumeStep ?? DEFAULT_HOTKEY_OPTIONS.volumeStep
+    };
+
+    this.setKeymap(config.keymap);
+
+    // 容器必须可聚焦才能接收按键
+    if (!this._container.hasAttribute('tabindex') && this._container.tabIndex < 0) {
+      this._container.tabIndex = 0;
+      this._addedTabIndex = true;
+    }
+
+    this._container.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  /**
+   * 重新映射按键，未指定的动作保持默认按键
+   */
+  setKeymap(keymap: Partial<Record<HotkeyAction, string[]>> = {}): void {
+    this._bindings.clear();
+
+    const bind = (action: HotkeyAction, keys: string[]) => {
+      keys.forEach(key => this._bindings.set(normalizeKey(key), action));
+    };
+
+    // 先绑定默认按键，再绑定自定义按键，使自定义按键可以占用默认按键
+    (Object.keys(DEFAULT_HOTKEY_KEYMAP) as HotkeyAction[])
+      .filter(action => !keymap[action])
+      .forEach(action => bind(action, DEFAULT_HOTKEY_KEYMAP[action]));
+    (Object.keys(keymap) as HotkeyAction[]).forEach(action => bind(action, keymap[action]!));
+  }
+
+  /**
+   * 获取按键对应的动作
+   */
+  getAction(key: string): HotkeyAction | undefined {
+    return this._bindings.get(normalizeKey(key));
+  }
+
+  /**
+   * 执行动作
+   */
+  execute(action: HotkeyAction, key?: string): void {
+    const player = this._player;
+    const element = player.element;
+    const { seekStep, longSeekStep, volumeStep } = this._options;
+
+    switch (action) {
+      case 'togglePlay':
+        if (element.paused || element.ended) {
+          player.play().catch(() => {});
+        } else {
+          player.pause();
+        }
+        break;
+
+      case 'seekBackward':
+        this.seekBy(-seekStep);
+        break;
+
+      case 'seekForward':
+        this.seekBy(seekStep);
+        break;
+
+      case 'seekBackwardLong':
+        this.seekBy(-longSeekStep);
+        break;
+
+      case 'seekForwardLong':
+        this.seekBy(longSeekStep);
+        break;
+
+      case 'volumeUp':
+        player.setVolume(element.volume + volumeStep);
+        if (element.muted) player.unmute();
+        break;
+
+      case 'volumeDown':
+        player.setVolume(element.volume - volumeStep);
+        break;
+
+      case 'toggleMute':
+        player.toggleMute();
+        break;
+
+      case 'toggleFullscreen':
+        player.toggleFullscreen().catch(() => {});
+        break;
+
+      case 'togglePiP':
+        player.togglePiP().catch(() => {});
+        break;
+
+      case 'decreaseRate':
+        this.stepRate(-1);
+        break;
+
+      case 'increaseRate':
+        this.stepRate(1);
+        break;
+
+      case 'seekPercent': {
+        const digit = key !== undefined ? parseInt(key, 10) : NaN;
+        const duration = element.duration;
+        if (!Number.isNaN(digit) && Number.isFinite(duration)) {
+          player.seek((duration * digit) / 10);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * 移除监听
+   */
+  destroy(): void {
+    this._container.removeEventListener('keydown', this.handleKeyDown);
+    if (this._addedTabIndex) {
+      this._container.removeAttribute('tabindex');
+    }
+    this._bindings.clear();
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+    if (isEditableTarget(event.target)) return;
+
+    const action = this.getAction(event.key);
+    if (!action) return;
+
+    // 阻止页面滚动及原生控件重复处理
+    event.preventDefault();
+    this.execute(action, event.key);
+  };
+
+  private seekBy(offset: number): void {
+    const element = this._player.element;
+    let start = 0;
+    let end = Number.isFinite(element.duration) ? element.duration : 0;
+
+    // 直播时长为Infinity，限制在可跳转窗口内
+    if (element.duration === Infinity) {
+      const seekable = element.seekable;
+      if (seekable.length === 0) return;
+      start = seekable.start(0);
+      end = seekable.end(seekable.length - 1);
+    }
+
+    this._player.seek(Math.max(start, Math.min(end, element.currentTime + offset)));
+  }
+
+  // 在播放器的速度预设之间切换
+  private stepRate(direction: 1 | -1): void {
+    const current = this._player.element.playbackRate;
+    const presets = this._player.getPlaybackRates();
+    const candidates = direction > 0
+      ? presets.filter(rate => rate > current)
+      : presets.filter(rate => rate < current).reverse();
+
+    if (candidates.length > 0) {
+      this._player.setPlaybackRate(candidates[0]);
+    }
+  }
+}
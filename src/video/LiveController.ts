@@ -0,0 +1,191 @@
+// 直播控制器 - 直播延迟测量、DVR窗口、回到直播点，以及通过播放速度追赶目标延迟
+
+import type { LiveConfig, VideoLiveWindow } from './types';
+
+export const DEFAULT_LIVE_CONFIG = {
+  latencyTolerance: 0.5,
+  minCatchUpRate: 0.95,
+  maxCatchUpRate: 1.1,
+  liveEdgeThreshold: 3
+} as const;
+
+// 未知目标延迟时，回到直播点保留的距离（秒），避免落在最后一个分片末尾立即卡顿
+const DEFAULT_LIVE_EDGE_OFFSET = 3;
+
+// 延迟每偏离目标1秒，播放速度调整的比例
+const CATCH_UP_GAIN = 0.05;
+
+// 暂停时timeupdate不再触发，按该间隔更新直播状态（毫秒）
+const LIVE_STATUS_INTERVAL = 1000;
+
+export interface LiveControllerOptions {
+  config?: LiveConfig;
+  // 由播放器判定（HLS清单、原生Infinity时长）
+  isLive: () => boolean;
+  // 配置未指定时的目标延迟（如hls.js的targetLatency）
+  getDefaultTargetLatency: () => number | null;
+  onLiveEdgeChange: (atLiveEdge: boolean, latency: number, targetLatency: number | null) => void;
+}
+
+export class LiveController {
+  private _element: HTMLVideoElement;
+  private _options: LiveControllerOptions;
+  private _config: LiveConfig;
+  // 追赶时设置的播放速度；与当前速度不同说明用户手动改过速度
+  private _appliedRate: number | null = null;
+  private _atLiveEdge: boolean | null = null;
+  private _statusTimer: ReturnType<typeof setInterval> | null = null;
+  private _isDestroyed = false;
+
+  constructor(element: HTMLVideoElement, options: LiveControllerOptions) {
+    this._element = element;
+    this._options = options;
+    this._config = options.config ?? {};
+
+    element.addEventListener('timeupdate', this.update);
+    element.addEventListener('durationchange', this.update);
+    element.addEventListener('seeked', this.update);
+    element.addEventListener('ratechange', this.handleRateChange);
+    element.addEventListener('pause', this.startStatusTimer);
+    element.addEventListener('play', this.stopStatusTimer);
+  }
+
+  get isLive(): boolean {
+    return this._options.isLive();
+  }
+
+  /**
+   * 追赶中设置的播放速度，未追赶时为null（播放器据此避免持久化）
+   */
+  get catchUpRate(): number | null {
+    return this._appliedRate;
+  }
+
+  get targetLatency(): number | null {
+    return this._config.targetLatency ?? this._options.getDefaultTargetLatency();
+  }
+
+  /**
+   * 可跳转窗口（DVR），取自seekable；非直播或尚未加载时返回null
+   */
+  getWindow(): VideoLiveWindow | null {
+    const seekable = this._element.seekable;
+    if (!this.isLive || !seekable || seekable.length === 0) return null;
+
+    const start = seekable.start(0);
+    const end = seekable.end(seekable.length - 1);
+    return { start, end, duration: Math.max(0, end - start) };
+  }
+
+  /**
+   * 当前播放位置与直播点的距离（秒）
+   */
+  getLatency(): number | null {
+    const window = this.getWindow();
+    return window ? Math.max(0, window.end - this._element.currentTime) : null;
+  }
+
+  /**
+   * 回到直播点（保留目标延迟）
+   */
+  seekToLiveEdge(): void {
+    const window = this.getWindow();
+    if (!window) return;
+
+    const offset = this.targetLatency ?? DEFAULT_LIVE_EDGE_OFFSET;
+    this._element.currentTime = Math.max(window.start, window.end - offset);
+  }
+
+  destroy(): void {
+    this._isDestroyed = true;
+    this.stopStatusTimer();
+    this.resetRate();
+
+    this._element.removeEventListener('timeupdate', this.update);
+    this._element.removeEventListener('durationchange', this.update);
+    this._element.removeEventListener('seeked', this.update);
+    this._element.removeEventListener('ratechange', this.handleRateChange);
+    this._element.removeEventListener('pause', this.startStatusTimer);
+    this._element.removeEventListener('play', this.stopStatusTimer);
+  }
+
+  // 更新直播点状态并调整追赶速度
+  private update = (): void => {
+    if (this._isDestroyed) return;
+
+    const latency = this.getLatency();
+    if (latency === null) {
+      this.resetRate();
+      return;
+    }
+
+    const target = this.targetLatency;
+    const threshold = this._config.liveEdgeThreshold ?? DEFAULT_LIVE_CONFIG.liveEdgeThreshold;
+    const atLiveEdge = !this._element.paused && latency <= (target ?? 0) + threshold;
+
+    if (atLiveEdge !== this._atLiveEdge) {
+      this._atLiveEdge = atLiveEdge;
+      this._options.onLiveEdgeChange(atLiveEdge, latency, target);
+    }
+
+    this.catchUp(latency, target);
+  };
+
+  /**
+   * 按延迟偏差成比例调整播放速度，限制在[minCatchUpRate, maxCatchUpRate]；
+   * 用户手动改变速度、暂停、跳转中或已明显落后（DVR回看）时不追赶
+   */
+  private catchUp(latency: number, target: number | null): void {
+    const enabled = this._config.catchUp ?? this._config.targetLatency !== undefined;
+    const element = this._element;
+    const userRate = this._appliedRate === null && element.playbackRate !== 1;
+
+    if (!enabled || target === null || userRate || element.paused || element.seeking || !this._atLiveEdge) {
+      this.resetRate();
+      return;
+    }
+
+    const delta = latency - target;
+    const tolerance = this._config.latencyTolerance ?? DEFAULT_LIVE_CONFIG.latencyTolerance;
+    if (Math.abs(delta) <= tolerance) {
+      this.resetRate();
+      return;
+    }
+
+    const min = this._config.minCatchUpRate ?? DEFAULT_LIVE_CONFIG.minCatchUpRate;
+    const max = this._config.maxCatchUpRate ?? DEFAULT_LIVE_CONFIG.maxCatchUpRate;
+    const rate = Math.round(Math.max(min, Math.min(max, 1 + delta * CATCH_UP_GAIN)) * 100) / 100;
+
+    if (rate !== element.playbackRate) {
+      this._appliedRate = rate;
+      element.playbackRate = rate;
+    }
+  }
+
+  private resetRate(): void {
+    if (this._appliedRate === null) return;
+
+    this._appliedRate = null;
+    this._element.playbackRate = 1;
+  }
+
+  private handleRateChange = (): void => {
+    // 用户在追赶过程中手动改速时放弃追赶
+    if (this._appliedRate !== null && this._element.playbackRate !== this._appliedRate && this._element.playbackRate !== 1) {
+      this._appliedRate = null;
+    }
+  };
+
+  private startStatusTimer = (): void => {
+    this.update();
+    if (this._statusTimer || this._isDestroyed || !this.isLive) return;
+    this._statusTimer = setInterval(this.update, LIVE_STATUS_INTERVAL);
+  };
+
+  private stopStatusTimer = (): void => {
+    if (this._statusTimer) {
+      clearInterval(this._statusTimer);
+      this._statusTimer = null;
+    }
+  };
+}
@@ -0,0 +1,380 @@
+// MPEG-DASH MPD 清单解析器 - 将MPD XML转换为可直接寻址的分片列表
+
+// 媒体类型
+export type MPDContentType = 'video' | 'audio' | 'text';
+
+// 分片信息
+export interface MPDSegment {
+  url: string;
+  start: number;
+  duration: number;
+  number: number;
+}
+
+// 表示（码率档位）
+export interface MPDRepresentation {
+  id: string;
+  bandwidth: number;
+  width?: number;
+  height?: number;
+  frameRate?: string;
+  codecs: string;
+  mimeType: string;
+  initialization: string | null;
+  segments: MPDSegment[];
+}
+
+// 自适应集
+export interface MPDAdaptationSet {
+  id: string;
+  contentType: MPDContentType;
+  mimeType: string;
+  lang?: string;
+  representations: MPDRepresentation[];
+}
+
+// 周期
+export interface MPDPeriod {
+  id: string;
+  start: number;
+  duration: number;
+  adaptationSets: MPDAdaptationSet[];
+}
+
+// 清单
+export interface MPDManifest {
+  type: 'static' | 'dynamic';
+  url: string;
+  duration: number;
+  minBufferTime: number;
+  periods: MPDPeriod[];
+}
+
+// 清单内容无效（非MPD文档或缺少必需结构），区别于请求失败
+export class MPDParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MPDParseError';
+  }
+}
+
+// 分片模板参数（可在AdaptationSet和Representation层级继承）
+interface SegmentTemplateInfo {
+  media?: string;
+  initialization?: string;
+  timescale: number;
+  duration?: number;
+  startNumber: number;
+  presentationTimeOffset: number;
+  timeline?: Array<{ t?: number; d: number; r: number }>;
+}
+
+/**
+ * 解析ISO 8601时长（如 PT1H2M3.5S）为秒
+ */
+export const parseISODuration = (value: string | null | undefined): number => {
+  if (!value) return 0;
+
+  const match = /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(value.trim());
+  if (!match) return 0;
+
+  const [, days, hours, minutes, seconds] = match;
+  return (
+    parseFloat(days || '0') * 86400 +
+    parseFloat(hours || '0') * 3600 +
+    parseFloat(minutes || '0') * 60 +
+    parseFloat(seconds || '0')
+  );
+};
+
+/**
+ * 展开分片模板中的标识符（$RepresentationID$、$Number%05d$ 等）
+ */
+export const fillSegmentTemplate = (
+  template: string,
+  values: { representationId: string; bandwidth: number; number?: number; time?: number }
+): string => {
+  return template.replace(/\$(RepresentationID|Bandwidth|Number|Time|)(?:%0(\d+)d)?\$/g, (_, name: string, width?: string) => {
+    let value: string;
+    switch (name) {
+      case '':
+        return '$';
+      case 'RepresentationID':
+        return values.representationId;
+      case 'Bandwidth':
+        value = String(values.bandwidth);
+        break;
+      case 'Number':
+        value = String(values.number ?? 0);
+        break;
+      case 'Time':
+        value = String(values.time ?? 0);
+        break;
+      default:
+        return _;
+    }
+    return width ? value.padStart(parseInt(width, 10), '0') : value;
+  });
+};
+
+// 私有工具 - 按本地名称获取直接子元素
+const childElements = (parent: Element, name: string): Element[] => {
+  return Array.from(parent.children).filter(child => child.localName === name);
+};
+
+const firstChild = (parent: Element, name: string): Element | null => {
+  return childElements(parent, name)[0] || null;
+};
+
+// 私有工具 - 解析BaseURL（相对于上层地址）
+const resolveBaseURL = (element: Element, parentBase: string): string => {
+  const baseElement = firstChild(element, 'BaseURL');
+  const text = baseElement?.textContent?.trim();
+  return text ? new URL(text, parentBase).toString() : parentBase;
+};
+
+const numberAttr = (element: Element | null, name: string): number | undefined => {
+  const value = element?.getAttribute(name);
+  if (value === null || value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// 私有工具 - 读取并合并分片模板
+const readSegmentTemplate = (
+  element: Element | null,
+  inherited?: SegmentTemplateInfo
+): SegmentTemplateInfo | undefined => {
+  if (!element) return inherited;
+
+  const timelineElement = firstChild(element, 'SegmentTimeline');
+  const timeline = timelineElement
+    ? childElements(timelineElement, 'S').map(s => ({
+        t: numberAttr(s, 't'),
+        d: numberAttr(s, 'd') ?? 0,
+        r: numberAttr(s, 'r') ?? 0
+      }))
+    : inherited?.timeline;
+
+  return {
+    media: element.getAttribute('media') ?? inherited?.media,
+    initialization: element.getAttribute('initialization') ?? inherited?.initialization,
+    timescale: numberAttr(element, 'timescale') ?? inherited?.timescale ?? 1,
+    duration: numberAttr(element, 'duration') ?? inherited?.duration,
+    startNumber: numberAttr(element, 'startNumber') ?? inherited?.startNumber ?? 1,
+    presentationTimeOffset: numberAttr(element, 'presentationTimeOffset') ?? inherited?.presentationTimeOffset ?? 0,
+    timeline
+  };
+};
+
+// 私有工具 - 根据模板生成分片列表
+const buildTemplateSegments = (
+  template: SegmentTemplateInfo,
+  representationId: string,
+  bandwidth: number,
+  baseURL: string,
+  periodDuration: number
+): MPDSegment[] => {
+  if (!template.media) return [];
+
+  const segments: MPDSegment[] = [];
+  const { timescale, startNumber, presentationTimeOffset } = template;
+  const resolve = (number: number, time: number) => new URL(
+    fillSegmentTemplate(template.media!, { representationId, bandwidth, number, time }),
+    baseURL
+  ).toString();
+
+  if (template.timeline && template.timeline.length > 0) {
+    let time = 0;
+    let number = startNumber;
+
+    template.timeline.forEach((entry, index) => {
+      if (entry.t !== undefined) {
+        time = entry.t;
+      }
+
+      let repeat = entry.r;
+      if (repeat < 0) {
+        // r=-1 表示重复到下一个S或周期结束
+        const next = template.timeline![index + 1];
+        const end = next?.t !== undefined
+          ? next.t
+          : presentationTimeOffset + periodDuration * timescale;
+        repeat = Math.max(0, Math.ceil((end - time) / entry.d) - 1);
+      }
+
+      for (let i = 0; i <= repeat; i++) {
+        segments.push({
+          url: resolve(number, time),
+          start: (time - presentationTimeOffset) / timescale,
+          duration: entry.d / timescale,
+          number
+        });
+        time += entry.d;
+        number++;
+      }
+    });
+
+    return segments;
+  }
+
+  if (template.duration && periodDuration > 0) {
+    const segmentDuration = template.duration / timescale;
+    const count = Math.ceil(periodDuration / segmentDuration);
+
+    for (let i = 0; i < count; i++) {
+      const number = startNumber + i;
+      segments.push({
+        url: resolve(number, i * template.duration),
+        start: i * segmentDuration,
+        duration: Math.min(segmentDuration, periodDuration - i * segmentDuration),
+        number
+      });
+    }
+  }
+
+  return segments;
+};
+
+// 私有工具 - 解析SegmentList
+const buildListSegments = (listElement: Element, baseURL: string): { initialization: string | null; segments: MPDSegment[] } => {
+  const timescale = numberAttr(listElement, 'timescale') ?? 1;
+  const duration = (numberAttr(listElement, 'duration') ?? 0) / timescale;
+  const startNumber = numberAttr(listElement, 'startNumber') ?? 1;
+  const initElement = firstChild(listElement, 'Initialization');
+  const initSource = initElement?.getAttribute('sourceURL');
+
+  const segments = childElements(listElement, 'SegmentURL').map((segmentElement, index) => ({
+    url: new URL(segmentElement.getAttribute('media') || '', baseURL).toString(),
+    start: index * duration,
+    duration,
+    number: startNumber + index
+  }));
+
+  return {
+    initialization: initSource ? new URL(initSource, baseURL).toString() : null,
+    segments
+  };
+};
+
+// 私有工具 - 判断自适应集的媒体类型
+const detectContentType = (adaptationSet: Element, firstRepresentation: Element | null): MPDContentType | null => {
+  const contentType = adaptationSet.getAttribute('contentType');
+  const mimeType = adaptationSet.getAttribute('mimeType') || firstRepresentation?.getAttribute('mimeType') || '';
+  const value = contentType || mimeType.split('/')[0];
+
+  if (value === 'video' || value === 'audio') return value;
+  if (value === 'text' || mimeType === 'application/ttml+xml') return 'text';
+  return null;
+};
+
+/**
+ * 解析MPD清单
+ *
+ * 支持 SegmentTemplate（$Number$ / $Time$ / SegmentTimeline）、SegmentList
+ * 以及仅有 BaseURL 的单文件表示。SegmentBase + sidx 索引暂不支持。
+ */
+export const parseMPD = (xml: string, manifestUrl: string): MPDManifest => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = document.documentElement;
+
+  if (!root || root.localName !== 'MPD' || document.getElementsByTagName('parsererror').length > 0) {
+    throw new MPDParseError('Invalid MPD manifest');
+  }
+
+  const type = root.getAttribute('type') === 'dynamic' ? 'dynamic' : 'static';
+  const mediaPresentationDuration = parseISODuration(root.getAttribute('mediaPresentationDuration'));
+  const minBufferTime = parseISODuration(root.getAttribute('minBufferTime'));
+  const mpdBase = resolveBaseURL(root, manifestUrl);
+
+  const periodElements = childElements(root, 'Period');
+  let periodStart = 0;
+
+  const periods: MPDPeriod[] = periodElements.map((periodElement, periodIndex) => {
+    const start = periodElement.hasAttribute('start')
+      ? parseISODuration(periodElement.getAttribute('start'))
+      : periodStart;
+    const nextPeriod = periodElements[periodIndex + 1];
+    const duration = periodElement.hasAttribute('duration')
+      ? parseISODuration(periodElement.getAttribute('duration'))
+      : nextPeriod?.hasAttribute('start')
+      ? parseISODuration(nextPeriod.getAttribute('start')) - start
+      : Math.max(0, mediaPresentationDuration - start);
+    periodStart = start + duration;
+
+    const periodBase = resolveBaseURL(periodElement, mpdBase);
+    const periodTemplate = readSegmentTemplate(firstChild(periodElement, 'SegmentTemplate'));
+
+    const adaptationSets = childElements(periodElement, 'AdaptationSet').reduce<MPDAdaptationSet[]>((sets, setElement, setIndex) => {
+      const representationElements = childElements(setElement, 'Representation');
+      const contentType = detectContentType(setElement, representationElements[0] || null);
+      if (!contentType) return sets;
+
+      const setBase = resolveBaseURL(setElement, periodBase);
+      const setTemplate = readSegmentTemplate(firstChild(setElement, 'SegmentTemplate'), periodTemplate);
+      const setMimeType = setElement.getAttribute('mimeType') || '';
+      const setCodecs = setElement.getAttribute('codecs') || '';
+
+      const representations = representationElements.map<MPDRepresentation>((repElement, repIndex) => {
+        const id = repElement.getAttribute('id') || `${setIndex}-${repIndex}`;
+        const bandwidth = numberAttr(repElement, 'bandwidth') ?? 0;
+        const repBase = resolveBaseURL(repElement, setBase);
+        const template = readSegmentTemplate(firstChild(repElement, 'SegmentTemplate'), setTemplate);
+        const listElement = firstChild(repElement, 'SegmentList') || firstChild(setElement, 'SegmentList');
+
+        let initialization: string | null = null;
+        let segments: MPDSegment[] = [];
+
+        if (template?.media) {
+          segments = buildTemplateSegments(template, id, bandwidth, repBase, duration);
+          initialization = template.initialization
+            ? new URL(fillSegmentTemplate(template.initialization, { representationId: id, bandwidth }), repBase).toString()
+            : null;
+        } else if (listElement) {
+          ({ initialization, segments } = buildListSegments(listElement, repBase));
+        } else if (repBase !== setBase) {
+          // 单文件表示：整个文件作为一个分片
+          segments = [{ url: repBase, start: 0, duration, number: 1 }];
+        }
+
+        return {
+          id,
+          bandwidth,
+          width: numberAttr(repElement, 'width') ?? numberAttr(setElement, 'width'),
+          height: numberAttr(repElement, 'height') ?? numberAttr(setElement, 'height'),
+          frameRate: repElement.getAttribute('frameRate') || setElement.getAttribute('frameRate') || undefined,
+          codecs: repElement.getAttribute('codecs') || setCodecs,
+          mimeType: repElement.getAttribute('mimeType') || setMimeType,
+          initialization,
+          segments
+        };
+      });
+
+      sets.push({
+        id: setElement.getAttribute('id') || String(setIndex),
+        contentType,
+        mimeType: setMimeType || representations[0]?.mimeType || '',
+        lang: setElement.getAttribute('lang') || undefined,
+        // 按码率从低到高排序，便于ABR选择
+        representations: representations.sort((a, b) => a.bandwidth - b.bandwidth)
+      });
+
+      return sets;
+    }, []);
+
+    return {
+      id: periodElement.getAttribute('id') || String(periodIndex),
+      start,
+      duration,
+      adaptationSets
+    };
+  });
+
+  return {
+    type,
+    url: manifestUrl,
+    duration: mediaPresentationDuration || periods.reduce((total, period) => total + period.duration, 0),
+    minBufferTime,
+    periods
+  };
+};
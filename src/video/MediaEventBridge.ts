@@ -0,0 +1,148 @@
+// 自定义事件层 - 把document全屏和画中画切换桥接为播放器事件，并从媒体事件派生buffering与ready
+
+import type { VideoEventType } from './types';
+
+export interface MediaEventBridgeOptions {
+  // 媒体已让渡时元素上的事件不属于当前播放器
+  isActive: () => boolean;
+  onFullscreenChange: (isFullscreen: boolean, element: Element | null) => void;
+  onPiPChange: (isPiP: boolean) => void;
+  onBufferingChange: (isBuffering: boolean, bufferLevel: number) => void;
+  onReady: () => void;
+}
+
+// 带前缀的全屏变化事件（Safari）
+const FULLSCREEN_CHANGE_EVENTS = ['fullscreenchange', 'webkitfullscreenchange'];
+
+// Safari通过presentationMode切换画中画
+const PIP_CHANGE_EVENTS = ['enterpictureinpicture', 'leavepictureinpicture', 'webkitpresentationmodechanged'];
+
+const getFullscreenElement = (): Element | null => {
+  const doc = document as Document & { webkitFullscreenElement?: Element | null };
+  return doc.fullscreenElement ?? doc.webkitFullscreenElement ?? null;
+};
+
+export class MediaEventBridge {
+  private _element: HTMLVideoElement;
+  private _options: MediaEventBridgeOptions;
+  private _isFullscreen = false;
+  private _isPiP = false;
+  private _isBuffering = false;
+  private _isReady = false;
+
+  constructor(element: HTMLVideoElement, options: MediaEventBridgeOptions) {
+    this._element = element;
+    this._options = options;
+
+    FULLSCREEN_CHANGE_EVENTS.forEach(type => document.addEventListener(type, this.handleFullscreenChange));
+    PIP_CHANGE_EVENTS.forEach(type => element.addEventListener(type, this.handlePiPChange));
+  }
+
+  get isFullscreen(): boolean {
+    return this._isFullscreen;
+  }
+
+  get isPiP(): boolean {
+    return this._isPiP;
+  }
+
+  get isBuffering(): boolean {
+    return this._isBuffering;
+  }
+
+  get isReady(): boolean {
+    return this._isReady;
+  }
+
+  /**
+   * 由播放器在发射原生媒体事件后调用，推进buffering状态机并检查ready条件
+   */
+  handleMediaEvent(type: VideoEventType): void {
+    const readyState = this._element.readyState;
+
+    switch (type) {
+      case 'waiting':
+        this.setBuffering(true);
+        break;
+      case 'stalled':
+        // stalled只表示网络暂无数据，已缓冲足够时播放不受影响
+        if (!this._element.paused && readyState < HTMLMediaElement.HAVE_FUTURE_DATA) {
+          this.setBuffering(true);
+        }
+        break;
+      case 'canplay':
+      case 'canplaythrough':
+      case 'seeked':
+        if (readyState >= HTMLMediaElement.HAVE_FUTURE_DATA) {
+          this.setBuffering(false);
+        }
+        break;
+      case 'playing':
+      case 'pause':
+      case 'ended':
+      case 'emptied':
+      case 'error':
+        this.setBuffering(false);
+        break;
+    }
+
+    if (!this._isReady && readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      this._isReady = true;
+      this._options.onReady();
+    }
+  }
+
+  /**
+   * 加载新源时调用，新源的元数据和首帧可用后再次发射ready
+   */
+  resetReady(): void {
+    this._isReady = false;
+  }
+
+  destroy(): void {
+    FULLSCREEN_CHANGE_EVENTS.forEach(type => document.removeEventListener(type, this.handleFullscreenChange));
+    PIP_CHANGE_EVENTS.forEach(type => this._element.removeEventListener(type, this.handlePiPChange));
+  }
+
+  // 缓冲量：当前位置所在缓冲区间的剩余时长（秒）
+  private getBufferLevel(): number {
+    const { buffered, currentTime } = this._element;
+    for (let i = 0; i < (buffered?.length ?? 0); i++) {
+      if (buffered.start(i) <= currentTime && currentTime <= buffered.end(i)) {
+        return buffered.end(i) - currentTime;
+      }
+    }
+    return 0;
+  }
+
+  private setBuffering(isBuffering: boolean): void {
+    if (this._isBuffering === isBuffering) return;
+
+    this._isBuffering = isBuffering;
+    this._options.onBufferingChange(isBuffering, this.getBufferLevel());
+  }
+
+  // 元素本身或其容器（自定义控件）全屏都视为播放器全屏
+  private handleFullscreenChange = (): void => {
+    const element = getFullscreenElement();
+    const isFullscreen = element !== null && (element === this._element || element.contains(this._element));
+    if (isFullscreen === this._isFullscreen) return;
+
+    this._isFullscreen = isFullscreen;
+    if (this._options.isActive()) {
+      this._options.onFullscreenChange(isFullscreen, element);
+    }
+  };
+
+  private handlePiPChange = (): void => {
+    const element = this._element as HTMLVideoElement & { webkitPresentationMode?: string };
+    const isPiP = (document as Document & { pictureInPictureElement?: Element | null }).pictureInPictureElement === element ||
+      element.webkitPresentationMode === 'picture-in-picture';
+    if (isPiP === this._isPiP) return;
+
+    this._isPiP = isPiP;
+    if (this._options.isActive()) {
+      this._options.onPiPChange(isPiP);
+    }
+  };
+}
@@ -0,0 +1,96 @@
+// 播放速度模型 - 范围、步进、预设、音调保持和用户偏好持久化
+
+import type { PlaybackRate, PlaybackRateConfig } from './types';
+
+// 解析后的播放速度配置
+export interface ResolvedPlaybackRateConfig {
+  min: number;
+  max: number;
+  step: number;
+  presets: PlaybackRate[];
+  preservesPitch: boolean;
+  // null表示不持久化
+  storageKey: string | null;
+}
+
+export const DEFAULT_PLAYBACK_RATE_CONFIG: Required<Omit<PlaybackRateConfig, 'persist'>> = {
+  min: 0.25,
+  max: 4,
+  step: 0.05,
+  presets: [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2],
+  preservesPitch: true
+};
+
+export const DEFAULT_PLAYBACK_RATE_STORAGE_KEY = 'video-playback-rate';
+
+// 私有工具 - 消除浮点误差（如 0.1 * 3）
+const roundRate = (rate: number): number => Math.round(rate * 10000) / 10000;
+
+/**
+ * 合并默认配置，修正无效的范围
+ */
+export const resolvePlaybackRateConfig = (config: PlaybackRateConfig = {}): ResolvedPlaybackRateConfig => {
+  const min = config.min !== undefined && config.min > 0 ? config.min : DEFAULT_PLAYBACK_RATE_CONFIG.min;
+  const max = Math.max(min, config.max ?? DEFAULT_PLAYBACK_RATE_CONFIG.max);
+  const step = config.step !== undefined && config.step > 0 ? config.step : DEFAULT_PLAYBACK_RATE_CONFIG.step;
+
+  const presets = Array.from(new Set(config.presets ?? DEFAULT_PLAYBACK_RATE_CONFIG.presets))
+    .filter(rate => Number.isFinite(rate) && rate >= min && rate <= max)
+    .sort((a, b) => a - b);
+
+  return {
+    min,
+    max,
+    step,
+    presets,
+    preservesPitch: config.preservesPitch ?? DEFAULT_PLAYBACK_RATE_CONFIG.preservesPitch,
+    storageKey: config.persist === true
+      ? DEFAULT_PLAYBACK_RATE_STORAGE_KEY
+      : typeof config.persist === 'string' ? config.persist : null
+  };
+};
+
+/**
+ * 将任意速度规范到配置范围内：预设值保留，其余按步进取整后限制在[min, max]
+ */
+export const clampPlaybackRate = (rate: number, config: ResolvedPlaybackRateConfig): PlaybackRate => {
+  if (!Number.isFinite(rate)) {
+    return Math.max(config.min, Math.min(config.max, 1));
+  }
+
+  const snapped = config.presets.includes(rate) ? rate : roundRate(Math.round(rate / config.step) * config.step);
+  return Math.max(config.min, Math.min(config.max, snapped));
+};
+
+/**
+ * 设置音调保持（含旧版浏览器前缀属性）
+ */
+export const applyPreservesPitch = (element: HTMLMediaElement, preservesPitch: boolean): void => {
+  const media = element as HTMLMediaElement & { mozPreservesPitch?: boolean; webkitPreservesPitch?: boolean };
+  media.preservesPitch = preservesPitch;
+  if ('mozPreservesPitch' in media) media.mozPreservesPitch = preservesPitch;
+  if ('webkitPreservesPitch' in media) media.webkitPreservesPitch = preservesPitch;
+};
+
+/**
+ * 读取持久化的速度偏好
+ */
+export const loadPlaybackRatePreference = (storageKey: string): number | null => {
+  try {
+    const value = parseFloat(localStorage.getItem(storageKey) ?? '');
+    return Number.isFinite(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 保存速度偏好
+ */
+export const savePlaybackRatePreference = (storageKey: string, rate: PlaybackRate): void => {
+  try {
+    localStorage.setItem(storageKey, String(rate));
+  } catch {
+    // 隐私模式或SSR下忽略
+  }
+};
@@ -0,0 +1,399 @@
+// 多播放器协调器 - 独占播放、进入视口自动播放（离开时暂停并释放媒体）、多机位同步组
+
+import type { IVideoPlayer } from './types';
+
+// 可见时自动播放配置
+export interface VisibilityPlaybackConfig {
+  // 可见比例达到该值视为可见，默认0.5
+  threshold?: number;
+  root?: Element | null;
+  rootMargin?: string;
+  // 离开视口时释放媒体（停止下载、释放解码器），重新可见时从原位置恢复，默认true
+  detachOffscreen?: boolean;
+}
+
+// 协调策略
+export interface PlayerCoordinationPolicy {
+  // 同一时间只允许一个播放器播放；同步组内的播放器视为一个整体
+  exclusive?: boolean;
+  // 进入视口时自动播放，离开视口时暂停；独占模式下只播放可见比例最大的播放器
+  autoplayWhenVisible?: boolean | VisibilityPlaybackConfig;
+}
+
+// 同步组配置
+export interface PlayerSyncGroupOptions {
+  // 允许的时间偏差（秒），默认0.04（约一帧）
+  tolerance?: number;
+  // 偏差超过该值时直接跳转对齐（秒），默认1
+  seekThreshold?: number;
+  // 追赶时播放速度的最大调整比例，默认0.1
+  maxRateAdjustment?: number;
+}
+
+export const DEFAULT_VISIBILITY_CONFIG = {
+  threshold: 0.5,
+  rootMargin: '0px',
+  detachOffscreen: true
+} as const;
+
+export const DEFAULT_SYNC_GROUP_OPTIONS = {
+  tolerance: 0.04,
+  seekThreshold: 1,
+  maxRateAdjustment: 0.1
+} as const;
+
+// 每秒偏差对应的速度调整比例
+const SYNC_RATE_GAIN = 0.5;
+
+interface CoordinatedPlayer {
+  player: IVideoPlayer;
+  onPlay: () => void;
+  visible: boolean;
+  ratio: number;
+  // 离开视口时由协调器释放媒体，记录恢复位置
+  detachedAt: number | null;
+}
+
+/**
+ * 同步组 - 以第一个播放器为主，其余播放器跟随播放、暂停、跳转和速度，
+ * 并通过微调播放速度（偏差过大时直接跳转）保持帧级对齐
+ */
+export class PlayerSyncGroup {
+  private _master: IVideoPlayer;
+  private _followers: IVideoPlayer[];
+  private _options: Required<PlayerSyncGroupOptions>;
+  private _onDestroy?: () => void;
+  private _frameHandle: number | null = null;
+  private _isDestroyed = false;
+
+  constructor(players: IVideoPlayer[], options: PlayerSyncGroupOptions = {}, onDestroy?: () => void) {
+    if (players.length < 2) {
+      throw new Error('A sync group requires at least two players');
+    }
+
+    [this._master, ...this._followers] = players;
+    this._options = { ...DEFAULT_SYNC_GROUP_OPTIONS, ...options };
+    this._onDestroy = onDestroy;
+
+    this._master.on('play', this.handlePlay);
+    this._master.on('pause', this.handlePause);
+    this._master.on('seeked', this.handleSeeked);
+    this._master.on('ratechange', this.handleRateChange);
+    this._master.on('timeupdate', this.sync);
+    this.scheduleFrame();
+  }
+
+  get master(): IVideoPlayer {
+    return this._master;
+  }
+
+  get players(): IVideoPlayer[] {
+    return [this._master, ...this._followers];
+  }
+
+  has(player: IVideoPlayer): boolean {
+    return player === this._master || this._followers.includes(player);
+  }
+
+  /**
+   * 跟随者相对主播放器的偏差（秒），正值表示超前
+   */
+  getDrift(player: IVideoPlayer): number {
+    return player.element.currentTime - this._master.element.currentTime;
+  }
+
+  async play(): Promise<void> {
+    await this._master.play();
+  }
+
+  pause(): void {
+    this._master.pause();
+  }
+
+  seek(time: number): void {
+    for (const player of this.players) {
+      player.seek(time);
+    }
+  }
+
+  destroy(): void {
+    if (this._isDestroyed) return;
+
+    this._isDestroyed = true;
+    this._master.off('play', this.handlePlay);
+    this._master.off('pause', this.handlePause);
+    this._master.off('seeked', this.handleSeeked);
+    this._master.off('ratechange', this.handleRateChange);
+    this._master.off('timeupdate', this.sync);
+
+    if (this._frameHandle !== null) {
+      this._master.element.cancelVideoFrameCallback?.(this._frameHandle);
+      this._frameHandle = null;
+    }
+
+    for (const follower of this._followers) {
+      follower.setSyncPlaybackRate(null);
+    }
+    this._onDestroy?.();
+  }
+
+  private handlePlay = (): void => {
+    const time = this._master.element.currentTime;
+    for (const follower of this._followers) {
+      if (Math.abs(this.getDrift(follower)) > this._options.tolerance) {
+        follower.seek(time);
+      }
+      follower.play().catch(() => {});
+    }
+  };
+
+  private handlePause = (): void => {
+    for (const follower of this._followers) {
+      follower.pause();
+    }
+  };
+
+  private handleSeeked = (): void => {
+    const time = this._master.element.currentTime;
+    for (const follower of this._followers) {
+      follower.seek(time);
+    }
+  };
+
+  private handleRateChange = (): void => {
+    this.sync();
+  };
+
+  // 支持requestVideoFrameCallback时逐帧校正，否则依赖timeupdate
+  private scheduleFrame(): void {
+    const element = this._master.element;
+    if (this._isDestroyed || typeof element.requestVideoFrameCallback !== 'function') return;
+
+    this._frameHandle = element.requestVideoFrameCallback(() => {
+      this.sync();
+      this.scheduleFrame();
+    });
+  }
+
+  private sync = (): void => {
+    const master = this._master.element;
+    if (this._isDestroyed || master.paused || master.seeking) return;
+
+    const { tolerance, seekThreshold, maxRateAdjustment } = this._options;
+    const baseRate = master.playbackRate;
+
+    for (const follower of this._followers) {
+      const element = follower.element;
+      if (element.seeking || follower.isMediaReleased) continue;
+
+      const drift = this.getDrift(follower);
+      if (Math.abs(drift) >= seekThreshold) {
+        follower.seek(master.currentTime);
+        follower.setSyncPlaybackRate(baseRate);
+        continue;
+      }
+
+      // 超前时减速、落后时加速
+      const adjustment = Math.abs(drift) <= tolerance
+        ? 0
+        : Math.max(-maxRateAdjustment, Math.min(maxRateAdjustment, drift * SYNC_RATE_GAIN));
+      follower.setSyncPlaybackRate(Math.round(baseRate * (1 - adjustment) * 1000) / 1000);
+    }
+  };
+}
+
+/**
+ * 播放器协调器 - 由VideoPlayerFactory按注册表管理，策略通过setPolicy切换
+ */
+export class PlayerCoordinator {
+  private _players = new Map<IVideoPlayer, CoordinatedPlayer>();
+  private _policy: PlayerCoordinationPolicy = {};
+  private _observer: IntersectionObserver | null = null;
+  private _groups = new Set<PlayerSyncGroup>();
+
+  get policy(): PlayerCoordinationPolicy {
+    return { ...this._policy };
+  }
+
+  get syncGroups(): PlayerSyncGroup[] {
+    return Array.from(this._groups);
+  }
+
+  setPolicy(policy: PlayerCoordinationPolicy): void {
+    this._policy = { ...policy };
+
+    this.disconnectObserver();
+    if (policy.autoplayWhenVisible) {
+      this.observe();
+      return;
+    }
+
+    // 不再按可见性恢复时，收回离开视口时释放的媒体
+    for (const entry of this._players.values()) {
+      this.reattach(entry);
+    }
+  }
+
+  add(player: IVideoPlayer): void {
+    if (this._players.has(player)) return;
+
+    const entry: CoordinatedPlayer = {
+      player,
+      onPlay: () => this.handlePlay(player),
+      visible: false,
+      ratio: 0,
+      detachedAt: null
+    };
+    player.on('play', entry.onPlay);
+    this._players.set(player, entry);
+    this._observer?.observe(player.element);
+  }
+
+  remove(player: IVideoPlayer): void {
+    const entry = this._players.get(player);
+    if (!entry) return;
+
+    player.off('play', entry.onPlay);
+    this._observer?.unobserve(player.element);
+    this._players.delete(player);
+    this.reattach(entry);
+  }
+
+  /**
+   * 创建同步组（多机位），第一个播放器为主
+   */
+  createSyncGroup(players: IVideoPlayer[], options?: PlayerSyncGroupOptions): PlayerSyncGroup {
+    const group = new PlayerSyncGroup(players, options, () => this._groups.delete(group));
+    this._groups.add(group);
+    return group;
+  }
+
+  /**
+   * 移除所有播放器和同步组，保留策略
+   */
+  clear(): void {
+    for (const player of Array.from(this._players.keys())) {
+      this.remove(player);
+    }
+    for (const group of Array.from(this._groups)) {
+      group.destroy();
+    }
+  }
+
+  destroy(): void {
+    this.clear();
+    this.disconnectObserver();
+    this._policy = {};
+  }
+
+  // 独占模式：暂停其他正在播放的播放器（同组除外）
+  private handlePlay(player: IVideoPlayer): void {
+    if (!this._policy.exclusive) return;
+
+    const group = Array.from(this._groups).find(candidate => candidate.has(player));
+    for (const other of this._players.keys()) {
+      if (other === player || other.element.paused || group?.has(other)) continue;
+      other.pause();
+    }
+  }
+
+  private get visibilityConfig(): Required<Omit<VisibilityPlaybackConfig, 'root'>> & { root: Element | null } {
+    const config = typeof this._policy.autoplayWhenVisible === 'object' ? this._policy.autoplayWhenVisible : {};
+    return { ...DEFAULT_VISIBILITY_CONFIG, root: null, ...config };
+  }
+
+  private observe(): void {
+    if (typeof IntersectionObserver === 'undefined') return;
+
+    const { threshold, root, rootMargin } = this.visibilityConfig;
+    this._observer = new IntersectionObserver(this.handleIntersection, {
+      root,
+      rootMargin,
+      threshold: [0, threshold, 1]
+    });
+    // 新观察器会为每个元素回调当前可见状态
+    for (const entry of this._players.values()) {
+      entry.visible = false;
+      entry.ratio = 0;
+      this._observer.observe(entry.player.element);
+    }
+  }
+
+  private disconnectObserver(): void {
+    this._observer?.disconnect();
+    this._observer = null;
+  }
+
+  private handleIntersection = (entries: IntersectionObserverEntry[]): void => {
+    const { threshold, detachOffscreen } = this.visibilityConfig;
+    const shown: CoordinatedPlayer[] = [];
+    let stoppedPlaying = false;
+
+    for (const intersection of entries) {
+      const entry = Array.from(this._players.values()).find(({ player }) => player.element === intersection.target);
+      if (!entry) continue;
+
+      entry.ratio = intersection.intersectionRatio;
+      const visible = intersection.isIntersecting && intersection.intersectionRatio >= threshold;
+      if (visible === entry.visible) continue;
+
+      entry.visible = visible;
+      if (visible) {
+        shown.push(entry);
+      } else {
+        stoppedPlaying = stoppedPlaying || !entry.player.element.paused;
+        this.hide(entry, detachOffscreen);
+      }
+    }
+
+    if (!this._policy.exclusive) {
+      shown.forEach(entry => this.show(entry));
+      return;
+    }
+
+    // 独占模式：有播放器进入视口或正在播放的离开视口时，改为播放可见比例最大的一个
+    if (shown.length === 0 && !stoppedPlaying) return;
+
+    const candidate = Array.from(this._players.values())
+      .filter(entry => entry.visible)
+      .sort((a, b) => b.ratio - a.ratio)[0];
+    if (candidate) {
+      this.show(candidate);
+    }
+  };
+
+  private show(entry: CoordinatedPlayer): void {
+    if (entry.detachedAt !== null) {
+      const time = entry.detachedAt;
+      entry.detachedAt = null;
+      entry.player.restoreMedia(time, true);
+      return;
+    }
+
+    if (entry.player.element.paused) {
+      entry.player.play().catch(() => {});
+    }
+  }
+
+  private hide(entry: CoordinatedPlayer, detach: boolean): void {
+    const { player } = entry;
+    // 媒体已由其他模块（如插播广告）接管
+    if (player.isMediaReleased) return;
+
+    player.pause();
+    if (detach) {
+      entry.detachedAt = player.element.currentTime;
+      // 手动play()时也能从原位置收回
+      player.releaseMedia({ resumeOnPlay: true });
+    }
+  }
+
+  // 收回协调器释放的媒体但不自动播放
+  private reattach(entry: CoordinatedPlayer): void {
+    if (entry.detachedAt === null) return;
+
+    const time = entry.detachedAt;
+    entry.detachedAt = null;
+    entry.player.restoreMedia(time, false);
+  }
+}
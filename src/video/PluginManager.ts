@@ -0,0 +1,145 @@
+// 插件管理器 - 管理插件生命周期、命名空间方法，并通过事件中间件和前置钩子拦截事件与操作
+
+import type {
+  IVideoPlayer,
+  VideoEventData,
+  VideoEventType,
+  VideoPlugin,
+  VideoPluginContext,
+  VideoPluginMethods
+} from './types';
+import type { EventMiddleware, VideoEventEmitterTyped } from './EventEmitter';
+
+interface InstalledPlugin {
+  plugin: VideoPlugin<string, VideoPluginMethods>;
+  context: VideoPluginContext;
+}
+
+const VIDEO_EVENT_PREFIX = 'video:';
+
+export class PluginManager {
+  private _player: IVideoPlayer;
+  private _emitter: VideoEventEmitterTyped;
+  private _plugins = new Map<string, InstalledPlugin>();
+  private _namespaces: Record<string, VideoPluginMethods> = {};
+
+  constructor(player: IVideoPlayer, emitter: VideoEventEmitterTyped) {
+    this._player = player;
+    this._emitter = emitter;
+    emitter.use(this.middleware);
+  }
+
+  get namespaces(): Readonly<Record<string, VideoPluginMethods>> {
+    return this._namespaces;
+  }
+
+  has(name: string): boolean {
+    return this._plugins.has(name);
+  }
+
+  use(plugin: VideoPlugin<string, VideoPluginMethods>): void {
+    if (this._plugins.has(plugin.name)) {
+      throw new Error(`Plugin "${plugin.name}" is already registered`);
+    }
+
+    const context = this.createContext();
+    this._plugins.set(plugin.name, { plugin, context });
+    plugin.setup?.(context);
+
+    if (plugin.methods) {
+      this._namespaces[plugin.name] = plugin.methods(context);
+    }
+  }
+
+  remove(name: string): boolean {
+    const installed = this._plugins.get(name);
+    if (!installed) return false;
+
+    this._plugins.delete(name);
+    delete this._namespaces[name];
+    this.runHook(installed, () => installed.plugin.destroy?.(installed.context));
+    return true;
+  }
+
+  /**
+   * 依次询问插件是否允许播放；没有异步钩子时同步返回，避免延后play()调用
+   */
+  runBeforePlay(): boolean | Promise<boolean> {
+    const pending: Promise<boolean | void>[] = [];
+
+    for (const installed of this._plugins.values()) {
+      const result = this.runHook(installed, () => installed.plugin.beforePlay?.(installed.context));
+      if (result === false) return false;
+      if (result instanceof Promise) pending.push(result);
+    }
+
+    if (pending.length === 0) return true;
+    return Promise.all(pending).then(
+      results => !results.includes(false),
+      error => {
+        console.error('Error in plugin beforePlay hook:', error);
+        return true;
+      }
+    );
+  }
+
+  runBeforeSeek(time: number): boolean {
+    for (const installed of this._plugins.values()) {
+      if (this.runHook(installed, () => installed.plugin.beforeSeek?.(time, installed.context)) === false) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  destroy(): void {
+    for (const name of Array.from(this._plugins.keys()).reverse()) {
+      this.remove(name);
+    }
+    this._emitter.removeMiddleware(this.middleware);
+  }
+
+  private createContext(): VideoPluginContext {
+    const player = this._player;
+
+    const createEvent = <T extends VideoEventType>(type: T, payload: VideoEventData<T>['payload']) => ({
+      type,
+      timestamp: Date.now(),
+      currentTime: player.element.currentTime || 0,
+      duration: player.element.duration || 0,
+      payload
+    } as VideoEventData<T>);
+
+    return {
+      player,
+      emit: (type, payload) => {
+        player.emit(type, createEvent(type, payload));
+      },
+      emitAsync: (type, payload, mode) => player.emitAsync(type, createEvent(type, payload), mode)
+    };
+  }
+
+  // 插件钩子异常不影响播放器和其他插件
+  private runHook<T>(installed: InstalledPlugin, hook: () => T): T | undefined {
+    try {
+      return hook();
+    } catch (error) {
+      console.error(`Error in plugin "${installed.plugin.name}":`, error);
+      return undefined;
+    }
+  }
+
+  private middleware: EventMiddleware<Record<string, any>> = (event, data, next) => {
+    if (!String(event).startsWith(VIDEO_EVENT_PREFIX)) {
+      next();
+      return;
+    }
+
+    for (const installed of this._plugins.values()) {
+      if (this.runHook(installed, () => installed.plugin.onEvent?.(data, installed.context)) === false) {
+        return;
+      }
+    }
+    next();
+  };
+}
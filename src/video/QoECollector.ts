@@ -0,0 +1,459 @@
+// QoE采集器 - 订阅播放器事件计算体验指标，按批次通过可插拔传输上报会话信标
+
+import type {
+  IVideoPlayer,
+  VideoEventData,
+  VideoEventListener,
+  VideoEventType
+} from './types';
+
+// 会话指标（时长单位为毫秒，码率单位为bps）
+export interface QoEMetrics {
+  sessionId: string;
+  // 从首次请求播放到首帧播放；尚未开始时为null
+  startupTime: number | null;
+  playingTime: number;
+  rebufferTime: number;
+  rebufferCount: number;
+  // 卡顿时长 / (播放时长 + 卡顿时长)
+  rebufferRatio: number;
+  // 按播放时长加权的平均码率
+  averageBitrate: number;
+  bitrateSwitches: number;
+  bandwidthEstimate: number;
+  errorCount: number;
+  fatalErrorCount: number;
+  // 每分钟观看时长的错误数
+  errorRate: number;
+  // 请求播放后、首帧前离开
+  exitBeforeStart: boolean;
+  droppedFrames: number;
+  totalFrames: number;
+}
+
+// 信标中的明细事件
+export interface QoEEvent {
+  type: 'startup' | 'rebuffer' | 'bitrateswitch' | 'error';
+  timestamp: number;
+  data: Record<string, any>;
+}
+
+export interface QoEBeacon {
+  sessionId: string;
+  // 同一会话内递增，便于服务端去重和排序
+  sequence: number;
+  type: 'heartbeat' | 'end';
+  timestamp: number;
+  metadata: Record<string, any>;
+  metrics: QoEMetrics;
+  events: QoEEvent[];
+}
+
+// 传输接口
+export interface QoETransport {
+  send(beacon: QoEBeacon): void | Promise<void>;
+}
+
+export type QoETransportType = 'beacon' | 'fetch' | 'memory';
+
+// 流媒体统计（HLS/DASH播放器提供）
+export interface QoEStreamStats {
+  bitrate?: number;
+  bandwidthEstimate?: number;
+}
+
+export interface QoECollectorOptions {
+  transport: QoETransport;
+  // 心跳间隔（毫秒）
+  interval?: number;
+  // 明细事件达到该数量时立即上报
+  batchSize?: number;
+  sessionId?: string;
+  // 随每个信标上报的业务字段（如内容ID、用户分组）
+  metadata?: Record<string, any>;
+  // 默认从播放器的getHLSStats/getDASHStats读取
+  getStreamStats?: () => QoEStreamStats;
+}
+
+export const DEFAULT_QOE_OPTIONS = {
+  interval: 10000,
+  batchSize: 20
+} as const;
+
+// sendBeacon传输 - 页面卸载时仍能送达；不可用或队列已满时回退到fetch
+export class SendBeaconTransport implements QoETransport {
+  private _url: string;
+
+  constructor(url: string) {
+    this._url = url;
+  }
+
+  send(beacon: QoEBeacon): void {
+    const body = JSON.stringify(beacon);
+
+    if (typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function') {
+      if (navigator.sendBeacon(this._url, new Blob([body], { type: 'application/json' }))) return;
+    }
+
+    fetch(this._url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      keepalive: true
+    }).catch(() => {
+      // 上报失败不影响播放
+    });
+  }
+}
+
+// fetch传输 - 可携带自定义请求头
+export class FetchTransport implements QoETransport {
+  private _url: string;
+  private _headers: Record<string, string>;
+
+  constructor(url: string, headers: Record<string, string> = {}) {
+    this._url = url;
+    this._headers = headers;
+  }
+
+  async send(beacon: QoEBeacon): Promise<void> {
+    const response = await fetch(this._url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this._headers },
+      body: JSON.stringify(beacon),
+      keepalive: true
+    });
+    if (!response.ok) {
+      throw new Error(`QoE beacon failed with status ${response.status}`);
+    }
+  }
+}
+
+// 内存传输 - 用于测试和本地调试
+export class MemoryTransport implements QoETransport {
+  readonly beacons: QoEBeacon[] = [];
+
+  send(beacon: QoEBeacon): void {
+    this.beacons.push(beacon);
+  }
+
+  clear(): void {
+    this.beacons.length = 0;
+  }
+}
+
+/**
+ * 创建内置传输；beacon和fetch需要上报地址
+ */
+export const createQoETransport = (type: QoETransportType, url = ''): QoETransport => {
+  switch (type) {
+    case 'beacon':
+      return new SendBeaconTransport(url);
+    case 'fetch':
+      return new FetchTransport(url);
+    default:
+      return new MemoryTransport();
+  }
+};
+
+let qoeSessionCounter = 0;
+
+const createSessionId = (): string => {
+  return `qoe-${Date.now().toString(36)}-${(++qoeSessionCounter).toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+// 私有工具 - 从播放器的流媒体统计中读取码率和带宽估计
+const readPlayerStreamStats = (player: IVideoPlayer): QoEStreamStats => {
+  const source = player as IVideoPlayer & {
+    getHLSStats?: () => Record<string, any>;
+    getDASHStats?: () => Record<string, any>;
+  };
+  const stats = source.getHLSStats?.() ?? source.getDASHStats?.() ?? {};
+
+  return {
+    bitrate: stats.currentBitrate,
+    bandwidthEstimate: stats.bandwidthEstimate
+  };
+};
+
+export class QoECollector {
+  private _player: IVideoPlayer;
+  private _element: HTMLVideoElement;
+  private _transport: QoETransport;
+  private _options: Required<Omit<QoECollectorOptions, 'transport' | 'sessionId' | 'getStreamStats'>>;
+  private _getStreamStats: () => QoEStreamStats;
+  // 未自定义流统计时，平均码率直接读取播放器的stats.averageBitrate
+  private _usesPlayerStats: boolean;
+  private _sessionId: string;
+  private _sequence = 0;
+  private _events: QoEEvent[] = [];
+  private _listeners: Array<[VideoEventType, VideoEventListener<any>]> = [];
+  private _timer: ReturnType<typeof setInterval> | null = null;
+  private _isEnded = false;
+
+  // 会话状态
+  private _playRequestedAt: number | null = null;
+  private _startupTime: number | null = null;
+  private _isPlaying = false;
+  private _isSeeking = false;
+  private _rebufferStartedAt: number | null = null;
+  private _lastTick = 0;
+  private _playingTime = 0;
+  private _rebufferTime = 0;
+  private _rebufferCount = 0;
+  private _bitrate = 0;
+  private _bitrateTime = 0;
+  private _weightedBitrate = 0;
+  private _bitrateSwitches = 0;
+  private _bandwidthEstimate = 0;
+  private _errorCount = 0;
+  private _fatalErrorCount = 0;
+
+  constructor(player: IVideoPlayer, options: QoECollectorOptions) {
+    this._player = player;
+    this._element = player.element;
+    this._transport = options.transport;
+    this._options = {
+      interval: options.interval ?? DEFAULT_QOE_OPTIONS.interval,
+      batchSize: options.batchSize ?? DEFAULT_QOE_OPTIONS.batchSize,
+      metadata: options.metadata ?? {}
+    };
+    this._getStreamStats = options.getStreamStats ?? (() => readPlayerStreamStats(player));
+    this._usesPlayerStats = !options.getStreamStats;
+    this._sessionId = options.sessionId ?? createSessionId();
+
+    this.listen('play', this.handlePlay);
+    this.listen('playing', this.handlePlaying);
+    this.listen('waiting', this.handleWaiting);
+    this.listen('seeking', this.handleSeeking);
+    this.listen('seeked', this.handleSeeked);
+    this.listen('pause', this.handleStop);
+    this.listen('ended', this.handleStop);
+    this.listen('timeupdate', this.sampleStreamStats);
+    this.listen('qualitychange', this.sampleStreamStats);
+    this.listen('error', this.handleError);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.handlePageHide);
+    }
+
+    this._timer = setInterval(() => this.flush(), this._options.interval);
+  }
+
+  get sessionId(): string {
+    return this._sessionId;
+  }
+
+  /**
+   * 当前会话指标快照
+   */
+  getMetrics(): QoEMetrics {
+    this.advance(performance.now());
+
+    const watchTime = this._playingTime + this._rebufferTime;
+    const quality = typeof this._element.getVideoPlaybackQuality === 'function'
+      ? this._element.getVideoPlaybackQuality()
+      : null;
+
+    return {
+      sessionId: this._sessionId,
+      startupTime: this._startupTime,
+      playingTime: this._playingTime,
+      rebufferTime: this._rebufferTime,
+      rebufferCount: this._rebufferCount,
+      rebufferRatio: watchTime > 0 ? this._rebufferTime / watchTime : 0,
+      averageBitrate: this.getAverageBitrate(),
+      bitrateSwitches: this._bitrateSwitches,
+      bandwidthEstimate: this._bandwidthEstimate,
+      errorCount: this._errorCount,
+      fatalErrorCount: this._fatalErrorCount,
+      errorRate: watchTime > 0 ? this._errorCount / (watchTime / 60000) : 0,
+      exitBeforeStart: this._isEnded && this._playRequestedAt !== null && this._startupTime === null,
+      droppedFrames: quality?.droppedVideoFrames ?? 0,
+      totalFrames: quality?.totalVideoFrames ?? 0
+    };
+  }
+
+  /**
+   * 立即上报一个心跳信标（尚未请求播放且无明细事件时跳过）
+   */
+  flush(): void {
+    if (this._isEnded) return;
+    if (this._playRequestedAt === null && this._events.length === 0) return;
+
+    this.send('heartbeat');
+  }
+
+  /**
+   * 结束会话：上报结束信标并移除监听
+   */
+  destroy(): void {
+    if (this._isEnded) return;
+
+    this.endRebuffer(performance.now());
+    this._isEnded = true;
+    this.send('end');
+
+    if (this._timer) {
+      clearInterval(this._timer);
+      this._timer = null;
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.handlePageHide);
+    }
+    this._listeners.forEach(([type, listener]) => this._player.off(type, listener));
+    this._listeners = [];
+  }
+
+  private getAverageBitrate(): number {
+    if (this._usesPlayerStats && this._player.stats.averageBitrate > 0) {
+      return this._player.stats.averageBitrate;
+    }
+    return this._bitrateTime > 0 ? Math.round(this._weightedBitrate / this._bitrateTime) : this._bitrate;
+  }
+
+  private listen<T extends VideoEventType>(type: T, listener: VideoEventListener<T>): void {
+    this._player.on(type, listener);
+    this._listeners.push([type, listener]);
+  }
+
+  private send(type: QoEBeacon['type']): void {
+    const beacon: QoEBeacon = {
+      sessionId: this._sessionId,
+      sequence: this._sequence++,
+      type,
+      timestamp: Date.now(),
+      metadata: this._options.metadata,
+      metrics: this.getMetrics(),
+      events: this._events
+    };
+    this._events = [];
+
+    try {
+      Promise.resolve(this._transport.send(beacon)).catch(error => {
+        console.warn('Failed to send QoE beacon:', error);
+      });
+    } catch (error) {
+      console.warn('Failed to send QoE beacon:', error);
+    }
+  }
+
+  private record(type: QoEEvent['type'], data: Record<string, any>): void {
+    this._events.push({ type, timestamp: Date.now(), data });
+
+    if (this._events.length >= this._options.batchSize) {
+      this.flush();
+    }
+  }
+
+  // 私有方法 - 累计播放时长和码率权重
+  private advance(now: number): void {
+    if (this._isPlaying && this._rebufferStartedAt === null) {
+      const elapsed = Math.max(0, now - this._lastTick);
+      this._playingTime += elapsed;
+      if (this._bitrate > 0) {
+        this._weightedBitrate += this._bitrate * elapsed;
+        this._bitrateTime += elapsed;
+      }
+    }
+    this._lastTick = now;
+  }
+
+  private endRebuffer(now: number): void {
+    if (this._rebufferStartedAt === null) return;
+
+    const duration = now - this._rebufferStartedAt;
+    this._rebufferTime += duration;
+    this._rebufferStartedAt = null;
+    this._lastTick = now;
+    this.record('rebuffer', { duration, position: this._element.currentTime });
+  }
+
+  private handlePlay = (): void => {
+    if (this._playRequestedAt === null) {
+      this._playRequestedAt = performance.now();
+    }
+  };
+
+  private handlePlaying = (): void => {
+    const now = performance.now();
+    this.advance(now);
+    this.endRebuffer(now);
+
+    if (this._startupTime === null) {
+      this._startupTime = now - (this._playRequestedAt ?? now);
+      this.record('startup', { startupTime: this._startupTime });
+    }
+
+    this._isPlaying = true;
+    this._isSeeking = false;
+    this.sampleStreamStats();
+  };
+
+  // 首帧前的等待计入启动时间，跳转引起的等待不计为卡顿
+  private handleWaiting = (): void => {
+    if (this._startupTime === null || this._isSeeking || this._rebufferStartedAt !== null) return;
+
+    const now = performance.now();
+    this.advance(now);
+    this._rebufferStartedAt = now;
+    this._rebufferCount++;
+  };
+
+  private handleSeeking = (): void => {
+    const now = performance.now();
+    this.advance(now);
+    this.endRebuffer(now);
+    this._isSeeking = true;
+  };
+
+  private handleSeeked = (): void => {
+    this._isSeeking = false;
+  };
+
+  private handleStop = (): void => {
+    const now = performance.now();
+    this.advance(now);
+    this.endRebuffer(now);
+    this._isPlaying = false;
+  };
+
+  // 采样当前码率和带宽估计，码率变化计为一次切换
+  private sampleStreamStats = (): void => {
+    this.advance(performance.now());
+
+    const { bitrate, bandwidthEstimate } = this._getStreamStats();
+    if (bandwidthEstimate && Number.isFinite(bandwidthEstimate)) {
+      this._bandwidthEstimate = bandwidthEstimate;
+    }
+
+    if (bitrate && bitrate !== this._bitrate) {
+      if (this._bitrate > 0) {
+        this._bitrateSwitches++;
+        this.record('bitrateswitch', { from: this._bitrate, to: bitrate, bandwidthEstimate: this._bandwidthEstimate });
+      }
+      this._bitrate = bitrate;
+    }
+  };
+
+  private handleError = (event: VideoEventData<'error'>): void => {
+    this._errorCount++;
+    if (event.payload.fatal) this._fatalErrorCount++;
+
+    this.record('error', {
+      type: event.payload.type,
+      code: event.payload.code,
+      message: event.payload.message,
+      fatal: event.payload.fatal
+    });
+  };
+
+  private handlePageHide = (): void => {
+    this.destroy();
+  };
+}
+
+// 工厂函数
+export const createQoECollector = (player: IVideoPlayer, options: QoECollectorOptions): QoECollector => {
+  return new QoECollector(player, options);
+};
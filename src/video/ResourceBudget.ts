@@ -0,0 +1,283 @@
+// 播放器资源统计与预算 - 按缓冲时长×当前码率、解码帧尺寸和JS堆估算内存；
+// 超出预算时先裁剪后缓冲，仍超出则暂停（释放媒体）或淘汰最久未使用的播放器
+
+import type { IVideoPlayer } from './types';
+
+// 单个播放器的资源占用
+export interface PlayerResourceUsage {
+  // 已缓冲的媒体时长（秒，所有缓冲区间之和）
+  bufferedSeconds: number;
+  // 当前级别码率（bps）；原生播放无码率信息时按分辨率估算
+  bitrate: number;
+  bufferBytes: number;
+  // 解码器占用（按分辨率和解码缓冲帧数估算）
+  decoderBytes: number;
+  estimatedBytes: number;
+  decoderActive: boolean;
+  // 来自getVideoPlaybackQuality
+  totalFrames: number;
+  droppedFrames: number;
+}
+
+// 所有播放器的资源快照
+export interface ResourceSnapshot {
+  memoryUsage: number;
+  activeDecoders: number;
+  // performance.memory（仅Chromium提供）
+  heap: { used: number; limit: number } | null;
+  players: PlayerResourceUsage[];
+}
+
+export type ResourceReclaimAction = 'pause' | 'evict';
+
+// 资源预算
+export interface ResourceBudgetConfig {
+  // 所有播放器估算内存上限（字节）
+  maxMemory?: number;
+  // 同时占用解码器的播放器上限
+  maxDecoders?: number;
+  // JS堆使用比例上限（0~1），performance.memory不可用时忽略
+  maxHeapRatio?: number;
+  // 超出预算时先把后缓冲裁剪到该时长（秒），默认10
+  backBufferLength?: number;
+  // pause: 暂停并释放媒体，再次play()时从原位置重新加载；evict: 销毁并从注册表移除。默认pause
+  action?: ResourceReclaimAction;
+  // 定期检查间隔（毫秒），默认5000
+  checkInterval?: number;
+  onReclaim?: (player: IVideoPlayer, action: ResourceReclaimAction) => void;
+}
+
+export const DEFAULT_RESOURCE_BUDGET = {
+  backBufferLength: 10,
+  action: 'pause',
+  checkInterval: 5000
+} as const;
+
+// 解码器同时持有的帧数（参考帧 + 输出队列）
+const DECODER_SURFACE_COUNT = 8;
+
+// YUV 4:2:0每像素字节数
+const BYTES_PER_PIXEL = 1.5;
+
+// 原生播放无码率信息时，按每像素每帧0.1bit、30fps估算
+const FALLBACK_BITS_PER_PIXEL = 0.1;
+const FALLBACK_FRAME_RATE = 30;
+
+type ResourceAwarePlayer = IVideoPlayer & {
+  getHLSStats?: () => Record<string, any>;
+  getDASHStats?: () => Record<string, any>;
+  setBackBufferLength?: (seconds: number) => void;
+};
+
+const getBufferedSeconds = (element: HTMLVideoElement): number => {
+  const buffered = element.buffered;
+  let total = 0;
+  for (let i = 0; i < (buffered?.length ?? 0); i++) {
+    total += buffered.end(i) - buffered.start(i);
+  }
+  return total;
+};
+
+const readPerformanceMemory = (): { used: number; limit: number } | null => {
+  const memory = (performance as Performance & {
+    memory?: { usedJSHeapSize: number; jsHeapSizeLimit: number };
+  }).memory;
+  return memory ? { used: memory.usedJSHeapSize, limit: memory.jsHeapSizeLimit } : null;
+};
+
+/**
+ * 估算单个播放器的资源占用；媒体已释放的播放器不占用缓冲和解码器
+ */
+export function estimatePlayerResources(player: IVideoPlayer): PlayerResourceUsage {
+  const element = player.element;
+  const quality = element.getVideoPlaybackQuality?.();
+  const totalFrames = quality?.totalVideoFrames ?? 0;
+  const droppedFrames = quality?.droppedVideoFrames ?? 0;
+
+  if (player.isMediaReleased) {
+    return {
+      bufferedSeconds: 0,
+      bitrate: 0,
+      bufferBytes: 0,
+      decoderBytes: 0,
+      estimatedBytes: 0,
+      decoderActive: false,
+      totalFrames,
+      droppedFrames
+    };
+  }
+
+  const source = player as ResourceAwarePlayer;
+  const stats = source.getHLSStats?.() ?? source.getDASHStats?.() ?? {};
+  const pixels = element.videoWidth * element.videoHeight;
+
+  const bitrate = stats.currentBitrate || pixels * FALLBACK_BITS_PER_PIXEL * FALLBACK_FRAME_RATE;
+  const bufferedSeconds = getBufferedSeconds(element);
+  const bufferBytes = Math.round(bufferedSeconds * bitrate / 8);
+
+  // 已解出帧或已有当前帧数据说明解码器已分配
+  const decoderActive = pixels > 0 && (totalFrames > 0 || element.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA);
+  const decoderBytes = decoderActive ? Math.round(pixels * BYTES_PER_PIXEL * DECODER_SURFACE_COUNT) : 0;
+
+  return {
+    bufferedSeconds,
+    bitrate,
+    bufferBytes,
+    decoderBytes,
+    estimatedBytes: bufferBytes + decoderBytes,
+    decoderActive,
+    totalFrames,
+    droppedFrames
+  };
+}
+
+export interface ResourceBudgetManagerOptions {
+  // 淘汰播放器（由工厂销毁并从注册表移除）
+  evict: (player: IVideoPlayer) => void;
+}
+
+interface TrackedPlayer {
+  lastUsed: number;
+  onUse: () => void;
+}
+
+export class ResourceBudgetManager {
+  private _options: ResourceBudgetManagerOptions;
+  private _players = new Map<IVideoPlayer, TrackedPlayer>();
+  private _budget: ResourceBudgetConfig | null = null;
+  private _timer: ReturnType<typeof setInterval> | null = null;
+  private _useCounter = 0;
+  // 已裁剪后缓冲，等待下次检查确认效果
+  private _trimmed = false;
+
+  constructor(options: ResourceBudgetManagerOptions) {
+    this._options = options;
+  }
+
+  get budget(): ResourceBudgetConfig | null {
+    return this._budget ? { ...this._budget } : null;
+  }
+
+  setBudget(budget: ResourceBudgetConfig | null): void {
+    this._budget = budget ? { ...budget } : null;
+    this._trimmed = false;
+
+    if (this._timer) {
+      clearInterval(this._timer);
+      this._timer = null;
+    }
+    if (this._budget) {
+      const interval = this._budget.checkInterval ?? DEFAULT_RESOURCE_BUDGET.checkInterval;
+      this._timer = setInterval(() => this.enforce(), interval);
+    }
+  }
+
+  add(player: IVideoPlayer): void {
+    if (this._players.has(player)) return;
+
+    const tracked: TrackedPlayer = {
+      lastUsed: ++this._useCounter,
+      onUse: () => {
+        tracked.lastUsed = ++this._useCounter;
+      }
+    };
+    player.on('play', tracked.onUse);
+    player.on('seeking', tracked.onUse);
+    this._players.set(player, tracked);
+  }
+
+  remove(player: IVideoPlayer): void {
+    const tracked = this._players.get(player);
+    if (!tracked) return;
+
+    player.off('play', tracked.onUse);
+    player.off('seeking', tracked.onUse);
+    this._players.delete(player);
+  }
+
+  getSnapshot(): ResourceSnapshot {
+    const players = Array.from(this._players.keys()).map(estimatePlayerResources);
+
+    return {
+      memoryUsage: players.reduce((total, usage) => total + usage.estimatedBytes, 0),
+      activeDecoders: players.filter(usage => usage.decoderActive).length,
+      heap: readPerformanceMemory(),
+      players
+    };
+  }
+
+  /**
+   * 检查预算：首次超出时裁剪后缓冲，下次检查仍超出则按最久未使用顺序回收；
+   * 解码器数量超出无法靠裁剪缓解，立即回收。返回被回收的播放器
+   */
+  enforce(): IVideoPlayer[] {
+    const budget = this._budget;
+    if (!budget) return [];
+
+    const entries = Array.from(this._players.keys()).map(player => ({ player, usage: estimatePlayerResources(player) }));
+    let memory = entries.reduce((total, { usage }) => total + usage.estimatedBytes, 0);
+    let decoders = entries.filter(({ usage }) => usage.decoderActive).length;
+    const heap = readPerformanceMemory();
+    let heapUsed = heap?.used ?? 0;
+
+    const overMemory = () =>
+      (budget.maxMemory !== undefined && memory > budget.maxMemory) ||
+      (budget.maxHeapRatio !== undefined && heap !== null && heapUsed / heap.limit > budget.maxHeapRatio);
+    const overDecoders = () => budget.maxDecoders !== undefined && decoders > budget.maxDecoders;
+
+    if (!overMemory() && !overDecoders()) {
+      this._trimmed = false;
+      return [];
+    }
+
+    if (!this._trimmed) {
+      this._trimmed = true;
+      this.trimBackBuffers(budget.backBufferLength ?? DEFAULT_RESOURCE_BUDGET.backBufferLength);
+      if (!overDecoders()) return [];
+    }
+
+    // 最近使用的播放器始终保留
+    const candidates = entries
+      .filter(({ usage }) => usage.estimatedBytes > 0)
+      .sort((a, b) => this._players.get(a.player)!.lastUsed - this._players.get(b.player)!.lastUsed)
+      .slice(0, -1);
+
+    const action = budget.action ?? DEFAULT_RESOURCE_BUDGET.action;
+    const reclaimed: IVideoPlayer[] = [];
+    for (const { player, usage } of candidates) {
+      if (!overMemory() && !overDecoders()) break;
+
+      this.reclaim(player, action);
+      reclaimed.push(player);
+      memory -= usage.estimatedBytes;
+      heapUsed -= usage.estimatedBytes;
+      if (usage.decoderActive) decoders--;
+      budget.onReclaim?.(player, action);
+    }
+
+    return reclaimed;
+  }
+
+  destroy(): void {
+    this.setBudget(null);
+    for (const player of Array.from(this._players.keys())) {
+      this.remove(player);
+    }
+  }
+
+  private trimBackBuffers(seconds: number): void {
+    for (const player of this._players.keys()) {
+      (player as ResourceAwarePlayer).setBackBufferLength?.(seconds);
+    }
+  }
+
+  private reclaim(player: IVideoPlayer, action: ResourceReclaimAction): void {
+    if (action === 'evict') {
+      this._options.evict(player);
+      return;
+    }
+
+    player.pause();
+    player.releaseMedia({ resumeOnPlay: true });
+  }
+}
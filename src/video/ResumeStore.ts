@@ -0,0 +1,370 @@
+// 断点续播与观看记录 - 可插拔存储适配器、记录查询和播放进度跟踪
+
+import type {
+  ResumeConfig,
+  ResumeStorageAdapter,
+  ResumeStorageType,
+  WatchHistoryEntry,
+  WatchHistoryQuery
+} from './types';
+
+// 默认续播规则
+export const DEFAULT_RESUME_OPTIONS = {
+  saveInterval: 5000,
+  minPosition: 5,
+  endThreshold: 10
+} as const;
+
+// 内存存储 - 用于测试和无持久化存储的环境
+export class MemoryResumeStorage implements ResumeStorageAdapter {
+  private _entries = new Map<string, WatchHistoryEntry>();
+
+  async get(id: string): Promise<WatchHistoryEntry | null> {
+    const entry = this._entries.get(id);
+    return entry ? { ...entry } : null;
+  }
+
+  async set(entry: WatchHistoryEntry): Promise<void> {
+    this._entries.set(entry.id, { ...entry });
+  }
+
+  async remove(id: string): Promise<void> {
+    this._entries.delete(id);
+  }
+
+  async list(): Promise<WatchHistoryEntry[]> {
+    return Array.from(this._entries.values(), entry => ({ ...entry }));
+  }
+
+  async clear(): Promise<void> {
+    this._entries.clear();
+  }
+}
+
+// localStorage存储 - 每条记录一个键
+export class LocalStorageResumeStorage implements ResumeStorageAdapter {
+  private _prefix: string;
+
+  constructor(prefix = 'video-resume:') {
+    this._prefix = prefix;
+  }
+
+  async get(id: string): Promise<WatchHistoryEntry | null> {
+    return this.read(this._prefix + id);
+  }
+
+  async set(entry: WatchHistoryEntry): Promise<void> {
+    try {
+      localStorage.setItem(this._prefix + entry.id, JSON.stringify(entry));
+    } catch (error) {
+      // 配额不足或隐私模式下写入失败不影响播放
+      console.warn('Failed to save watch history:', error);
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    localStorage.removeItem(this._prefix + id);
+  }
+
+  async list(): Promise<WatchHistoryEntry[]> {
+    const entries: WatchHistoryEntry[] = [];
+    for (const key of this.keys()) {
+      const entry = this.read(key);
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  }
+
+  async clear(): Promise<void> {
+    this.keys().forEach(key => localStorage.removeItem(key));
+  }
+
+  private keys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(this._prefix)) keys.push(key);
+    }
+    return keys;
+  }
+
+  private read(key: string): WatchHistoryEntry | null {
+    try {
+      const raw = localStorage.getItem(key);
+      return raw ? JSON.parse(raw) as WatchHistoryEntry : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// IndexedDB存储 - 适合大量记录
+export class IndexedDBResumeStorage implements ResumeStorageAdapter {
+  private _dbName: string;
+  private _storeName = 'entries';
+  private _db: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName = 'video-watch-history') {
+    this._dbName = dbName;
+  }
+
+  async get(id: string): Promise<WatchHistoryEntry | null> {
+    const entry = await this.request<WatchHistoryEntry | undefined>('readonly', store => store.get(id));
+    return entry ?? null;
+  }
+
+  async set(entry: WatchHistoryEntry): Promise<void> {
+    await this.request('readwrite', store => store.put(entry));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  async list(): Promise<WatchHistoryEntry[]> {
+    return this.request<WatchHistoryEntry[]>('readonly', store => store.getAll());
+  }
+
+  async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this._db) {
+      this._db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this._dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this._storeName, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // 打开失败后允许重试
+      this._db.catch(() => {
+        this._db = null;
+      });
+    }
+    return this._db;
+  }
+
+  private async request<R>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<R> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(this._storeName, mode).objectStore(this._storeName));
+      request.onsuccess = () => resolve(request.result as R);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// 内置存储共享实例，避免每个播放器重复打开数据库
+const sharedStorages: Partial<Record<ResumeStorageType, ResumeStorageAdapter>> = {};
+
+/**
+ * 获取内置存储适配器；不可用时（SSR、隐私模式）回退到内存存储
+ */
+export const createResumeStorage = (type: ResumeStorageType = 'localStorage'): ResumeStorageAdapter => {
+  let resolved = type;
+  if (type === 'localStorage' && typeof localStorage === 'undefined') resolved = 'memory';
+  if (type === 'indexedDB' && typeof indexedDB === 'undefined') resolved = 'memory';
+
+  if (!sharedStorages[resolved]) {
+    sharedStorages[resolved] = resolved === 'indexedDB'
+      ? new IndexedDBResumeStorage()
+      : resolved === 'localStorage'
+      ? new LocalStorageResumeStorage()
+      : new MemoryResumeStorage();
+  }
+
+  return sharedStorages[resolved]!;
+};
+
+// 观看记录存储
+export class WatchHistoryStore {
+  private _storage: ResumeStorageAdapter;
+
+  constructor(storage: ResumeStorageType | ResumeStorageAdapter = 'localStorage') {
+    this._storage = typeof storage === 'string' ? createResumeStorage(storage) : storage;
+  }
+
+  get storage(): ResumeStorageAdapter {
+    return this._storage;
+  }
+
+  get(id: string): Promise<WatchHistoryEntry | null> {
+    return this._storage.get(id);
+  }
+
+  save(entry: WatchHistoryEntry): Promise<void> {
+    return this._storage.set(entry);
+  }
+
+  remove(id: string): Promise<void> {
+    return this._storage.remove(id);
+  }
+
+  clear(): Promise<void> {
+    return this._storage.clear();
+  }
+
+  /**
+   * 查询观看记录，默认按最近观看排序
+   */
+  async query(query: WatchHistoryQuery = {}): Promise<WatchHistoryEntry[]> {
+    const entries = (await this._storage.list()).filter(entry =>
+      (query.completed === undefined || entry.completed === query.completed) &&
+      (query.since === undefined || entry.updatedAt >= query.since)
+    );
+
+    const orderBy = query.orderBy ?? 'updatedAt';
+    entries.sort((a, b) => b[orderBy] - a[orderBy]);
+
+    return query.limit !== undefined ? entries.slice(0, query.limit) : entries;
+  }
+
+  /**
+   * 未看完的记录（继续观看列表）
+   */
+  continueWatching(limit?: number): Promise<WatchHistoryEntry[]> {
+    return this.query({ completed: false, limit });
+  }
+}
+
+/**
+ * 根据续播规则计算恢复位置，不应恢复时返回null
+ */
+export const resolveResumePosition = (
+  entry: WatchHistoryEntry | null,
+  duration: number,
+  options: Pick<ResumeConfig, 'minPosition' | 'endThreshold'> = {}
+): number | null => {
+  if (!entry || entry.completed) return null;
+
+  const minPosition = options.minPosition ?? DEFAULT_RESUME_OPTIONS.minPosition;
+  const endThreshold = options.endThreshold ?? DEFAULT_RESUME_OPTIONS.endThreshold;
+
+  if (entry.position < minPosition) return null;
+  if (Number.isFinite(duration) && duration > 0 && duration - entry.position < endThreshold) return null;
+
+  return entry.position;
+};
+
+// 进度跟踪器 - 从媒体事件保存进度，并在loadedmetadata后恢复
+export class ResumeTracker {
+  private _element: HTMLVideoElement;
+  private _config: ResumeConfig;
+  private _store: WatchHistoryStore;
+  private _entry: Promise<WatchHistoryEntry | null>;
+  // 恢复完成前不保存，避免0秒进度覆盖已有记录
+  private _restored = false;
+  private _lastSaveTime = 0;
+  // 媒体元素让渡期间（如插播广告）忽略元素事件
+  private _isSuspended = false;
+  private _isDestroyed = false;
+
+  constructor(element: HTMLVideoElement, config: ResumeConfig) {
+    this._element = element;
+    this._config = config;
+    this._store = new WatchHistoryStore(config.storage);
+    this._entry = this._store.get(config.id).catch(error => {
+      console.warn('Failed to read watch history:', error);
+      return null;
+    });
+
+    element.addEventListener('loadedmetadata', this.handleLoadedMetadata);
+    element.addEventListener('timeupdate', this.handleTimeUpdate);
+    element.addEventListener('pause', this.handlePause);
+    element.addEventListener('ended', this.handleEnded);
+  }
+
+  get store(): WatchHistoryStore {
+    return this._store;
+  }
+
+  /**
+   * 立即保存当前进度
+   */
+  save(completed = false): Promise<void> {
+    if (!this._restored) return Promise.resolve();
+
+    this._lastSaveTime = Date.now();
+    const { currentTime, volume, muted, playbackRate } = this._element;
+    const duration = Number.isFinite(this._element.duration) ? this._element.duration : 0;
+    const endThreshold = this._config.endThreshold ?? DEFAULT_RESUME_OPTIONS.endThreshold;
+
+    return this._store.save({
+      id: this._config.id,
+      title: this._config.title,
+      position: currentTime,
+      duration,
+      progress: duration > 0 ? Math.min(1, currentTime / duration) : 0,
+      completed: completed || (duration > 0 && duration - currentTime < endThreshold),
+      playbackRate,
+      volume,
+      muted,
+      updatedAt: this._lastSaveTime
+    }).catch(error => {
+      console.warn('Failed to save watch history:', error);
+    });
+  }
+
+  /**
+   * 暂停或恢复跟踪
+   */
+  setSuspended(suspended: boolean): void {
+    this._isSuspended = suspended;
+  }
+
+  /**
+   * 销毁前保存一次进度并移除监听
+   */
+  destroy(): void {
+    if (this._isDestroyed) return;
+
+    if (this._element.currentTime > 0) {
+      this.save();
+    }
+
+    this._isDestroyed = true;
+    this._element.removeEventListener('loadedmetadata', this.handleLoadedMetadata);
+    this._element.removeEventListener('timeupdate', this.handleTimeUpdate);
+    this._element.removeEventListener('pause', this.handlePause);
+    this._element.removeEventListener('ended', this.handleEnded);
+  }
+
+  // 源回退重新加载时由播放器自行恢复位置，这里只处理首次加载
+  private handleLoadedMetadata = async (): Promise<void> => {
+    if (this._restored || this._isSuspended) return;
+
+    const entry = await this._entry;
+    if (this._isDestroyed || this._restored || this._isSuspended) return;
+
+    const position = resolveResumePosition(entry, this._element.duration, this._config);
+    // 用户已经手动跳转时不覆盖
+    if (position !== null && this._element.currentTime < position) {
+      this._element.currentTime = position;
+    }
+    this._restored = true;
+  };
+
+  private handleTimeUpdate = (): void => {
+    if (this._isSuspended) return;
+
+    const interval = this._config.saveInterval ?? DEFAULT_RESUME_OPTIONS.saveInterval;
+    if (Date.now() - this._lastSaveTime >= interval) {
+      this.save();
+    }
+  };
+
+  private handlePause = (): void => {
+    // 播放结束时会先触发pause，由ended处理
+    if (!this._isSuspended && !this._element.ended) {
+      this.save();
+    }
+  };
+
+  private handleEnded = (): void => {
+    if (this._isSuspended) return;
+    this.save(true);
+  };
+}
@@ -0,0 +1,133 @@
+// 字幕格式转换 - SRT转WebVTT及格式识别
+
+import type { TextTrackFormat } from './types';
+
+// SRT时间行：00:00:01,000 --> 00:00:04,000 [X1:... Y1:...]
+const SRT_TIMING_PATTERN = /^\s*(\d{1,2}:)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})\s*-->\s*(\d{1,2}:)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})/;
+
+// 私有工具 - 规范化时间戳为 HH:MM:SS.mmm
+const formatTimestamp = (hours: string | undefined, minutes: string, seconds: string, millis: string): string => {
+  const h = (hours ? hours.slice(0, -1) : '0').padStart(2, '0');
+  return `${h}:${minutes.padStart(2, '0')}:${seconds.padStart(2, '0')}.${millis.padEnd(3, '0')}`;
+};
+
+// 私有工具 - 清理WebVTT不支持的SRT标签
+const sanitizeCueText = (line: string): string => {
+  return line
+    .replace(/<\/?font[^>]*>/gi, '')
+    .replace(/\{\\an?\d+\}/g, '')
+    // WebVTT中 "-->" 不能出现在文本中
+    .replace(/-->/g, '->');
+};
+
+/**
+ * 将SRT字幕转换为WebVTT
+ */
+export const srtToVtt = (srt: string): string => {
+  const lines = srt
+    .replace(/^﻿/, '')
+    .replace(/\r\n?/g, '\n')
+    .split('\n');
+
+  const output: string[] = ['WEBVTT', ''];
+  let inCue = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const timing = SRT_TIMING_PATTERN.exec(line);
+
+    if (timing) {
+      const [, h1, m1, s1, ms1, h2, m2, s2, ms2] = timing;
+      output.push(`${formatTimestamp(h1, m1, s1, ms1)} --> ${formatTimestamp(h2, m2, s2, ms2)}`);
+      inCue = true;
+      continue;
+    }
+
+    if (line.trim() === '') {
+      if (inCue) {
+        output.push('');
+      }
+      inCue = false;
+      continue;
+    }
+
+    if (inCue) {
+      output.push(sanitizeCueText(line));
+    } else if (/^\d+$/.test(line.trim()) && SRT_TIMING_PATTERN.test(lines[i + 1] || '')) {
+      // 序号行作为cue标识
+      output.push(line.trim());
+    }
+  }
+
+  // 保证以空行结尾
+  if (output[output.length - 1] !== '') {
+    output.push('');
+  }
+
+  return output.join('\n');
+};
+
+/**
+ * 识别字幕格式：优先使用内容特征，其次使用文件扩展名
+ */
+export const detectSubtitleFormat = (content?: string, src?: string): TextTrackFormat => {
+  if (content !== undefined) {
+    const trimmed = content.replace(/^﻿/, '').trimStart();
+    if (trimmed.startsWith('WEBVTT')) return 'vtt';
+    const timingLine = trimmed.split(/\r?\n/, 4).find(line => line.includes('-->'));
+    if (timingLine && SRT_TIMING_PATTERN.test(timingLine)) return 'srt';
+  }
+
+  if (src) {
+    const path = src.split(/[?#]/)[0].toLowerCase();
+    if (path.endsWith('.srt')) return 'srt';
+  }
+
+  return 'vtt';
+};
+
+/**
+ * 将任意支持的字幕内容转换为WebVTT
+ */
+export const toWebVTT = (content: string, format: TextTrackFormat = detectSubtitleFormat(content)): string => {
+  return format === 'srt' ? srtToVtt(content) : content;
+};
+
+// WebVTT中的单个cue
+export interface ParsedVTTCue {
+  id?: string;
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
+// 私有工具 - 解析WebVTT时间戳（[hh:]mm:ss.ttt）
+const parseVTTTimestamp = (value: string): number => {
+  return value.trim().split(':').map(Number).reduce((total, part) => total * 60 + part, 0);
+};
+
+/**
+ * 解析WebVTT中的cue（章节、元数据、缩略图索引等非字幕用途）
+ */
+export const parseVTTCues = (content: string): ParsedVTTCue[] => {
+  const cues: ParsedVTTCue[] = [];
+  const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [start, end] = lines[timingIndex].split('-->').map(part => part.trim().split(/\s+/)[0]);
+    const id = timingIndex > 0 ? lines[timingIndex - 1].trim() : '';
+
+    cues.push({
+      ...(id ? { id } : {}),
+      startTime: parseVTTTimestamp(start),
+      endTime: parseVTTTimestamp(end),
+      text: lines.slice(timingIndex + 1).join('\n').trim()
+    });
+  }
+
+  return cues;
+};
@@ -0,0 +1,272 @@
+// 文本轨道管理器 - 管理配置字幕的<track>元素、cue事件和渲染样式
+
+import type {
+  TextTrackConfig,
+  TextTrackStyle,
+  VideoTextCue,
+  VideoTextTrack
+} from './types';
+import { detectSubtitleFormat, toWebVTT } from './SubtitleConverter';
+
+// 管理器选项
+export interface TextTrackManagerOptions {
+  tracks: TextTrackConfig[];
+  display: 'native' | 'custom';
+  // 将元素上的TextTrack解析为播放器轨道ID（流内字幕由播放器子类解析）
+  resolveTrackId: (track: TextTrack) => string | null;
+  onCueChange: (trackId: string, cues: VideoTextCue[]) => void;
+  onLoadError: (trackId: string, error: unknown) => void;
+}
+
+// 单条配置轨道
+interface ManagedTrack {
+  id: string;
+  config: TextTrackConfig;
+  element: HTMLTrackElement;
+  objectUrl: string | null;
+}
+
+let styleScopeCounter = 0;
+
+// 样式属性到CSS属性名的映射
+const STYLE_PROPERTIES: Record<keyof TextTrackStyle, string> = {
+  color: 'color',
+  backgroundColor: 'background-color',
+  fontSize: 'font-size',
+  fontFamily: 'font-family',
+  fontWeight: 'font-weight',
+  textShadow: 'text-shadow',
+  opacity: 'opacity'
+};
+
+export class TextTrackManager {
+  private _element: HTMLVideoElement;
+  private _options: TextTrackManagerOptions;
+  private _tracks: ManagedTrack[] = [];
+  private _trackIds = new WeakMap<TextTrack, string>();
+  private _boundTracks = new Set<TextTrack>();
+  private _activeId: string | null = null;
+  private _style: TextTrackStyle = {};
+  private _styleElement: HTMLStyleElement | null = null;
+  private _styleScope: string;
+  private _isDestroyed = false;
+
+  constructor(element: HTMLVideoElement, options: TextTrackManagerOptions) {
+    this._element = element;
+    this._options = options;
+    this._styleScope = `vtt-${++styleScopeCounter}`;
+
+    options.tracks.forEach((config, index) => this.addTrack(config, index));
+    this.bindTextTrackList();
+  }
+
+  /**
+   * 配置中标记为默认的轨道
+   */
+  get defaultTrackId(): string | null {
+    return this._tracks.find(track => track.config.default)?.id ?? null;
+  }
+
+  /**
+   * 获取配置轨道信息
+   */
+  getTracks(): VideoTextTrack[] {
+    return this._tracks.map(({ id, config }) => ({
+      id,
+      kind: config.kind || 'subtitles',
+      label: config.label || config.language || id,
+      language: config.language || '',
+      origin: 'config' as const,
+      active: id === this._activeId
+    }));
+  }
+
+  /**
+   * 是否包含指定的配置轨道
+   */
+  hasTrack(id: string): boolean {
+    return this._tracks.some(track => track.id === id);
+  }
+
+  /**
+   * 激活配置轨道（null关闭所有配置轨道）
+   */
+  activate(id: string | null): void {
+    this._activeId = id && this.hasTrack(id) ? id : null;
+
+    for (const track of this._tracks) {
+      const textTrack = track.element.track;
+      if (!textTrack) continue;
+
+      if (track.id === this._activeId) {
+        textTrack.mode = this._options.display === 'native' ? 'showing' : 'hidden';
+      } else {
+        textTrack.mode = 'disabled';
+      }
+    }
+  }
+
+  /**
+   * 设置原生字幕样式
+   */
+  setStyle(style: TextTrackStyle): void {
+    this._style = { ...this._style, ...style };
+
+    const declarations = (Object.keys(this._style) as (keyof TextTrackStyle)[])
+      .filter(key => this._style[key] !== undefined && this._style[key] !== '')
+      .map(key => `${STYLE_PROPERTIES[key]}: ${this._style[key]};`)
+      .join(' ');
+
+    if (!this._styleElement) {
+      this._styleElement = document.createElement('style');
+      document.head.appendChild(this._styleElement);
+      this._element.setAttribute('data-text-track-style', this._styleScope);
+    }
+
+    this._styleElement.textContent =
+      `video[data-text-track-style="${this._styleScope}"]::cue { ${declarations} }`;
+  }
+
+  /**
+   * 获取当前样式
+   */
+  getStyle(): TextTrackStyle {
+    return { ...this._style };
+  }
+
+  /**
+   * 销毁管理器
+   */
+  destroy(): void {
+    this._isDestroyed = true;
+
+    const textTracks = this._element.textTracks;
+    textTracks?.removeEventListener?.('addtrack', this.handleAddTrack);
+    for (const textTrack of this._boundTracks) {
+      textTrack.removeEventListener('cuechange', this.handleCueChange);
+    }
+    this._boundTracks.clear();
+
+    for (const track of this._tracks) {
+      track.element.remove();
+      if (track.objectUrl) {
+        URL.revokeObjectURL(track.objectUrl);
+      }
+    }
+    this._tracks = [];
+
+    this._styleElement?.remove();
+    this._styleElement = null;
+    this._element.removeAttribute('data-text-track-style');
+  }
+
+  // 私有方法 - 创建<track>元素
+  private addTrack(config: TextTrackConfig, index: number): void {
+    const id = config.id || `track-${index}`;
+    const element = document.createElement('track');
+    element.kind = config.kind || 'subtitles';
+    element.label = config.label || config.language || id;
+    if (config.language) {
+      element.srclang = config.language;
+    }
+
+    const managed: ManagedTrack = { id, config, element, objectUrl: null };
+    this._tracks.push(managed);
+    this._element.appendChild(element);
+
+    if (element.track) {
+      this._trackIds.set(element.track, id);
+      element.track.mode = 'disabled';
+    }
+
+    this.loadTrackSource(managed);
+  }
+
+  // 私有方法 - 加载轨道内容，SRT和内联内容转换为WebVTT的Blob地址
+  private async loadTrackSource(track: ManagedTrack): Promise<void> {
+    const { config } = track;
+
+    try {
+      if (config.content !== undefined) {
+        this.setTrackObjectUrl(track, toWebVTT(config.content, config.format || detectSubtitleFormat(config.content)));
+        return;
+      }
+
+      if (!config.src) return;
+
+      const format = config.format || detectSubtitleFormat(undefined, config.src);
+      if (format === 'vtt') {
+        track.element.src = config.src;
+        return;
+      }
+
+      const response = await fetch(config.src);
+      if (!response.ok) {
+        throw new Error(`Text track request failed with status ${response.status}`);
+      }
+      const content = await response.text();
+
+      if (!this._isDestroyed) {
+        this.setTrackObjectUrl(track, toWebVTT(content, format));
+      }
+    } catch (error) {
+      if (!this._isDestroyed) {
+        this._options.onLoadError(track.id, error);
+      }
+    }
+  }
+
+  // 私有方法 - 设置Blob地址
+  private setTrackObjectUrl(track: ManagedTrack, vtt: string): void {
+    if (track.objectUrl) {
+      URL.revokeObjectURL(track.objectUrl);
+    }
+
+    track.objectUrl = URL.createObjectURL(new Blob([vtt], { type: 'text/vtt' }));
+    track.element.src = track.objectUrl;
+  }
+
+  // 私有方法 - 监听元素上的所有文本轨道（含流内字幕动态添加的轨道）
+  private bindTextTrackList(): void {
+    // 部分环境（旧版WebView、jsdom）的TextTrackList不是EventTarget
+    const textTracks = this._element.textTracks;
+    if (!textTracks || typeof textTracks.addEventListener !== 'function') return;
+
+    for (let i = 0; i < textTracks.length; i++) {
+      this.bindTextTrack(textTracks[i]);
+    }
+    textTracks.addEventListener('addtrack', this.handleAddTrack);
+  }
+
+  private bindTextTrack(textTrack: TextTrack): void {
+    if (this._boundTracks.has(textTrack)) return;
+
+    this._boundTracks.add(textTrack);
+    textTrack.addEventListener('cuechange', this.handleCueChange);
+  }
+
+  private handleAddTrack = (event: TrackEvent): void => {
+    if (event.track) {
+      this.bindTextTrack(event.track as TextTrack);
+    }
+  };
+
+  // 私有方法 - 转发激活cue
+  private handleCueChange = (event: Event): void => {
+    const textTrack = event.target as TextTrack;
+    if (textTrack.mode === 'disabled') return;
+
+    const trackId = this._trackIds.get(textTrack) ?? this._options.resolveTrackId(textTrack);
+    if (!trackId) return;
+
+    const cues: VideoTextCue[] = Array.from(textTrack.activeCues || []).map(cue => ({
+      id: cue.id,
+      startTime: cue.startTime,
+      endTime: cue.endTime,
+      text: (cue as VTTCue).text ?? ''
+    }));
+
+    this._options.onCueChange(trackId, cues);
+  };
+}
+
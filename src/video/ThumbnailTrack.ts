@@ -0,0 +1,295 @@
+// 缩略图轨道 - 解析WebVTT雪碧图索引和HLS I帧图像播放列表，按时间查询并随缓冲区预加载
+
+import type { ThumbnailConfig, VideoThumbnail } from './types';
+import { parseVTTCues } from './SubtitleConverter';
+
+// 已解析的缩略图索引按地址缓存，播放列表切换条目时无需重新请求；
+// 按最近使用保留有限条目，避免长时间运行的页面持续累积索引
+const THUMBNAIL_INDEX_CACHE_SIZE = 8;
+const thumbnailIndexCache = new Map<string, Promise<VideoThumbnail[]>>();
+
+// 私有工具 - 解析相对地址
+const resolveUrl = (reference: string, base: string): string => {
+  try {
+    const absoluteBase = typeof document !== 'undefined' ? new URL(base, document.baseURI).toString() : base;
+    return new URL(reference, absoluteBase).toString();
+  } catch {
+    return reference;
+  }
+};
+
+// 私有工具 - 解析M3U8属性列表
+const parseAttributes = (line: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(line)) !== null) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attributes;
+};
+
+const parseResolution = (value?: string): { width: number; height: number } => {
+  const [width, height] = (value || '').split('x').map(Number);
+  return { width: width || 0, height: height || 0 };
+};
+
+/**
+ * 解析WebVTT雪碧图索引：每个cue的文本为图片地址，可带 #xywh=x,y,w,h 片段
+ */
+export const parseThumbnailVTT = (content: string, baseUrl: string): VideoThumbnail[] => {
+  const thumbnails: VideoThumbnail[] = [];
+
+  for (const cue of parseVTTCues(content)) {
+    const reference = cue.text.split('\n')[0].trim();
+    if (!reference) continue;
+
+    const [path, fragment = ''] = reference.split('#');
+    const xywh = /xywh=(?:pixel:)?(\d+),(\d+),(\d+),(\d+)/.exec(fragment);
+
+    thumbnails.push({
+      url: resolveUrl(path, baseUrl),
+      x: xywh ? Number(xywh[1]) : 0,
+      y: xywh ? Number(xywh[2]) : 0,
+      width: xywh ? Number(xywh[3]) : 0,
+      height: xywh ? Number(xywh[4]) : 0,
+      startTime: cue.startTime,
+      endTime: cue.endTime
+    });
+  }
+
+  return thumbnails.sort((a, b) => a.startTime - b.startTime);
+};
+
+/**
+ * 从HLS主播放列表中查找图像流（EXT-X-IMAGE-STREAM-INF），返回第一个图像流
+ */
+export const findImageStream = (
+  content: string,
+  baseUrl: string
+): { uri: string; width: number; height: number } | null => {
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.startsWith('#EXT-X-IMAGE-STREAM-INF:')) continue;
+
+    const attributes = parseAttributes(line.slice(line.indexOf(':') + 1));
+    if (attributes.URI) {
+      return { uri: resolveUrl(attributes.URI, baseUrl), ...parseResolution(attributes.RESOLUTION) };
+    }
+  }
+  return null;
+};
+
+/**
+ * 解析HLS图像播放列表：每个分片是一张雪碧图，EXT-X-TILES描述网格布局和每格时长
+ */
+export const parseImagePlaylist = (
+  content: string,
+  baseUrl: string,
+  defaultSize: { width: number; height: number } = { width: 0, height: 0 }
+): VideoThumbnail[] => {
+  const thumbnails: VideoThumbnail[] = [];
+  let time = 0;
+  let segmentDuration = 0;
+  let tiles: { width: number; height: number; columns: number; rows: number; duration: number } | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#EXTINF:')) {
+      segmentDuration = parseFloat(line.slice(8)) || 0;
+    } else if (line.startsWith('#EXT-X-TILES:')) {
+      const attributes = parseAttributes(line.slice(13));
+      const [columns, rows] = (attributes.LAYOUT || '1x1').split('x').map(Number);
+      tiles = {
+        ...parseResolution(attributes.RESOLUTION),
+        columns: columns || 1,
+        rows: rows || 1,
+        duration: parseFloat(attributes.DURATION) || 0
+      };
+    } else if (!line.startsWith('#')) {
+      const url = resolveUrl(line, baseUrl);
+      const layout = tiles ?? { ...defaultSize, columns: 1, rows: 1, duration: segmentDuration };
+      const count = layout.columns * layout.rows;
+      const tileDuration = layout.duration || segmentDuration / count;
+      const segmentEnd = time + segmentDuration;
+
+      for (let i = 0; i < count; i++) {
+        const startTime = time + i * tileDuration;
+        if (startTime >= segmentEnd) break;
+
+        thumbnails.push({
+          url,
+          x: (i % layout.columns) * layout.width,
+          y: Math.floor(i / layout.columns) * layout.height,
+          width: layout.width,
+          height: layout.height,
+          startTime,
+          endTime: Math.min(segmentEnd, startTime + tileDuration)
+        });
+      }
+
+      time = segmentEnd;
+      segmentDuration = 0;
+      tiles = null;
+    }
+  }
+
+  return thumbnails;
+};
+
+// 私有工具 - 请求文本
+const fetchText = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Thumbnail request failed with status ${response.status}`);
+  }
+  return response.text();
+};
+
+// 私有工具 - 加载并解析缩略图索引
+const loadThumbnailIndex = async (config: ThumbnailConfig): Promise<VideoThumbnail[]> => {
+  const content = await fetchText(config.src);
+  const path = config.src.split(/[?#]/)[0].toLowerCase();
+  const type = config.type ?? (path.endsWith('.m3u8') || content.trimStart().startsWith('#EXTM3U') ? 'hls' : 'vtt');
+
+  if (type === 'vtt') {
+    return parseThumbnailVTT(content, config.src);
+  }
+
+  // 主播放列表需要再请求图像流播放列表
+  const imageStream = findImageStream(content, config.src);
+  if (imageStream) {
+    return parseImagePlaylist(await fetchText(imageStream.uri), imageStream.uri, imageStream);
+  }
+  return parseImagePlaylist(content, config.src);
+};
+
+// 私有工具 - 读取或加载缩略图索引，Map的插入顺序即使用顺序
+const getThumbnailIndex = (config: ThumbnailConfig): Promise<VideoThumbnail[]> => {
+  let index = thumbnailIndexCache.get(config.src);
+  if (index) {
+    thumbnailIndexCache.delete(config.src);
+  } else {
+    index = loadThumbnailIndex(config);
+    const pending = index;
+    // 失败的请求不缓存，允许后续播放器重试
+    pending.catch(() => {
+      if (thumbnailIndexCache.get(config.src) === pending) thumbnailIndexCache.delete(config.src);
+    });
+  }
+  thumbnailIndexCache.set(config.src, index);
+
+  if (thumbnailIndexCache.size > THUMBNAIL_INDEX_CACHE_SIZE) {
+    thumbnailIndexCache.delete(thumbnailIndexCache.keys().next().value!);
+  }
+  return index;
+};
+
+// 轨道选项
+export interface ThumbnailTrackOptions {
+  onError: (error: unknown) => void;
+}
+
+export class ThumbnailTrack {
+  private _config: ThumbnailConfig;
+  private _thumbnails: VideoThumbnail[] = [];
+  private _lastLookup: VideoThumbnail | null = null;
+  private _sprites = new Map<string, HTMLImageElement>();
+  private _ready: Promise<void>;
+  private _isDestroyed = false;
+
+  constructor(config: ThumbnailConfig, options: ThumbnailTrackOptions) {
+    this._config = config;
+
+    this._ready = getThumbnailIndex(config).then(
+      thumbnails => {
+        if (!this._isDestroyed) this._thumbnails = thumbnails;
+      },
+      error => {
+        if (!this._isDestroyed) options.onError(error);
+      }
+    );
+  }
+
+  /**
+   * 索引加载完成（失败时同样resolve）
+   */
+  get ready(): Promise<void> {
+    return this._ready;
+  }
+
+  get thumbnails(): VideoThumbnail[] {
+    return [...this._thumbnails];
+  }
+
+  /**
+   * 查询指定时间的缩略图
+   */
+  getThumbnailAt(time: number): VideoThumbnail | null {
+    const last = this._lastLookup;
+    if (last && time >= last.startTime && time < last.endTime) {
+      return { ...last };
+    }
+
+    // 二分查找最后一个 startTime <= time 的缩略图
+    let low = 0;
+    let high = this._thumbnails.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (this._thumbnails[mid].startTime <= time) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    const thumbnail = this._thumbnails[found];
+    // 超出最后一个cue时沿用最后一张
+    if (!thumbnail || (time >= thumbnail.endTime && found < this._thumbnails.length - 1)) {
+      return null;
+    }
+
+    this._lastLookup = thumbnail;
+    return { ...thumbnail };
+  }
+
+  /**
+   * 预加载与已缓冲区间重叠的雪碧图
+   */
+  preload(buffered: TimeRanges): void {
+    if (this._isDestroyed || this._config.preload === false || typeof Image === 'undefined') return;
+
+    for (let i = 0; i < buffered.length; i++) {
+      const start = buffered.start(i);
+      const end = buffered.end(i);
+
+      for (const thumbnail of this._thumbnails) {
+        if (thumbnail.startTime > end) break;
+        if (thumbnail.endTime < start || this._sprites.has(thumbnail.url)) continue;
+
+        const image = new Image();
+        image.decoding = 'async';
+        image.src = thumbnail.url;
+        this._sprites.set(thumbnail.url, image);
+      }
+    }
+  }
+
+  /**
+   * 已预加载的雪碧图
+   */
+  getSprite(url: string): HTMLImageElement | undefined {
+    return this._sprites.get(url);
+  }
+
+  destroy(): void {
+    this._isDestroyed = true;
+    this._thumbnails = [];
+    this._lastLookup = null;
+    this._sprites.clear();
+  }
+}
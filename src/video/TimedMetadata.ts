@@ -0,0 +1,328 @@
+// 定时元数据 - 章节与提示点的加载，以及跨跳转/变速的进入退出判定
+
+import type {
+  ChapterConfig,
+  CuePointConfig,
+  TimedMetadataSource,
+  VideoChapter,
+  VideoCuePoint
+} from './types';
+import { parseVTTCues } from './SubtitleConverter';
+
+// HLS EXT-X-DATERANGE（由HLSPlayer从hls.js的播放列表详情转换）
+export interface DateRangeMetadata {
+  id: string;
+  class: string;
+  startTime: number;
+  duration: number | null;
+  attributes: Record<string, string>;
+}
+
+export interface TimedMetadataOptions {
+  chapters?: TimedMetadataSource<ChapterConfig>;
+  cuePoints?: TimedMetadataSource<CuePointConfig>;
+  onChapterChange: (from: VideoChapter | null, to: VideoChapter | null) => void;
+  onCuePoint: (action: 'enter' | 'exit', cuePoint: VideoCuePoint) => void;
+  onLoadError: (kind: 'chapters' | 'cuePoints', error: unknown) => void;
+}
+
+// 私有工具 - 元数据来源是否为DATERANGE
+const dateRangeFilter = (source?: TimedMetadataSource<unknown>): string | true | null => {
+  return source && !Array.isArray(source) && 'dateRange' in source ? source.dateRange : null;
+};
+
+// 私有工具 - 元数据提示点的文本优先按JSON解析
+const parseCueData = (text: string): Record<string, any> => {
+  try {
+    const data = JSON.parse(text);
+    return data && typeof data === 'object' ? data : { value: data };
+  } catch {
+    return { text };
+  }
+};
+
+export class TimedMetadataManager {
+  private _element: HTMLVideoElement;
+  private _options: TimedMetadataOptions;
+  private _chapters: ChapterConfig[] = [];
+  private _cuePoints: VideoCuePoint[] = [];
+  private _activeCuePoints = new Map<string, VideoCuePoint>();
+  private _currentChapter: VideoChapter | null = null;
+  // 初始为负数，使0秒处的提示点在开始播放时触发
+  private _lastTime = -1;
+  private _isSeeking = false;
+  private _boundaryTimer: ReturnType<typeof setTimeout> | null = null;
+  // 媒体元素让渡期间（如插播广告）不判定
+  private _isSuspended = false;
+  private _isDestroyed = false;
+
+  constructor(element: HTMLVideoElement, options: TimedMetadataOptions) {
+    this._element = element;
+    this._options = options;
+
+    this.loadSource('chapters', options.chapters);
+    this.loadSource('cuePoints', options.cuePoints);
+
+    element.addEventListener('loadedmetadata', this.handleTimeUpdate);
+    element.addEventListener('timeupdate', this.handleTimeUpdate);
+    element.addEventListener('seeking', this.handleSeeking);
+    element.addEventListener('seeked', this.handleSeeked);
+    element.addEventListener('playing', this.scheduleBoundary);
+    element.addEventListener('ratechange', this.scheduleBoundary);
+    element.addEventListener('pause', this.clearBoundary);
+  }
+
+  /**
+   * 章节列表（结束时间已补全）
+   */
+  getChapters(): VideoChapter[] {
+    const duration = Number.isFinite(this._element.duration) ? this._element.duration : Infinity;
+
+    return this._chapters.map((chapter, index) => ({
+      id: chapter.id ?? `chapter-${index}`,
+      title: chapter.title,
+      startTime: chapter.startTime,
+      endTime: chapter.endTime ?? this._chapters[index + 1]?.startTime ?? duration
+    }));
+  }
+
+  getChapterAt(time: number): VideoChapter | null {
+    return this.getChapters().find(chapter => time >= chapter.startTime && time < chapter.endTime) ?? null;
+  }
+
+  getCuePoints(): VideoCuePoint[] {
+    return this._cuePoints.map(cuePoint => ({ ...cuePoint }));
+  }
+
+  /**
+   * 应用HLS播放列表中的DATERANGE（按配置转换为章节或提示点）
+   */
+  setDateRanges(ranges: DateRangeMetadata[]): void {
+    const matches = (filter: string | true | null, range: DateRangeMetadata) =>
+      filter === true || (filter !== null && range.class === filter);
+
+    const chapterFilter = dateRangeFilter(this._options.chapters);
+    if (chapterFilter !== null) {
+      this.setChapters(ranges
+        .filter(range => matches(chapterFilter, range))
+        .map(range => ({
+          id: range.id,
+          title: range.attributes['X-TITLE'] ?? range.id,
+          startTime: range.startTime,
+          endTime: range.duration !== null ? range.startTime + range.duration : undefined
+        })));
+    }
+
+    const cueFilter = dateRangeFilter(this._options.cuePoints);
+    if (cueFilter !== null) {
+      this.setCuePoints(ranges
+        .filter(range => matches(cueFilter, range))
+        .map(range => ({
+          id: range.id,
+          startTime: range.startTime,
+          endTime: range.duration !== null ? range.startTime + range.duration : undefined,
+          data: range.attributes,
+          class: range.class
+        })));
+    }
+  }
+
+  /**
+   * 暂停或恢复判定；恢复时按跳转重新对比激活集合
+   */
+  setSuspended(suspended: boolean): void {
+    this._isSuspended = suspended;
+    this.clearBoundary();
+
+    if (!suspended) {
+      this._isSeeking = this._element.seeking;
+      this.reconcileLoaded();
+    }
+  }
+
+  destroy(): void {
+    this._isDestroyed = true;
+    this.clearBoundary();
+
+    this._element.removeEventListener('loadedmetadata', this.handleTimeUpdate);
+    this._element.removeEventListener('timeupdate', this.handleTimeUpdate);
+    this._element.removeEventListener('seeking', this.handleSeeking);
+    this._element.removeEventListener('seeked', this.handleSeeked);
+    this._element.removeEventListener('playing', this.scheduleBoundary);
+    this._element.removeEventListener('ratechange', this.scheduleBoundary);
+    this._element.removeEventListener('pause', this.clearBoundary);
+
+    this._activeCuePoints.clear();
+  }
+
+  // 私有方法 - 加载内联数组或WebVTT文件
+  private async loadSource(
+    kind: 'chapters' | 'cuePoints',
+    source?: TimedMetadataSource<ChapterConfig> | TimedMetadataSource<CuePointConfig>
+  ): Promise<void> {
+    if (!source || dateRangeFilter(source) !== null) return;
+
+    if (Array.isArray(source)) {
+      kind === 'chapters'
+        ? this.setChapters(source as ChapterConfig[])
+        : this.setCuePoints(source as CuePointConfig[]);
+      return;
+    }
+
+    try {
+      const response = await fetch((source as { src: string }).src);
+      if (!response.ok) {
+        throw new Error(`Timed metadata request failed with status ${response.status}`);
+      }
+      const cues = parseVTTCues(await response.text());
+      if (this._isDestroyed) return;
+
+      if (kind === 'chapters') {
+        this.setChapters(cues.map(cue => ({
+          id: cue.id,
+          title: cue.text,
+          startTime: cue.startTime,
+          endTime: cue.endTime
+        })));
+      } else {
+        this.setCuePoints(cues.map(cue => ({
+          id: cue.id,
+          startTime: cue.startTime,
+          endTime: cue.endTime > cue.startTime ? cue.endTime : undefined,
+          data: parseCueData(cue.text)
+        })));
+      }
+    } catch (error) {
+      if (!this._isDestroyed) {
+        this._options.onLoadError(kind, error);
+      }
+    }
+  }
+
+  private setChapters(chapters: ChapterConfig[]): void {
+    this._chapters = [...chapters].sort((a, b) => a.startTime - b.startTime);
+    this.reconcileLoaded();
+  }
+
+  private setCuePoints(cuePoints: CuePointConfig[]): void {
+    this._cuePoints = cuePoints
+      .map((cuePoint, index) => ({ ...cuePoint, id: cuePoint.id ?? `cue-${index}` }))
+      .sort((a, b) => a.startTime - b.startTime);
+    this.reconcileLoaded();
+  }
+
+  // 私有方法 - 元数据加载完成后的判定；媒体元数据就绪前由loadedmetadata触发
+  private reconcileLoaded(): void {
+    if (this._element.readyState >= HTMLMediaElement.HAVE_METADATA && !this._isSeeking) {
+      this.reconcile(true);
+    }
+  }
+
+  /**
+   * 根据上次与当前播放位置计算进入/退出：
+   * 连续播放时，区间内被整体跨过的提示点（高倍速或瞬时提示点）依次触发enter和exit；
+   * 跳转时只对比前后激活集合，跳过的提示点不触发。
+   */
+  private reconcile(jump: boolean): void {
+    if (this._isDestroyed || this._isSuspended) return;
+
+    const time = this._element.currentTime;
+    const previous = this._lastTime;
+    const continuous = !jump && time >= previous;
+    this._lastTime = time;
+
+    const active = new Map<string, VideoCuePoint>();
+    for (const cuePoint of this._cuePoints) {
+      const endTime = cuePoint.endTime ?? cuePoint.startTime;
+      if (endTime > cuePoint.startTime && cuePoint.startTime <= time && time < endTime) {
+        active.set(cuePoint.id, cuePoint);
+      }
+    }
+
+    for (const [id, cuePoint] of this._activeCuePoints) {
+      if (!active.has(id)) {
+        this._options.onCuePoint('exit', cuePoint);
+      }
+    }
+
+    for (const cuePoint of this._cuePoints) {
+      const wasActive = this._activeCuePoints.has(cuePoint.id);
+
+      if (active.has(cuePoint.id)) {
+        if (!wasActive) this._options.onCuePoint('enter', cuePoint);
+      } else if (!wasActive && continuous && previous < cuePoint.startTime && cuePoint.startTime <= time) {
+        this._options.onCuePoint('enter', cuePoint);
+        this._options.onCuePoint('exit', cuePoint);
+      }
+    }
+
+    this._activeCuePoints = active;
+
+    const chapter = this.getChapterAt(time);
+    if (chapter?.id !== this._currentChapter?.id) {
+      const from = this._currentChapter;
+      this._currentChapter = chapter;
+      this._options.onChapterChange(from, chapter);
+    }
+
+    this.scheduleBoundary();
+  }
+
+  private handleTimeUpdate = (): void => {
+    if (!this._isSeeking) {
+      this.reconcile(false);
+    }
+  };
+
+  private handleSeeking = (): void => {
+    if (this._isSuspended) return;
+    this._isSeeking = true;
+    this.clearBoundary();
+  };
+
+  private handleSeeked = (): void => {
+    if (this._isSuspended) return;
+    this._isSeeking = false;
+    this.reconcile(true);
+  };
+
+  // timeupdate约每250ms触发一次，播放中在下一个边界处额外判定以保证时间精度
+  private scheduleBoundary = (): void => {
+    this.clearBoundary();
+
+    const element = this._element;
+    if (this._isDestroyed || this._isSuspended || element.paused || this._isSeeking || element.playbackRate <= 0) return;
+
+    const time = element.currentTime;
+    let next = Infinity;
+    for (const boundary of this.getBoundaries()) {
+      if (boundary > time && boundary < next) next = boundary;
+    }
+    if (next === Infinity) return;
+
+    const delay = ((next - time) / element.playbackRate) * 1000;
+    this._boundaryTimer = setTimeout(() => {
+      this._boundaryTimer = null;
+      this.reconcile(false);
+    }, Math.max(0, delay));
+  };
+
+  private clearBoundary = (): void => {
+    if (this._boundaryTimer) {
+      clearTimeout(this._boundaryTimer);
+      this._boundaryTimer = null;
+    }
+  };
+
+  private getBoundaries(): number[] {
+    const boundaries: number[] = [];
+    for (const cuePoint of this._cuePoints) {
+      boundaries.push(cuePoint.startTime);
+      if (cuePoint.endTime !== undefined) boundaries.push(cuePoint.endTime);
+    }
+    for (const chapter of this.getChapters()) {
+      boundaries.push(chapter.startTime, chapter.endTime);
+    }
+    return boundaries;
+  }
+}
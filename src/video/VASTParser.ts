@@ -0,0 +1,260 @@
+// VAST 4 / VMAP 解析器 - 将广告XML转换为可播放的线性广告和广告时段
+
+// 追踪事件
+export type VASTTrackingEvent =
+  | 'impression'
+  | 'start'
+  | 'firstQuartile'
+  | 'midpoint'
+  | 'thirdQuartile'
+  | 'complete'
+  | 'skip'
+  | 'pause'
+  | 'resume'
+  | 'mute'
+  | 'unmute'
+  | 'clickTracking'
+  | 'error';
+
+// 媒体文件
+export interface VASTMediaFile {
+  url: string;
+  type: string;
+  delivery: 'progressive' | 'streaming';
+  width: number;
+  height: number;
+  bitrate?: number;
+}
+
+// 线性广告
+export interface VASTAd {
+  id: string;
+  sequence?: number;
+  title: string;
+  duration: number;
+  // 秒；null表示不可跳过
+  skipOffset: number | null;
+  mediaFiles: VASTMediaFile[];
+  clickThrough?: string;
+  tracking: Partial<Record<VASTTrackingEvent, string[]>>;
+}
+
+// 包装广告 - 需要继续请求VASTAdTagURI，并合并追踪地址
+export interface VASTWrapper {
+  id: string;
+  sequence?: number;
+  adTagUri: string;
+  tracking: Partial<Record<VASTTrackingEvent, string[]>>;
+}
+
+export interface VASTDocument {
+  version: string;
+  ads: VASTAd[];
+  wrappers: VASTWrapper[];
+  // 无广告时的错误追踪地址
+  errors: string[];
+}
+
+// 广告时段位置：片头、片尾、秒数或百分比
+export type AdBreakOffset = 'start' | 'end' | number | { percent: number };
+
+export interface VMAPAdBreak {
+  id: string;
+  offset: AdBreakOffset;
+  // 内联VAST或广告请求地址二选一
+  vast?: VASTDocument;
+  adTagUri?: string;
+}
+
+// 私有工具 - 忽略命名空间前缀的子元素查询
+const childElements = (parent: Element, name: string): Element[] => {
+  return Array.from(parent.children).filter(child => child.localName === name);
+};
+
+const firstChild = (parent: Element | null | undefined, name: string): Element | null => {
+  return parent ? childElements(parent, name)[0] ?? null : null;
+};
+
+const descendants = (parent: Element, name: string): Element[] => {
+  return Array.from(parent.getElementsByTagName('*')).filter(element => element.localName === name);
+};
+
+const textOf = (element: Element | null | undefined): string => {
+  return element?.textContent?.trim() ?? '';
+};
+
+const parseXML = (xml: string, rootName: string): Element => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = document.documentElement;
+
+  if (!root || root.localName !== rootName || document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Invalid ${rootName} document`);
+  }
+  return root;
+};
+
+/**
+ * 解析VAST时间（HH:MM:SS[.mmm]），无效时返回NaN
+ */
+export const parseVASTTime = (value: string | null | undefined): number => {
+  const match = /^(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/.exec((value || '').trim());
+  if (!match) return NaN;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+};
+
+// 私有工具 - 跳过偏移可以是时间或百分比
+const parseSkipOffset = (value: string | null, duration: number): number | null => {
+  if (!value) return null;
+
+  const percent = /^(\d+(?:\.\d+)?)%$/.exec(value.trim());
+  if (percent) return (duration * Number(percent[1])) / 100;
+
+  const time = parseVASTTime(value);
+  return Number.isNaN(time) ? null : time;
+};
+
+// 私有工具 - 收集Impression、Error和Linear追踪地址
+const readTracking = (ad: Element, linear: Element | null): Partial<Record<VASTTrackingEvent, string[]>> => {
+  const tracking: Partial<Record<VASTTrackingEvent, string[]>> = {};
+  const add = (event: VASTTrackingEvent, url: string) => {
+    if (url) (tracking[event] ??= []).push(url);
+  };
+
+  childElements(ad, 'Impression').forEach(element => add('impression', textOf(element)));
+  childElements(ad, 'Error').forEach(element => add('error', textOf(element)));
+
+  if (linear) {
+    descendants(linear, 'Tracking').forEach(element => {
+      add(element.getAttribute('event') as VASTTrackingEvent, textOf(element));
+    });
+    descendants(linear, 'ClickTracking').forEach(element => add('clickTracking', textOf(element)));
+  }
+
+  return tracking;
+};
+
+const findLinear = (ad: Element): Element | null => {
+  for (const creative of childElements(firstChild(ad, 'Creatives') ?? ad, 'Creative')) {
+    const linear = firstChild(creative, 'Linear');
+    if (linear) return linear;
+  }
+  return null;
+};
+
+const parseSequence = (ad: Element): number | undefined => {
+  const sequence = parseInt(ad.getAttribute('sequence') || '', 10);
+  return Number.isNaN(sequence) ? undefined : sequence;
+};
+
+/**
+ * 解析VAST文档（仅线性广告）
+ */
+export const parseVAST = (xml: string): VASTDocument => {
+  const root = parseXML(xml, 'VAST');
+  const result: VASTDocument = {
+    version: root.getAttribute('version') || '',
+    ads: [],
+    wrappers: [],
+    errors: childElements(root, 'Error').map(textOf).filter(Boolean)
+  };
+
+  childElements(root, 'Ad').forEach((adElement, index) => {
+    const id = adElement.getAttribute('id') || `ad-${index}`;
+    const sequence = parseSequence(adElement);
+
+    const wrapper = firstChild(adElement, 'Wrapper');
+    if (wrapper) {
+      const adTagUri = textOf(firstChild(wrapper, 'VASTAdTagURI'));
+      if (adTagUri) {
+        result.wrappers.push({ id, sequence, adTagUri, tracking: readTracking(wrapper, findLinear(wrapper)) });
+      }
+      return;
+    }
+
+    const inline = firstChild(adElement, 'InLine');
+    const linear = inline && findLinear(inline);
+    if (!inline || !linear) return;
+
+    const duration = parseVASTTime(textOf(firstChild(linear, 'Duration')));
+    const mediaFiles = descendants(linear, 'MediaFile')
+      .map(element => ({
+        url: textOf(element),
+        type: element.getAttribute('type') || '',
+        delivery: (element.getAttribute('delivery') === 'streaming' ? 'streaming' : 'progressive') as VASTMediaFile['delivery'],
+        width: Number(element.getAttribute('width')) || 0,
+        height: Number(element.getAttribute('height')) || 0,
+        bitrate: Number(element.getAttribute('bitrate')) || undefined
+      }))
+      .filter(file => file.url);
+
+    result.ads.push({
+      id,
+      sequence,
+      title: textOf(firstChild(inline, 'AdTitle')),
+      duration: Number.isNaN(duration) ? 0 : duration,
+      skipOffset: parseSkipOffset(linear.getAttribute('skipoffset'), Number.isNaN(duration) ? 0 : duration),
+      mediaFiles,
+      clickThrough: textOf(firstChild(firstChild(linear, 'VideoClicks'), 'ClickThrough')) || undefined,
+      tracking: readTracking(inline, linear)
+    });
+  });
+
+  return result;
+};
+
+/**
+ * 解析VMAP时段位置
+ */
+export const parseAdBreakOffset = (value: string | null): AdBreakOffset | null => {
+  const offset = (value || '').trim();
+  if (offset === 'start') return 'start';
+  if (offset === 'end') return 'end';
+
+  const percent = /^(\d+(?:\.\d+)?)%$/.exec(offset);
+  if (percent) return { percent: Number(percent[1]) };
+
+  const time = parseVASTTime(offset);
+  if (Number.isNaN(time)) return null;
+  return time === 0 ? 'start' : time;
+};
+
+/**
+ * 解析VMAP文档（仅线性广告时段）
+ */
+export const parseVMAP = (xml: string): VMAPAdBreak[] => {
+  const root = parseXML(xml, 'VMAP');
+  const breaks: VMAPAdBreak[] = [];
+
+  childElements(root, 'AdBreak').forEach((element, index) => {
+    const breakType = element.getAttribute('breakType');
+    const offset = parseAdBreakOffset(element.getAttribute('timeOffset'));
+    if (offset === null || (breakType && !breakType.split(',').includes('linear'))) return;
+
+    const source = firstChild(element, 'AdSource');
+    const vastData = firstChild(firstChild(source, 'VASTAdData'), 'VAST');
+    const adTagUri = textOf(firstChild(source, 'AdTagURI'));
+
+    breaks.push({
+      id: element.getAttribute('breakId') || `break-${index}`,
+      offset,
+      vast: vastData ? parseVAST(new XMLSerializer().serializeToString(vastData)) : undefined,
+      adTagUri: adTagUri || undefined
+    });
+  });
+
+  return breaks;
+};
+
+/**
+ * 合并包装广告的追踪地址
+ */
+export const mergeTracking = (
+  target: Partial<Record<VASTTrackingEvent, string[]>>,
+  source: Partial<Record<VASTTrackingEvent, string[]>>
+): Partial<Record<VASTTrackingEvent, string[]>> => {
+  const merged = { ...target };
+  (Object.keys(source) as VASTTrackingEvent[]).forEach(event => {
+    merged[event] = [...(merged[event] ?? []), ...(source[event] ?? [])];
+  });
+  return merged;
+};
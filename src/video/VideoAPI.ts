@@ -10,15 +10,67 @@ import type {
   VideoError,
   VideoEventType,
   VideoEventData,
-  VideoErrorType,
   VideoEventListener,
+  VideoEventListenerOptions,
+  VideoEmitMode,
   VideoEventName,
+  VideoSource,
+  SourceChangeReason,
+  TextTrackStyle,
+  VideoTextCue,
+  VideoTextTrack,
+  VideoAudioTrack,
+  VideoThumbnail,
+  VideoChapter,
+  VideoCuePoint,
+  VideoLiveWindow,
+  DRMConfig,
+  VideoPlugin,
+  VideoPluginMethods,
+  VideoPluginNamespace,
+  RuntimeConfigUpdate,
+  VideoReadyInfo,
+  MediaReleaseOptions,
   IVideoPlayer
 } from './types';
 
+import { DEFAULT_VIDEO_CONFIG } from './types';
 import { VideoEventEmitterTyped } from './EventEmitter';
+import { TextTrackManager } from './TextTrackManager';
+import { ResumeTracker, WatchHistoryStore } from './ResumeStore';
+import { HotkeyController } from './HotkeyController';
+import { ThumbnailTrack } from './ThumbnailTrack';
+import { TimedMetadataManager } from './TimedMetadata';
+import { LiveController } from './LiveController';
+import { EMEController } from './EMEController';
+import { PluginManager } from './PluginManager';
+import { MediaEventBridge } from './MediaEventBridge';
+import { normalizeVideoError } from './ErrorCatalog';
+import type { DateRangeMetadata } from './TimedMetadata';
+import type { ResolvedPlaybackRateConfig } from './PlaybackRate';
+import {
+  resolvePlaybackRateConfig,
+  clampPlaybackRate,
+  applyPreservesPitch,
+  loadPlaybackRatePreference,
+  savePlaybackRatePreference
+} from './PlaybackRate';
 import { browserCompatibility } from '../utils/BrowserCompatibility';
 
+// 原生AudioTrackList（仅Safari等部分浏览器实现，TS DOM库未包含）
+interface NativeAudioTrack {
+  id: string;
+  kind: string;
+  label: string;
+  language: string;
+  enabled: boolean;
+}
+
+interface NativeAudioTrackList extends EventTarget {
+  readonly length: number;
+  [index: number]: NativeAudioTrack;
+}
+
 // HTML5 Video API 封装类
 export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig> 
   implements IVideoPlayer<TConfig> {
@@ -30,23 +82,101 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
   private _stats: VideoStats;
   private _isDestroyed = false;
   private _currentQuality: VideoQuality = 'auto';
+  private _rateConfig: ResolvedPlaybackRateConfig;
+  // 同步组微调速度时记录调整前的速度，未微调时为null
+  private _syncRate: { rate: PlaybackRate; previousRate: PlaybackRate } | null = null;
   private _eventEmitter: VideoEventEmitterTyped;
   
+  // 绑定在元素上的DOM监听器，销毁时移除以便元素可被后续播放器复用
+  private _domListeners: Array<{ target: EventTarget; type: string; listener: EventListener }> = [];
+  
+  // 源回退队列
+  private _sourceQueue: VideoSource[] = [];
+  private _sourceIndex = -1;
+  private _pendingRestore: (() => void) | null = null;
+  
+  // 媒体元素让渡（插播广告）
+  private _mediaReleased = false;
+  private _releasedTextTrackId: string | null = null;
+  private _restoreOnPlayTime: number | null = null;
+  
+  // 文本轨道
+  private _textTracks: TextTrackManager;
+  private _activeTextTrackId: string | null = null;
+  
+  // 音频轨道
+  private _activeAudioTrackId: string | null = null;
+  
+  // 断点续播
+  private _resume: ResumeTracker | null = null;
+  
+  // 快捷键
+  private _hotkeys: HotkeyController | null = null;
+  
+  // 缩略图
+  private _thumbnails: ThumbnailTrack | null = null;
+  
+  // 章节与提示点
+  private _timedMetadata: TimedMetadataManager | null = null;
+  
+  // 直播
+  private _live: LiveController;
+  
+  // 加密内容（原生EME）
+  private _eme: EMEController | null = null;
+  
+  // 插件
+  private _plugins: PluginManager;
+  
+  // 全屏/画中画桥接与buffering/ready派生事件
+  private _mediaEvents: MediaEventBridge;
+  
   // 性能监控
   private _performanceObserver?: PerformanceObserver;
   private _loadStartTime = 0;
   private _playStartTime = 0;
   private _pauseStartTime = 0;
+  // 按播放时长加权的码率累计，播放中保存上一次采样
+  private _bitrateSample: { time: number; bitrate: number } | null = null;
+  private _weightedBitrate = 0;
+  private _bitrateTime = 0;
 
   constructor(element: HTMLVideoElement, config: TConfig) {
     this._element = element;
     this._config = { ...config };
+    this._rateConfig = resolvePlaybackRateConfig(config.playbackRates);
     this._stats = this.initializeStats();
     this._eventEmitter = new VideoEventEmitterTyped();
+    this._plugins = new PluginManager(this, this._eventEmitter);
     
     this.setupVideoElement();
     this.bindVideoEvents();
+    this._mediaEvents = this.setupMediaEvents();
     this.setupPerformanceMonitoring();
+    this._textTracks = this.setupTextTracks();
+    this.bindAudioTrackEvents();
+    this._live = this.setupLive();
+    
+    if (this._config.drm) {
+      this._eme = this.setupEME(this._config.drm);
+    }
+    
+    if (this._config.resume) {
+      this._resume = new ResumeTracker(this._element, this._config.resume);
+    }
+    
+    if (this._config.chapters || this._config.cuePoints) {
+      this._timedMetadata = this.setupTimedMetadata();
+    }
+    
+    if (this._config.thumbnails) {
+      this._thumbnails = this.setupThumbnails(this._config.thumbnails);
+    }
+    
+    const hotkeys = this._config.hotkeys ?? DEFAULT_VIDEO_CONFIG.hotkeys;
+    if (hotkeys) {
+      this._hotkeys = new HotkeyController(this, hotkeys === true ? {} : hotkeys);
+    }
     
     // 应用初始配置
     this.applyConfig();
@@ -73,6 +203,40 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
     return { ...this._stats };
   }
 
+  // 启用resume时的观看记录存储
+  get watchHistory(): WatchHistoryStore | null {
+    return this._resume?.store ?? null;
+  }
+
+  // 启用hotkeys时的快捷键控制器（可用于运行时重新映射）
+  get hotkeys(): HotkeyController | null {
+    return this._hotkeys;
+  }
+
+  get currentSource(): VideoSource | null {
+    return this._sourceQueue[this._sourceIndex] || null;
+  }
+
+  // 是否为直播（让渡媒体元素期间为false）
+  get isLive(): boolean {
+    return this._live.isLive;
+  }
+
+  // 插件挂载的命名空间方法
+  get plugins(): Readonly<Record<string, VideoPluginMethods>> {
+    return this._plugins.namespaces;
+  }
+
+  // 媒体元素是否已让渡给其他模块
+  get isMediaReleased(): boolean {
+    return this._mediaReleased;
+  }
+
+  // 子类（HLS/DASH）需要先完成自身初始化，再由其构造函数调用loadSources
+  protected get autoLoadSources(): boolean {
+    return true;
+  }
+
   // 私有方法 - 初始化统计信息
   private initializeStats(): VideoStats {
     return {
@@ -110,6 +274,8 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
       this._element.playsInline = this._config.playsinline;
     }
     
+    applyPreservesPitch(this._element, this._rateConfig.preservesPitch);
+    
     if (this._config.width) {
       this._element.width = this._config.width;
     }
@@ -119,6 +285,253 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
     }
   }
 
+  // 私有方法 - 创建文本轨道管理器并激活默认轨道
+  private setupTextTracks(): TextTrackManager {
+    const manager = new TextTrackManager(this._element, {
+      tracks: this._config.textTracks || [],
+      display: this.textTrackDisplay,
+      resolveTrackId: (track) => this.resolveStreamTextTrackId(track),
+      onCueChange: (trackId, cues) => this.handleCueChange(trackId, cues),
+      onLoadError: (trackId, error) => {
+        console.warn(`Failed to load text track '${trackId}':`, error);
+      }
+    });
+    
+    const defaultTrackId = manager.defaultTrackId;
+    if (defaultTrackId) {
+      manager.activate(defaultTrackId);
+      this._activeTextTrackId = defaultTrackId;
+    }
+    
+    return manager;
+  }
+
+  // 私有方法 - 创建章节与提示点管理器
+  private setupTimedMetadata(): TimedMetadataManager {
+    return new TimedMetadataManager(this._element, {
+      chapters: this._config.chapters,
+      cuePoints: this._config.cuePoints,
+      onChapterChange: (from, to) => this.emitTimedMetadataEvent('chapterchange', { from, to }),
+      onCuePoint: (action, cuePoint) => this.emitTimedMetadataEvent('cuepoint', { action, cuePoint }),
+      onLoadError: (kind, error) => {
+        console.warn(`Failed to load ${kind}:`, error);
+      }
+    });
+  }
+
+  // 私有方法 - 发射章节/提示点事件
+  private emitTimedMetadataEvent<T extends 'chapterchange' | 'cuepoint'>(
+    type: T,
+    payload: VideoEventData<T>['payload']
+  ): void {
+    if (this._isDestroyed) return;
+    
+    this.emit(type, {
+      type,
+      timestamp: Date.now(),
+      currentTime: this._element.currentTime,
+      duration: this._element.duration || 0,
+      payload
+    } as VideoEventData<T>);
+  }
+
+  // 受保护方法 - 子类提供流内定时元数据（HLS EXT-X-DATERANGE）
+  protected applyDateRanges(ranges: DateRangeMetadata[]): void {
+    this._timedMetadata?.setDateRanges(ranges);
+  }
+
+  // 私有方法 - 创建自定义事件桥接
+  private setupMediaEvents(): MediaEventBridge {
+    const emitDerived = <T extends 'fullscreenchange' | 'pip' | 'buffering' | 'ready'>(
+      type: T,
+      payload: VideoEventData<T>['payload']
+    ) => {
+      this.emit(type, {
+        type,
+        timestamp: Date.now(),
+        currentTime: this._element.currentTime || 0,
+        duration: this._element.duration || 0,
+        payload
+      } as VideoEventData<T>);
+    };
+    
+    return new MediaEventBridge(this._element, {
+      isActive: () => !this._isDestroyed && !this._mediaReleased,
+      onFullscreenChange: (isFullscreen, element) => emitDerived('fullscreenchange', { isFullscreen, element }),
+      onPiPChange: isPiP => emitDerived('pip', { isPiP }),
+      onBufferingChange: (isBuffering, bufferLevel) => emitDerived('buffering', { isBuffering, bufferLevel }),
+      onReady: () => emitDerived('ready', {
+        duration: this._element.duration || 0,
+        videoWidth: this._element.videoWidth,
+        videoHeight: this._element.videoHeight,
+        live: this.isLive,
+        ...this.getReadyDetails()
+      })
+    });
+  }
+
+  // 受保护方法 - ready事件中的播放方式和质量级别数，子类（HLS/DASH）重写
+  protected getReadyDetails(): Pick<VideoReadyInfo, 'method' | 'levels'> {
+    return { method: 'native', levels: 0 };
+  }
+
+  // 私有方法 - 创建直播控制器
+  private setupLive(): LiveController {
+    return new LiveController(this._element, {
+      config: this._config.live,
+      isLive: () => !this._mediaReleased && this.isLiveSource(),
+      getDefaultTargetLatency: () => this.getDefaultTargetLatency(),
+      onLiveEdgeChange: (atLiveEdge, latency, targetLatency) => {
+        const type = atLiveEdge ? 'liveedge' : 'behindlive';
+        this.emit(type, {
+          type,
+          timestamp: Date.now(),
+          currentTime: this._element.currentTime,
+          duration: this._element.duration || 0,
+          payload: { latency, targetLatency }
+        });
+      }
+    });
+  }
+
+  // 受保护方法 - 直播判定，原生播放直播流时时长为Infinity；子类（HLS）可按清单判定
+  protected isLiveSource(): boolean {
+    return this._element.duration === Infinity;
+  }
+
+  // 受保护方法 - 未配置live.targetLatency时的目标延迟
+  protected getDefaultTargetLatency(): number | null {
+    return null;
+  }
+
+  // 私有方法 - 创建原生EME控制器
+  private setupEME(config: DRMConfig): EMEController {
+    return new EMEController(this._element, {
+      config,
+      isEnabled: () => this.usesNativeEME(),
+      onError: (error) => this.handleFatalError(error)
+    });
+  }
+
+  // 受保护方法 - 是否由原生EME处理encrypted事件；子类（hls.js drmSystems）可自行处理
+  protected usesNativeEME(): boolean {
+    return true;
+  }
+
+  // 受保护方法 - 致命错误（密钥系统、流媒体管线放弃恢复）：计入统计，
+  // 与媒体错误一样在有备用源时降级并切换，否则进入error状态
+  protected handleFatalError(videoError: VideoError, reason: SourceChangeReason = 'error'): void {
+    if (this._isDestroyed) return;
+
+    const eventData: VideoEventData<'error'> = {
+      type: 'error',
+      timestamp: Date.now(),
+      currentTime: this._element.currentTime,
+      duration: this._element.duration || 0,
+      payload: videoError
+    };
+
+    this.updateStats('error');
+    if (this.hasNextSource()) {
+      videoError.fatal = false;
+      this.emit('error', eventData);
+      this.switchToNextSource(reason, videoError);
+      return;
+    }
+
+    this.updateState('error');
+    this.emit('error', eventData);
+  }
+
+  // 私有方法 - 加载缩略图索引，完成后预加载已缓冲部分
+  private setupThumbnails(config: NonNullable<VideoConfig['thumbnails']>): ThumbnailTrack {
+    const track = new ThumbnailTrack(config, {
+      onError: (error) => {
+        console.warn('Failed to load thumbnails:', error);
+      }
+    });
+    
+    track.ready.then(() => {
+      if (!this._isDestroyed) {
+        track.preload(this._element.buffered);
+      }
+    });
+    
+    return track;
+  }
+
+  // 私有方法 - 仅转发当前激活轨道的cue
+  private handleCueChange(trackId: string, cues: VideoTextCue[]): void {
+    if (this._isDestroyed || trackId !== this._activeTextTrackId) return;
+    
+    this.emit('cuechange', {
+      type: 'cuechange',
+      timestamp: Date.now(),
+      currentTime: this._element.currentTime,
+      duration: this._element.duration || 0,
+      payload: { trackId, cues }
+    });
+  }
+
+  // 私有方法 - 获取原生音轨列表
+  private getNativeAudioTrackList(): NativeAudioTrackList | null {
+    const list = (this._element as any).audioTracks as NativeAudioTrackList | undefined;
+    return list && typeof list.addEventListener === 'function' ? list : null;
+  }
+
+  // 私有方法 - 监听原生音轨变化并在元数据就绪后应用首选语言
+  private bindAudioTrackEvents(): void {
+    this.listen(this._element, 'loadedmetadata', () => {
+      if (this._isDestroyed) return;
+      
+      const tracks = this.getAudioTracks();
+      this._activeAudioTrackId = tracks.find(track => track.active)?.id ?? null;
+      this.applyPreferredAudioTrack(tracks);
+    });
+    
+    const audioTracks = this.getNativeAudioTrackList();
+    if (audioTracks) {
+      this.listen(audioTracks, 'change', () => {
+        if (this._isDestroyed) return;
+        
+        const active = this.getAudioTracks().find(track => track.active)?.id ?? null;
+        this.emitAudioTrackChange(active);
+      });
+    }
+  }
+
+  // 私有方法 - 绑定DOM监听器并记录以便销毁时移除
+  private listen(target: EventTarget, type: string, listener: EventListener): void {
+    target.addEventListener(type, listener);
+    this._domListeners.push({ target, type, listener });
+  }
+
+  // 受保护方法 - 按首选语言选择音轨
+  protected applyPreferredAudioTrack(tracks: VideoAudioTrack[]): void {
+    const preferred = this._config.preferredLanguage;
+    if (!preferred || tracks.length < 2) return;
+    
+    const index = findPreferredLanguageIndex(tracks.map(track => track.language), preferred);
+    if (index !== -1 && !tracks[index].active) {
+      this.setAudioTrack(tracks[index].id);
+    }
+  }
+
+  // 受保护方法 - 激活音轨变化时发射切换事件
+  protected emitAudioTrackChange(to: string | null): void {
+    const from = this._activeAudioTrackId;
+    if (from === to) return;
+    this._activeAudioTrackId = to;
+    
+    this.emit('audiotrackchange', {
+      type: 'audiotrackchange',
+      timestamp: Date.now(),
+      currentTime: this._element.currentTime,
+      duration: this._element.duration || 0,
+      payload: { from, to, tracks: this.getAudioTracks() }
+    });
+  }
+
   // 私有方法 - 绑定视频事件
   private bindVideoEvents(): void {
     const eventMap: Record<string, VideoEventType> = {
@@ -148,7 +561,7 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
 
     // 绑定所有HTML5视频事件
     Object.entries(eventMap).forEach(([domEvent, videoEvent]) => {
-      this._element.addEventListener(domEvent, (e) => {
+      this.listen(this._element, domEvent, (e) => {
         this.handleVideoEvent(videoEvent, e);
       });
     });
@@ -156,7 +569,19 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
 
   // 私有方法 - 处理视频事件
   private handleVideoEvent(eventType: VideoEventType, domEvent: Event): void {
-    if (this._isDestroyed) return;
+    // 让渡期间元素上的事件属于广告媒体
+    if (this._isDestroyed || this._mediaReleased) return;
+
+    // 致命错误且还有备用源时，降级为非致命错误并切换源
+    if (eventType === 'error' && this.hasNextSource()) {
+      const errorData = this.createEventData(eventType, domEvent) as VideoEventData<'error'>;
+      errorData.payload.fatal = false;
+      this.updateStats(eventType);
+      this.emit(eventType, errorData);
+      this._mediaEvents.handleMediaEvent(eventType);
+      this.switchToNextSource('error', errorData.payload);
+      return;
+    }
 
     // 更新状态
     this.updateState(eventType);
@@ -167,11 +592,23 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
     // 更新统计信息
     this.updateStats(eventType);
     
+    if (eventType === 'progress') {
+      this._thumbnails?.preload(this._element.buffered);
+    }
+    
+    // 直播追赶延迟和同步组微调时的速度不是用户偏好
+    if (eventType === 'ratechange' && this._rateConfig.storageKey && this._live.catchUpRate === null && this._syncRate === null) {
+      savePlaybackRatePreference(this._rateConfig.storageKey, this._element.playbackRate);
+    }
+    
     // 创建事件数据
     const eventData = this.createEventData(eventType, domEvent);
     
     // 发射事件
     this.emit(eventType, eventData);
+    
+    // 派生事件在原生事件之后发射
+    this._mediaEvents.handleMediaEvent(eventType);
   }
 
   // 私有方法 - 更新状态
@@ -238,12 +675,21 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
           this._stats.pauseTime += now - this._pauseStartTime;
           this._pauseStartTime = 0;
         }
+        this.sampleBitrate(now, true);
+        break;
+      case 'timeupdate':
+        if (this._bitrateSample) this.sampleBitrate(now, true);
         break;
       case 'pause':
         if (this._playStartTime > 0) {
           this._stats.playTime += now - this._playStartTime;
           this._playStartTime = 0;
         }
+        this.sampleBitrate(now, false);
+        break;
+      case 'seeking':
+      case 'ended':
+        this.sampleBitrate(now, false);
         break;
       case 'seeked':
         this._stats.seekCount++;
@@ -253,10 +699,22 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
         break;
       case 'waiting':
         this._stats.bufferEvents++;
+        this.sampleBitrate(now, false);
         break;
     }
   }
 
+  // 私有方法 - 累计上一次采样以来的码率权重，停止播放（暂停、缓冲、跳转）期间不计
+  private sampleBitrate(now: number, playing: boolean): void {
+    const sample = this._bitrateSample;
+    if (sample && sample.bitrate > 0 && now > sample.time) {
+      this._weightedBitrate += sample.bitrate * (now - sample.time);
+      this._bitrateTime += now - sample.time;
+      this._stats.averageBitrate = Math.round(this._weightedBitrate / this._bitrateTime);
+    }
+    this._bitrateSample = playing ? { time: now, bitrate: this.getCurrentBitrate() } : null;
+  }
+
   // 私有方法 - 创建事件数据
   private createEventData(eventType: VideoEventType, domEvent: Event): VideoEventData<any> {
     const baseData = {
@@ -268,15 +726,11 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
 
     switch (eventType) {
       case 'error':
-        const error = this._element.error;
-        const videoError: VideoError = {
-          type: this.getErrorType(error?.code || 0),
-          code: error?.code || 0,
-          message: error?.message || 'Unknown error',
-          timestamp: Date.now(),
-          fatal: true,
+        const videoError = normalizeVideoError({
+          source: 'media',
+          error: this._element.error,
           details: { domEvent }
-        };
+        });
         return { ...baseData, payload: videoError };
         
       case 'volumechange':
@@ -292,7 +746,8 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
         return {
           ...baseData,
           payload: {
-            rate: this._element.playbackRate as PlaybackRate
+            rate: this._element.playbackRate,
+            preservesPitch: this._element.preservesPitch ?? this._rateConfig.preservesPitch
           }
         };
         
@@ -319,17 +774,6 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
     }
   }
 
-  // 私有方法 - 获取错误类型
-  private getErrorType(code: number): VideoErrorType {
-    switch (code) {
-      case 1: return 'unknown';
-      case 2: return 'network';
-      case 3: return 'decode';
-      case 4: return 'src_not_supported';
-      default: return 'unknown';
-    }
-  }
-
   // 私有方法 - 设置性能监控
   private setupPerformanceMonitoring(): void {
     if ('PerformanceObserver' in window) {
@@ -363,8 +807,11 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
       this.setVolume(this._config.volume);
     }
     
-    if (this._config.playbackRate !== undefined) {
-      this.setPlaybackRate(this._config.playbackRate);
+    // 持久化的用户偏好优先于配置默认值
+    const { storageKey } = this._rateConfig;
+    const playbackRate = (storageKey ? loadPlaybackRatePreference(storageKey) : null) ?? this._config.playbackRate;
+    if (playbackRate !== undefined) {
+      this.setPlaybackRate(playbackRate);
     }
     
     if (this._config.currentTime !== undefined) {
@@ -372,42 +819,279 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
     }
     
     // 设置视频源
-    if (this._config.sources.length > 0) {
+    if (this._config.sources.length > 0 && this.autoLoadSources) {
       this.loadSources();
     }
   }
 
-  // 私有方法 - 加载视频源
-  private loadSources(): void {
-    // 清除现有源
-    while (this._element.firstChild) {
-      this._element.removeChild(this._element.firstChild);
+  // 受保护方法 - 构建回退队列并加载第一个源
+  protected loadSources(): void {
+    this._mediaEvents.resetReady();
+    this._sourceQueue = this.buildSourceQueue(this._config.sources);
+    this._sourceIndex = this._sourceQueue.length > 0 ? 0 : -1;
+    this.reportSkippedSources(this._sourceQueue);
+    
+    if (this.currentSource) {
+      this.loadSource(this.currentSource);
     }
+  }
+
+  // 私有方法 - 按优先级排序，相同优先级保持配置顺序
+  private orderSources(sources: VideoSource[]): VideoSource[] {
+    return sources
+      .map((source, index) => ({ source, index }))
+      .sort((a, b) => (b.source.priority ?? 0) - (a.source.priority ?? 0) || a.index - b.index)
+      .map(({ source }) => source);
+  }
+
+  // 私有方法 - 按优先级排序并过滤无法播放的源
+  private buildSourceQueue(sources: VideoSource[]): VideoSource[] {
+    const ordered = this.orderSources(sources);
+    const playable = ordered.filter(source => this.canPlaySource(source));
     
-    // 添加新源
-    this._config.sources.forEach(source => {
-      const sourceElement = document.createElement('source');
-      sourceElement.src = source.src;
-      sourceElement.type = `video/${source.type}`;
-      
-      if (source.quality) {
-        sourceElement.setAttribute('data-quality', source.quality);
-      }
+    // canPlayType在缺少codecs信息时可能过于保守，全部被过滤时交给浏览器尝试
+    return playable.length > 0 ? playable : ordered;
+  }
+
+  // 私有方法 - 为被过滤的源发射reason为'unsupported'的sourcechange（指向其后第一个可播放的源），
+  // 使每次跳过都可统计；构造期间监听器尚未注册，推迟到微任务中发射
+  private reportSkippedSources(queue: VideoSource[]): void {
+    const ordered = this.orderSources(this._config.sources);
+    const hops: Array<{ from: VideoSource; to: VideoSource; index: number }> = [];
+    
+    ordered.forEach((source, position) => {
+      if (queue.includes(source)) return;
+      const to = ordered.slice(position + 1).find(next => queue.includes(next));
+      if (to) hops.push({ from: source, to, index: queue.indexOf(to) });
+    });
+    if (hops.length === 0) return;
+    
+    queueMicrotask(() => {
+      if (this._isDestroyed || this._sourceQueue !== queue) return;
       
-      if (source.label) {
-        sourceElement.setAttribute('data-label', source.label);
+      for (const { from, to, index } of hops) {
+        this.emit('sourcechange', {
+          type: 'sourcechange',
+          timestamp: Date.now(),
+          currentTime: this._element.currentTime || 0,
+          duration: this._element.duration || 0,
+          payload: { from, to, reason: 'unsupported', index }
+        });
       }
-      
-      this._element.appendChild(sourceElement);
     });
+  }
+
+  // 受保护方法 - 检查源是否可播放，子类可扩展对HLS/DASH的支持
+  protected canPlaySource(source: VideoSource): boolean {
+    return this._element.canPlayType(getSourceMimeType(source)) !== '';
+  }
+
+  // 受保护方法 - 加载单个视频源，子类可重写以接管特定格式
+  protected loadSource(source: VideoSource): void {
+    // 清除现有源（保留<track>字幕元素）
+    this._element.querySelectorAll('source').forEach(sourceElement => sourceElement.remove());
+    
+    this._element.src = source.src;
     
     // 重新加载视频
     this._element.load();
   }
 
+  // 受保护方法 - 是否还有可回退的源
+  protected hasNextSource(): boolean {
+    return this._sourceIndex + 1 < this._sourceQueue.length;
+  }
+
+  // 受保护方法 - 切换到下一个源，保持播放位置和播放状态
+  protected switchToNextSource(reason: SourceChangeReason, error?: VideoError): boolean {
+    if (this._isDestroyed || !this.hasNextSource()) return false;
+    
+    const from = this.currentSource;
+    const resumeTime = this._element.currentTime || 0;
+    const shouldResume = !this._element.paused;
+    
+    this._sourceIndex++;
+    const to = this._sourceQueue[this._sourceIndex];
+    
+    this.emit('sourcechange', {
+      type: 'sourcechange',
+      timestamp: Date.now(),
+      currentTime: resumeTime,
+      duration: this._element.duration || 0,
+      payload: { from, to, reason, index: this._sourceIndex, error }
+    });
+    
+    this._state = 'loading';
+    this._mediaEvents.resetReady();
+    this.loadSource(to);
+    this.restorePlayback(resumeTime, shouldResume);
+    return true;
+  }
+
+  // 受保护方法 - 让渡媒体元素时释放流媒体管线，子类（HLS/DASH）重写
+  protected detachSource(): void {
+    // 基础实现直接使用元素src，由接管方替换
+  }
+
+  // 私有方法 - 新源元数据就绪后恢复播放位置和状态
+  private restorePlayback(time: number, shouldResume: boolean, onRestored?: () => void): void {
+    this.clearPendingRestore();
+    
+    const restore = () => {
+      this._pendingRestore = null;
+      if (time > 0) {
+        this.seek(time);
+      }
+      onRestored?.();
+      if (shouldResume) {
+        this._element.play().catch(() => {
+          // 自动播放策略可能阻止恢复播放，交由用户重新触发
+        });
+      }
+    };
+    
+    this._pendingRestore = restore;
+    this._element.addEventListener('loadedmetadata', restore, { once: true });
+  }
+
+  private clearPendingRestore(): void {
+    if (this._pendingRestore) {
+      this._element.removeEventListener('loadedmetadata', this._pendingRestore);
+      this._pendingRestore = null;
+    }
+  }
+
+  /**
+   * 将媒体元素让渡给其他模块（如插播广告）：
+   * 保存进度并暂停内容侧的进度跟踪、提示点和字幕，释放流媒体管线，
+   * 之后元素上的媒体事件不再作为内容事件发射；resumeOnPlay时再次play()会自动收回
+   */
+  releaseMedia(options: MediaReleaseOptions = {}): void {
+    if (this._isDestroyed || this._mediaReleased) return;
+    
+    this.clearPendingRestore();
+    this._element.pause();
+    this._restoreOnPlayTime = options.resumeOnPlay ? this._element.currentTime : null;
+    
+    this._resume?.save();
+    this._resume?.setSuspended(true);
+    this._timedMetadata?.setSuspended(true);
+    
+    const activeTextTrackId = this._activeTextTrackId;
+    this._releasedTextTrackId = activeTextTrackId !== null && this._textTracks.hasTrack(activeTextTrackId)
+      ? activeTextTrackId
+      : null;
+    if (this._releasedTextTrackId) {
+      this._textTracks.activate(null);
+    }
+    
+    this._mediaReleased = true;
+    this.detachSource();
+  }
+
+  /**
+   * 收回媒体元素：重新加载当前源并恢复到指定位置
+   */
+  restoreMedia(time: number, resume: boolean): void {
+    if (this._isDestroyed || !this._mediaReleased) return;
+    
+    this._mediaReleased = false;
+    this._restoreOnPlayTime = null;
+    
+    if (this._releasedTextTrackId) {
+      this._textTracks.activate(this._releasedTextTrackId);
+      this._releasedTextTrackId = null;
+    }
+    
+    const resumeManagers = () => {
+      this._resume?.setSuspended(false);
+      this._timedMetadata?.setSuspended(false);
+    };
+    
+    const source = this.currentSource;
+    if (!source) {
+      resumeManagers();
+      return;
+    }
+    
+    this._state = 'loading';
+    this.loadSource(source);
+    this.restorePlayback(time, resume, resumeManagers);
+  }
+
+  /**
+   * 运行时更新配置：属性直接作用于媒体元素，源变化时重建回退队列并重新加载；
+   * 媒体已让渡时只更新队列，收回时加载新源
+   */
+  updateConfig(changes: RuntimeConfigUpdate): void {
+    if (this._isDestroyed) return;
+    
+    this._config = { ...this._config, ...changes };
+    
+    for (const key of Object.keys(changes) as (keyof RuntimeConfigUpdate)[]) {
+      switch (key) {
+        case 'poster':
+          this._element.poster = changes.poster ?? '';
+          break;
+        case 'autoplay':
+          this._element.autoplay = changes.autoplay ?? false;
+          break;
+        case 'loop':
+          this._element.loop = changes.loop ?? false;
+          break;
+        case 'muted':
+          this._element.muted = changes.muted ?? false;
+          break;
+        case 'controls':
+          this._element.controls = changes.controls ?? true;
+          break;
+        case 'preload':
+          this._element.preload = changes.preload ?? 'metadata';
+          break;
+        case 'playsinline':
+          this._element.playsInline = changes.playsinline ?? false;
+          break;
+        case 'width':
+        case 'height': {
+          const size = changes[key];
+          if (size) {
+            this._element[key] = size;
+          } else {
+            this._element.removeAttribute(key);
+          }
+          break;
+        }
+        case 'volume':
+          if (changes.volume !== undefined) this.setVolume(changes.volume);
+          break;
+        case 'playbackRate':
+          if (changes.playbackRate !== undefined) this.setPlaybackRate(changes.playbackRate);
+          break;
+      }
+    }
+    
+    if (changes.sources) {
+      this.reloadSources();
+    }
+  }
+
+  // 私有方法 - 切换到新的源列表
+  private reloadSources(): void {
+    this.clearPendingRestore();
+    
+    if (this._mediaReleased) {
+      this._sourceQueue = this.buildSourceQueue(this._config.sources);
+      this._sourceIndex = this._sourceQueue.length > 0 ? 0 : -1;
+      return;
+    }
+    
+    this._state = 'loading';
+    this.loadSources();
+  }
+
   // 实现IVideoPlayer接口的事件方法
-  on<T extends VideoEventType>(event: T, listener: VideoEventListener<T>): void {
-    this._eventEmitter.onVideoEvent(event, listener);
+  on<T extends VideoEventType>(event: T, listener: VideoEventListener<T>, options?: VideoEventListenerOptions): void {
+    this._eventEmitter.onVideoEvent(event, listener, options);
   }
 
   off<T extends VideoEventType>(event: T, listener: VideoEventListener<T>): void {
@@ -418,20 +1102,45 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
     this._eventEmitter.emitVideoEvent(event, data);
   }
 
+  emitAsync<T extends VideoEventType>(event: T, data: VideoEventData<T>, mode?: VideoEmitMode): Promise<boolean> {
+    return this._eventEmitter.emitVideoEventAsync(event, data, mode);
+  }
+
+  /**
+   * 安装插件；同名插件重复安装时抛出错误
+   */
+  use<TName extends string, TMethods extends VideoPluginMethods = {}>(
+    plugin: VideoPlugin<TName, TMethods>
+  ): this & VideoPluginNamespace<TName, TMethods> {
+    this._plugins.use(plugin);
+    return this as this & VideoPluginNamespace<TName, TMethods>;
+  }
+
+  /**
+   * 卸载插件
+   */
+  unuse(name: string): boolean {
+    return this._plugins.remove(name);
+  }
+
   // 公共方法 - 实现IVideoPlayer接口
 
   async play(): Promise<void> {
+    // 插件可否决播放
+    const allowed = this._plugins.runBeforePlay();
+    if (allowed !== true && !(await allowed)) return;
+    
+    // 被资源预算回收的播放器：重新加载源并在元数据就绪后从原位置继续播放
+    if (this._mediaReleased && this._restoreOnPlayTime !== null) {
+      this.restoreMedia(this._restoreOnPlayTime, true);
+      return;
+    }
+    
     try {
       await this._element.play();
     } catch (error) {
-      const videoError: VideoError = {
-        type: 'unknown',
-        code: 0,
-        message: error instanceof Error ? error.message : 'Play failed',
-        timestamp: Date.now(),
-        fatal: false,
-        details: { error }
-      };
+      // 自动播放拦截（NotAllowedError）与被pause()/load()打断（AbortError）分别归类
+      const videoError = normalizeVideoError({ source: 'play', error, fatal: false, details: { error } });
       
       this.emit('error', {
         type: 'error',
@@ -455,6 +1164,8 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
   }
 
   seek(time: number): void {
+    if (this._mediaReleased || !this._plugins.runBeforeSeek(time)) return;
+    
     if (time >= 0 && time <= (this._element.duration || 0)) {
       this._element.currentTime = time;
     }
@@ -477,12 +1188,41 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
     this._element.muted = !this._element.muted;
   }
 
+  // 超出范围或不在步进上的速度会被规范化而不是抛出异常
   setPlaybackRate(rate: PlaybackRate): void {
-    this._element.playbackRate = rate;
+    this._syncRate = null;
+    this._element.playbackRate = clampPlaybackRate(rate, this._rateConfig);
+  }
+
+  // 同步组校正偏差的临时速度：不受速度配置约束也不持久化，null恢复到调整前的速度
+  setSyncPlaybackRate(rate: PlaybackRate | null): void {
+    if (rate === null) {
+      if (!this._syncRate) return;
+      const { previousRate } = this._syncRate;
+      this._syncRate = null;
+      this._element.playbackRate = previousRate;
+      return;
+    }
+
+    this._syncRate = { rate, previousRate: this._syncRate?.previousRate ?? this._element.playbackRate };
+    if (this._element.playbackRate !== rate) {
+      this._element.playbackRate = rate;
+    }
+  }
+
+  getPlaybackRates(): PlaybackRate[] {
+    return [...this._rateConfig.presets];
+  }
+
+  getPlaybackRateConfig(): ResolvedPlaybackRateConfig {
+    return { ...this._rateConfig, presets: [...this._rateConfig.presets] };
   }
 
   setQuality(quality: VideoQuality): void {
     // 基础实现 - 子类可以重写以支持自适应质量
+    const from = this._currentQuality;
+    if (from === quality) return;
+    
     this._currentQuality = quality;
     
     this.emit('qualitychange', {
@@ -490,9 +1230,19 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
       timestamp: Date.now(),
       currentTime: this._element.currentTime,
       duration: this._element.duration || 0,
-      payload: { from: this._currentQuality, to: quality }
+      payload: { from, to: quality }
     });
     
+    this.recordQualityChange();
+  }
+
+  // 受保护方法 - 正在播放的码率（bps），原生播放无法获知时为0；子类（HLS/DASH）按当前级别重写
+  protected getCurrentBitrate(): number {
+    return 0;
+  }
+
+  // 受保护方法 - 手动切换质量后计入统计，子类（HLS/DASH）重写setQuality时调用
+  protected recordQualityChange(): void {
     this._stats.qualityChanges++;
   }
 
@@ -501,6 +1251,148 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
     return this._config.qualities || ['auto'];
   }
 
+  getTextTracks(): VideoTextTrack[] {
+    const streamTracks = this.getStreamTextTracks().map(track => ({
+      ...track,
+      active: track.id === this._activeTextTrackId
+    }));
+    
+    return [...this._textTracks.getTracks(), ...streamTracks];
+  }
+
+  setTextTrack(id: string | null): void {
+    if (id !== null && !this.getTextTracks().some(track => track.id === id)) {
+      console.warn(`Text track '${id}' does not exist`);
+      return;
+    }
+    
+    const from = this._activeTextTrackId;
+    const isConfigTrack = id !== null && this._textTracks.hasTrack(id);
+    
+    this._textTracks.activate(isConfigTrack ? id : null);
+    this.selectStreamTextTrack(isConfigTrack ? null : id);
+    this._activeTextTrackId = id;
+    
+    if (from !== id) {
+      this.emitTextTrackChange(from);
+    }
+  }
+
+  setTextTrackStyle(style: TextTrackStyle): void {
+    this._textTracks.setStyle(style);
+  }
+
+  getTextTrackStyle(): TextTrackStyle {
+    return this._textTracks.getStyle();
+  }
+
+  // 字幕渲染方式
+  protected get textTrackDisplay(): 'native' | 'custom' {
+    return this._config.textTrackDisplay || 'native';
+  }
+
+  // 受保护方法 - 流内字幕（如HLS字幕轨道），由子类提供
+  protected getStreamTextTracks(): VideoTextTrack[] {
+    return [];
+  }
+
+  // 受保护方法 - 切换流内字幕，null表示关闭
+  protected selectStreamTextTrack(id: string | null): void {
+    // 基础实现没有流内字幕
+  }
+
+  // 受保护方法 - 将元素上的TextTrack解析为流内字幕ID
+  protected resolveStreamTextTrackId(track: TextTrack): string | null {
+    return null;
+  }
+
+  // 受保护方法 - 流内字幕列表变化时由子类调用
+  protected notifyTextTracksChanged(): void {
+    this.emitTextTrackChange(this._activeTextTrackId);
+  }
+
+  // 私有方法 - 发射字幕切换事件
+  private emitTextTrackChange(from: string | null): void {
+    this.emit('texttrackchange', {
+      type: 'texttrackchange',
+      timestamp: Date.now(),
+      currentTime: this._element.currentTime,
+      duration: this._element.duration || 0,
+      payload: { from, to: this._activeTextTrackId, tracks: this.getTextTracks() }
+    });
+  }
+
+  getLiveLatency(): number | null {
+    return this._live.getLatency();
+  }
+
+  getLiveWindow(): VideoLiveWindow | null {
+    return this._live.getWindow();
+  }
+
+  seekToLiveEdge(): void {
+    this._live.seekToLiveEdge();
+  }
+
+  getChapters(): VideoChapter[] {
+    return this._timedMetadata?.getChapters() ?? [];
+  }
+
+  getCuePoints(): VideoCuePoint[] {
+    return this._timedMetadata?.getCuePoints() ?? [];
+  }
+
+  // 按章节ID或下标跳转
+  seekToChapter(id: string | number): void {
+    const chapters = this.getChapters();
+    const chapter = typeof id === 'number' ? chapters[id] : chapters.find(item => item.id === id);
+    
+    if (!chapter) {
+      console.warn(`Chapter '${id}' does not exist`);
+      return;
+    }
+    
+    this.seek(chapter.startTime);
+  }
+
+  getThumbnailAt(time: number): VideoThumbnail | null {
+    return this._thumbnails?.getThumbnailAt(time) ?? null;
+  }
+
+  getAudioTracks(): VideoAudioTrack[] {
+    const list = this.getNativeAudioTrackList();
+    if (!list) return [];
+    
+    const tracks: VideoAudioTrack[] = [];
+    for (let i = 0; i < list.length; i++) {
+      const track = list[i];
+      tracks.push({
+        id: track.id || `audio-${i}`,
+        label: track.label || track.language || `audio-${i}`,
+        language: track.language || '',
+        kind: track.kind || 'main',
+        active: track.enabled
+      });
+    }
+    return tracks;
+  }
+
+  setAudioTrack(id: string): void {
+    const list = this.getNativeAudioTrackList();
+    const tracks = this.getAudioTracks();
+    const index = tracks.findIndex(track => track.id === id);
+    
+    if (!list || index === -1) {
+      console.warn(`Audio track '${id}' does not exist`);
+      return;
+    }
+    
+    // 原生音轨列表在enabled变化时会触发change事件
+    for (let i = 0; i < list.length; i++) {
+      list[i].enabled = i === index;
+    }
+  }
+
   async enterFullscreen(): Promise<void> {
     if (this._element.requestFullscreen) {
       await this._element.requestFullscreen();
@@ -547,6 +1439,27 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
     
     this._isDestroyed = true;
     
+    // 插件可能在destroy钩子中读取播放器状态，最先卸载
+    this._plugins.destroy();
+    
+    // 需要在清空src前保存最终进度
+    this._resume?.destroy();
+    this._hotkeys?.destroy();
+    this._thumbnails?.destroy();
+    this._timedMetadata?.destroy();
+    this._live.destroy();
+    this._mediaEvents.destroy();
+    this._eme?.destroy();
+    
+    this.clearPendingRestore();
+    
+    this._textTracks.destroy();
+    
+    for (const { target, type, listener } of this._domListeners) {
+      target.removeEventListener(type, listener);
+    }
+    this._domListeners = [];
+    
     // 停止性能监控
     if (this._performanceObserver) {
       this._performanceObserver.disconnect();
@@ -562,6 +1475,31 @@ export class HTML5VideoAPI<TConfig extends VideoConfig = VideoConfig>
   }
 }
 
+// 源格式到MIME类型的映射
+const SOURCE_MIME_TYPES: Record<VideoSource['type'], string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  ogg: 'video/ogg',
+  hls: 'application/vnd.apple.mpegurl',
+  dash: 'application/dash+xml'
+};
+
+export const getSourceMimeType = (source: VideoSource): string => {
+  return SOURCE_MIME_TYPES[source.type];
+};
+
+// 语言匹配 - 先完全匹配，再按主语言子标签匹配（'en' 匹配 'en-US'）
+export const findPreferredLanguageIndex = (languages: string[], preferred: string): number => {
+  const normalized = languages.map(language => language.toLowerCase());
+  const target = preferred.toLowerCase();
+  
+  const exact = normalized.indexOf(target);
+  if (exact !== -1) return exact;
+  
+  const primary = target.split('-')[0];
+  return normalized.findIndex(language => language.split('-')[0] === primary);
+};
+
 // 工厂函数
 export const createHTML5VideoAPI = <T extends VideoConfig>(
   element: HTMLVideoElement,
@@ -5,15 +5,24 @@ import type {
   VideoFormat,
   VideoQuality,
   HLSVideoConfig,
+  DASHVideoConfig,
   IVideoPlayer,
   VideoPlayerFromConfig,
   RequiresExternalLib,
   VideoSource,
-  HLSConfig
+  HLSConfig,
+  DASHConfig,
+  VideoPlugin,
+  VideoPluginMethods
 } from './types';
 
 import { HTML5VideoAPI } from './VideoAPI';
 import { HLSPlayer, detectHLSSupport } from './HLSPlayer';
+import { DASHPlayer, detectDASHSupport } from './DASHPlayer';
+import { PlayerCoordinator } from './PlayerCoordinator';
+import type { PlayerCoordinationPolicy, PlayerSyncGroup, PlayerSyncGroupOptions } from './PlayerCoordinator';
+import { ResourceBudgetManager } from './ResourceBudget';
+import type { ResourceBudgetConfig, ResourceSnapshot } from './ResourceBudget';
 
 // 泛型约束 - 确保配置有效
 type ValidVideoConfig<T extends VideoConfig> = T extends VideoConfig
@@ -36,13 +45,21 @@ type PlayerTypeFromSources<T extends VideoSource[]> =
 interface PlayerConstructorMap {
   html5: typeof HTML5VideoAPI;
   hls: typeof HLSPlayer;
-  dash: never; // 暂未实现DASH
+  dash: typeof DASHPlayer;
 }
 
 // 播放器工厂类
 export class VideoPlayerFactory {
   private static instance: VideoPlayerFactory;
   private playerRegistry = new Map<string, IVideoPlayer>();
+  private coordinator = new PlayerCoordinator();
+  // 全局插件，安装到之后创建的每个播放器
+  private globalPlugins: VideoPlugin<string, VideoPluginMethods>[] = [];
+  private resources = new ResourceBudgetManager({
+    evict: player => {
+      this.unregisterPlayer(player);
+    }
+  });
 
   private constructor() {}
 
@@ -68,11 +85,7 @@ export class VideoPlayerFactory {
     const playerType = this.determinePlayerType(config.sources);
     
     // 创建播放器实例
-    const player = this.createPlayerInstance(element, config, playerType);
-    
-    // 注册播放器
-    const playerId = this.generatePlayerId();
-    this.playerRegistry.set(playerId, player);
+    const player = this.registerPlayer(this.createPlayerInstance(element, config, playerType));
     
     return player as unknown as VideoPlayerFromConfig<T>;
   }
@@ -85,7 +98,7 @@ export class VideoPlayerFactory {
     config: ValidVideoConfig<T>
   ): HTML5VideoAPI<T> {
     this.validateConfig(config);
-    return new HTML5VideoAPI(element, config);
+    return this.registerPlayer(new HTML5VideoAPI(element, config));
   }
 
   /**
@@ -96,7 +109,18 @@ export class VideoPlayerFactory {
     config: ValidVideoConfig<HLSVideoConfig<T>>
   ): HLSPlayer<T> {
     this.validateHLSConfig(config);
-    return new HLSPlayer(element, config);
+    return this.registerPlayer(new HLSPlayer(element, config));
+  }
+
+  /**
+   * 创建DASH播放器 - 类型约束确保DASH源
+   */
+  createDASHPlayer<T extends Record<string, any> = Record<string, any>>(
+    element: HTMLVideoElement,
+    config: ValidVideoConfig<DASHVideoConfig<T>>
+  ): DASHPlayer<T> {
+    this.validateDASHConfig(config);
+    return this.registerPlayer(new DASHPlayer(element, config));
   }
 
   /**
@@ -120,6 +144,18 @@ export class VideoPlayerFactory {
       return this.createHLSPlayer(element, hlsConfig as any) as unknown as VideoPlayerFromConfig<T>;
     }
     
+    const hasDASH = config.sources.some(source => source.type === 'dash');
+    
+    if (hasDASH) {
+      const dashSupport = detectDASHSupport();
+      
+      if (!dashSupport.supported) {
+        throw new Error('DASH playback not supported in this environment');
+      }
+      
+      return this.createDASHPlayer(element, config as any) as unknown as VideoPlayerFromConfig<T>;
+    }
+    
     return this.createHTML5Player(element, config) as unknown as VideoPlayerFromConfig<T>;
   }
 
@@ -190,6 +226,18 @@ export class VideoPlayerFactory {
     }
   }
 
+  // 私有方法 - 验证DASH配置
+  private validateDASHConfig<T extends Record<string, any>>(
+    config: DASHVideoConfig<T>
+  ): asserts config is ValidVideoConfig<DASHVideoConfig<T>> {
+    this.validateConfig(config);
+    
+    const hasDASHSource = config.sources.some(source => source.type === 'dash');
+    if (!hasDASHSource) {
+      throw new Error('DASH configuration requires at least one DASH source');
+    }
+  }
+
   // 私有方法 - 确保HLS配置存在
   private ensureHLSConfig<T extends VideoConfig>(config: T): HLSVideoConfig {
     if (this.isHLSConfig(config)) {
@@ -213,8 +261,10 @@ export class VideoPlayerFactory {
            config.sources.some(source => source.type === 'hls');
   }
 
-  // 私有方法 - 确定播放器类型
-  private determinePlayerType(sources: VideoSource[]): keyof PlayerConstructorMap {
+  /**
+   * 确定源列表对应的播放器类型（源类型变化导致类型不同时需要重建播放器）
+   */
+  determinePlayerType(sources: VideoSource[]): keyof PlayerConstructorMap {
     // 优先级：HLS > DASH > HTML5
     if (sources.some(source => source.type === 'hls')) {
       return 'hls';
@@ -244,7 +294,7 @@ export class VideoPlayerFactory {
         return new HLSPlayer(element, config as HLSVideoConfig) as unknown as IVideoPlayer<T>;
       
       case 'dash':
-        throw new Error('DASH player not implemented yet');
+        return new DASHPlayer(element, config as DASHVideoConfig) as unknown as IVideoPlayer<T>;
       
       default:
         throw new Error(`Unknown player type: ${playerType}`);
@@ -281,22 +331,99 @@ export class VideoPlayerFactory {
   unregister(id: string): boolean {
     const player = this.playerRegistry.get(id);
     if (player) {
+      this.coordinator.remove(player);
+      this.resources.remove(player);
       player.destroy();
       return this.playerRegistry.delete(id);
     }
     return false;
   }
 
+  /**
+   * 按实例注销播放器
+   */
+  unregisterPlayer(player: IVideoPlayer): boolean {
+    const id = this.findPlayerId(player);
+    return id ? this.unregister(id) : false;
+  }
+
   /**
    * 销毁所有播放器
    */
   destroyAll(): void {
+    this.coordinator.clear();
+    for (const player of this.playerRegistry.values()) {
+      this.resources.remove(player);
+    }
+    
     for (const player of this.playerRegistry.values()) {
       player.destroy();
     }
     this.playerRegistry.clear();
   }
 
+  /**
+   * 注册全局插件，之后创建的播放器都会安装；同名插件会被替换
+   */
+  registerPlugin<TName extends string, TMethods extends VideoPluginMethods>(plugin: VideoPlugin<TName, TMethods>): void {
+    this.unregisterPlugin(plugin.name);
+    this.globalPlugins.push(plugin);
+  }
+
+  /**
+   * 注销全局插件（已创建的播放器不受影响）
+   */
+  unregisterPlugin(name: string): boolean {
+    const index = this.globalPlugins.findIndex(plugin => plugin.name === name);
+    if (index === -1) return false;
+    
+    this.globalPlugins.splice(index, 1);
+    return true;
+  }
+
+  getPlugins(): VideoPlugin<string, VideoPluginMethods>[] {
+    return [...this.globalPlugins];
+  }
+
+  /**
+   * 设置注册播放器之间的协调策略（独占播放、可见时自动播放）
+   */
+  setCoordinationPolicy(policy: PlayerCoordinationPolicy): void {
+    this.coordinator.setPolicy(policy);
+  }
+
+  getCoordinationPolicy(): PlayerCoordinationPolicy {
+    return this.coordinator.policy;
+  }
+
+  /**
+   * 创建同步组（多机位），第一个播放器为主，其余保持帧级对齐
+   */
+  createSyncGroup(players: IVideoPlayer[], options?: PlayerSyncGroupOptions): PlayerSyncGroup {
+    return this.coordinator.createSyncGroup(players, options);
+  }
+
+  /**
+   * 设置资源预算；超出时裁剪后缓冲并暂停或淘汰最久未使用的播放器，null关闭
+   */
+  setResourceBudget(budget: ResourceBudgetConfig | null): void {
+    this.resources.setBudget(budget);
+  }
+
+  /**
+   * 立即检查资源预算，返回被回收的播放器
+   */
+  enforceResourceBudget(): IVideoPlayer[] {
+    return this.resources.enforce();
+  }
+
+  /**
+   * 获取各播放器的资源占用
+   */
+  getResourceSnapshot(): ResourceSnapshot {
+    return this.resources.getSnapshot();
+  }
+
   /**
    * 获取播放器统计信息
    */
@@ -304,6 +431,8 @@ export class VideoPlayerFactory {
     totalPlayers: number;
     playerTypes: Record<string, number>;
     memoryUsage: number;
+    activeDecoders: number;
+    heap: ResourceSnapshot['heap'];
   } {
     const players = Array.from(this.playerRegistry.values());
     const playerTypes: Record<string, number> = {};
@@ -313,17 +442,40 @@ export class VideoPlayerFactory {
       playerTypes[type] = (playerTypes[type] || 0) + 1;
     });
     
+    const { memoryUsage, activeDecoders, heap } = this.resources.getSnapshot();
+    
     return {
       totalPlayers: players.length,
       playerTypes,
-      memoryUsage: this.estimateMemoryUsage()
+      memoryUsage,
+      activeDecoders,
+      heap
     };
   }
 
-  // 私有方法 - 估算内存使用
-  private estimateMemoryUsage(): number {
-    // 简单的内存使用估算
-    return this.playerRegistry.size * 1024 * 1024; // 每个播放器大约1MB
+  // 私有方法 - 安装全局插件
+  private applyPlugins<P extends IVideoPlayer<any>>(player: P): P {
+    for (const plugin of this.globalPlugins) {
+      player.use(plugin);
+    }
+    return player;
+  }
+
+  // 私有方法 - 安装插件并注册到注册表、协调器和资源预算，所有创建路径共用
+  private registerPlayer<P extends IVideoPlayer<any>>(player: P): P {
+    this.applyPlugins(player);
+    this.playerRegistry.set(this.generatePlayerId(), player);
+    this.coordinator.add(player);
+    this.resources.add(player);
+    return player;
+  }
+
+  // 私有方法 - 查找播放器ID
+  private findPlayerId(player: IVideoPlayer): string | undefined {
+    for (const [id, registered] of this.playerRegistry) {
+      if (registered === player) return id;
+    }
+    return undefined;
   }
 }
 
@@ -360,6 +512,16 @@ export const createHLSVideoPlayer = <T extends Record<string, any> = Record<stri
   return videoPlayerFactory.createHLSPlayer(element, config);
 };
 
+/**
+ * 创建DASH播放器 - 类型安全的DASH播放器创建
+ */
+export const createDASHVideoPlayer = <T extends Record<string, any> = Record<string, any>>(
+  element: HTMLVideoElement,
+  config: ValidVideoConfig<DASHVideoConfig<T>>
+): DASHPlayer<T> => {
+  return videoPlayerFactory.createDASHPlayer(element, config);
+};
+
 // 类型守卫函数
 export const isVideoPlayerFactory = (obj: any): obj is VideoPlayerFactory => {
   return obj instanceof VideoPlayerFactory;
@@ -432,6 +594,11 @@ export class VideoConfigBuilder<T extends VideoConfig = VideoConfig> {
     return this as any;
   }
 
+  dash(dashConfig: DASHConfig): this {
+    (this.config as any).dash = dashConfig;
+    return this;
+  }
+
   build(): ValidVideoConfig<T> {
     if (!this.config.sources || this.config.sources.length === 0) {
       throw new Error('At least one video source is required');
@@ -468,6 +635,19 @@ export class PresetConfigFactory {
       });
   }
 
+  /**
+   * 创建DASH流配置
+   */
+  static dash(src: string, dashConfig?: Partial<DASHConfig>): VideoConfigBuilder<DASHVideoConfig> {
+    return VideoConfigBuilder.create<DASHVideoConfig>()
+      .addSource({ src, type: 'dash' })
+      .controls(true)
+      .dash({
+        debug: false,
+        ...dashConfig
+      });
+  }
+
   /**
    * 创建多质量配置
    */
@@ -0,0 +1,481 @@
+// 播放列表控制器 - 在同一个<video>元素上按队列依次播放多个配置
+
+import type {
+  VideoConfig,
+  VideoEventListener,
+  IVideoPlayer,
+  PlaylistItem,
+  PlaylistOptions,
+  PlaylistRepeatMode,
+  PlaylistChangeReason,
+  PlaylistItemChangeReason,
+  PlaylistEventMap
+} from './types';
+
+import { VideoEventEmitter } from './EventEmitter';
+import { videoPlayerFactory } from './VideoPlayerFactory';
+
+// 播放器创建函数
+export type PlaylistPlayerCreator = (element: HTMLVideoElement, config: VideoConfig) => IVideoPlayer;
+
+export interface VideoPlaylistOptions extends PlaylistOptions {
+  // 默认使用工厂的智能创建
+  createPlayer?: PlaylistPlayerCreator;
+}
+
+// 构造/添加时可直接传入配置，自动生成条目ID
+export type PlaylistItemInput<TConfig extends VideoConfig = VideoConfig> = TConfig | PlaylistItem<TConfig>;
+
+const defaultCreatePlayer: PlaylistPlayerCreator = (element, config) =>
+  videoPlayerFactory.createSmart(element, config as any) as unknown as IVideoPlayer;
+
+let playlistItemCounter = 0;
+
+// 播放列表类
+export class VideoPlaylist<TConfig extends VideoConfig = VideoConfig> {
+  private _element: HTMLVideoElement;
+  private _options: Required<PlaylistOptions>;
+  private _createPlayer: PlaylistPlayerCreator;
+  private _eventEmitter = new VideoEventEmitter<PlaylistEventMap<TConfig>>();
+  private _player: IVideoPlayer | null = null;
+  private _items: PlaylistItem<TConfig>[] = [];
+  // 播放顺序（_items的下标），随机模式下当前条目始终位于最前
+  private _order: number[] = [];
+  private _position = -1;
+  private _current: PlaylistItem<TConfig> | null = null;
+  private _preloadController: AbortController | null = null;
+  private _isDestroyed = false;
+
+  constructor(
+    element: HTMLVideoElement,
+    items: PlaylistItemInput<TConfig>[] = [],
+    options: VideoPlaylistOptions = {}
+  ) {
+    this._element = element;
+    this._createPlayer = options.createPlayer ?? defaultCreatePlayer;
+    this._options = {
+      startIndex: options.startIndex ?? 0,
+      shuffle: options.shuffle ?? false,
+      repeat: options.repeat ?? 'none',
+      autoAdvance: options.autoAdvance ?? true,
+      preloadNext: options.preloadNext ?? true
+    };
+
+    this._items = items.map(item => this.normalizeItem(item));
+
+    const start = this._items[this._options.startIndex] ?? this._items[0];
+    if (start) {
+      this._current = start;
+      this.rebuildOrder();
+      this.activate(this._position, 'start', false, null);
+    }
+  }
+
+  // Getters
+  get player(): IVideoPlayer | null {
+    return this._player;
+  }
+
+  get element(): HTMLVideoElement {
+    return this._element;
+  }
+
+  get items(): PlaylistItem<TConfig>[] {
+    return [...this._items];
+  }
+
+  get currentItem(): PlaylistItem<TConfig> | null {
+    return this._current;
+  }
+
+  get currentIndex(): number {
+    return this._current ? this._items.indexOf(this._current) : -1;
+  }
+
+  get shuffle(): boolean {
+    return this._options.shuffle;
+  }
+
+  get repeat(): PlaylistRepeatMode {
+    return this._options.repeat;
+  }
+
+  /**
+   * 当前播放顺序中的条目
+   */
+  getQueue(): PlaylistItem<TConfig>[] {
+    return this._order.map(index => this._items[index]);
+  }
+
+  hasNext(): boolean {
+    return this.resolvePosition(1) !== -1;
+  }
+
+  hasPrevious(): boolean {
+    return this.resolvePosition(-1) !== -1;
+  }
+
+  /**
+   * 播放下一项
+   */
+  next(): boolean {
+    return this.step(1, 'next');
+  }
+
+  /**
+   * 播放上一项
+   */
+  previous(): boolean {
+    return this.step(-1, 'previous');
+  }
+
+  /**
+   * 跳转到指定条目（下标或ID）
+   */
+  select(target: number | string): boolean {
+    const index = typeof target === 'number'
+      ? target
+      : this._items.findIndex(item => item.id === target);
+    const item = this._items[index];
+    if (!item || this._isDestroyed) return false;
+
+    const from = this._current;
+    const autoplay = this.isPlaying();
+    this._current = item;
+    this.rebuildOrder();
+    this.activate(this._position, 'select', autoplay, from);
+    return true;
+  }
+
+  /**
+   * 添加条目，默认追加到末尾
+   */
+  add(items: PlaylistItemInput<TConfig> | PlaylistItemInput<TConfig>[], index = this._items.length): void {
+    const normalized = (Array.isArray(items) ? items : [items]).map(item => this.normalizeItem(item));
+    if (normalized.length === 0) return;
+
+    const insertAt = Math.max(0, Math.min(index, this._items.length));
+    this._items.splice(insertAt, 0, ...normalized);
+
+    if (!this._current) {
+      this._current = this._items[0];
+      this.rebuildOrder();
+      this.activate(this._position, 'start', false, null);
+    } else {
+      this.rebuildOrder();
+      this.preloadNext();
+    }
+
+    this.emitPlaylistChange('add');
+  }
+
+  /**
+   * 按ID移除条目；移除当前条目时切换到其后的条目
+   */
+  remove(id: string): boolean {
+    const index = this._items.findIndex(item => item.id === id);
+    if (index === -1) return false;
+
+    const [removed] = this._items.splice(index, 1);
+
+    if (removed === this._current) {
+      const autoplay = this.isPlaying();
+      const replacement = this._items[Math.min(index, this._items.length - 1)] ?? null;
+      this._current = replacement;
+      this.rebuildOrder();
+
+      if (replacement) {
+        this.activate(this._position, 'remove', autoplay, removed);
+      } else {
+        this.unmount(removed, 'remove');
+      }
+    } else {
+      this.rebuildOrder();
+      this.preloadNext();
+    }
+
+    this.emitPlaylistChange('remove');
+    return true;
+  }
+
+  /**
+   * 移动条目位置
+   */
+  move(from: number, to: number): void {
+    if (!this._items[from]) return;
+
+    const [item] = this._items.splice(from, 1);
+    this._items.splice(Math.max(0, Math.min(to, this._items.length)), 0, item);
+
+    this.rebuildOrder();
+    this.preloadNext();
+    this.emitPlaylistChange('move');
+  }
+
+  /**
+   * 清空播放列表并销毁播放器
+   */
+  clear(): void {
+    const from = this._current;
+    this._items = [];
+    this._current = null;
+    this.rebuildOrder();
+
+    if (from) {
+      this.unmount(from, 'remove');
+    }
+
+    this.emitPlaylistChange('clear');
+  }
+
+  /**
+   * 设置随机播放
+   */
+  setShuffle(enabled: boolean): void {
+    if (this._options.shuffle === enabled) return;
+
+    this._options.shuffle = enabled;
+    this.rebuildOrder();
+    this.preloadNext();
+    this.emitPlaylistChange('shuffle');
+  }
+
+  /**
+   * 设置重复模式
+   */
+  setRepeat(mode: PlaylistRepeatMode): void {
+    if (this._options.repeat === mode) return;
+
+    this._options.repeat = mode;
+    this.preloadNext();
+    this.emitPlaylistChange('repeat');
+  }
+
+  // 事件系统
+  on<K extends keyof PlaylistEventMap<TConfig>>(
+    event: K,
+    listener: (data: PlaylistEventMap<TConfig>[K]) => void
+  ): void {
+    this._eventEmitter.on(event, listener);
+  }
+
+  once<K extends keyof PlaylistEventMap<TConfig>>(
+    event: K,
+    listener: (data: PlaylistEventMap<TConfig>[K]) => void
+  ): void {
+    this._eventEmitter.once(event, listener);
+  }
+
+  off<K extends keyof PlaylistEventMap<TConfig>>(
+    event: K,
+    listener: (data: PlaylistEventMap<TConfig>[K]) => void
+  ): void {
+    this._eventEmitter.off(event, listener);
+  }
+
+  /**
+   * 销毁播放列表及其播放器
+   */
+  destroy(): void {
+    if (this._isDestroyed) return;
+
+    this._isDestroyed = true;
+    this._preloadController?.abort();
+    this._preloadController = null;
+    this.destroyPlayer();
+    this._eventEmitter.destroy();
+  }
+
+  // 私有方法 - 规范化条目
+  private normalizeItem(item: PlaylistItemInput<TConfig>): PlaylistItem<TConfig> {
+    if ('config' in item && 'id' in item) {
+      return item as PlaylistItem<TConfig>;
+    }
+    return { id: `playlist-item-${++playlistItemCounter}`, config: item as TConfig };
+  }
+
+  // 私有方法 - 重建播放顺序并定位当前条目
+  private rebuildOrder(): void {
+    const indices = this._items.map((_, index) => index);
+    const currentIndex = this.currentIndex;
+
+    if (this._options.shuffle) {
+      const rest = indices.filter(index => index !== currentIndex);
+      // Fisher-Yates洗牌
+      for (let i = rest.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [rest[i], rest[j]] = [rest[j], rest[i]];
+      }
+      this._order = currentIndex === -1 ? rest : [currentIndex, ...rest];
+    } else {
+      this._order = indices;
+    }
+
+    this._position = currentIndex === -1 ? -1 : this._order.indexOf(currentIndex);
+  }
+
+  // 私有方法 - 计算相对当前位置的目标位置，-1表示没有可播放条目
+  private resolvePosition(direction: 1 | -1): number {
+    const length = this._order.length;
+    if (length === 0 || this._position === -1) return -1;
+
+    const position = this._position + direction;
+    if (position >= 0 && position < length) return position;
+
+    return this._options.repeat === 'all' ? (position + length) % length : -1;
+  }
+
+  // 私有方法 - 前进/后退
+  private step(direction: 1 | -1, reason: PlaylistItemChangeReason, autoplay = this.isPlaying()): boolean {
+    if (this._isDestroyed) return false;
+
+    const position = this.resolvePosition(direction);
+    if (position === -1) return false;
+
+    this.activate(position, reason, autoplay);
+    return true;
+  }
+
+  // 私有方法 - 当前是否正在播放
+  private isPlaying(): boolean {
+    return !!this._player && !this._element.paused && !this._element.ended;
+  }
+
+  // 私有方法 - 在同一元素上加载指定位置的条目
+  private activate(
+    position: number,
+    reason: PlaylistItemChangeReason,
+    autoplay: boolean,
+    from: PlaylistItem<TConfig> | null = this._current
+  ): void {
+    const item = this._items[this._order[position]];
+
+    this._position = position;
+    this._current = item;
+    this.mountPlayer(item.config);
+
+    if (autoplay) {
+      this._player!.play().catch(error => {
+        console.warn('Playlist autoplay failed:', error);
+      });
+    }
+
+    this._eventEmitter.emit('itemchange', {
+      from,
+      to: item,
+      index: this._order[position],
+      reason,
+      player: this._player
+    });
+
+    this.preloadNext();
+  }
+
+  // 私有方法 - 创建播放器并继承上一项的音量状态
+  private mountPlayer(config: TConfig): void {
+    const hadPlayer = !!this._player;
+    const { volume, muted } = this._element;
+
+    this.destroyPlayer();
+
+    const player = this._createPlayer(this._element, config);
+    if (hadPlayer) {
+      if (config.muted === undefined) player.element.muted = muted;
+      if (config.volume === undefined) player.element.volume = volume;
+    }
+
+    player.on('ended', this.handleEnded);
+    this._player = player;
+  }
+
+  // 私有方法 - 移除最后一项后卸载播放器
+  private unmount(from: PlaylistItem<TConfig>, reason: PlaylistItemChangeReason): void {
+    this._preloadController?.abort();
+    this._preloadController = null;
+    this.destroyPlayer();
+
+    this._eventEmitter.emit('itemchange', { from, to: null, index: -1, reason, player: null });
+  }
+
+  private destroyPlayer(): void {
+    if (!this._player) return;
+
+    this._player.off('ended', this.handleEnded);
+    // 工厂创建的播放器需要同时从注册表、协调器和资源预算中移除
+    if (!videoPlayerFactory.unregisterPlayer(this._player)) {
+      this._player.destroy();
+    }
+    this._player = null;
+  }
+
+  // 私有方法 - 播放结束后重复或自动前进
+  private handleEnded: VideoEventListener<'ended'> = () => {
+    if (this._isDestroyed || !this._player) return;
+
+    if (this._options.repeat === 'one') {
+      this._player.seek(0);
+      this._player.play().catch(error => {
+        console.warn('Playlist repeat failed:', error);
+      });
+      return;
+    }
+
+    if (this._options.autoAdvance) {
+      this.step(1, 'ended', true);
+    }
+  };
+
+  // 私有方法 - 预取下一项的流媒体清单，使切换时清单请求命中HTTP缓存
+  private preloadNext(): void {
+    this._preloadController?.abort();
+    this._preloadController = null;
+
+    if (!this._options.preloadNext || typeof fetch !== 'function') return;
+
+    const position = this.resolvePosition(1);
+    if (position === -1 || position === this._position) return;
+
+    const { config } = this._items[this._order[position]];
+    const source = [...config.sources]
+      .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+      .find(candidate => candidate.type === 'hls' || candidate.type === 'dash');
+    if (!source) return;
+
+    const controller = new AbortController();
+    this._preloadController = controller;
+
+    fetch(source.src, {
+      signal: controller.signal,
+      credentials: config.crossOrigin === 'use-credentials' ? 'include' : 'same-origin'
+    })
+      .then(response => (response.ok ? response.text() : undefined))
+      .catch(() => {
+        // 预取失败不影响播放，切换时由播放器处理错误
+      });
+  }
+
+  // 私有方法 - 发射列表变化事件
+  private emitPlaylistChange(reason: PlaylistChangeReason): void {
+    this._eventEmitter.emit('playlistchange', {
+      reason,
+      items: this.items,
+      currentIndex: this.currentIndex,
+      shuffle: this._options.shuffle,
+      repeat: this._options.repeat
+    });
+  }
+}
+
+// 工厂函数
+export const createVideoPlaylist = <TConfig extends VideoConfig = VideoConfig>(
+  element: HTMLVideoElement,
+  items: PlaylistItemInput<TConfig>[] = [],
+  options?: VideoPlaylistOptions
+): VideoPlaylist<TConfig> => {
+  return new VideoPlaylist(element, items, options);
+};
+
+// 类型守卫
+export const isVideoPlaylist = (obj: any): obj is VideoPlaylist => {
+  return obj instanceof VideoPlaylist;
+};
@@ -0,0 +1,205 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { AdManager, selectAdPod, selectMediaFile, replaceVASTMacros } from '../AdManager';
+import type { AdManagerOptions } from '../AdManager';
+import { HTML5VideoAPI } from '../VideoAPI';
+import { parseVAST } from '../VASTParser';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const CONTENT_SRC = 'https://cdn.example.com/content.mp4';
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+  jest.spyOn(HTMLMediaElement.prototype, 'canPlayType').mockImplementation(type => (type === 'video/mp4' ? 'maybe' : ''));
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const setDuration = (element: HTMLVideoElement, duration: number) => {
+  Object.defineProperty(element, 'duration', { value: duration, configurable: true });
+};
+
+const createAds = (options: Partial<AdManagerOptions>) => {
+  const element = document.createElement('video');
+  const player = new HTML5VideoAPI(element, { sources: [{ src: CONTENT_SRC, type: 'mp4' }], hotkeys: false });
+  const pixels: string[] = [];
+  const events: string[] = [];
+
+  const ads = new AdManager(player, {
+    // 广告请求指向本地fixture
+    fetchXML: url => Promise.resolve(fixture(url.split('/').pop()!)),
+    trackPixel: url => pixels.push(url),
+    ...options
+  });
+
+  ads.on('adbreakstart', event => events.push(`adbreakstart:${event.payload.breakId}:${event.payload.position}`));
+  ads.on('adstart', event => events.push(`adstart:${event.payload.ad.id}`));
+  ads.on('adend', event => events.push(`adend:${event.payload.ad.id}:${event.payload.reason}`));
+  ads.on('adbreakend', event => events.push(`adbreakend:${event.payload.breakId}`));
+
+  return { element, player, ads, pixels, events };
+};
+
+describe('AdManager', () => {
+  test('应该选择可播放且尺寸最接近的渐进式媒体文件', () => {
+    const [ad] = parseVAST(fixture('vast-inline.xml')).ads;
+    const element = document.createElement('video');
+
+    expect(selectMediaFile(ad.mediaFiles, element)?.url).toBe('https://cdn.example.com/ad/360.mp4');
+    expect(selectMediaFile(ad.mediaFiles.slice(0, 1), element)).toBeNull();
+  });
+
+  test('带sequence的广告应该按顺序组成广告组', () => {
+    const ads = parseVAST(fixture('vast-inline.xml')).ads;
+    const pod = [{ ...ads[0], id: 'b', sequence: 2 }, { ...ads[0], id: 'a', sequence: 1 }, { ...ads[0], id: 'c' }];
+
+    expect(selectAdPod(pod).map(ad => ad.id)).toEqual(['a', 'b']);
+    expect(selectAdPod([pod[2], pod[2]])).toHaveLength(1);
+  });
+
+  test('应该替换VAST宏', () => {
+    expect(replaceVASTMacros('https://t.example.com/?c=[ERRORCODE]&t=[ADPLAYHEAD]&x=[UNKNOWN]', {
+      ERRORCODE: 405,
+      ADPLAYHEAD: '00:00:01.000'
+    })).toBe('https://t.example.com/?c=405&t=00%3A00%3A01.000&x=[UNKNOWN]');
+  });
+
+  test('片头广告应该展开包装广告、上报追踪并恢复正片', async () => {
+    const { element, player, ads, pixels, events } = createAds({ vmap: 'https://ads.example.com/vmap.xml' });
+    await ads.ready;
+
+    element.dispatchEvent(new Event('play'));
+    await flush();
+
+    expect(events).toEqual(['adbreakstart:preroll:preroll', 'adstart:inline-1']);
+    expect(ads.isPlayingAd).toBe(true);
+    expect(element.src).toBe('https://cdn.example.com/ad/360.mp4');
+
+    // 广告媒体事件不应作为正片事件发射
+    const onContentTimeUpdate = jest.fn();
+    player.on('timeupdate', onContentTimeUpdate);
+
+    element.dispatchEvent(new Event('playing'));
+    expect(pixels).toEqual([
+      expect.stringMatching(/^https:\/\/track\.example\.com\/impression\?ts=\d{4}-/),
+      'https://exchange.example.com/impression',
+      'https://track.example.com/start'
+    ]);
+
+    setDuration(element, 10);
+    element.currentTime = 8;
+    element.dispatchEvent(new Event('timeupdate'));
+    expect(pixels.slice(3)).toEqual([
+      'https://track.example.com/firstQuartile',
+      'https://track.example.com/midpoint',
+      'https://track.example.com/thirdQuartile'
+    ]);
+    expect(onContentTimeUpdate).not.toHaveBeenCalled();
+
+    element.dispatchEvent(new Event('ended'));
+    await flush();
+    expect(pixels.slice(6)).toEqual(['https://track.example.com/complete', 'https://exchange.example.com/complete']);
+    expect(events.slice(2)).toEqual(['adend:inline-1:complete', 'adbreakend:preroll']);
+    expect(ads.isPlayingAd).toBe(false);
+    expect(element.src).toBe(CONTENT_SRC);
+
+    ads.destroy();
+    player.destroy();
+  });
+
+  test('到达跳过时间后才能跳过广告', async () => {
+    const { element, player, ads, pixels, events } = createAds({ vast: fixture('vast-inline.xml') });
+    await ads.ready;
+
+    element.dispatchEvent(new Event('play'));
+    await flush();
+    element.dispatchEvent(new Event('playing'));
+
+    element.currentTime = 3;
+    expect(ads.canSkip).toBe(false);
+    expect(ads.skip()).toBe(false);
+
+    element.currentTime = 6;
+    expect(ads.skip()).toBe(true);
+    await flush();
+    expect(pixels).toContain('https://track.example.com/skip?t=00%3A00%3A06.000');
+    expect(events).toContain('adend:inline-1:skipped');
+    expect(element.src).toBe(CONTENT_SRC);
+
+    ads.destroy();
+    player.destroy();
+  });
+
+  test('片中广告结束后应该回到原播放位置', async () => {
+    const { element, player, ads, events } = createAds({
+      breaks: [{ id: 'mid', offset: 30, vast: fixture('vast-inline.xml') }]
+    });
+    await ads.ready;
+
+    setDuration(element, 100);
+    element.currentTime = 31;
+    element.dispatchEvent(new Event('timeupdate'));
+    await flush();
+
+    expect(events).toEqual(['adbreakstart:mid:midroll', 'adstart:inline-1']);
+
+    // 广告期间正片跳转无效
+    player.seek(50);
+    expect(element.currentTime).toBe(31);
+
+    element.dispatchEvent(new Event('playing'));
+    element.dispatchEvent(new Event('ended'));
+    await flush();
+    expect(element.src).toBe(CONTENT_SRC);
+
+    element.currentTime = 0;
+    element.dispatchEvent(new Event('loadedmetadata'));
+    expect(element.currentTime).toBe(31);
+
+    // 同一时段不会重复播放
+    element.dispatchEvent(new Event('timeupdate'));
+    await flush();
+    expect(events).toHaveLength(4);
+
+    ads.destroy();
+    player.destroy();
+  });
+
+  test('广告媒体出错时应该上报错误并继续正片', async () => {
+    const { element, player, ads, pixels, events } = createAds({ vast: fixture('vast-inline.xml') });
+    await ads.ready;
+
+    element.dispatchEvent(new Event('play'));
+    await flush();
+    element.dispatchEvent(new Event('error'));
+    await flush();
+
+    expect(pixels).toEqual(['https://track.example.com/error?code=405']);
+    expect(events).toEqual(['adbreakstart:preroll:preroll', 'adstart:inline-1', 'adend:inline-1:error', 'adbreakend:preroll']);
+    expect(element.src).toBe(CONTENT_SRC);
+
+    ads.destroy();
+    player.destroy();
+  });
+
+  test('广告进行中销毁应该交还媒体元素', async () => {
+    const { element, player, ads } = createAds({ vast: fixture('vast-inline.xml') });
+    await ads.ready;
+
+    element.dispatchEvent(new Event('play'));
+    await flush();
+    expect(player.isMediaReleased).toBe(true);
+
+    ads.destroy();
+    expect(player.isMediaReleased).toBe(false);
+    expect(element.src).toBe(CONTENT_SRC);
+    player.destroy();
+  });
+});
@@ -0,0 +1,282 @@
+import { DASHPlayer } from '../DASHPlayer';
+import { VideoErrorCode } from '../ErrorCatalog';
+import type { DASHConfig, DASHVideoConfig, VideoEventType, VideoSource } from '../types';
+
+const BASE_URL = 'https://cdn.example.com/vod';
+const MANIFEST_URL = `${BASE_URL}/manifest.mpd`;
+const DASH_SOURCE = { src: MANIFEST_URL, type: 'dash' as const };
+
+// 12秒、每段4秒的两档视频
+const MPD = `<?xml version="1.0" encoding="UTF-8"?>
+<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" type="static" mediaPresentationDuration="PT12S" minBufferTime="PT2S">
+  <Period id="p0">
+    <AdaptationSet contentType="video" mimeType="video/mp4">
+      <SegmentTemplate timescale="1000" duration="4000" startNumber="1"
+        initialization="$RepresentationID$/init.mp4" media="$RepresentationID$/seg-$Number%03d$.m4s" />
+      <Representation id="v720" bandwidth="3000000" width="1280" height="720" codecs="avc1.64001f" />
+      <Representation id="v360" bandwidth="800000" width="640" height="360" codecs="avc1.64001e" />
+    </AdaptationSet>
+  </Period>
+</MPD>`;
+
+// jsdom未实现MSE：追加操作在微任务中完成，结束的MediaSource在追加时重新打开
+class MockSourceBuffer extends EventTarget {
+  updating = false;
+  buffered = { length: 0, start: () => 0, end: () => 0 };
+
+  constructor(private mediaSource: MockMediaSource) {
+    super();
+  }
+
+  appendBuffer() {
+    if (this.mediaSource.readyState === 'ended') this.mediaSource.readyState = 'open';
+    Promise.resolve().then(() => this.dispatchEvent(new Event('updateend')));
+  }
+
+  remove() {
+    Promise.resolve().then(() => this.dispatchEvent(new Event('updateend')));
+  }
+}
+
+class MockMediaSource extends EventTarget {
+  static instances: MockMediaSource[] = [];
+  static isTypeSupported = () => true;
+
+  readyState: ReadyState = 'closed';
+  duration = NaN;
+  endOfStream = jest.fn(() => {
+    this.readyState = 'ended';
+  });
+
+  constructor() {
+    super();
+    MockMediaSource.instances.push(this);
+  }
+
+  addSourceBuffer() {
+    return new MockSourceBuffer(this);
+  }
+
+  open() {
+    this.readyState = 'open';
+    this.dispatchEvent(new Event('sourceopen'));
+  }
+}
+
+// 模拟CDN：分片在latency毫秒后返回，分片大小决定带宽估计
+const mockServer = (options: { manifest?: string; manifestStatus?: number; segmentBytes?: number; latency?: number; failSegments?: boolean } = {}) => {
+  const { manifest = MPD, manifestStatus = 200, segmentBytes = 0, latency = 0, failSegments = false } = options;
+
+  const fetchMock = jest.fn((url: string) => {
+    const response = url === MANIFEST_URL
+      ? { ok: manifestStatus === 200, status: manifestStatus, url, text: () => Promise.resolve(manifest) }
+      : {
+          ok: !failSegments,
+          status: failSegments ? 503 : 200,
+          url,
+          arrayBuffer: () => Promise.resolve(new ArrayBuffer(url.endsWith('init.mp4') ? 16 : segmentBytes))
+        };
+    return url === MANIFEST_URL
+      ? Promise.resolve(response)
+      : new Promise(resolve => setTimeout(() => resolve(response), latency));
+  });
+  (global as any).fetch = fetchMock;
+  return fetchMock;
+};
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+  (window as any).MediaSource = MockMediaSource;
+  URL.createObjectURL = jest.fn(() => 'blob:https://cdn.example.com/dash');
+  URL.revokeObjectURL = jest.fn();
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+  delete (window as any).MediaSource;
+  delete (global as any).fetch;
+});
+
+const createPlayer = (options: { sources?: VideoSource[]; dash?: DASHConfig } = {}) => {
+  const element = document.createElement('video');
+  // 只声明支持MP4，DASH源交给MSE管线
+  jest.spyOn(element, 'canPlayType').mockImplementation(type => (type === 'video/mp4' ? 'maybe' : ''));
+  const player = new DASHPlayer(element, {
+    sources: options.sources ?? [DASH_SOURCE],
+    hotkeys: false,
+    dash: options.dash
+  } as DASHVideoConfig);
+  const record = <T extends VideoEventType>(type: T) => {
+    const payloads: any[] = [];
+    player.on(type, event => payloads.push(event.payload));
+    return payloads;
+  };
+  // 等待清单加载后打开MediaSource
+  const open = async () => {
+    await jest.advanceTimersByTimeAsync(0);
+    MockMediaSource.instances[MockMediaSource.instances.length - 1].open();
+  };
+  return { player, element, record, open };
+};
+
+const requestedSegments = (fetchMock: jest.Mock) =>
+  fetchMock.mock.calls.map(([url]) => url.replace(`${BASE_URL}/`, '')).filter(url => url !== 'manifest.mpd');
+
+describe('DASHPlayer', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    MockMediaSource.instances.length = 0;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('ABR应该按带宽估计切换表示并保持时间轴位置', async () => {
+    // 1MB分片100毫秒下载完成 ≈ 80Mbps
+    const fetchMock = mockServer({ segmentBytes: 1e6, latency: 100 });
+    const { player, record, open } = createPlayer();
+    const qualityChanges = record('qualitychange');
+
+    await open();
+    expect(player.getDASHStats().currentRepresentation).toBe('v360');
+
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(requestedSegments(fetchMock)).toEqual([
+      'v360/init.mp4',
+      'v360/seg-001.m4s',
+      'v720/init.mp4',
+      'v720/seg-002.m4s',
+      'v720/seg-003.m4s'
+    ]);
+    expect(qualityChanges).toEqual([{ from: '360p', to: '720p' }]);
+    expect(player.getCurrentQuality()).toBe('auto');
+    expect(player.getDASHStats()).toMatchObject({ currentRepresentation: 'v720', currentBitrate: 3000000 });
+    expect(MockMediaSource.instances[0].endOfStream).toHaveBeenCalled();
+    player.destroy();
+  });
+
+  test('结束后seek回已清理的范围应该重新打开MediaSource并从新位置加载', async () => {
+    const fetchMock = mockServer();
+    const { player, element, open } = createPlayer();
+    const mediaSource = () => MockMediaSource.instances[0];
+
+    await open();
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(mediaSource().readyState).toBe('ended');
+    fetchMock.mockClear();
+
+    // 缓冲区为空，相当于已被后缓冲清理
+    Object.defineProperty(element, 'currentTime', { configurable: true, value: 5 });
+    element.dispatchEvent(new Event('seeking'));
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(requestedSegments(fetchMock)).toEqual(['v360/seg-002.m4s', 'v360/seg-003.m4s']);
+    expect(mediaSource().endOfStream).toHaveBeenCalledTimes(2);
+    expect(mediaSource().readyState).toBe('ended');
+    player.destroy();
+  });
+
+  test('手动选择质量时固定表示，每次切换只发射一次qualitychange', async () => {
+    mockServer();
+    const { player, record, open } = createPlayer();
+    const qualityChanges = record('qualitychange');
+
+    await open();
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(player.getAvailableQualities()).toEqual(['auto', '720p', '360p']);
+
+    player.setQuality('720p');
+    expect(player.getDASHStats().currentRepresentation).toBe('v720');
+    player.setQuality('720p');
+
+    // 回到自动时ABR重新选择低档，但只报告一次手动切换
+    player.setQuality('auto');
+    expect(player.getDASHStats().currentRepresentation).toBe('v360');
+
+    expect(qualityChanges).toEqual([
+      { from: 'auto', to: '720p' },
+      { from: '720p', to: 'auto' }
+    ]);
+    expect(player.stats.qualityChanges).toBe(2);
+    player.destroy();
+  });
+
+  test('清单请求失败和清单无效应该映射为不同的致命错误', async () => {
+    const errors: any[] = [];
+
+    mockServer({ manifestStatus: 404 });
+    const missing = createPlayer();
+    missing.player.on('error', event => errors.push(event.payload));
+    await jest.advanceTimersByTimeAsync(0);
+
+    (global as any).fetch = jest.fn(() => Promise.reject(new TypeError('Failed to fetch')));
+    const offline = createPlayer();
+    offline.player.on('error', event => errors.push(event.payload));
+    await jest.advanceTimersByTimeAsync(0);
+
+    mockServer({ manifest: '<html></html>' });
+    const invalid = createPlayer();
+    invalid.player.on('error', event => errors.push(event.payload));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(errors).toEqual([
+      expect.objectContaining({ httpStatus: 404, fatal: true, details: expect.objectContaining({ resourceCode: VideoErrorCode.MANIFEST_LOAD_FAILED }) }),
+      expect.objectContaining({ code: VideoErrorCode.MANIFEST_LOAD_FAILED, fatal: true }),
+      expect.objectContaining({ code: VideoErrorCode.MANIFEST_PARSE_FAILED, fatal: true, retryable: false })
+    ]);
+    expect(MockMediaSource.instances).toHaveLength(0);
+    [missing, offline, invalid].forEach(({ player }) => {
+      expect(player.state).toBe('error');
+      expect(player.stats.errorCount).toBe(1);
+      player.destroy();
+    });
+  });
+
+  test('初始化MSE管线时的异常应该报告为错误事件', async () => {
+    mockServer();
+    (URL.createObjectURL as jest.Mock).mockImplementationOnce(() => {
+      throw new Error('Object URLs are blocked');
+    });
+    const { player, record } = createPlayer();
+    const errors = record('error');
+
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(errors).toEqual([
+      expect.objectContaining({ code: VideoErrorCode.MEDIA_PIPELINE_ERROR, message: 'Object URLs are blocked', fatal: true })
+    ]);
+    player.destroy();
+  });
+
+  test('分片重试耗尽后报告错误，有备用源时切换', async () => {
+    const fetchMock = mockServer({ failSegments: true });
+    const fallback = { src: 'https://cdn.example.com/video.mp4', type: 'mp4' as const };
+    const { player, element, record, open } = createPlayer({
+      sources: [DASH_SOURCE, fallback],
+      dash: { segmentLoadingMaxRetry: 1, segmentLoadingRetryDelay: 100 }
+    });
+    const errors = record('error');
+    const sourceChanges = record('sourcechange');
+
+    await open();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(requestedSegments(fetchMock)).toEqual(['v360/init.mp4', 'v360/init.mp4']);
+    expect(errors).toEqual([
+      expect.objectContaining({
+        httpStatus: 503,
+        fatal: false,
+        details: expect.objectContaining({ resourceCode: VideoErrorCode.SEGMENT_LOAD_FAILED, representation: 'v360' })
+      })
+    ]);
+    expect(sourceChanges).toEqual([expect.objectContaining({ to: fallback, reason: 'error' })]);
+    expect(element.src).toBe(fallback.src);
+    expect(URL.revokeObjectURL).toHaveBeenCalled();
+    player.destroy();
+  });
+});
@@ -0,0 +1,221 @@
+import { EMEController, createClearKeyLicense, normalizeClearKeyId } from '../EMEController';
+import { HTML5VideoAPI } from '../VideoAPI';
+import { VideoErrorCode } from '../ErrorCatalog';
+import type { DRMConfig } from '../types';
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+afterEach(() => {
+  delete (navigator as any).requestMediaKeySystemAccess;
+  delete (global as any).fetch;
+});
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const KEY_ID = '0123456789abcdef0123456789abcdef';
+const KEY = 'fedcba9876543210fedcba9876543210';
+const KID = normalizeClearKeyId(KEY_ID);
+
+const toBuffer = (value: string) => Uint8Array.from(value, char => char.charCodeAt(0)).buffer;
+const fromBuffer = (buffer: ArrayBuffer) => String.fromCharCode(...new Uint8Array(buffer));
+
+// 模拟ClearKey CDM：keyids初始化数据直接转为许可证请求，update后按许可证设置密钥状态
+class FakeSession extends EventTarget {
+  keyStatuses = new Map<ArrayBuffer, string>();
+  licenses: any[] = [];
+  status = 'usable';
+
+  generateRequest = jest.fn((initDataType: string, initData: ArrayBuffer) => {
+    const { kids } = JSON.parse(fromBuffer(initData));
+    setTimeout(() => {
+      this.dispatchEvent(Object.assign(new Event('message'), {
+        messageType: 'license-request',
+        message: toBuffer(JSON.stringify({ kids, type: 'temporary' }))
+      }));
+    }, 0);
+    return Promise.resolve();
+  });
+
+  update = jest.fn((license: ArrayBuffer) => {
+    const { keys } = JSON.parse(fromBuffer(license));
+    this.licenses.push(keys);
+    keys.forEach(() => this.keyStatuses.set(new ArrayBuffer(16), this.status));
+    this.dispatchEvent(new Event('keystatuseschange'));
+    return Promise.resolve();
+  });
+
+  close = jest.fn(() => Promise.resolve());
+}
+
+const mockEME = (options: { status?: string; unsupported?: boolean } = {}) => {
+  const sessions: FakeSession[] = [];
+  const mediaKeys = {
+    createSession: () => {
+      const session = new FakeSession();
+      session.status = options.status ?? 'usable';
+      sessions.push(session);
+      return session;
+    },
+    setServerCertificate: jest.fn(() => Promise.resolve(true))
+  };
+  const access = { createMediaKeys: () => Promise.resolve(mediaKeys) };
+  const requestAccess = jest.fn(() =>
+    options.unsupported ? Promise.reject(new Error('NotSupportedError')) : Promise.resolve(access)
+  );
+  (navigator as any).requestMediaKeySystemAccess = requestAccess;
+
+  return { sessions, mediaKeys, requestAccess };
+};
+
+const createElement = () => {
+  const element = document.createElement('video');
+  const setMediaKeys = jest.fn(() => Promise.resolve());
+  Object.assign(element, { setMediaKeys });
+  return { element, setMediaKeys };
+};
+
+const dispatchEncrypted = (element: HTMLVideoElement) => {
+  element.dispatchEvent(Object.assign(new Event('encrypted'), {
+    initDataType: 'keyids',
+    initData: toBuffer(JSON.stringify({ kids: [KID] }))
+  }));
+};
+
+// 本地ClearKey许可证服务器：按请求的kid返回JWK Set
+const mockLicenseServer = (status = 200) => {
+  const fetchMock = jest.fn((url: string, init: RequestInit) => {
+    const license = createClearKeyLicense(init.body as ArrayBuffer, { [KEY_ID]: KEY });
+    return Promise.resolve({ ok: status === 200, status, arrayBuffer: () => Promise.resolve(license) });
+  });
+  (global as any).fetch = fetchMock;
+  return fetchMock;
+};
+
+describe('EMEController', () => {
+  test('应该生成ClearKey JWK许可证并统一十六进制密钥', () => {
+    const license = createClearKeyLicense(toBuffer(JSON.stringify({ kids: [KID, 'unknown'] })), { [KEY_ID]: KEY });
+
+    expect(JSON.parse(fromBuffer(license))).toEqual({
+      keys: [{ kty: 'oct', kid: 'ASNFZ4mrze8BI0VniavN7w', k: '_ty6mHZUMhD-3LqYdlQyEA' }],
+      type: 'temporary'
+    });
+    expect(() => createClearKeyLicense(toBuffer(JSON.stringify({ kids: ['unknown'] })), {})).toThrow();
+  });
+
+  test('应该通过许可证服务器获取ClearKey密钥', async () => {
+    const { sessions, requestAccess } = mockEME();
+    const fetchMock = mockLicenseServer();
+    const { element, setMediaKeys } = createElement();
+    const config: DRMConfig = {
+      keySystem: 'org.w3.clearkey',
+      licenseUrl: 'https://license.example.com/clearkey',
+      headers: { Authorization: 'Bearer token' }
+    };
+    const controller = new EMEController(element, { config, isEnabled: () => true, onError: jest.fn() });
+
+    dispatchEncrypted(element);
+    dispatchEncrypted(element);
+    await flush();
+    await flush();
+
+    expect(requestAccess).toHaveBeenCalledWith('org.w3.clearkey', [expect.objectContaining({ initDataTypes: ['keyids'] })]);
+    expect(setMediaKeys).toHaveBeenCalledTimes(1);
+    expect(controller.sessionCount).toBe(1);
+    expect(fetchMock).toHaveBeenCalledWith('https://license.example.com/clearkey', expect.objectContaining({
+      method: 'POST',
+      headers: { Authorization: 'Bearer token' }
+    }));
+    expect(sessions[0].licenses).toEqual([[{ kty: 'oct', kid: KID, k: normalizeClearKeyId(KEY) }]]);
+
+    controller.destroy();
+    expect(sessions[0].close).toHaveBeenCalled();
+    expect(setMediaKeys).toHaveBeenLastCalledWith(null);
+  });
+
+  test('配置本地ClearKey密钥时不请求许可证服务器', async () => {
+    const { sessions } = mockEME();
+    const fetchMock = mockLicenseServer();
+    const { element } = createElement();
+    const controller = new EMEController(element, {
+      config: { keySystem: 'org.w3.clearkey', clearKeys: { [KEY_ID]: KEY } },
+      isEnabled: () => true,
+      onError: jest.fn()
+    });
+
+    dispatchEncrypted(element);
+    await flush();
+    await flush();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(sessions[0].update).toHaveBeenCalledTimes(1);
+    controller.destroy();
+  });
+
+  test('播放器应该以密钥系统错误类型发射error事件', async () => {
+    mockEME({ unsupported: true });
+    const { element } = createElement();
+    const player = new HTML5VideoAPI(element, {
+      sources: [],
+      hotkeys: false,
+      drm: { keySystem: 'com.widevine.alpha', licenseUrl: 'https://license.example.com/widevine' }
+    });
+    const errors: string[] = [];
+    player.on('error', event => errors.push(event.payload.type));
+
+    dispatchEncrypted(element);
+    await flush();
+
+    expect(errors).toEqual(['key_system_unsupported']);
+    expect(player.state).toBe('error');
+    player.destroy();
+  });
+
+  test('许可证请求失败和输出受限应该分别上报', async () => {
+    mockEME({ status: 'output-restricted' });
+    mockLicenseServer(403);
+    const { element } = createElement();
+    const onError = jest.fn();
+    const config: DRMConfig = { keySystem: 'org.w3.clearkey', licenseUrl: 'https://license.example.com/clearkey' };
+    let controller = new EMEController(element, { config, isEnabled: () => true, onError });
+
+    dispatchEncrypted(element);
+    await flush();
+    await flush();
+
+    // 带HTTP状态的许可证请求失败以HTTP错误码上报，原资源错误码保留在details中
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'http',
+      code: VideoErrorCode.HTTP_FORBIDDEN,
+      httpStatus: 403,
+      retryable: false,
+      message: 'License request failed with status 403',
+      details: expect.objectContaining({ status: 403, resourceCode: VideoErrorCode.LICENSE_REQUEST_FAILED })
+    }));
+    controller.destroy();
+
+    mockLicenseServer();
+    onError.mockClear();
+    controller = new EMEController(element, { config, isEnabled: () => true, onError });
+    dispatchEncrypted(element);
+    await flush();
+    await flush();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'key_status_error',
+      code: VideoErrorCode.KEY_OUTPUT_RESTRICTED,
+      messageKey: 'video.error.outputRestricted',
+      message: 'Key status output-restricted',
+      details: expect.objectContaining({ keyStatus: 'output-restricted' })
+    }));
+    controller.destroy();
+  });
+});
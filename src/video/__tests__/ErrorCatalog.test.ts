@@ -0,0 +1,103 @@
+import {
+  HTTPStatusError,
+  VIDEO_ERROR_CATALOG,
+  VideoErrorCode,
+  getErrorMessage,
+  normalizeVideoError
+} from '../ErrorCatalog';
+import { HTML5VideoAPI } from '../VideoAPI';
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const domError = (name: string, message = name) => Object.assign(new Error(message), { name });
+
+describe('ErrorCatalog', () => {
+  test('目录中的错误码唯一且都有默认文案', () => {
+    const codes = Object.values(VideoErrorCode);
+    expect(new Set(codes).size).toBe(codes.length);
+    for (const definition of VIDEO_ERROR_CATALOG.values()) {
+      expect(getErrorMessage(definition)).not.toBe(definition.messageKey);
+    }
+  });
+
+  test('区分自动播放拦截与清单403', () => {
+    const autoplay = normalizeVideoError({ source: 'play', error: domError('NotAllowedError'), fatal: false });
+    expect(autoplay).toMatchObject({
+      type: 'autoplay_blocked',
+      code: VideoErrorCode.AUTOPLAY_BLOCKED,
+      retryable: false,
+      fatal: false,
+      messageKey: 'video.error.autoplayBlocked'
+    });
+
+    const manifest = normalizeVideoError({
+      source: 'hls',
+      error: { type: 'networkError', details: 'manifestLoadError', fatal: true, response: { code: 403 } }
+    });
+    expect(manifest).toMatchObject({
+      type: 'http',
+      code: VideoErrorCode.HTTP_FORBIDDEN,
+      httpStatus: 403,
+      retryable: false,
+      message: 'manifestLoadError',
+      details: { source: 'hls', resourceCode: VideoErrorCode.MANIFEST_LOAD_FAILED }
+    });
+  });
+
+  test('映射hls.js错误详情，未知详情按错误类型归类', () => {
+    const codeOf = (type: string, details: string) =>
+      normalizeVideoError({ source: 'hls', error: { type, details, response: { code: 0 } } }).code;
+
+    expect(codeOf('networkError', 'fragLoadTimeOut')).toBe(VideoErrorCode.SEGMENT_LOAD_TIMEOUT);
+    expect(codeOf('mediaError', 'bufferAppendError')).toBe(VideoErrorCode.BUFFER_APPEND_FAILED);
+    expect(codeOf('keySystemError', 'keySystemNoAccess')).toBe(VideoErrorCode.KEY_SYSTEM_UNSUPPORTED);
+    expect(codeOf('networkError', 'somethingNew')).toBe(VideoErrorCode.NETWORK_ERROR);
+  });
+
+  test('媒体错误、HTTP状态和请求超时', () => {
+    expect(normalizeVideoError({ source: 'media', error: { code: 3, message: '' } })).toMatchObject({
+      type: 'decode',
+      code: VideoErrorCode.MEDIA_DECODE,
+      message: 'MEDIA_DECODE'
+    });
+
+    const server = normalizeVideoError({
+      source: 'dash',
+      error: new HTTPStatusError(503, 'https://cdn.example.com/seg-1.m4s'),
+      code: VideoErrorCode.SEGMENT_LOAD_FAILED
+    });
+    expect(server).toMatchObject({ code: VideoErrorCode.HTTP_SERVER_ERROR, retryable: true, httpStatus: 503 });
+
+    const timeout = normalizeVideoError({
+      source: 'dash',
+      error: domError('AbortError', 'The operation was aborted'),
+      code: VideoErrorCode.MANIFEST_LOAD_FAILED
+    });
+    expect(timeout).toMatchObject({ type: 'timeout', code: VideoErrorCode.MANIFEST_LOAD_TIMEOUT, retryable: true });
+  });
+
+  test('play()被拦截时播放器以自动播放错误码发射error事件', async () => {
+    jest.spyOn(HTMLMediaElement.prototype, 'play').mockRejectedValueOnce(domError('NotAllowedError', 'play() failed'));
+    const element = document.createElement('video');
+    const player = new HTML5VideoAPI(element, { sources: [], hotkeys: false });
+    const onError = jest.fn();
+    player.on('error', onError);
+
+    await expect(player.play()).rejects.toThrow('play() failed');
+
+    expect(onError.mock.calls[0][0].payload).toMatchObject({
+      code: VideoErrorCode.AUTOPLAY_BLOCKED,
+      message: 'play() failed',
+      fatal: false
+    });
+    player.destroy();
+  });
+});
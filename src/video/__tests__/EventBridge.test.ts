@@ -0,0 +1,195 @@
+import { EventDelegate, VideoEventEmitter } from '../EventEmitter';
+import { EventBridge, createPlayerCommands, isValidVideoEventData } from '../EventBridge';
+import type { BridgeMessage, BridgeTransport } from '../EventBridge';
+import type { IVideoPlayer, VideoError, VideoEventData, VideoEventMap, VideoEventType, VideoSource } from '../types';
+
+// 同步的内存传输对，模拟两个页面之间的通道
+const createTransportPair = (originA: string | null = null, originB: string | null = null) => {
+  const handlers: Array<Set<(message: unknown, origin: string | null) => void>> = [new Set(), new Set()];
+  const create = (self: number, origin: string | null): BridgeTransport & { sent: BridgeMessage[] } => {
+    const sent: BridgeMessage[] = [];
+    return {
+      sent,
+      send: message => {
+        sent.push(message);
+        // 结构化克隆
+        const copy = JSON.parse(JSON.stringify(message));
+        handlers[1 - self].forEach(handler => handler(copy, origin));
+      },
+      listen: handler => {
+        handlers[self].add(handler);
+        return () => handlers[self].delete(handler);
+      }
+    };
+  };
+  return [create(0, originA), create(1, originB)] as const;
+};
+
+const createEventData = <T extends VideoEventType>(
+  type: T,
+  payload = {} as VideoEventData<T>['payload'],
+  currentTime = 1
+): VideoEventData<T> => ({
+  type,
+  timestamp: Date.now(),
+  currentTime,
+  duration: 10,
+  payload
+});
+
+const setup = (options: { allowedOrigins?: string[]; origin?: string | null } = {}) => {
+  const [transportA, transportB] = createTransportPair(options.origin ?? null, options.origin ?? null);
+  const parent = new EventDelegate<VideoEventMap>();
+  const child = new EventDelegate<VideoEventMap>();
+  const parentBridge = new EventBridge(parent, { transport: transportA, peerId: 'parent', timeout: 50 });
+  const childBridge = new EventBridge(child, {
+    transport: transportB,
+    peerId: 'child',
+    allowedOrigins: options.allowedOrigins
+  });
+  return { parent, child, parentBridge, childBridge, transportA, transportB };
+};
+
+describe('EventDelegate', () => {
+  test('注册的发射器事件转发到全局发射器，注销后停止', () => {
+    const delegate = new EventDelegate<VideoEventMap>();
+    const emitter = new VideoEventEmitter<VideoEventMap>();
+    const listener = jest.fn();
+    delegate.getGlobalEmitter().on('video:play', listener);
+
+    delegate.register('main', emitter);
+    emitter.emit('video:play', createEventData('play'));
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'play' }), expect.anything());
+
+    delegate.unregister('main');
+    emitter.emit('video:play', createEventData('play'));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('EventBridge', () => {
+  test('把本端事件镜像到远端的全局发射器，且不回传', () => {
+    const { parent, child, transportB } = setup();
+    const emitter = new VideoEventEmitter<VideoEventMap>();
+    const received = jest.fn();
+    parent.getGlobalEmitter().on('video:pause', received);
+
+    child.register('player', emitter);
+    emitter.emit('video:pause', createEventData('pause', {}, 2));
+
+    expect(received).toHaveBeenCalledWith(expect.objectContaining({ type: 'pause', currentTime: 2 }), expect.anything());
+    expect(transportB.sent).toHaveLength(1);
+  });
+
+  test('拒绝不在白名单内的来源和结构无效的事件', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { child, parentBridge, transportA } = setup({
+      allowedOrigins: ['https://player.example.com'],
+      origin: 'https://evil.example.com'
+    });
+    const received = jest.fn();
+    child.getGlobalEmitter().on('video:*', received);
+
+    parentBridge.destroy();
+    transportA.send({
+      protocol: 'video-event-bridge',
+      version: 1,
+      peer: 'parent',
+      kind: 'event',
+      event: 'video:play',
+      data: createEventData('play')
+    });
+    expect(received).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith("Rejected event bridge message from disallowed origin 'https://evil.example.com'");
+    warnSpy.mockRestore();
+  });
+
+  test('事件名与数据类型不一致时丢弃', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { child, transportA } = setup();
+    const received = jest.fn();
+    child.getGlobalEmitter().on('video:*', received);
+
+    transportA.send({
+      protocol: 'video-event-bridge',
+      version: 1,
+      peer: 'intruder',
+      kind: 'event',
+      event: 'video:play',
+      data: { ...createEventData('error'), timestamp: 'now' } as unknown as VideoEventData
+    });
+    expect(received).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith('Rejected malformed event bridge message:', expect.anything());
+    warnSpy.mockRestore();
+  });
+
+  test('未知事件类型和payload结构不符的事件被拒绝', () => {
+    const error: VideoError = { type: 'network', code: 1002, message: 'offline', timestamp: 1, fatal: true };
+    const source: VideoSource = { src: 'https://cdn.example.com/video.mp4', type: 'mp4' };
+    const valid = [
+      createEventData('error', error),
+      createEventData('qualitychange', { from: 'auto', to: '720p' }),
+      createEventData('sourcechange', { from: null, to: source, reason: 'error', index: 1, error }),
+      createEventData('timeupdate', { currentTime: 1, duration: 10 }),
+      createEventData('volumechange', { volume: 0.5, muted: false }),
+      createEventData('ratechange', { rate: 1.5, preservesPitch: true })
+    ];
+    valid.forEach(data => expect(isValidVideoEventData(`video:${data.type}`, data)).toBe(true));
+
+    const invalid = [
+      { ...createEventData('play'), type: 'hijack' },
+      { ...createEventData('error'), payload: null },
+      { ...createEventData('error'), payload: { ...error, fatal: 'yes' } },
+      { ...createEventData('qualitychange'), payload: { from: 'auto', to: '8k' } },
+      { ...createEventData('sourcechange'), payload: { from: null, to: { src: 1 }, reason: 'error', index: 1 } },
+      { ...createEventData('sourcechange'), payload: { from: null, to: source, reason: 'manual', index: 1 } },
+      { ...createEventData('timeupdate'), payload: { currentTime: 'now', duration: 10 } },
+      { ...createEventData('volumechange'), payload: { volume: 2, muted: false } },
+      { ...createEventData('ratechange'), payload: { rate: 1 } }
+    ];
+    invalid.forEach(data => expect(isValidVideoEventData(`video:${data.type}`, data)).toBe(false));
+
+    // 插件事件只有在events中列出时才被接受
+    const pluginEvent = { ...createEventData('play'), type: 'watermark:shown' };
+    expect(isValidVideoEventData('video:watermark:shown', pluginEvent, new Set(['watermark:shown']))).toBe(true);
+
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { child, transportA } = setup();
+    const received = jest.fn();
+    child.getGlobalEmitter().on('video:*', received);
+    transportA.send({
+      protocol: 'video-event-bridge',
+      version: 1,
+      peer: 'intruder',
+      kind: 'event',
+      event: 'video:error',
+      data: { ...createEventData('error'), payload: null } as unknown as VideoEventData
+    });
+    expect(received).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith('Rejected malformed event bridge message:', expect.anything());
+    warnSpy.mockRestore();
+  });
+
+  test('父页面发送命令暂停远端所有播放器并收到响应', async () => {
+    const { parentBridge, childBridge } = setup();
+    const players = [{ pause: jest.fn() }, { pause: jest.fn() }] as unknown as IVideoPlayer[];
+    childBridge.handle('pause', createPlayerCommands(() => players).pause);
+
+    await expect(parentBridge.request('pause', undefined, { target: 'child' })).resolves.toEqual([
+      { peer: 'child', ok: true, result: 2, error: undefined }
+    ]);
+    players.forEach(player => expect(player.pause).toHaveBeenCalled());
+  });
+
+  test('命令失败时返回错误，没有远端响应时超时拒绝', async () => {
+    const { parentBridge, childBridge } = setup();
+    childBridge.handle('seek', () => {
+      throw new Error('not seekable');
+    });
+
+    await expect(parentBridge.request('seek', 10, { expect: 1 })).resolves.toEqual([
+      { peer: 'child', ok: false, result: undefined, error: 'not seekable' }
+    ]);
+    await expect(parentBridge.request('unknown')).rejects.toThrow("Event bridge command 'unknown' timed out");
+  });
+});
@@ -0,0 +1,155 @@
+import { VideoEventEmitter, VideoEventEmitterWithMiddleware } from '../EventEmitter';
+
+// 测试事件映射：载荷只用于区分调用，不携带数据
+type TestPayload = Record<string, never>;
+
+type TestEventMap = {
+  'video:play': TestPayload;
+  'video:pause': TestPayload;
+  'video:seeking': TestPayload;
+  'video:ended': TestPayload;
+  'video:error': TestPayload;
+  'video:timeupdate': TestPayload;
+  'playlist:change': TestPayload;
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('VideoEventEmitter', () => {
+  test('按优先级执行监听器，同优先级按注册顺序', () => {
+    const emitter = new VideoEventEmitter<TestEventMap>();
+    const calls: string[] = [];
+
+    emitter.on('video:play', () => calls.push('default-1'));
+    emitter.on('video:play', () => calls.push('low'), { priority: -1 });
+    emitter.on('video:play', () => calls.push('high'), { priority: 10 });
+    emitter.on('video:play', () => calls.push('default-2'));
+
+    expect(emitter.emit('video:play', {})).toBe(true);
+    expect(calls).toEqual(['high', 'default-1', 'default-2', 'low']);
+  });
+
+  test('stopPropagation后低优先级监听器不再执行', () => {
+    const emitter = new VideoEventEmitter<TestEventMap>();
+    const low = jest.fn();
+
+    emitter.on('video:seeking', (_data, control) => control.stopPropagation(), { priority: 1 });
+    emitter.on('video:seeking', low);
+    emitter.emit('video:seeking', {});
+
+    expect(low).not.toHaveBeenCalled();
+  });
+
+  test('AbortSignal中止时移除监听器，once只触发一次', () => {
+    const emitter = new VideoEventEmitter<TestEventMap>();
+    const controller = new AbortController();
+    const aborted = jest.fn();
+    const onceListener = jest.fn();
+
+    emitter.on('video:pause', aborted, { signal: controller.signal });
+    emitter.on('video:pause', onceListener, { once: true });
+    controller.abort();
+    emitter.emit('video:pause', {});
+    emitter.emit('video:pause', {});
+
+    expect(aborted).not.toHaveBeenCalled();
+    expect(onceListener).toHaveBeenCalledTimes(1);
+    expect(emitter.hasListeners('video:pause')).toBe(false);
+
+    // 已中止的signal不会注册
+    emitter.on('video:pause', aborted, { signal: controller.signal });
+    expect(emitter.listenerCount('video:pause')).toBe(0);
+  });
+
+  test('通配监听器按命名空间匹配，并与普通监听器一起排序', () => {
+    const emitter = new VideoEventEmitter<TestEventMap>();
+    const calls: string[] = [];
+
+    emitter.on('video:*', (_data, control) => calls.push(`video:* ${String(control.name)}`), { priority: 1 });
+    emitter.on('*', (_data, control) => calls.push(`* ${String(control.name)}`));
+    emitter.on('video:play', () => calls.push('video:play'), { priority: 2 });
+
+    emitter.emit('video:play', {});
+    emitter.emit('playlist:change', {});
+
+    expect(calls).toEqual([
+      'video:play',
+      'video:* video:play',
+      '* video:play',
+      '* playlist:change'
+    ]);
+  });
+
+  test('emitAsync串行模式逐个等待异步监听器，并行模式同时启动', async () => {
+    const emitter = new VideoEventEmitter<TestEventMap>();
+    const calls: string[] = [];
+    let release: () => void = () => {};
+    const gate = new Promise<void>(resolve => {
+      release = resolve;
+    });
+
+    emitter.on('video:ended', async () => {
+      calls.push('first:start');
+      await gate;
+      calls.push('first:end');
+    });
+    emitter.on('video:ended', () => {
+      calls.push('second');
+    });
+
+    const series = emitter.emitAsync('video:ended', {});
+    await flush();
+    expect(calls).toEqual(['first:start']);
+    release();
+    await expect(series).resolves.toBe(true);
+    expect(calls).toEqual(['first:start', 'first:end', 'second']);
+
+    calls.length = 0;
+    await emitter.emitAsync('video:ended', {}, 'parallel');
+    expect(calls).toEqual(['first:start', 'second', 'first:end']);
+  });
+
+  test('异步监听器拒绝时记录错误，不影响后续监听器', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const emitter = new VideoEventEmitter<TestEventMap>();
+    const after = jest.fn();
+
+    emitter.on('video:error', async () => {
+      throw new Error('boom');
+    });
+    emitter.on('video:error', after);
+
+    await expect(emitter.emitAsync('video:error', {})).resolves.toBe(true);
+    expect(after).toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith("Error in event listener for 'video:error':", expect.any(Error));
+    errorSpy.mockRestore();
+  });
+
+  test('超出最大监听器数量时警告一次并附带注册调用栈', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const emitter = new VideoEventEmitter<TestEventMap>().setMaxListeners(2);
+
+    for (let i = 0; i < 4; i++) {
+      emitter.on('video:timeupdate', () => {});
+    }
+
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+    expect(warnSpy.mock.calls[0][0]).toContain("Maximum listeners (2) exceeded for event 'video:timeupdate'");
+    expect(warnSpy.mock.calls[0][0]).toContain('EventEmitter.test.ts');
+    warnSpy.mockRestore();
+  });
+});
+
+describe('VideoEventEmitterWithMiddleware', () => {
+  test('emitAsync经过中间件，中间件拦截时不调用监听器', async () => {
+    const emitter = new VideoEventEmitterWithMiddleware<TestEventMap>();
+    const listener = jest.fn();
+    emitter.on('video:play', listener);
+    emitter.use((event, _data, next) => {
+      if (event !== 'video:play') next();
+    });
+
+    await expect(emitter.emitAsync('video:play', {})).resolves.toBe(false);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
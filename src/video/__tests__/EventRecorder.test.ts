@@ -0,0 +1,122 @@
+import { EventRecorder, importRecording, replayRecording, buildEventTimeline } from '../EventRecorder';
+import { VideoEventEmitterWithMiddleware, createVideoEventEmitter } from '../EventEmitter';
+import { HTML5VideoAPI } from '../VideoAPI';
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const eventData = (type: string, payload: any = {}) => ({
+  type,
+  timestamp: Date.now(),
+  currentTime: 0,
+  duration: 60,
+  payload
+});
+
+describe('EventRecorder', () => {
+  test('中间件应该以环形缓冲记录事件并继续传递', () => {
+    const emitter = new VideoEventEmitterWithMiddleware<Record<string, any>>();
+    const recorder = new EventRecorder({ capacity: 3 });
+    const listener = jest.fn();
+    emitter.use(recorder.middleware);
+    emitter.on('video:play', listener);
+
+    ['play', 'playing', 'pause', 'play'].forEach(type => emitter.emit(`video:${type}`, eventData(type)));
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(recorder.getEvents().map(entry => entry.event)).toEqual(['video:playing', 'video:pause', 'video:play']);
+    expect(recorder.toJSON().dropped).toBe(1);
+  });
+
+  test('插件应该附带状态快照，并可导出导入JSON', () => {
+    const element = document.createElement('video');
+    Object.defineProperty(element, 'buffered', {
+      configurable: true,
+      value: { length: 1, start: () => 0, end: () => 8 }
+    });
+    const player = new HTML5VideoAPI(element, { sources: [], hotkeys: false });
+    const recorder = new EventRecorder({ exclude: ['timeupdate'] });
+    player.use(recorder.plugin());
+
+    element.currentTime = 3;
+    element.dispatchEvent(new Event('timeupdate'));
+    element.dispatchEvent(new Event('waiting'));
+    const container = document.createElement('div');
+    player.emit('fullscreenchange', eventData('fullscreenchange', { isFullscreen: true, element: container }) as any);
+
+    const recording = importRecording(recorder.export());
+    expect(recording.events.map(entry => entry.event)).toEqual(['video:waiting', 'video:buffering', 'video:fullscreenchange']);
+    expect(recording.events[0].snapshot).toEqual({ state: 'waiting', currentTime: 3, bufferLevel: 5, stream: null });
+    expect(recording.events[2].data.payload.element).toBe('div');
+
+    expect(() => importRecording('{"version":99,"events":[]}')).toThrow('Unsupported event recording');
+    player.destroy();
+  });
+
+  test('应该按录制间隔和倍速回放到新的发射器', async () => {
+    jest.useFakeTimers();
+    const recording = {
+      version: 1 as const,
+      startedAt: 0,
+      dropped: 0,
+      events: [
+        { event: 'video:play', time: 0, data: eventData('play'), snapshot: null },
+        { event: 'video:waiting', time: 1000, data: eventData('waiting'), snapshot: null },
+        { event: 'video:playing', time: 3000, data: eventData('playing'), snapshot: null }
+      ]
+    };
+    const emitter = createVideoEventEmitter();
+    const received: string[] = [];
+    ['play', 'waiting', 'playing'].forEach(type => emitter.onVideoEvent(type as any, event => received.push(event.type)));
+
+    const replay = replayRecording(recording, emitter, { speed: 2 });
+    jest.advanceTimersByTime(0);
+    expect(received).toEqual(['play']);
+    jest.advanceTimersByTime(499);
+    expect(received).toEqual(['play']);
+    jest.advanceTimersByTime(1);
+    expect(received).toEqual(['play', 'waiting']);
+    jest.advanceTimersByTime(1000);
+    await replay.finished;
+    expect(received).toEqual(['play', 'waiting', 'playing']);
+
+    received.length = 0;
+    replayRecording(recording, emitter, { speed: Infinity });
+    expect(received).toEqual(['play', 'waiting', 'playing']);
+    jest.useRealTimers();
+  });
+
+  test('时间线应该合并状态区间并提取缓冲量、质量切换和标记', () => {
+    const snapshot = (state: any, bufferLevel: number) => ({ state, currentTime: 0, bufferLevel, stream: null });
+    const timeline = buildEventTimeline({
+      version: 1,
+      startedAt: 0,
+      dropped: 0,
+      events: [
+        { event: 'video:playing', time: 0, data: eventData('playing'), snapshot: snapshot('playing', 10) },
+        { event: 'video:qualitychange', time: 500, data: eventData('qualitychange', { from: '720p', to: '1080p' }), snapshot: snapshot('playing', 6) },
+        { event: 'video:waiting', time: 1000, data: eventData('waiting'), snapshot: snapshot('waiting', 0) },
+        { event: 'video:buffering', time: 1000, data: eventData('buffering', { isBuffering: true, bufferLevel: 0 }), snapshot: snapshot('waiting', 0) },
+        { event: 'video:playing', time: 2500, data: eventData('playing'), snapshot: snapshot('playing', 4) }
+      ]
+    });
+
+    expect(timeline.duration).toBe(2500);
+    expect(timeline.states).toEqual([
+      { state: 'playing', start: 0, end: 1000 },
+      { state: 'waiting', start: 1000, end: 2500 },
+      { state: 'playing', start: 2500, end: 2500 }
+    ]);
+    expect(timeline.buffer.map(point => point.level)).toEqual([10, 6, 0, 0, 4]);
+    expect(timeline.qualitySwitches).toEqual([{ time: 500, from: '720p', to: '1080p' }]);
+    expect(timeline.markers).toEqual([{ time: 1000, type: 'buffering', label: 'buffering' }]);
+  });
+});
@@ -0,0 +1,388 @@
+import Hls from 'hls.js';
+import { HLSPlayer } from '../HLSPlayer';
+import type { HLSRecoveryPolicy, HLSVideoConfig, TextTrackConfig, VideoEventType, VideoSource } from '../types';
+
+// jsdom不支持MSE，用可手动触发事件的hls.js替身
+jest.mock('hls.js', () => {
+  class MockHls {
+    static instances: MockHls[] = [];
+    static Events = {
+      MEDIA_ATTACHED: 'hlsMediaAttached',
+      MANIFEST_LOADED: 'hlsManifestLoaded',
+      LEVEL_LOADED: 'hlsLevelLoaded',
+      LEVEL_SWITCHING: 'hlsLevelSwitching',
+      FRAG_BUFFERED: 'hlsFragBuffered',
+      SUBTITLE_TRACKS_UPDATED: 'hlsSubtitleTracksUpdated',
+      AUDIO_TRACKS_UPDATED: 'hlsAudioTracksUpdated',
+      AUDIO_TRACK_SWITCHED: 'hlsAudioTrackSwitched',
+      ERROR: 'hlsError',
+      BUFFER_FLUSHING: 'hlsBufferFlushing'
+    };
+    static isSupported = () => true;
+
+    handlers = new Map<string, (event: string, data: unknown) => void>();
+    levels: unknown[] = [];
+    currentLevel = -1;
+    audioTrack = -1;
+    subtitleTrack = -1;
+    subtitleDisplay = false;
+    attachMedia = jest.fn();
+    loadSource = jest.fn();
+    startLoad = jest.fn();
+    recoverMediaError = jest.fn();
+    swapAudioCodec = jest.fn();
+    destroy = jest.fn();
+
+    constructor(public config: Record<string, unknown>) {
+      MockHls.instances.push(this);
+    }
+
+    on(event: string, handler: (event: string, data: unknown) => void) {
+      this.handlers.set(event, handler);
+    }
+
+    trigger(event: string, data: unknown) {
+      this.handlers.get(event)?.(event, data);
+    }
+  }
+
+  return { __esModule: true, default: MockHls };
+});
+
+interface MockHlsInstance {
+  levels: unknown[];
+  currentLevel: number;
+  audioTrack: number;
+  subtitleTrack: number;
+  subtitleDisplay: boolean;
+  attachMedia: jest.Mock;
+  loadSource: jest.Mock;
+  startLoad: jest.Mock;
+  recoverMediaError: jest.Mock;
+  swapAudioCodec: jest.Mock;
+  destroy: jest.Mock;
+  trigger(event: string, data: unknown): void;
+}
+
+const MockHls = Hls as unknown as { instances: MockHlsInstance[] };
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const HLS_SOURCE = { src: 'https://cdn.example.com/stream.m3u8', type: 'hls' as const };
+
+const createPlayer = (
+  options: { recovery?: HLSRecoveryPolicy; sources?: VideoSource[]; textTracks?: TextTrackConfig[]; preferredLanguage?: string } = {}
+) => {
+  const element = document.createElement('video');
+  // 只声明支持MP4，HLS源交给hls.js
+  jest.spyOn(element, 'canPlayType').mockImplementation(type => (type === 'video/mp4' ? 'maybe' : ''));
+  // hls.js把字幕渲染为元素上动态添加的TextTrack
+  const trackList = Object.assign(new EventTarget(), { length: 0 });
+  Object.defineProperty(element, 'textTracks', { value: trackList });
+  const config = {
+    sources: options.sources ?? [HLS_SOURCE],
+    hotkeys: false,
+    textTracks: options.textTracks,
+    preferredLanguage: options.preferredLanguage,
+    hls: { recovery: options.recovery }
+  } as HLSVideoConfig;
+  const player = new HLSPlayer(element, config);
+  // 重新初始化会创建新实例，始终取最新的一个
+  const hls = () => MockHls.instances[MockHls.instances.length - 1];
+  const record = <T extends VideoEventType>(type: T) => {
+    const payloads: any[] = [];
+    player.on(type, event => payloads.push(event.payload));
+    return payloads;
+  };
+  const fail = (type: string, details: string) => {
+    hls().trigger(Hls.Events.ERROR, { type, details, fatal: true });
+  };
+  const addTextTrack = (track: EventTarget) => {
+    trackList.dispatchEvent(Object.assign(new Event('addtrack'), { track }));
+  };
+  return { player, element, hls, record, fail, addTextTrack };
+};
+
+describe('HLSPlayer', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    MockHls.instances.length = 0;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('错误恢复', () => {
+    test('网络错误应该按指数退避重新加载，超过最大次数后放弃', () => {
+      const { player, hls, record, fail } = createPlayer();
+      const recovering = record('recovering');
+      const failed = record('recoveryfailed');
+      const errors = record('error');
+
+      for (let attempt = 1; attempt <= 3; attempt++) {
+        fail('networkError', 'fragLoadError');
+        expect(recovering[attempt - 1]).toMatchObject({
+          errorClass: 'network',
+          stage: 'startLoad',
+          attempt,
+          maxAttempts: 3,
+          delay: 500 * Math.pow(2, attempt - 1)
+        });
+        expect(player.getRecoveryState().recovering).toBe(true);
+
+        // 退避时间未到不执行
+        jest.advanceTimersByTime(recovering[attempt - 1].delay - 1);
+        expect(hls().startLoad).toHaveBeenCalledTimes(attempt - 1);
+        jest.advanceTimersByTime(1);
+        expect(hls().startLoad).toHaveBeenCalledTimes(attempt);
+      }
+
+      fail('networkError', 'fragLoadError');
+      expect(recovering).toHaveLength(3);
+      expect(failed).toEqual([
+        { errorClass: 'network', attempts: 3, error: expect.objectContaining({ recoverable: false, fatal: true }) }
+      ]);
+      expect(errors.map(error => error.recoverable)).toEqual([true, true, true, false]);
+      // 放弃恢复且没有备用源时进入error状态并计入统计
+      expect(player.state).toBe('error');
+      expect(player.stats.errorCount).toBe(1);
+      player.destroy();
+    });
+
+    test('第二次媒体错误应该先切换音频编解码器，恢复后在稳定窗口结束时重置计数', () => {
+      const { player, hls, record, fail } = createPlayer();
+      const recovering = record('recovering');
+      const recovered = record('recovered');
+
+      fail('mediaError', 'bufferAppendError');
+      jest.advanceTimersByTime(500);
+      expect(hls().recoverMediaError).toHaveBeenCalledTimes(1);
+      expect(hls().swapAudioCodec).not.toHaveBeenCalled();
+
+      fail('mediaError', 'bufferAppendError');
+      jest.advanceTimersByTime(1000);
+      expect(recovering.map(plan => plan.stage)).toEqual(['recoverMediaError', 'swapAudioCodec']);
+      expect(hls().swapAudioCodec).toHaveBeenCalledTimes(1);
+      expect(hls().recoverMediaError).toHaveBeenCalledTimes(2);
+
+      // 分片重新缓冲视为恢复成功
+      hls().trigger(Hls.Events.FRAG_BUFFERED, {});
+      expect(recovered).toEqual([{ errorClass: 'media', stage: 'swapAudioCodec', attempts: 2 }]);
+      expect(player.getRecoveryState()).toEqual({
+        attempts: { network: 0, media: 2, other: 0 },
+        recovering: false
+      });
+
+      jest.advanceTimersByTime(30000);
+      expect(player.getRecoveryState().attempts.media).toBe(0);
+      player.destroy();
+    });
+
+    test('应该遵循自定义策略：关闭编解码器切换、限制最大延迟，其他错误重新初始化', () => {
+      const { player, hls, record, fail } = createPlayer({
+        recovery: { maxAttempts: { media: 3, other: 2 }, baseDelay: 1000, maxDelay: 1500, swapAudioCodec: false }
+      });
+      const recovering = record('recovering');
+
+      fail('mediaError', 'bufferStalledError');
+      fail('mediaError', 'bufferStalledError');
+      expect(recovering.map(({ stage, delay }) => ({ stage, delay }))).toEqual([
+        { stage: 'recoverMediaError', delay: 1000 },
+        { stage: 'recoverMediaError', delay: 1500 }
+      ]);
+
+      // 后一次调度取消前一次，只执行一次
+      jest.advanceTimersByTime(1500);
+      expect(hls().recoverMediaError).toHaveBeenCalledTimes(1);
+      expect(hls().swapAudioCodec).not.toHaveBeenCalled();
+
+      const first = hls();
+      fail('otherError', 'internalException');
+      jest.advanceTimersByTime(1000);
+      expect(recovering[2]).toMatchObject({ errorClass: 'other', stage: 'reinitialize', maxAttempts: 2 });
+      expect(first.destroy).toHaveBeenCalled();
+      expect(MockHls.instances).toHaveLength(2);
+      expect(hls().loadSource).toHaveBeenCalledWith(HLS_SOURCE.src);
+      player.destroy();
+    });
+
+    test('不可恢复的错误应该直接放弃，有备用源时切换', () => {
+      const fallback = { src: 'https://cdn.example.com/video.mp4', type: 'mp4' as const };
+      const { player, element, hls, record, fail } = createPlayer({ sources: [HLS_SOURCE, fallback] });
+      const recovering = record('recovering');
+      const failed = record('recoveryfailed');
+      const errors = record('error');
+      const sourceChanges = record('sourcechange');
+      const first = hls();
+
+      fail('networkError', 'manifestParsingError');
+      jest.runAllTimers();
+
+      expect(recovering).toEqual([]);
+      expect(first.startLoad).not.toHaveBeenCalled();
+      expect(failed).toEqual([
+        { errorClass: 'network', attempts: 0, error: expect.objectContaining({ recoverable: false }) }
+      ]);
+      // 已切换到备用源，错误不再是致命的
+      expect(errors).toEqual([expect.objectContaining({ fatal: false, recoverable: false })]);
+      expect(sourceChanges).toEqual([expect.objectContaining({ to: fallback, reason: 'error' })]);
+      expect(first.destroy).toHaveBeenCalled();
+      expect(element.src).toBe(fallback.src);
+      player.destroy();
+    });
+
+    test('非致命错误只发射error，不进入恢复流程', () => {
+      const { player, hls, record } = createPlayer();
+      const recovering = record('recovering');
+      const errors = record('error');
+
+      hls().trigger(Hls.Events.ERROR, { type: 'networkError', details: 'fragLoadError', fatal: false });
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].recoverable).toBeUndefined();
+      expect(recovering).toEqual([]);
+      expect(player.getRecoveryState().recovering).toBe(false);
+      player.destroy();
+    });
+  });
+
+  describe('质量', () => {
+    test('应该按画质列出级别，手动切换发射qualitychange并计数，自动切换只报告实际变化', () => {
+      const { player, hls, record } = createPlayer();
+      const changes = record('qualitychange');
+
+      hls().trigger(Hls.Events.MANIFEST_LOADED, {
+        levels: [
+          { bitrate: 800000, width: 640, height: 360 },
+          { bitrate: 5000000, width: 1920, height: 1080 },
+          { bitrate: 2500000, width: 1280, height: 720 }
+        ]
+      });
+      expect(player.getAvailableQualities()).toEqual(['auto', '1080p', '720p', '360p']);
+
+      hls().trigger(Hls.Events.LEVEL_SWITCHING, { level: 0 });
+      player.setQuality('720p');
+      player.setQuality('720p');
+      player.setQuality('2160p');
+      expect(hls().currentLevel).toBe(2);
+
+      // 手动选择期间hls.js的级别切换不重复报告
+      hls().trigger(Hls.Events.LEVEL_SWITCHING, { level: 2 });
+      player.setQuality('auto');
+      expect(hls().currentLevel).toBe(-1);
+
+      expect(changes).toEqual([
+        { from: 'auto', to: '360p' },
+        { from: 'auto', to: '720p' },
+        { from: '720p', to: 'auto' }
+      ]);
+      expect(player.stats.qualityChanges).toBe(2);
+      player.destroy();
+    });
+  });
+
+  describe('字幕', () => {
+    test('应该合并HLS字幕与配置轨道，按默认标记选择并转发其cue', () => {
+      const { player, hls, record, addTextTrack } = createPlayer({
+        textTracks: [{ id: 'commentary', label: 'Commentary', language: 'en', src: 'https://cdn.example.com/commentary.vtt' }]
+      });
+      const changes = record('texttrackchange');
+      const cueChanges = record('cuechange');
+
+      hls().trigger(Hls.Events.SUBTITLE_TRACKS_UPDATED, {
+        subtitleTracks: [
+          { name: 'English', lang: 'en' },
+          { name: '中文', lang: 'zh', default: true, characteristics: 'public.accessibility.describes-music-and-sound' }
+        ]
+      });
+
+      expect(player.getTextTracks()).toEqual([
+        { id: 'commentary', kind: 'subtitles', label: 'Commentary', language: 'en', origin: 'config', active: false },
+        { id: 'hls-0', kind: 'subtitles', label: 'English', language: 'en', origin: 'stream', active: false },
+        { id: 'hls-1', kind: 'captions', label: '中文', language: 'zh', origin: 'stream', active: true }
+      ]);
+      expect(hls().subtitleTrack).toBe(1);
+      expect(hls().subtitleDisplay).toBe(true);
+      expect(changes.map(({ from, to }) => ({ from, to }))).toEqual([
+        { from: null, to: null },
+        { from: null, to: 'hls-1' }
+      ]);
+
+      // hls.js创建的TextTrack按名称和语言解析回字幕ID
+      const cue = { id: 'c1', startTime: 3, endTime: 5, text: '[音乐]' };
+      const textTrack = Object.assign(new EventTarget(), { kind: 'captions', label: '中文', language: 'zh', mode: 'showing', activeCues: [cue] });
+      addTextTrack(textTrack);
+      textTrack.dispatchEvent(new Event('cuechange'));
+      expect(cueChanges).toEqual([{ trackId: 'hls-1', cues: [cue] }]);
+
+      player.setTextTrack('commentary');
+      expect(hls().subtitleTrack).toBe(-1);
+      expect(hls().subtitleDisplay).toBe(false);
+      expect(changes[2]).toMatchObject({ from: 'hls-1', to: 'commentary' });
+      player.destroy();
+    });
+  });
+
+  describe('音轨', () => {
+    const AUDIO_TRACKS = [
+      { name: 'English', lang: 'en', default: true },
+      { name: '中文', lang: 'zh' },
+      { lang: 'en', characteristics: 'public.accessibility.describes-video' }
+    ];
+
+    test('应该列出hls.js音轨并按首选语言切换，切换完成后发射audiotrackchange', () => {
+      const { player, hls, record } = createPlayer({ preferredLanguage: 'zh-CN' });
+      const changes = record('audiotrackchange');
+
+      hls().audioTrack = 0;
+      hls().trigger(Hls.Events.AUDIO_TRACKS_UPDATED, { audioTracks: AUDIO_TRACKS });
+
+      expect(player.getAudioTracks()).toEqual([
+        { id: 'hls-audio-0', label: 'English', language: 'en', kind: 'main', active: false },
+        { id: 'hls-audio-1', label: '中文', language: 'zh', kind: 'main', active: true },
+        { id: 'hls-audio-2', label: 'en', language: 'en', kind: 'description', active: false }
+      ]);
+      expect(hls().audioTrack).toBe(1);
+
+      // hls.js完成切换后才报告
+      hls().trigger(Hls.Events.AUDIO_TRACK_SWITCHED, { id: 1 });
+      expect(changes.map(({ from, to }) => ({ from, to }))).toEqual([
+        { from: null, to: 'hls-audio-0' },
+        { from: 'hls-audio-0', to: 'hls-audio-1' }
+      ]);
+      player.destroy();
+    });
+
+    test('setAudioTrack应该设置hls.js音轨，未知音轨忽略', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const { player, hls, record } = createPlayer();
+      const changes = record('audiotrackchange');
+
+      hls().audioTrack = 0;
+      hls().trigger(Hls.Events.AUDIO_TRACKS_UPDATED, { audioTracks: AUDIO_TRACKS });
+      expect(hls().audioTrack).toBe(0);
+
+      player.setAudioTrack('hls-audio-2');
+      player.setAudioTrack('hls-audio-9');
+      expect(warnSpy).toHaveBeenCalledWith("Audio track 'hls-audio-9' does not exist");
+      expect(hls().audioTrack).toBe(2);
+
+      hls().trigger(Hls.Events.AUDIO_TRACK_SWITCHED, { id: 2 });
+      hls().trigger(Hls.Events.AUDIO_TRACK_SWITCHED, { id: 2 });
+      expect(changes.map(({ to }) => to)).toEqual(['hls-audio-0', 'hls-audio-2']);
+      warnSpy.mockRestore();
+      player.destroy();
+    });
+  });
+});
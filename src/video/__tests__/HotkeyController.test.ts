@@ -0,0 +1,120 @@
+import { HTML5VideoAPI } from '../VideoAPI';
+import type { VideoConfig } from '../types';
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const createPlayer = (config: Partial<VideoConfig> = {}) => {
+  const element = document.createElement('video');
+  Object.defineProperty(element, 'duration', { value: 100, configurable: true });
+  const player = new HTML5VideoAPI(element, {
+    sources: [{ src: 'https://cdn.example.com/video.mp4', type: 'mp4' }],
+    ...config
+  });
+  return { element, player };
+};
+
+const press = (target: HTMLElement, key: string, init: KeyboardEventInit = {}) => {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init });
+  target.dispatchEvent(event);
+  return event;
+};
+
+describe('HotkeyController', () => {
+  test('默认启用快捷键并使元素可聚焦', () => {
+    const { element, player } = createPlayer();
+
+    expect(player.hotkeys).not.toBeNull();
+    expect(element.tabIndex).toBe(0);
+    player.destroy();
+  });
+
+  test('hotkeys为false时不应该创建控制器', () => {
+    const { player } = createPlayer({ hotkeys: false });
+
+    expect(player.hotkeys).toBeNull();
+    player.destroy();
+  });
+
+  test('应该处理播放、跳转、音量和百分比跳转', () => {
+    const { element, player } = createPlayer();
+    const playSpy = jest.spyOn(player, 'play');
+
+    expect(press(element, ' ').defaultPrevented).toBe(true);
+    expect(playSpy).toHaveBeenCalledTimes(1);
+
+    press(element, 'l');
+    expect(element.currentTime).toBe(10);
+    press(element, 'ArrowLeft');
+    expect(element.currentTime).toBe(5);
+    press(element, '5');
+    expect(element.currentTime).toBe(50);
+
+    press(element, 'ArrowDown');
+    expect(element.volume).toBeCloseTo(0.9);
+    press(element, 'M');
+    expect(element.muted).toBe(true);
+
+    press(element, '>');
+    expect(element.playbackRate).toBe(1.25);
+    player.destroy();
+  });
+
+  test('直播时应该在可跳转窗口内前后跳转', () => {
+    const { element, player } = createPlayer();
+    Object.defineProperty(element, 'duration', { value: Infinity, configurable: true });
+    Object.defineProperty(element, 'seekable', {
+      configurable: true,
+      value: { length: 1, start: () => 600, end: () => 660 }
+    });
+    element.currentTime = 650;
+
+    press(element, 'ArrowLeft');
+    expect(element.currentTime).toBe(645);
+    press(element, 'l');
+    expect(element.currentTime).toBe(655);
+    press(element, 'l');
+    expect(element.currentTime).toBe(660);
+
+    element.currentTime = 605;
+    press(element, 'j');
+    expect(element.currentTime).toBe(600);
+    player.destroy();
+  });
+
+  test('应该支持重新映射并忽略组合键和输入框', () => {
+    const container = document.createElement('div');
+    const input = document.createElement('input');
+    container.appendChild(input);
+    const { element, player } = createPlayer({
+      hotkeys: { container, keymap: { toggleMute: ['x'], seekForwardLong: [] } }
+    });
+
+    press(container, 'x');
+    expect(element.muted).toBe(true);
+    press(container, 'm');
+    expect(element.muted).toBe(true);
+
+    press(container, 'l');
+    press(container, 'ArrowRight', { ctrlKey: true });
+    press(input, 'ArrowRight');
+    expect(element.currentTime).toBe(0);
+    player.destroy();
+  });
+
+  test('销毁后不应该再响应按键', () => {
+    const { element, player } = createPlayer();
+    player.destroy();
+
+    expect(press(element, 'm').defaultPrevented).toBe(false);
+    expect(element.hasAttribute('tabindex')).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import { LiveController } from '../LiveController';
+import type { LiveControllerOptions } from '../LiveController';
+import { HTML5VideoAPI } from '../VideoAPI';
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+// 模拟直播流：seekable窗口随直播点前移
+const mockLiveElement = (element: HTMLVideoElement, window: { start: number; end: number }) => {
+  Object.defineProperty(element, 'duration', { value: Infinity, configurable: true });
+  Object.defineProperty(element, 'paused', { value: false, configurable: true, writable: true });
+  Object.defineProperty(element, 'seekable', {
+    configurable: true,
+    get: () => ({ length: 1, start: () => window.start, end: () => window.end })
+  });
+};
+
+const createController = (options: Partial<LiveControllerOptions> = {}) => {
+  const element = document.createElement('video');
+  const window = { start: 100, end: 160 };
+  mockLiveElement(element, window);
+
+  const onLiveEdgeChange = jest.fn();
+  const controller = new LiveController(element, {
+    isLive: () => true,
+    getDefaultTargetLatency: () => null,
+    onLiveEdgeChange,
+    ...options
+  });
+
+  const playAt = (time: number) => {
+    element.currentTime = time;
+    element.dispatchEvent(new Event('timeupdate'));
+  };
+
+  return { element, window, controller, onLiveEdgeChange, playAt };
+};
+
+describe('LiveController', () => {
+  test('应该从seekable计算DVR窗口和直播延迟', () => {
+    const { element, controller } = createController({ config: { targetLatency: 4 } });
+
+    expect(controller.getWindow()).toEqual({ start: 100, end: 160, duration: 60 });
+
+    element.currentTime = 150;
+    expect(controller.getLatency()).toBe(10);
+
+    controller.seekToLiveEdge();
+    expect(element.currentTime).toBe(156);
+    controller.destroy();
+  });
+
+  test('非直播时不提供窗口和延迟', () => {
+    const { controller } = createController({ isLive: () => false });
+
+    expect(controller.getWindow()).toBeNull();
+    expect(controller.getLatency()).toBeNull();
+    controller.destroy();
+  });
+
+  test('应该在延迟偏离目标时限速追赶', () => {
+    const { element, controller, playAt } = createController({
+      config: { targetLatency: 3, liveEdgeThreshold: 10 }
+    });
+
+    playAt(152);
+    expect(element.playbackRate).toBe(1.1);
+    expect(controller.catchUpRate).toBe(1.1);
+
+    playAt(156.2);
+    expect(element.playbackRate).toBe(1.04);
+
+    playAt(157);
+    expect(element.playbackRate).toBe(1);
+    expect(controller.catchUpRate).toBeNull();
+
+    playAt(158.9);
+    expect(element.playbackRate).toBe(0.95);
+    controller.destroy();
+  });
+
+  test('用户手动改速或落后直播时不追赶', () => {
+    const { element, controller, playAt } = createController({
+      config: { targetLatency: 3, liveEdgeThreshold: 10 }
+    });
+
+    element.playbackRate = 1.5;
+    playAt(152);
+    expect(element.playbackRate).toBe(1.5);
+
+    element.playbackRate = 1;
+    playAt(120);
+    expect(element.playbackRate).toBe(1);
+    controller.destroy();
+  });
+
+  test('播放器应该在进入和离开直播点时发射事件', () => {
+    const element = document.createElement('video');
+    mockLiveElement(element, { start: 0, end: 60 });
+    const player = new HTML5VideoAPI(element, { sources: [], hotkeys: false, live: { targetLatency: 4 } });
+    const events: string[] = [];
+    player.on('liveedge', event => events.push(`liveedge:${event.payload.latency}`));
+    player.on('behindlive', event => events.push(`behindlive:${event.payload.latency}`));
+
+    expect(player.isLive).toBe(true);
+
+    element.currentTime = 56;
+    element.dispatchEvent(new Event('timeupdate'));
+    element.currentTime = 30;
+    element.dispatchEvent(new Event('seeked'));
+    player.seekToLiveEdge();
+    element.dispatchEvent(new Event('seeked'));
+
+    expect(events).toEqual(['liveedge:4', 'behindlive:30', 'liveedge:4']);
+    expect(player.getLiveLatency()).toBe(4);
+    player.destroy();
+  });
+});
@@ -0,0 +1,117 @@
+import { MPDParseError, parseMPD, parseISODuration, fillSegmentTemplate } from '../MPDParser';
+
+const MANIFEST_URL = 'https://cdn.example.com/vod/movie/manifest.mpd';
+
+const templateMPD = `<?xml version="1.0" encoding="UTF-8"?>
+<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" type="static" mediaPresentationDuration="PT10S" minBufferTime="PT2S">
+  <Period id="p0">
+    <AdaptationSet contentType="video" mimeType="video/mp4">
+      <SegmentTemplate timescale="1000" duration="4000" startNumber="1"
+        initialization="$RepresentationID$/init.mp4" media="$RepresentationID$/seg-$Number%03d$.m4s" />
+      <Representation id="v720" bandwidth="3000000" width="1280" height="720" codecs="avc1.64001f" />
+      <Representation id="v360" bandwidth="800000" width="640" height="360" codecs="avc1.64001e" />
+    </AdaptationSet>
+    <AdaptationSet mimeType="audio/mp4" lang="en">
+      <BaseURL>audio/</BaseURL>
+      <Representation id="a128" bandwidth="128000" codecs="mp4a.40.2">
+        <SegmentTemplate timescale="48000" initialization="init-$Bandwidth$.mp4" media="$Time$.m4s">
+          <SegmentTimeline>
+            <S t="0" d="96000" r="2" />
+            <S d="48000" />
+          </SegmentTimeline>
+        </SegmentTemplate>
+      </Representation>
+    </AdaptationSet>
+  </Period>
+</MPD>`;
+
+describe('MPDParser', () => {
+  describe('parseISODuration', () => {
+    test('应该解析时分秒', () => {
+      expect(parseISODuration('PT1H2M3.5S')).toBe(3723.5);
+      expect(parseISODuration('P1DT1S')).toBe(86401);
+    });
+
+    test('无效值应该返回0', () => {
+      expect(parseISODuration('')).toBe(0);
+      expect(parseISODuration('garbage')).toBe(0);
+      expect(parseISODuration(null)).toBe(0);
+    });
+  });
+
+  describe('fillSegmentTemplate', () => {
+    test('应该替换标识符并支持补零格式', () => {
+      expect(fillSegmentTemplate('$RepresentationID$_$Number%05d$_$Bandwidth$.m4s$$', {
+        representationId: 'v1',
+        bandwidth: 500,
+        number: 42
+      })).toBe('v1_00042_500.m4s$');
+    });
+  });
+
+  describe('parseMPD', () => {
+    test('应该解析基于$Number$的分片模板', () => {
+      const manifest = parseMPD(templateMPD, MANIFEST_URL);
+
+      expect(manifest.type).toBe('static');
+      expect(manifest.duration).toBe(10);
+      expect(manifest.minBufferTime).toBe(2);
+
+      const video = manifest.periods[0].adaptationSets[0];
+      expect(video.contentType).toBe('video');
+      // 按码率升序
+      expect(video.representations.map(rep => rep.id)).toEqual(['v360', 'v720']);
+
+      const rep = video.representations[1];
+      expect(rep.initialization).toBe('https://cdn.example.com/vod/movie/v720/init.mp4');
+      expect(rep.segments).toHaveLength(3);
+      expect(rep.segments[0].url).toBe('https://cdn.example.com/vod/movie/v720/seg-001.m4s');
+      expect(rep.segments[2]).toMatchObject({ start: 8, duration: 2, number: 3 });
+    });
+
+    test('应该解析SegmentTimeline并解析BaseURL', () => {
+      const manifest = parseMPD(templateMPD, MANIFEST_URL);
+      const audio = manifest.periods[0].adaptationSets[1];
+
+      expect(audio.contentType).toBe('audio');
+      expect(audio.lang).toBe('en');
+
+      const rep = audio.representations[0];
+      expect(rep.initialization).toBe('https://cdn.example.com/vod/movie/audio/init-128000.mp4');
+      expect(rep.segments.map(segment => segment.start)).toEqual([0, 2, 4, 6]);
+      expect(rep.segments[3]).toMatchObject({
+        url: 'https://cdn.example.com/vod/movie/audio/288000.m4s',
+        duration: 1
+      });
+    });
+
+    test('应该解析SegmentList', () => {
+      const manifest = parseMPD(`<MPD type="static" mediaPresentationDuration="PT4S">
+        <Period>
+          <AdaptationSet mimeType="video/webm">
+            <Representation id="r" bandwidth="1000" height="480">
+              <SegmentList timescale="1" duration="2">
+                <Initialization sourceURL="init.webm" />
+                <SegmentURL media="a.webm" />
+                <SegmentURL media="b.webm" />
+              </SegmentList>
+            </Representation>
+          </AdaptationSet>
+        </Period>
+      </MPD>`, MANIFEST_URL);
+
+      const rep = manifest.periods[0].adaptationSets[0].representations[0];
+      expect(rep.initialization).toBe('https://cdn.example.com/vod/movie/init.webm');
+      expect(rep.segments.map(segment => segment.url)).toEqual([
+        'https://cdn.example.com/vod/movie/a.webm',
+        'https://cdn.example.com/vod/movie/b.webm'
+      ]);
+      expect(rep.segments[1].start).toBe(2);
+    });
+
+    test('非MPD文档应该抛出错误', () => {
+      expect(() => parseMPD('<html></html>', MANIFEST_URL)).toThrow('Invalid MPD manifest');
+      expect(() => parseMPD('<html></html>', MANIFEST_URL)).toThrow(MPDParseError);
+    });
+  });
+});
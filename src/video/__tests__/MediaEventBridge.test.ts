@@ -0,0 +1,146 @@
+import { HTML5VideoAPI } from '../VideoAPI';
+import type { VideoEventType } from '../types';
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const setProperty = (target: object, name: string, value: unknown) => {
+  Object.defineProperty(target, name, { value, configurable: true });
+};
+
+const createPlayer = () => {
+  const element = document.createElement('video');
+  document.body.appendChild(element);
+  const source = { src: 'https://cdn.example.com/video.mp4', type: 'mp4' as const };
+  const player = new HTML5VideoAPI(element, { sources: [source], hotkeys: false });
+  const record = <T extends VideoEventType>(type: T) => {
+    const payloads: any[] = [];
+    player.on(type, event => payloads.push(event.payload));
+    return payloads;
+  };
+  const dispatch = (type: string) => element.dispatchEvent(new Event(type));
+  return { player, element, record, dispatch };
+};
+
+describe('MediaEventBridge', () => {
+  afterEach(() => {
+    setProperty(document, 'fullscreenElement', null);
+    setProperty(document, 'pictureInPictureElement', null);
+    document.body.innerHTML = '';
+  });
+
+  test('应该把document全屏变化桥接为fullscreenchange，容器全屏也算播放器全屏', () => {
+    const { player, element, record } = createPlayer();
+    const events = record('fullscreenchange');
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    container.appendChild(element);
+
+    setProperty(document, 'fullscreenElement', container);
+    document.dispatchEvent(new Event('fullscreenchange'));
+    // 其他元素全屏不影响该播放器
+    const other = document.createElement('div');
+    document.body.appendChild(other);
+    setProperty(document, 'fullscreenElement', other);
+    document.dispatchEvent(new Event('fullscreenchange'));
+
+    expect(events).toEqual([
+      { isFullscreen: true, element: container },
+      { isFullscreen: false, element: other }
+    ]);
+
+    player.destroy();
+    setProperty(document, 'fullscreenElement', element);
+    document.dispatchEvent(new Event('fullscreenchange'));
+    expect(events).toHaveLength(2);
+  });
+
+  test('应该在进入和退出画中画时发射pip', () => {
+    const { player, element, record, dispatch } = createPlayer();
+    const events = record('pip');
+
+    setProperty(document, 'pictureInPictureElement', element);
+    dispatch('enterpictureinpicture');
+    setProperty(document, 'pictureInPictureElement', null);
+    dispatch('leavepictureinpicture');
+
+    expect(events).toEqual([{ isPiP: true }, { isPiP: false }]);
+    player.destroy();
+  });
+
+  test('buffering应该只在状态变化时发射', () => {
+    const { player, element, record, dispatch } = createPlayer();
+    const events = record('buffering');
+    setProperty(element, 'currentTime', 10);
+    setProperty(element, 'buffered', { length: 1, start: () => 0, end: () => 12 });
+
+    dispatch('waiting');
+    dispatch('waiting');
+    // 数据不足时canplay之外的事件不结束缓冲
+    setProperty(element, 'readyState', HTMLMediaElement.HAVE_CURRENT_DATA);
+    dispatch('seeked');
+    setProperty(element, 'readyState', HTMLMediaElement.HAVE_FUTURE_DATA);
+    dispatch('canplay');
+    dispatch('playing');
+
+    expect(events).toEqual([
+      { isBuffering: true, bufferLevel: 2 },
+      { isBuffering: false, bufferLevel: 2 }
+    ]);
+
+    // 已缓冲足够时stalled不表示卡顿
+    setProperty(element, 'paused', false);
+    setProperty(element, 'readyState', HTMLMediaElement.HAVE_ENOUGH_DATA);
+    dispatch('stalled');
+    expect(events).toHaveLength(2);
+    player.destroy();
+  });
+
+  test('ready应该在元数据和首帧可用后发射一次，切换源后重新发射', () => {
+    const { player, element, record, dispatch } = createPlayer();
+    const events = record('ready');
+    setProperty(element, 'duration', 60);
+    setProperty(element, 'videoWidth', 1280);
+    setProperty(element, 'videoHeight', 720);
+
+    setProperty(element, 'readyState', HTMLMediaElement.HAVE_METADATA);
+    dispatch('loadedmetadata');
+    expect(events).toEqual([]);
+
+    setProperty(element, 'readyState', HTMLMediaElement.HAVE_CURRENT_DATA);
+    dispatch('loadeddata');
+    dispatch('canplay');
+    expect(events).toEqual([
+      { duration: 60, videoWidth: 1280, videoHeight: 720, live: false, method: 'native', levels: 0 }
+    ]);
+
+    player.updateConfig({ sources: [{ src: 'https://cdn.example.com/other.mp4', type: 'mp4' }] });
+    dispatch('loadeddata');
+    expect(events).toHaveLength(2);
+    player.destroy();
+  });
+
+  test('qualitychange应该携带切换前后的质量，重复选择不发射', () => {
+    const { player, record } = createPlayer();
+    const events = record('qualitychange');
+
+    player.setQuality('720p');
+    player.setQuality('720p');
+    player.setQuality('1080p');
+
+    expect(events).toEqual([
+      { from: 'auto', to: '720p' },
+      { from: '720p', to: '1080p' }
+    ]);
+    expect(player.stats.qualityChanges).toBe(2);
+    player.destroy();
+  });
+});
@@ -0,0 +1,83 @@
+import { resolvePlaybackRateConfig, clampPlaybackRate } from '../PlaybackRate';
+import { HTML5VideoAPI } from '../VideoAPI';
+
+describe('PlaybackRate', () => {
+  describe('clampPlaybackRate', () => {
+    const config = resolvePlaybackRateConfig({ min: 0.5, max: 3, step: 0.1, presets: [0.5, 1, 1.25, 3] });
+
+    test('应该限制在范围内而不是抛出异常', () => {
+      expect(clampPlaybackRate(10, config)).toBe(3);
+      expect(clampPlaybackRate(0.1, config)).toBe(0.5);
+      expect(clampPlaybackRate(NaN, config)).toBe(1);
+    });
+
+    test('预设值保留，其余按步进取整', () => {
+      expect(clampPlaybackRate(1.25, config)).toBe(1.25);
+      expect(clampPlaybackRate(1.13, config)).toBe(1.1);
+      expect(clampPlaybackRate(2.96, config)).toBe(3);
+    });
+  });
+
+  describe('resolvePlaybackRateConfig', () => {
+    test('应该过滤超出范围的预设并排序', () => {
+      const config = resolvePlaybackRateConfig({ max: 2, presets: [2, 3, 1, 0.5, 1] });
+
+      expect(config.presets).toEqual([0.5, 1, 2]);
+      expect(config.storageKey).toBeNull();
+    });
+
+    test('persist可以指定存储键', () => {
+      expect(resolvePlaybackRateConfig({ persist: true }).storageKey).toBe('video-playback-rate');
+      expect(resolvePlaybackRateConfig({ persist: 'rate:user-1' }).storageKey).toBe('rate:user-1');
+    });
+  });
+
+  describe('HTML5VideoAPI', () => {
+    beforeAll(() => {
+      jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+      jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+      jest.restoreAllMocks();
+      localStorage.clear();
+    });
+
+    const sources = [{ src: 'https://cdn.example.com/video.mp4', type: 'mp4' as const }];
+
+    test('setPlaybackRate应该使用配置范围并在ratechange中携带音调设置', () => {
+      const element = document.createElement('video');
+      const player = new HTML5VideoAPI(element, {
+        sources,
+        playbackRates: { max: 3, preservesPitch: false }
+      });
+      const onRateChange = jest.fn();
+      player.on('ratechange', onRateChange);
+
+      player.setPlaybackRate(5);
+      element.dispatchEvent(new Event('ratechange'));
+
+      expect(element.playbackRate).toBe(3);
+      expect(onRateChange.mock.calls[0][0].payload).toEqual({ rate: 3, preservesPitch: false });
+      player.destroy();
+    });
+
+    test('应该持久化并恢复用户的速度偏好', () => {
+      const first = document.createElement('video');
+      const player = new HTML5VideoAPI(first, { sources, playbackRates: { persist: 'rate:user-1' } });
+      player.setPlaybackRate(1.5);
+      first.dispatchEvent(new Event('ratechange'));
+      player.destroy();
+
+      const second = document.createElement('video');
+      const restored = new HTML5VideoAPI(second, {
+        sources,
+        playbackRate: 1,
+        playbackRates: { persist: 'rate:user-1' }
+      });
+
+      expect(second.playbackRate).toBe(1.5);
+      restored.destroy();
+    });
+  });
+});
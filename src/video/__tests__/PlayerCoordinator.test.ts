@@ -0,0 +1,180 @@
+import { PlayerCoordinator } from '../PlayerCoordinator';
+import { videoPlayerFactory } from '../VideoPlayerFactory';
+import { HTML5VideoAPI } from '../VideoAPI';
+import type { VideoConfig } from '../types';
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(function (this: HTMLMediaElement) {
+    Object.defineProperty(this, 'paused', { value: true, configurable: true });
+    this.dispatchEvent(new Event('pause'));
+  });
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(function (this: HTMLMediaElement) {
+    Object.defineProperty(this, 'paused', { value: false, configurable: true });
+    this.dispatchEvent(new Event('play'));
+    return Promise.resolve();
+  });
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+// 记录观察器回调，由测试手动触发可见性变化
+let intersect: (changes: Array<{ target: Element; ratio: number }>) => void = () => {};
+
+beforeEach(() => {
+  (global as any).IntersectionObserver = class {
+    constructor(callback: IntersectionObserverCallback) {
+      intersect = changes => callback(changes.map(({ target, ratio }) => ({
+        target,
+        intersectionRatio: ratio,
+        isIntersecting: ratio > 0
+      })) as IntersectionObserverEntry[], this as unknown as IntersectionObserver);
+    }
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  };
+});
+
+afterEach(() => {
+  delete (global as any).IntersectionObserver;
+});
+
+const createPlayer = (config: Partial<VideoConfig> = {}) =>
+  new HTML5VideoAPI(document.createElement('video'), { sources: [], hotkeys: false, ...config });
+
+describe('PlayerCoordinator', () => {
+  test('独占模式下播放一个播放器时暂停其他播放器', async () => {
+    const coordinator = new PlayerCoordinator();
+    const [first, second, third] = [createPlayer(), createPlayer(), createPlayer()];
+    [first, second, third].forEach(player => coordinator.add(player));
+    coordinator.setPolicy({ exclusive: true });
+
+    await first.play();
+    await second.play();
+
+    expect(first.element.paused).toBe(true);
+    expect(second.element.paused).toBe(false);
+    expect(third.element.paused).toBe(true);
+
+    coordinator.destroy();
+    [first, second, third].forEach(player => player.destroy());
+  });
+
+  test('可见时自动播放可见比例最大的播放器，离开视口时暂停并释放媒体', () => {
+    const coordinator = new PlayerCoordinator();
+    const [top, bottom] = [createPlayer(), createPlayer()];
+    coordinator.add(top);
+    coordinator.add(bottom);
+    coordinator.setPolicy({ exclusive: true, autoplayWhenVisible: { threshold: 0.5 } });
+    const restore = jest.spyOn(top, 'restoreMedia');
+
+    intersect([{ target: top.element, ratio: 0.9 }, { target: bottom.element, ratio: 0.6 }]);
+    expect(top.element.paused).toBe(false);
+    expect(bottom.element.paused).toBe(true);
+
+    top.element.currentTime = 12;
+    intersect([{ target: top.element, ratio: 0.2 }]);
+    expect(top.isMediaReleased).toBe(true);
+    expect(bottom.element.paused).toBe(false);
+
+    intersect([{ target: top.element, ratio: 1 }]);
+    expect(restore).toHaveBeenCalledWith(12, true);
+
+    coordinator.destroy();
+    top.destroy();
+    bottom.destroy();
+  });
+
+  test('离开视口释放的媒体在手动播放、移除或关闭可见性策略时收回', async () => {
+    const coordinator = new PlayerCoordinator();
+    const players = [createPlayer(), createPlayer(), createPlayer()];
+    players.forEach(player => coordinator.add(player));
+    coordinator.setPolicy({ autoplayWhenVisible: true });
+    const [manual, removed, remaining] = players;
+    const restores = players.map(player => jest.spyOn(player, 'restoreMedia'));
+
+    intersect(players.map(player => ({ target: player.element, ratio: 1 })));
+    players.forEach((player, i) => {
+      player.element.currentTime = 5 + i;
+    });
+    intersect(players.map(player => ({ target: player.element, ratio: 0 })));
+    expect(players.every(player => player.isMediaReleased)).toBe(true);
+
+    await manual.play();
+    expect(restores[0]).toHaveBeenCalledWith(5, true);
+
+    coordinator.remove(removed);
+    expect(restores[1]).toHaveBeenCalledWith(6, false);
+
+    coordinator.setPolicy({ exclusive: true });
+    expect(restores[2]).toHaveBeenCalledWith(7, false);
+    expect(players.some(player => player.isMediaReleased)).toBe(false);
+
+    coordinator.destroy();
+    players.forEach(player => player.destroy());
+  });
+
+  test('同步组应该跟随主播放器并通过速度和跳转校正偏差', async () => {
+    const coordinator = new PlayerCoordinator();
+    const follower = createPlayer({ playbackRates: { persist: 'rate:follower' } });
+    const [master, other] = [createPlayer(), createPlayer()];
+    [master, follower, other].forEach(player => coordinator.add(player));
+    coordinator.setPolicy({ exclusive: true });
+    Object.defineProperty(follower.element, 'duration', { value: 60, configurable: true });
+    const group = coordinator.createSyncGroup([master, follower]);
+
+    await other.play();
+    await group.play();
+    expect(follower.element.paused).toBe(false);
+    expect(other.element.paused).toBe(true);
+
+    const tick = (masterTime: number, followerTime: number) => {
+      master.element.currentTime = masterTime;
+      follower.element.currentTime = followerTime;
+      master.element.dispatchEvent(new Event('timeupdate'));
+    };
+
+    tick(10, 10.1);
+    expect(follower.element.playbackRate).toBe(0.95);
+    tick(11, 10.9);
+    expect(follower.element.playbackRate).toBe(1.05);
+    tick(12, 12.02);
+    expect(follower.element.playbackRate).toBe(1);
+    tick(20, 14);
+    expect(follower.element.currentTime).toBe(20);
+
+    // 校正速度不作为用户偏好保存，解散后恢复
+    tick(21, 21.1);
+    expect(follower.element.playbackRate).toBe(0.95);
+    expect(localStorage.getItem('rate:follower')).toBeNull();
+
+    group.pause();
+    expect(follower.element.paused).toBe(true);
+
+    group.destroy();
+    expect(follower.element.playbackRate).toBe(1);
+    expect(coordinator.syncGroups).toHaveLength(0);
+    coordinator.destroy();
+    [master, follower, other].forEach(player => player.destroy());
+  });
+
+  test('工厂应该协调通过create注册的播放器', async () => {
+    videoPlayerFactory.setCoordinationPolicy({ exclusive: true });
+    const source = { src: 'https://cdn.example.com/video.mp4', type: 'mp4' as const };
+    const first = videoPlayerFactory.create(document.createElement('video'), { sources: [source], hotkeys: false });
+    const second = videoPlayerFactory.create(document.createElement('video'), { sources: [source], hotkeys: false });
+
+    await first.play();
+    await second.play();
+
+    expect(first.element.paused).toBe(true);
+    expect(videoPlayerFactory.getCoordinationPolicy()).toEqual({ exclusive: true });
+
+    videoPlayerFactory.destroyAll();
+    videoPlayerFactory.setCoordinationPolicy({});
+  });
+});
@@ -0,0 +1,117 @@
+import { HTML5VideoAPI } from '../VideoAPI';
+import { videoPlayerFactory } from '../VideoPlayerFactory';
+import type { VideoPlugin } from '../types';
+
+declare module '../types' {
+  interface VideoPluginEventMap {
+    'watermark:shown': { text: string };
+  }
+}
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const createPlayer = () => {
+  const element = document.createElement('video');
+  Object.defineProperty(element, 'duration', { value: 60, configurable: true });
+  return new HTML5VideoAPI(element, { sources: [], hotkeys: false });
+};
+
+const watermarkPlugin = (calls: string[]): VideoPlugin<'watermark', { show(text: string): void }> => ({
+  name: 'watermark',
+  setup: () => calls.push('setup'),
+  destroy: () => calls.push('destroy'),
+  methods: context => ({
+    show: text => context.emit('watermark:shown', { text })
+  })
+});
+
+describe('PluginManager', () => {
+  test('应该调用生命周期钩子并挂载命名空间方法和自定义事件', () => {
+    const calls: string[] = [];
+    const player = createPlayer().use(watermarkPlugin(calls));
+    const shown: string[] = [];
+    player.on('watermark:shown', event => shown.push(event.payload.text));
+
+    player.plugins.watermark.show('LIVE');
+
+    expect(calls).toEqual(['setup']);
+    expect(shown).toEqual(['LIVE']);
+    expect(() => player.use(watermarkPlugin(calls))).toThrow('Plugin "watermark" is already registered');
+
+    expect(player.unuse('watermark')).toBe(true);
+    expect(calls).toEqual(['setup', 'destroy']);
+    expect(player.plugins.watermark).toBeUndefined();
+    player.destroy();
+  });
+
+  test('插件可以否决播放和跳转', async () => {
+    const player = createPlayer();
+    player.use({ name: 'paywall', beforePlay: () => Promise.resolve(false) });
+    player.use({ name: 'preview', beforeSeek: time => time <= 30 });
+
+    await player.play();
+    expect(HTMLMediaElement.prototype.play).not.toHaveBeenCalled();
+
+    player.seek(45);
+    expect(player.element.currentTime).toBe(0);
+    player.seek(20);
+    expect(player.element.currentTime).toBe(20);
+
+    player.unuse('paywall');
+    await player.play();
+    expect(HTMLMediaElement.prototype.play).toHaveBeenCalledTimes(1);
+    player.destroy();
+  });
+
+  test('onEvent经由事件中间件拦截事件，钩子异常不影响其他插件', () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const player = createPlayer();
+    const seen: string[] = [];
+    player.use({ name: 'broken', onEvent: () => { throw new Error('boom'); } });
+    player.use({
+      name: 'filter',
+      onEvent: event => {
+        seen.push(event.type);
+        return event.type === 'timeupdate' ? false : undefined;
+      }
+    });
+    const listener = jest.fn();
+    player.on('timeupdate', listener);
+    player.on('pause', listener);
+
+    player.element.dispatchEvent(new Event('timeupdate'));
+    player.element.dispatchEvent(new Event('pause'));
+
+    expect(seen).toEqual(['timeupdate', 'pause']);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].type).toBe('pause');
+    expect(errorSpy).toHaveBeenCalledWith('Error in plugin "broken":', expect.any(Error));
+
+    errorSpy.mockRestore();
+    player.destroy();
+  });
+
+  test('工厂注册的全局插件应该安装到新建的播放器', () => {
+    const calls: string[] = [];
+    videoPlayerFactory.registerPlugin(watermarkPlugin(calls));
+    const source = { src: 'https://cdn.example.com/video.mp4', type: 'mp4' as const };
+    const player = videoPlayerFactory.createHTML5Player(document.createElement('video'), { sources: [source], hotkeys: false });
+
+    expect(calls).toEqual(['setup']);
+    expect(typeof player.plugins.watermark.show).toBe('function');
+
+    expect(videoPlayerFactory.unregisterPlugin('watermark')).toBe(true);
+    expect(videoPlayerFactory.getPlugins()).toEqual([]);
+    expect(videoPlayerFactory.unregisterPlayer(player)).toBe(true);
+    expect(calls).toEqual(['setup', 'destroy']);
+  });
+});
@@ -0,0 +1,162 @@
+import { QoECollector, MemoryTransport, createQoETransport, FetchTransport } from '../QoECollector';
+import { HTML5VideoAPI } from '../VideoAPI';
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const createCollector = (options: { bitrate?: () => number; batchSize?: number } = {}) => {
+  const element = document.createElement('video');
+  const player = new HTML5VideoAPI(element, { sources: [{ src: 'https://cdn.example.com/video.mp4', type: 'mp4' }], hotkeys: false });
+  const transport = new MemoryTransport();
+
+  let now = 0;
+  jest.spyOn(performance, 'now').mockImplementation(() => now);
+
+  const collector = new QoECollector(player, {
+    transport,
+    batchSize: options.batchSize,
+    metadata: { contentId: 'movie-1' },
+    getStreamStats: options.bitrate ? () => ({ bitrate: options.bitrate!(), bandwidthEstimate: 8e6 }) : undefined
+  });
+
+  const at = (time: number, type: string) => {
+    now = time;
+    element.dispatchEvent(new Event(type));
+  };
+
+  return { element, player, collector, transport, at };
+};
+
+describe('QoECollector', () => {
+  test('应该计算启动时间、卡顿比例和时间加权平均码率', () => {
+    let bitrate = 1e6;
+    const { player, collector, at } = createCollector({ bitrate: () => bitrate });
+
+    at(0, 'play');
+    at(800, 'playing');
+    at(10800, 'waiting');
+    at(12800, 'playing');
+    bitrate = 3e6;
+    at(22800, 'timeupdate');
+    at(32800, 'pause');
+
+    const metrics = collector.getMetrics();
+    expect(metrics.startupTime).toBe(800);
+    expect(metrics.playingTime).toBe(30000);
+    expect(metrics.rebufferTime).toBe(2000);
+    expect(metrics.rebufferCount).toBe(1);
+    expect(metrics.rebufferRatio).toBeCloseTo(2000 / 32000);
+    expect(metrics.averageBitrate).toBe(Math.round((1e6 * 20000 + 3e6 * 10000) / 30000));
+    expect(metrics.bitrateSwitches).toBe(1);
+    expect(metrics.bandwidthEstimate).toBe(8e6);
+
+    collector.destroy();
+    player.destroy();
+  });
+
+  test('跳转引起的等待不计为卡顿', () => {
+    const { player, collector, at } = createCollector();
+
+    at(0, 'play');
+    at(100, 'playing');
+    at(1000, 'seeking');
+    at(1100, 'waiting');
+    at(1500, 'seeked');
+    at(1600, 'playing');
+
+    expect(collector.getMetrics().rebufferCount).toBe(0);
+    collector.destroy();
+    player.destroy();
+  });
+
+  test('首帧前离开应该标记exitBeforeStart并上报结束信标', () => {
+    const { player, collector, transport, at } = createCollector();
+
+    at(0, 'play');
+    collector.destroy();
+
+    expect(transport.beacons).toHaveLength(1);
+    expect(transport.beacons[0]).toMatchObject({
+      type: 'end',
+      sequence: 0,
+      metadata: { contentId: 'movie-1' },
+      metrics: { exitBeforeStart: true, startupTime: null }
+    });
+    player.destroy();
+  });
+
+  test('明细事件达到批次大小时应该立即上报', () => {
+    const { element, player, collector, transport, at } = createCollector({ batchSize: 2 });
+
+    at(0, 'play');
+    at(500, 'playing');
+    expect(transport.beacons).toHaveLength(0);
+
+    element.dispatchEvent(new Event('error'));
+    expect(transport.beacons).toHaveLength(1);
+    expect(transport.beacons[0].events.map(event => event.type)).toEqual(['startup', 'error']);
+    expect(transport.beacons[0].metrics.errorCount).toBe(1);
+
+    collector.destroy();
+    expect(transport.beacons[1]).toMatchObject({ type: 'end', sequence: 1, events: [] });
+    player.destroy();
+  });
+
+  test('播放器按播放时长加权计算stats.averageBitrate，采集器默认读取该值', () => {
+    class StreamPlayer extends HTML5VideoAPI {
+      bitrate = 1e6;
+      protected getCurrentBitrate(): number {
+        return this.bitrate;
+      }
+    }
+    const element = document.createElement('video');
+    const player = new StreamPlayer(element, { sources: [], hotkeys: false });
+    const collector = new QoECollector(player, { transport: new MemoryTransport() });
+    let now = 0;
+    jest.spyOn(performance, 'now').mockImplementation(() => now);
+    const at = (time: number, type: string) => {
+      now = time;
+      element.dispatchEvent(new Event(type));
+    };
+
+    at(0, 'playing');
+    at(10000, 'waiting');
+    at(12000, 'playing');
+    player.bitrate = 3e6;
+    at(22000, 'timeupdate');
+    at(27000, 'pause');
+
+    // 缓冲期间不计入：1Mbps播放20秒，3Mbps播放5秒
+    const expected = Math.round((1e6 * 20000 + 3e6 * 5000) / 25000);
+    expect(player.stats.averageBitrate).toBe(expected);
+    expect(collector.getMetrics().averageBitrate).toBe(expected);
+    collector.destroy();
+    player.destroy();
+  });
+
+  test('默认应该从getHLSStats读取码率和带宽估计', () => {
+    const element = document.createElement('video');
+    const player = new HTML5VideoAPI(element, { sources: [], hotkeys: false });
+    Object.assign(player, { getHLSStats: () => ({ currentBitrate: 2e6, bandwidthEstimate: 5e6 }) });
+
+    const collector = new QoECollector(player, { transport: new MemoryTransport() });
+    element.dispatchEvent(new Event('timeupdate'));
+
+    expect(collector.getMetrics()).toMatchObject({ averageBitrate: 2e6, bandwidthEstimate: 5e6 });
+    collector.destroy();
+    player.destroy();
+  });
+
+  test('应该创建内置传输', () => {
+    expect(createQoETransport('memory')).toBeInstanceOf(MemoryTransport);
+    expect(createQoETransport('fetch', 'https://qoe.example.com/')).toBeInstanceOf(FetchTransport);
+  });
+});
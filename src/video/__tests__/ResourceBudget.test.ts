@@ -0,0 +1,149 @@
+import { ResourceBudgetManager, estimatePlayerResources } from '../ResourceBudget';
+import { videoPlayerFactory } from '../VideoPlayerFactory';
+import { HTML5VideoAPI } from '../VideoAPI';
+import type { IVideoPlayer, VideoSource } from '../types';
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+// 模拟已解码720p画面并缓冲20秒
+const mockDecodedElement = (element: HTMLVideoElement, bufferedSeconds = 20) => {
+  Object.defineProperty(element, 'videoWidth', { value: 1280, configurable: true });
+  Object.defineProperty(element, 'videoHeight', { value: 720, configurable: true });
+  Object.defineProperty(element, 'readyState', { value: 4, configurable: true });
+  Object.defineProperty(element, 'buffered', {
+    configurable: true,
+    value: { length: 2, start: (i: number) => [0, 30][i], end: (i: number) => [bufferedSeconds / 2, 30 + bufferedSeconds / 2][i] }
+  });
+  Object.assign(element, {
+    getVideoPlaybackQuality: () => ({ totalVideoFrames: 600, droppedVideoFrames: 3 })
+  });
+};
+
+const createHLSLikePlayer = (sources: VideoSource[] = []) => {
+  const element = document.createElement('video');
+  mockDecodedElement(element);
+  const player = new HTML5VideoAPI(element, { sources, hotkeys: false });
+  const setBackBufferLength = jest.fn();
+  Object.assign(player, { getHLSStats: () => ({ currentBitrate: 2e6 }), setBackBufferLength });
+  return { player, setBackBufferLength };
+};
+
+const DECODER_BYTES = 1280 * 720 * 1.5 * 8;
+
+describe('ResourceBudget', () => {
+  test('应该按缓冲时长×码率和解码帧尺寸估算内存', () => {
+    const { player } = createHLSLikePlayer();
+
+    expect(estimatePlayerResources(player)).toEqual({
+      bufferedSeconds: 20,
+      bitrate: 2e6,
+      bufferBytes: 5e6,
+      decoderBytes: DECODER_BYTES,
+      estimatedBytes: 5e6 + DECODER_BYTES,
+      decoderActive: true,
+      totalFrames: 600,
+      droppedFrames: 3
+    });
+
+    player.releaseMedia();
+    expect(estimatePlayerResources(player)).toMatchObject({ estimatedBytes: 0, decoderActive: false });
+    player.destroy();
+  });
+
+  test('超出内存上限时先裁剪后缓冲，仍超出再暂停最久未使用的播放器', () => {
+    const players = [createHLSLikePlayer(), createHLSLikePlayer(), createHLSLikePlayer()];
+    const onReclaim = jest.fn();
+    const manager = new ResourceBudgetManager({ evict: jest.fn() });
+    players.forEach(({ player }) => manager.add(player));
+    manager.setBudget({ maxMemory: 2 * (5e6 + DECODER_BYTES), backBufferLength: 5, onReclaim });
+
+    // 第一个播放器最近使用过
+    players[0].player.element.dispatchEvent(new Event('play'));
+
+    expect(manager.enforce()).toEqual([]);
+    players.forEach(({ setBackBufferLength }) => expect(setBackBufferLength).toHaveBeenCalledWith(5));
+
+    expect(manager.enforce()).toEqual([players[1].player]);
+    expect(players[1].player.isMediaReleased).toBe(true);
+    expect(onReclaim).toHaveBeenCalledWith(players[1].player, 'pause');
+    expect(manager.getSnapshot()).toMatchObject({ memoryUsage: 2 * (5e6 + DECODER_BYTES), activeDecoders: 2 });
+
+    manager.destroy();
+    players.forEach(({ player }) => player.destroy());
+  });
+
+  test('被暂停回收的播放器再次播放时应该重新加载并从原位置继续', async () => {
+    const source = { src: 'https://cdn.example.com/video.mp4', type: 'mp4' as const };
+    const { player } = createHLSLikePlayer([source]);
+    const recent = createHLSLikePlayer();
+    const manager = new ResourceBudgetManager({ evict: jest.fn() });
+    manager.add(player);
+    manager.add(recent.player);
+    recent.player.element.dispatchEvent(new Event('play'));
+    player.element.currentTime = 42;
+    manager.setBudget({ maxDecoders: 1 });
+
+    expect(manager.enforce()).toEqual([player]);
+    expect(player.isMediaReleased).toBe(true);
+
+    const playSpy = jest.mocked(HTMLMediaElement.prototype.play);
+    playSpy.mockClear();
+    await player.play();
+    expect(player.isMediaReleased).toBe(false);
+    expect(player.element.src).toBe(source.src);
+
+    player.element.dispatchEvent(new Event('loadedmetadata'));
+    expect(player.element.currentTime).toBe(42);
+    expect(playSpy).toHaveBeenCalledTimes(1);
+
+    manager.destroy();
+    player.destroy();
+    recent.player.destroy();
+  });
+
+  test('工厂应该在解码器超出上限时淘汰最久未使用的播放器', () => {
+    const source = { src: 'https://cdn.example.com/video.mp4', type: 'mp4' as const };
+    const created: IVideoPlayer[] = [];
+    for (let i = 0; i < 3; i++) {
+      const element = document.createElement('video');
+      mockDecodedElement(element);
+      created.push(videoPlayerFactory.create(element, { sources: [source], hotkeys: false }));
+    }
+    videoPlayerFactory.setResourceBudget({ maxDecoders: 2, action: 'evict' });
+
+    expect(videoPlayerFactory.getStats()).toMatchObject({ totalPlayers: 3, activeDecoders: 3 });
+    expect(videoPlayerFactory.enforceResourceBudget()).toEqual([created[0]]);
+    expect(videoPlayerFactory.getStats()).toMatchObject({ totalPlayers: 2, activeDecoders: 2 });
+    expect(videoPlayerFactory.getAllPlayers()).not.toContain(created[0]);
+
+    videoPlayerFactory.setResourceBudget(null);
+    videoPlayerFactory.destroyAll();
+  });
+
+  test('智能创建和按类型创建的播放器同样登记到注册表与资源预算', () => {
+    const source = { src: 'https://cdn.example.com/video.mp4', type: 'mp4' as const };
+    const smart = document.createElement('video');
+    const typed = document.createElement('video');
+    mockDecodedElement(smart);
+    mockDecodedElement(typed);
+
+    const players = [
+      videoPlayerFactory.createSmart(smart, { sources: [source], hotkeys: false }),
+      videoPlayerFactory.createHTML5Player(typed, { sources: [source], hotkeys: false })
+    ];
+
+    expect(videoPlayerFactory.getAllPlayers()).toEqual(players);
+    expect(videoPlayerFactory.getStats()).toMatchObject({ totalPlayers: 2, activeDecoders: 2 });
+
+    videoPlayerFactory.destroyAll();
+  });
+});
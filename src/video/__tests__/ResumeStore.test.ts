@@ -0,0 +1,111 @@
+import {
+  MemoryResumeStorage,
+  WatchHistoryStore,
+  ResumeTracker,
+  resolveResumePosition
+} from '../ResumeStore';
+import type { WatchHistoryEntry } from '../types';
+
+const entry = (overrides: Partial<WatchHistoryEntry>): WatchHistoryEntry => ({
+  id: 'movie',
+  position: 120,
+  duration: 600,
+  progress: 0.2,
+  completed: false,
+  playbackRate: 1,
+  volume: 1,
+  muted: false,
+  updatedAt: 1000,
+  ...overrides
+});
+
+// 等待存储读取与事件处理中的Promise完成
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('ResumeStore', () => {
+  describe('resolveResumePosition', () => {
+    test('应该返回已保存的位置', () => {
+      expect(resolveResumePosition(entry({}), 600)).toBe(120);
+    });
+
+    test('靠近开头或结尾时不应该恢复', () => {
+      expect(resolveResumePosition(entry({ position: 3 }), 600)).toBeNull();
+      expect(resolveResumePosition(entry({ position: 595 }), 600)).toBeNull();
+      expect(resolveResumePosition(entry({ position: 560 }), 600, { endThreshold: 60 })).toBeNull();
+      expect(resolveResumePosition(entry({ completed: true }), 600)).toBeNull();
+      expect(resolveResumePosition(null, 600)).toBeNull();
+    });
+  });
+
+  describe('WatchHistoryStore', () => {
+    test('应该按条件查询观看记录', async () => {
+      const store = new WatchHistoryStore(new MemoryResumeStorage());
+      await store.save(entry({ id: 'a', updatedAt: 1, progress: 0.9 }));
+      await store.save(entry({ id: 'b', updatedAt: 3, progress: 0.1 }));
+      await store.save(entry({ id: 'c', updatedAt: 2, completed: true }));
+
+      expect((await store.query()).map(e => e.id)).toEqual(['b', 'c', 'a']);
+      expect((await store.query({ orderBy: 'progress', completed: false })).map(e => e.id)).toEqual(['a', 'b']);
+      expect((await store.query({ since: 2, limit: 1 })).map(e => e.id)).toEqual(['b']);
+      expect((await store.continueWatching()).map(e => e.id)).toEqual(['b', 'a']);
+    });
+  });
+
+  describe('ResumeTracker', () => {
+    const createVideo = (duration: number) => {
+      const element = document.createElement('video');
+      Object.defineProperty(element, 'duration', { value: duration, configurable: true });
+      return element;
+    };
+
+    test('应该在loadedmetadata后恢复进度', async () => {
+      const storage = new MemoryResumeStorage();
+      await storage.set(entry({}));
+      const element = createVideo(600);
+      const tracker = new ResumeTracker(element, { id: 'movie', storage });
+
+      element.dispatchEvent(new Event('loadedmetadata'));
+      await flushPromises();
+
+      expect(element.currentTime).toBe(120);
+      tracker.destroy();
+    });
+
+    test('应该在暂停和结束时保存进度', async () => {
+      const storage = new MemoryResumeStorage();
+      const element = createVideo(600);
+      const tracker = new ResumeTracker(element, { id: 'movie', title: 'Movie', storage });
+
+      element.dispatchEvent(new Event('loadedmetadata'));
+      await flushPromises();
+      element.currentTime = 300;
+      element.dispatchEvent(new Event('pause'));
+      await flushPromises();
+
+      expect(await storage.get('movie')).toMatchObject({
+        title: 'Movie',
+        position: 300,
+        progress: 0.5,
+        completed: false
+      });
+
+      element.dispatchEvent(new Event('ended'));
+      await flushPromises();
+      expect((await storage.get('movie'))?.completed).toBe(true);
+      tracker.destroy();
+    });
+
+    test('恢复完成前不应该覆盖已有记录', async () => {
+      const storage = new MemoryResumeStorage();
+      await storage.set(entry({}));
+      const element = createVideo(600);
+      const tracker = new ResumeTracker(element, { id: 'movie', storage });
+
+      element.dispatchEvent(new Event('timeupdate'));
+      await flushPromises();
+
+      expect((await storage.get('movie'))?.position).toBe(120);
+      tracker.destroy();
+    });
+  });
+});
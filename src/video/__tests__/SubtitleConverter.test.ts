@@ -0,0 +1,54 @@
+import { srtToVtt, detectSubtitleFormat, toWebVTT } from '../SubtitleConverter';
+
+const srt = `﻿1\r
+00:00:01,000 --> 00:00:04,500\r
+Hello <font color="#ff0000">world</font>\r
+\r
+2\r
+0:01:02,5 --> 0:01:05,250 X1:10 X2:20 Y1:30 Y2:40\r
+<i>Second</i> line\r
+with --> arrow\r
+`;
+
+describe('SubtitleConverter', () => {
+  describe('srtToVtt', () => {
+    test('应该转换时间戳和cue', () => {
+      expect(srtToVtt(srt)).toBe([
+        'WEBVTT',
+        '',
+        '1',
+        '00:00:01.000 --> 00:00:04.500',
+        'Hello world',
+        '',
+        '2',
+        '00:01:02.500 --> 00:01:05.250',
+        '<i>Second</i> line',
+        'with -> arrow',
+        ''
+      ].join('\n'));
+    });
+
+    test('空输入应该生成空的WebVTT', () => {
+      expect(srtToVtt('')).toBe('WEBVTT\n');
+    });
+  });
+
+  describe('detectSubtitleFormat', () => {
+    test('应该根据内容识别格式', () => {
+      expect(detectSubtitleFormat('WEBVTT\n\n00:00.000 --> 00:01.000\nHi')).toBe('vtt');
+      expect(detectSubtitleFormat(srt)).toBe('srt');
+    });
+
+    test('应该根据扩展名识别格式', () => {
+      expect(detectSubtitleFormat(undefined, 'https://example.com/subs/en.SRT?token=1')).toBe('srt');
+      expect(detectSubtitleFormat(undefined, 'https://example.com/subs/en.vtt')).toBe('vtt');
+    });
+  });
+
+  describe('toWebVTT', () => {
+    test('WebVTT内容应该原样返回', () => {
+      const vtt = 'WEBVTT\n\n00:00.000 --> 00:01.000\nHi\n';
+      expect(toWebVTT(vtt)).toBe(vtt);
+    });
+  });
+});
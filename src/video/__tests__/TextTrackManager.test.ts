@@ -0,0 +1,166 @@
+import { HTML5VideoAPI } from '../VideoAPI';
+import type { TextTrackConfig, VideoConfig, VideoEventType } from '../types';
+
+// jsdom未实现TextTrack：按<track>的属性创建可触发cuechange的替身
+class FakeTextTrack extends EventTarget {
+  mode: TextTrackMode = 'disabled';
+  activeCues: Array<{ id: string; startTime: number; endTime: number; text: string }> = [];
+
+  constructor(readonly kind: string, readonly label: string, readonly language: string) {
+    super();
+  }
+
+  showCues(cues: FakeTextTrack['activeCues']) {
+    this.activeCues = cues;
+    this.dispatchEvent(new Event('cuechange'));
+  }
+}
+
+const fakeTracks = new WeakMap<HTMLTrackElement, FakeTextTrack>();
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+  Object.defineProperty(HTMLTrackElement.prototype, 'track', {
+    configurable: true,
+    get(this: HTMLTrackElement) {
+      if (!fakeTracks.has(this)) {
+        fakeTracks.set(this, new FakeTextTrack(this.kind, this.label, this.srclang));
+      }
+      return fakeTracks.get(this);
+    }
+  });
+  URL.createObjectURL = jest.fn(() => 'blob:https://cdn.example.com/track');
+  URL.revokeObjectURL = jest.fn();
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+  delete (HTMLTrackElement.prototype as any).track;
+});
+
+const SRT = `1
+00:00:01,000 --> 00:00:02,000
+你好
+`;
+
+const TRACKS: TextTrackConfig[] = [
+  { id: 'en', label: 'English', language: 'en', src: 'https://cdn.example.com/en.vtt' },
+  { language: 'zh', content: SRT, default: true }
+];
+
+const createPlayer = (config: Partial<VideoConfig> = {}) => {
+  const element = document.createElement('video');
+  // 元素的TextTrackList由<track>子元素的轨道组成
+  const trackList = new EventTarget();
+  Object.defineProperty(element, 'textTracks', {
+    get: () => Object.assign(Array.from(element.querySelectorAll('track'), track => track.track), {
+      addEventListener: trackList.addEventListener.bind(trackList),
+      removeEventListener: trackList.removeEventListener.bind(trackList)
+    })
+  });
+  const player = new HTML5VideoAPI(element, {
+    sources: [{ src: 'https://cdn.example.com/video.mp4', type: 'mp4' }],
+    hotkeys: false,
+    textTracks: TRACKS,
+    ...config
+  });
+  const record = <T extends VideoEventType>(type: T) => {
+    const payloads: any[] = [];
+    player.on(type, event => payloads.push(event.payload));
+    return payloads;
+  };
+  const trackOf = (id: string) => {
+    const index = TRACKS.findIndex((track, i) => (track.id || `track-${i}`) === id);
+    return element.querySelectorAll('track')[index].track as unknown as FakeTextTrack;
+  };
+  return { element, player, record, trackOf };
+};
+
+describe('TextTrackManager', () => {
+  test('应该列出配置轨道并激活默认轨道，SRT内容转换为WebVTT', () => {
+    const { element, player, trackOf } = createPlayer();
+
+    expect(player.getTextTracks()).toEqual([
+      { id: 'en', kind: 'subtitles', label: 'English', language: 'en', origin: 'config', active: false },
+      { id: 'track-1', kind: 'subtitles', label: 'zh', language: 'zh', origin: 'config', active: true }
+    ]);
+    expect(trackOf('en').mode).toBe('disabled');
+    expect(trackOf('track-1').mode).toBe('showing');
+
+    const [en, zh] = Array.from(element.querySelectorAll('track'));
+    expect(en.src).toBe('https://cdn.example.com/en.vtt');
+    expect(zh.src).toBe('blob:https://cdn.example.com/track');
+    expect(URL.createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+
+    player.destroy();
+    expect(element.querySelectorAll('track')).toHaveLength(0);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:https://cdn.example.com/track');
+  });
+
+  test('setTextTrack应该切换轨道并发射texttrackchange，重复和未知轨道不发射', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { player, record, trackOf } = createPlayer();
+    const changes = record('texttrackchange');
+
+    player.setTextTrack('en');
+    player.setTextTrack('en');
+    player.setTextTrack('missing');
+    expect(warnSpy).toHaveBeenCalledWith("Text track 'missing' does not exist");
+    expect(trackOf('en').mode).toBe('showing');
+    expect(trackOf('track-1').mode).toBe('disabled');
+
+    player.setTextTrack(null);
+    expect(trackOf('en').mode).toBe('disabled');
+
+    expect(changes.map(({ from, to }) => ({ from, to }))).toEqual([
+      { from: 'track-1', to: 'en' },
+      { from: 'en', to: null }
+    ]);
+    expect(changes[0].tracks.find((track: { active: boolean }) => track.active).id).toBe('en');
+    expect(player.getTextTracks().every(track => !track.active)).toBe(true);
+    warnSpy.mockRestore();
+    player.destroy();
+  });
+
+  test('自定义渲染时轨道应该隐藏，只转发激活轨道的cue', () => {
+    const { player, record, trackOf } = createPlayer({ textTrackDisplay: 'custom' });
+    const cueChanges = record('cuechange');
+    const cue = { id: '1', startTime: 1, endTime: 2, text: '你好' };
+
+    expect(trackOf('track-1').mode).toBe('hidden');
+    trackOf('track-1').showCues([cue]);
+    trackOf('en').showCues([{ id: 'x', startTime: 1, endTime: 2, text: 'Hello' }]);
+    trackOf('track-1').showCues([]);
+
+    expect(cueChanges).toEqual([
+      { trackId: 'track-1', cues: [cue] },
+      { trackId: 'track-1', cues: [] }
+    ]);
+
+    player.setTextTrack(null);
+    trackOf('track-1').showCues([cue]);
+    expect(cueChanges).toHaveLength(2);
+    player.destroy();
+  });
+
+  test('setTextTrackStyle应该合并样式并生成仅作用于该播放器的::cue规则', () => {
+    const { element, player } = createPlayer();
+
+    player.setTextTrackStyle({ color: 'yellow', fontSize: '20px' });
+    player.setTextTrackStyle({ backgroundColor: 'rgba(0, 0, 0, 0.5)', fontSize: '' });
+
+    const scope = element.getAttribute('data-text-track-style');
+    const styleElement = document.head.querySelector('style')!;
+    expect(player.getTextTrackStyle()).toEqual({ color: 'yellow', fontSize: '', backgroundColor: 'rgba(0, 0, 0, 0.5)' });
+    expect(styleElement.textContent).toBe(
+      `video[data-text-track-style="${scope}"]::cue { color: yellow; background-color: rgba(0, 0, 0, 0.5); }`
+    );
+
+    player.destroy();
+    expect(styleElement.isConnected).toBe(false);
+    expect(element.hasAttribute('data-text-track-style')).toBe(false);
+  });
+});
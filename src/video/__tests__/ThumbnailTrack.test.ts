@@ -0,0 +1,119 @@
+import {
+  parseThumbnailVTT,
+  parseImagePlaylist,
+  findImageStream,
+  ThumbnailTrack
+} from '../ThumbnailTrack';
+
+const storyboard = `WEBVTT
+
+00:00.000 --> 00:05.000
+sprites/sheet-1.jpg#xywh=0,0,160,90
+
+00:05.000 --> 00:10.000
+sprites/sheet-1.jpg#xywh=160,0,160,90
+
+00:00:10.000 --> 00:00:15.000
+https://img.example.com/sheet-2.jpg#xywh=0,0,160,90
+`;
+
+const imagePlaylist = `#EXTM3U
+#EXT-X-TARGETDURATION:8
+#EXT-X-IMAGES-ONLY
+#EXTINF:8.0,
+#EXT-X-TILES:RESOLUTION=160x90,LAYOUT=2x2,DURATION=2
+tiles-1.jpg
+#EXTINF:3.0,
+#EXT-X-TILES:RESOLUTION=160x90,LAYOUT=2x2,DURATION=2
+tiles-2.jpg
+#EXT-X-ENDLIST
+`;
+
+describe('ThumbnailTrack', () => {
+  test('应该解析WebVTT雪碧图索引', () => {
+    const thumbnails = parseThumbnailVTT(storyboard, 'https://cdn.example.com/video/thumbs.vtt');
+
+    expect(thumbnails).toHaveLength(3);
+    expect(thumbnails[1]).toEqual({
+      url: 'https://cdn.example.com/video/sprites/sheet-1.jpg',
+      x: 160,
+      y: 0,
+      width: 160,
+      height: 90,
+      startTime: 5,
+      endTime: 10
+    });
+    expect(thumbnails[2].url).toBe('https://img.example.com/sheet-2.jpg');
+    expect(thumbnails[2].startTime).toBe(10);
+  });
+
+  test('应该解析HLS图像播放列表的网格布局', () => {
+    const thumbnails = parseImagePlaylist(imagePlaylist, 'https://cdn.example.com/images/index.m3u8');
+
+    // 第一张雪碧图4格，第二张只有3秒，只使用前两格
+    expect(thumbnails).toHaveLength(6);
+    expect(thumbnails[3]).toMatchObject({ x: 160, y: 90, startTime: 6, endTime: 8 });
+    expect(thumbnails[5]).toMatchObject({
+      url: 'https://cdn.example.com/images/tiles-2.jpg',
+      x: 160,
+      y: 0,
+      startTime: 10,
+      endTime: 11
+    });
+  });
+
+  test('应该从主播放列表中找到图像流', () => {
+    const master = [
+      '#EXTM3U',
+      '#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360',
+      'video/360p.m3u8',
+      '#EXT-X-IMAGE-STREAM-INF:BANDWIDTH=12000,RESOLUTION=320x180,CODECS="jpeg",URI="images/index.m3u8"'
+    ].join('\n');
+
+    expect(findImageStream(master, 'https://cdn.example.com/master.m3u8')).toEqual({
+      uri: 'https://cdn.example.com/images/index.m3u8',
+      width: 320,
+      height: 180
+    });
+  });
+
+  test('getThumbnailAt应该返回对应时间的雪碧图区域', async () => {
+    (global as any).fetch = jest.fn(() => Promise.resolve({ ok: true, text: () => Promise.resolve(storyboard) }));
+
+    const track = new ThumbnailTrack({ src: 'https://cdn.example.com/lookup/thumbs.vtt' }, { onError: jest.fn() });
+    expect(track.getThumbnailAt(6)).toBeNull();
+
+    await track.ready;
+    expect(track.getThumbnailAt(6)).toMatchObject({ x: 160, startTime: 5 });
+    expect(track.getThumbnailAt(0)).toMatchObject({ x: 0, startTime: 0 });
+    expect(track.getThumbnailAt(99)).toMatchObject({ startTime: 10 });
+    expect(track.getThumbnailAt(-1)).toBeNull();
+
+    track.destroy();
+    delete (global as any).fetch;
+  });
+
+  test('索引缓存应该复用最近使用的地址，超出容量时淘汰最久未用的', async () => {
+    const fetchMock = jest.fn(() => Promise.resolve({ ok: true, text: () => Promise.resolve(storyboard) }));
+    (global as any).fetch = fetchMock;
+    const load = async (name: string) => {
+      const track = new ThumbnailTrack({ src: `https://cdn.example.com/lru/${name}.vtt` }, { onError: jest.fn() });
+      await track.ready;
+      track.destroy();
+    };
+
+    await load('first');
+    for (let i = 0; i < 7; i++) await load(`filler-${i}`);
+    // 再次使用后first成为最近使用，下一次淘汰filler-0
+    await load('first');
+    expect(fetchMock).toHaveBeenCalledTimes(8);
+
+    await load('overflow');
+    await load('first');
+    expect(fetchMock).toHaveBeenCalledTimes(9);
+    await load('filler-0');
+    expect(fetchMock).toHaveBeenCalledTimes(10);
+
+    delete (global as any).fetch;
+  });
+});
@@ -0,0 +1,115 @@
+import { TimedMetadataManager } from '../TimedMetadata';
+import type { TimedMetadataOptions } from '../TimedMetadata';
+import { parseVTTCues } from '../SubtitleConverter';
+
+const createManager = (options: Partial<TimedMetadataOptions>) => {
+  const element = document.createElement('video');
+  Object.defineProperty(element, 'duration', { value: 100, configurable: true });
+  const events: string[] = [];
+
+  const manager = new TimedMetadataManager(element, {
+    onChapterChange: (from, to) => events.push(`chapter:${from?.id ?? '-'}>${to?.id ?? '-'}`),
+    onCuePoint: (action, cuePoint) => events.push(`${action}:${cuePoint.id}`),
+    onLoadError: jest.fn(),
+    ...options
+  });
+
+  const playTo = (time: number) => {
+    element.currentTime = time;
+    element.dispatchEvent(new Event('timeupdate'));
+  };
+  const seekTo = (time: number) => {
+    element.dispatchEvent(new Event('seeking'));
+    element.currentTime = time;
+    element.dispatchEvent(new Event('seeked'));
+  };
+
+  return { element, manager, events, playTo, seekTo };
+};
+
+describe('TimedMetadataManager', () => {
+  const chapters = [
+    { id: 'intro', title: 'Intro', startTime: 0 },
+    { id: 'main', title: 'Main', startTime: 30 },
+    { id: 'credits', title: 'Credits', startTime: 90 }
+  ];
+
+  test('应该补全章节结束时间', () => {
+    const { manager } = createManager({ chapters });
+
+    expect(manager.getChapters().map(chapter => chapter.endTime)).toEqual([30, 90, 100]);
+    expect(manager.getChapterAt(45)?.id).toBe('main');
+    manager.destroy();
+  });
+
+  test('连续播放时被跨过的提示点应该依次触发enter和exit', () => {
+    const { manager, events, playTo } = createManager({
+      chapters,
+      cuePoints: [
+        { id: 'instant', startTime: 5 },
+        { id: 'short', startTime: 6, endTime: 6.5 },
+        { id: 'range', startTime: 8, endTime: 20 }
+      ]
+    });
+
+    playTo(0);
+    expect(events).toEqual(['chapter:->intro']);
+
+    // 高倍速下一次timeupdate跨过多个提示点
+    playTo(10);
+    expect(events.slice(1)).toEqual(['enter:instant', 'exit:instant', 'enter:short', 'exit:short', 'enter:range']);
+
+    playTo(31);
+    expect(events.slice(6)).toEqual(['exit:range', 'chapter:intro>main']);
+    manager.destroy();
+  });
+
+  test('跳转时只触发前后激活状态的变化', () => {
+    const { manager, events, playTo, seekTo } = createManager({
+      chapters,
+      cuePoints: [
+        { id: 'instant', startTime: 50 },
+        { id: 'range', startTime: 60, endTime: 70 }
+      ]
+    });
+
+    playTo(1);
+    seekTo(65);
+    expect(events).toEqual(['chapter:->intro', 'enter:range', 'chapter:intro>main']);
+
+    seekTo(10);
+    expect(events.slice(3)).toEqual(['exit:range', 'chapter:main>intro']);
+    manager.destroy();
+  });
+
+  test('应该从DATERANGE按CLASS生成提示点', () => {
+    const { element, manager, events, playTo } = createManager({ cuePoints: { dateRange: 'com.example.ad' } });
+    Object.defineProperty(element, 'readyState', { value: 4, configurable: true });
+    element.currentTime = 12;
+
+    manager.setDateRanges([
+      { id: 'ad-1', class: 'com.example.ad', startTime: 10, duration: 15, attributes: { 'X-AD-ID': '42' } },
+      { id: 'other', class: 'com.example.other', startTime: 11, duration: null, attributes: {} }
+    ]);
+
+    expect(manager.getCuePoints()).toEqual([
+      { id: 'ad-1', startTime: 10, endTime: 25, data: { 'X-AD-ID': '42' }, class: 'com.example.ad' }
+    ]);
+    expect(events).toEqual(['enter:ad-1']);
+
+    playTo(26);
+    expect(events).toEqual(['enter:ad-1', 'exit:ad-1']);
+    manager.destroy();
+  });
+});
+
+describe('parseVTTCues', () => {
+  test('应该解析章节WebVTT', () => {
+    const cues = parseVTTCues('WEBVTT\n\nintro\n00:00.000 --> 00:30.000\nIntro\n\n00:00:30.000 --> 00:01:30.000\nMain part\n');
+
+    expect(cues).toEqual([
+      { id: 'intro', startTime: 0, endTime: 30, text: 'Intro' },
+      { startTime: 30, endTime: 90, text: 'Main part' }
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseVAST, parseVMAP, parseVASTTime, parseAdBreakOffset, mergeTracking } from '../VASTParser';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+describe('VASTParser', () => {
+  test('应该解析VAST时间和时段位置', () => {
+    expect(parseVASTTime('00:01:02.500')).toBe(62.5);
+    expect(parseVASTTime('invalid')).toBeNaN();
+    expect(parseAdBreakOffset('start')).toBe('start');
+    expect(parseAdBreakOffset('00:00:00')).toBe('start');
+    expect(parseAdBreakOffset('00:10:00')).toBe(600);
+    expect(parseAdBreakOffset('25%')).toEqual({ percent: 25 });
+    expect(parseAdBreakOffset('#2')).toBeNull();
+  });
+
+  test('应该解析内联线性广告', () => {
+    const document = parseVAST(fixture('vast-inline.xml'));
+
+    expect(document.version).toBe('4.1');
+    expect(document.ads).toHaveLength(1);
+
+    const [ad] = document.ads;
+    expect(ad).toMatchObject({
+      id: 'inline-1',
+      title: 'Spring Sale',
+      duration: 10,
+      skipOffset: 5,
+      clickThrough: 'https://shop.example.com/'
+    });
+    expect(ad.mediaFiles.map(file => file.url)).toEqual([
+      'https://cdn.example.com/ad/master.m3u8',
+      'https://cdn.example.com/ad/1080.mp4',
+      'https://cdn.example.com/ad/360.mp4'
+    ]);
+    expect(ad.mediaFiles[0].delivery).toBe('streaming');
+    expect(ad.tracking.impression).toEqual(['https://track.example.com/impression?ts=[TIMESTAMP]']);
+    expect(ad.tracking.midpoint).toEqual(['https://track.example.com/midpoint']);
+  });
+
+  test('应该解析包装广告', () => {
+    const document = parseVAST(fixture('vast-wrapper.xml'));
+
+    expect(document.ads).toHaveLength(0);
+    expect(document.wrappers).toEqual([{
+      id: 'wrapper-1',
+      sequence: undefined,
+      adTagUri: 'https://ads.example.com/vast-inline.xml',
+      tracking: {
+        impression: ['https://exchange.example.com/impression'],
+        complete: ['https://exchange.example.com/complete']
+      }
+    }]);
+  });
+
+  test('应该解析VMAP并忽略非线性时段', () => {
+    const breaks = parseVMAP(fixture('vmap.xml'));
+
+    expect(breaks.map(adBreak => [adBreak.id, adBreak.offset])).toEqual([
+      ['preroll', 'start'],
+      ['midroll-1', 30],
+      ['postroll', 'end']
+    ]);
+    expect(breaks[0].adTagUri).toBe('https://ads.example.com/vast-wrapper.xml');
+    expect(breaks[1].vast?.ads.map(ad => [ad.id, ad.sequence])).toEqual([['pod-2', 2], ['pod-1', 1]]);
+  });
+
+  test('无效文档应该抛出错误', () => {
+    expect(() => parseVAST('<VMAP/>')).toThrow('Invalid VAST document');
+    expect(() => parseVMAP('<VMAP')).toThrow('Invalid VMAP document');
+  });
+
+  test('应该合并追踪地址', () => {
+    expect(mergeTracking({ start: ['a'] }, { start: ['b'], complete: ['c'] })).toEqual({
+      start: ['a', 'b'],
+      complete: ['c']
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { HTML5VideoAPI, findPreferredLanguageIndex } from '../VideoAPI';
+import type { VideoConfig } from '../types';
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+// 原生AudioTrackList（jsdom未实现）：enabled变化后由测试派发change，与浏览器异步通知一致
+const createAudioTrackList = (languages: string[]) => {
+  const tracks = languages.map((language, index) => ({
+    id: `a${index}`,
+    kind: 'main',
+    label: index === 0 ? 'Original' : '',
+    language,
+    enabled: index === 0
+  }));
+  return Object.assign(new EventTarget(), { length: tracks.length }, tracks);
+};
+
+const createPlayer = (config: VideoConfig) => {
+  const element = document.createElement('video');
+  const player = new HTML5VideoAPI(element, config);
+  return { element, player };
+};
+
+describe('HTML5VideoAPI', () => {
+  describe('多源回退', () => {
+    const sources: VideoConfig['sources'] = [
+      { src: 'https://cdn-a.example.com/video.mp4', type: 'mp4' },
+      { src: 'https://cdn-b.example.com/video.mp4', type: 'mp4', priority: 10 },
+      { src: 'https://cdn-c.example.com/video.webm', type: 'webm' }
+    ];
+
+    test('应该按优先级加载第一个源', () => {
+      const { element, player } = createPlayer({ sources });
+
+      expect(player.currentSource?.src).toBe('https://cdn-b.example.com/video.mp4');
+      expect(element.src).toBe('https://cdn-b.example.com/video.mp4');
+      player.destroy();
+    });
+
+    test('致命错误时应该切换到下一个源并发射sourcechange', () => {
+      const { element, player } = createPlayer({ sources });
+      const onSourceChange = jest.fn();
+      const onError = jest.fn();
+      player.on('sourcechange', onSourceChange);
+      player.on('error', onError);
+
+      element.dispatchEvent(new Event('error'));
+
+      expect(element.src).toBe('https://cdn-a.example.com/video.mp4');
+      expect(onError.mock.calls[0][0].payload.fatal).toBe(false);
+      expect(onSourceChange).toHaveBeenCalledTimes(1);
+      expect(onSourceChange.mock.calls[0][0].payload).toMatchObject({
+        from: { src: 'https://cdn-b.example.com/video.mp4' },
+        to: { src: 'https://cdn-a.example.com/video.mp4' },
+        reason: 'error',
+        index: 1
+      });
+      expect(player.state).not.toBe('error');
+      player.destroy();
+    });
+
+    test('跳过浏览器不支持的源时应该发射unsupported的sourcechange', async () => {
+      jest.spyOn(HTMLMediaElement.prototype, 'canPlayType').mockImplementation(type => (type === 'video/mp4' ? 'maybe' : ''));
+      const { element, player } = createPlayer({
+        sources: [
+          { src: 'https://cdn-c.example.com/video.webm', type: 'webm', priority: 20 },
+          ...sources
+        ]
+      });
+      const onSourceChange = jest.fn();
+      player.on('sourcechange', onSourceChange);
+
+      await Promise.resolve();
+
+      expect(element.src).toBe('https://cdn-b.example.com/video.mp4');
+      // 排在所有可播放源之后的webm不会被跳过，不计入
+      expect(onSourceChange).toHaveBeenCalledTimes(1);
+      expect(onSourceChange.mock.calls[0][0].payload).toEqual({
+        from: { src: 'https://cdn-c.example.com/video.webm', type: 'webm', priority: 20 },
+        to: { src: 'https://cdn-b.example.com/video.mp4', type: 'mp4', priority: 10 },
+        reason: 'unsupported',
+        index: 0
+      });
+      (HTMLMediaElement.prototype.canPlayType as jest.Mock).mockRestore();
+      player.destroy();
+    });
+
+    test('所有源都失败后应该发射致命错误', () => {
+      const { element, player } = createPlayer({ sources });
+      const onError = jest.fn();
+      player.on('error', onError);
+
+      element.dispatchEvent(new Event('error'));
+      element.dispatchEvent(new Event('error'));
+      element.dispatchEvent(new Event('error'));
+
+      expect(element.src).toBe('https://cdn-c.example.com/video.webm');
+      expect(onError).toHaveBeenCalledTimes(3);
+      expect(onError.mock.calls[2][0].payload.fatal).toBe(true);
+      expect(player.state).toBe('error');
+      expect(player.stats.errorCount).toBe(3);
+      player.destroy();
+    });
+  });
+
+  describe('首选语言匹配', () => {
+    test('应该优先完全匹配且忽略大小写', () => {
+      expect(findPreferredLanguageIndex(['en', 'en-GB', 'zh-CN'], 'EN-gb')).toBe(1);
+    });
+
+    test('应该回退到主语言子标签匹配', () => {
+      expect(findPreferredLanguageIndex(['de', 'zh-TW', 'zh-CN'], 'zh')).toBe(1);
+      expect(findPreferredLanguageIndex(['en-US'], 'en-GB')).toBe(0);
+    });
+
+    test('无匹配时应该返回-1', () => {
+      expect(findPreferredLanguageIndex(['en', 'fr'], 'ja')).toBe(-1);
+    });
+  });
+
+  describe('原生音轨', () => {
+    const sources: VideoConfig['sources'] = [{ src: 'https://cdn.example.com/video.mp4', type: 'mp4' }];
+
+    const createAudioPlayer = (config: Partial<VideoConfig> = {}) => {
+      const element = document.createElement('video');
+      const audioTracks = createAudioTrackList(['en', 'zh-CN']);
+      Object.defineProperty(element, 'audioTracks', { value: audioTracks });
+      const player = new HTML5VideoAPI(element, { sources, hotkeys: false, ...config });
+      const changes: any[] = [];
+      player.on('audiotrackchange', event => changes.push(event.payload));
+      return { element, player, audioTracks, changes };
+    };
+
+    test('应该列出原生音轨，并在元数据就绪后按首选语言切换', () => {
+      const { element, player, audioTracks, changes } = createAudioPlayer({ preferredLanguage: 'zh' });
+
+      expect(player.getAudioTracks()).toEqual([
+        { id: 'a0', label: 'Original', language: 'en', kind: 'main', active: true },
+        { id: 'a1', label: 'zh-CN', language: 'zh-CN', kind: 'main', active: false }
+      ]);
+
+      element.dispatchEvent(new Event('loadedmetadata'));
+      expect([audioTracks[0].enabled, audioTracks[1].enabled]).toEqual([false, true]);
+
+      audioTracks.dispatchEvent(new Event('change'));
+      expect(changes).toEqual([
+        { from: 'a0', to: 'a1', tracks: expect.arrayContaining([expect.objectContaining({ id: 'a1', active: true })]) }
+      ]);
+      player.destroy();
+    });
+
+    test('setAudioTrack应该只启用目标音轨，未知音轨忽略', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const { element, player, audioTracks, changes } = createAudioPlayer();
+      element.dispatchEvent(new Event('loadedmetadata'));
+
+      player.setAudioTrack('missing');
+      expect(warnSpy).toHaveBeenCalledWith("Audio track 'missing' does not exist");
+      expect(audioTracks[0].enabled).toBe(true);
+
+      player.setAudioTrack('a1');
+      audioTracks.dispatchEvent(new Event('change'));
+      player.setAudioTrack('a1');
+      audioTracks.dispatchEvent(new Event('change'));
+
+      expect(changes.map(({ from, to }) => ({ from, to }))).toEqual([{ from: 'a0', to: 'a1' }]);
+      warnSpy.mockRestore();
+      player.destroy();
+    });
+  });
+});
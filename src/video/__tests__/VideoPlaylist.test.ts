@@ -0,0 +1,132 @@
+import { VideoPlaylist } from '../VideoPlaylist';
+import { HTML5VideoAPI } from '../VideoAPI';
+import { videoPlayerFactory } from '../VideoPlayerFactory';
+import type { VideoConfig } from '../types';
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const configs: VideoConfig[] = ['a', 'b', 'c'].map(name => ({
+  sources: [{ src: `https://cdn.example.com/${name}.mp4`, type: 'mp4' as const }]
+}));
+
+const createPlaylist = (options?: ConstructorParameters<typeof VideoPlaylist>[2]) => {
+  const element = document.createElement('video');
+  const playlist = new VideoPlaylist(element, configs, { preloadNext: false, ...options });
+  return { element, playlist };
+};
+
+describe('VideoPlaylist', () => {
+  test('应该在同一元素上加载起始条目', () => {
+    const { element, playlist } = createPlaylist({ startIndex: 1 });
+
+    expect(playlist.currentIndex).toBe(1);
+    expect(playlist.player?.element).toBe(element);
+    expect(element.src).toBe('https://cdn.example.com/b.mp4');
+    playlist.destroy();
+  });
+
+  test('next/previous应该切换条目并发射itemchange', () => {
+    const { element, playlist } = createPlaylist();
+    const onItemChange = jest.fn();
+    playlist.on('itemchange', onItemChange);
+    const firstPlayer = playlist.player;
+
+    expect(playlist.next()).toBe(true);
+    expect(element.src).toBe('https://cdn.example.com/b.mp4');
+    expect(playlist.player).not.toBe(firstPlayer);
+    expect(onItemChange.mock.calls[0][0]).toMatchObject({
+      from: { config: configs[0] },
+      to: { config: configs[1] },
+      index: 1,
+      reason: 'next'
+    });
+
+    expect(playlist.previous()).toBe(true);
+    expect(playlist.currentIndex).toBe(0);
+    expect(playlist.previous()).toBe(false);
+    playlist.destroy();
+  });
+
+  test('切换条目应该从工厂注销旧播放器，销毁后不留注册项', () => {
+    const before = videoPlayerFactory.getAllPlayers().length;
+    const { playlist } = createPlaylist();
+
+    playlist.next();
+    playlist.next();
+    expect(videoPlayerFactory.getAllPlayers()).toHaveLength(before + 1);
+    expect(videoPlayerFactory.getAllPlayers()).toContain(playlist.player);
+
+    playlist.destroy();
+    expect(videoPlayerFactory.getAllPlayers()).toHaveLength(before);
+  });
+
+  test('repeat-all应该在末尾回到第一项', () => {
+    const { playlist } = createPlaylist({ startIndex: 2, repeat: 'all' });
+
+    expect(playlist.next()).toBe(true);
+    expect(playlist.currentIndex).toBe(0);
+    playlist.destroy();
+  });
+
+  test('ended时应该自动前进，repeat-one时重播当前项', () => {
+    const { element, playlist } = createPlaylist();
+
+    element.dispatchEvent(new Event('ended'));
+    expect(playlist.currentIndex).toBe(1);
+
+    playlist.setRepeat('one');
+    const player = playlist.player;
+    element.dispatchEvent(new Event('ended'));
+    expect(playlist.currentIndex).toBe(1);
+    expect(playlist.player).toBe(player);
+    playlist.destroy();
+  });
+
+  test('随机模式应该保持当前条目在队列最前', () => {
+    const { playlist } = createPlaylist({ startIndex: 1 });
+    const onPlaylistChange = jest.fn();
+    playlist.on('playlistchange', onPlaylistChange);
+
+    playlist.setShuffle(true);
+
+    const queue = playlist.getQueue();
+    expect(queue[0]).toBe(playlist.currentItem);
+    expect(queue).toHaveLength(3);
+    expect(onPlaylistChange.mock.calls[0][0]).toMatchObject({ reason: 'shuffle', shuffle: true });
+    playlist.destroy();
+  });
+
+  test('移除当前条目应该切换到其后的条目', () => {
+    const { element, playlist } = createPlaylist();
+
+    playlist.remove(playlist.currentItem!.id);
+
+    expect(playlist.items).toHaveLength(2);
+    expect(element.src).toBe('https://cdn.example.com/b.mp4');
+    playlist.destroy();
+  });
+
+  test('应该预取下一项的流媒体清单', () => {
+    const fetchMock = jest.fn(() => Promise.resolve({ ok: true, text: () => Promise.resolve('#EXTM3U') }));
+    (global as any).fetch = fetchMock;
+
+    const element = document.createElement('video');
+    const playlist = new VideoPlaylist(element, [
+      configs[0],
+      { sources: [{ src: 'https://cdn.example.com/next.mpd', type: 'dash' }] }
+    ], { createPlayer: (el, config) => new HTML5VideoAPI(el, config) });
+
+    expect(fetchMock).toHaveBeenCalledWith('https://cdn.example.com/next.mpd', expect.anything());
+    playlist.destroy();
+    delete (global as any).fetch;
+  });
+});
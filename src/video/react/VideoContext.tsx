@@ -0,0 +1,44 @@
+'use client';
+
+import React, { createContext, useContext, ReactNode } from 'react';
+import type { IVideoPlayer } from '../types';
+
+// 播放器尚未创建（服务端渲染或首次挂载前）时为null
+const VideoContext = createContext<IVideoPlayer | null | undefined>(undefined);
+
+interface VideoProviderProps {
+  player: IVideoPlayer | null;
+  children: ReactNode;
+}
+
+// 向子组件提供播放器，配合useVideoTime等Hook按需订阅状态
+export const VideoProvider: React.FC<VideoProviderProps> = ({ player, children }) => {
+  return (
+    <VideoContext.Provider value={player}>
+      {children}
+    </VideoContext.Provider>
+  );
+};
+
+// 自定义Hook - 获取上下文中的播放器
+export const useVideoContext = (): IVideoPlayer | null => {
+  const player = useContext(VideoContext);
+  if (player === undefined) {
+    throw new Error('useVideoContext must be used within a VideoProvider');
+  }
+  return player;
+};
+
+/**
+ * 解析Hook使用的播放器：显式传入优先，否则从VideoProvider获取
+ */
+export const useResolvedPlayer = (player: IVideoPlayer | null | undefined, hookName: string): IVideoPlayer | null => {
+  const contextPlayer = useContext(VideoContext);
+  if (player !== undefined) return player;
+  if (contextPlayer === undefined) {
+    throw new Error(`${hookName} must be used within a VideoProvider or receive a player`);
+  }
+  return contextPlayer;
+};
+
+export default VideoContext;
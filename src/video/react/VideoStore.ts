@@ -0,0 +1,199 @@
+// 播放器外部状态仓库 - 为useSyncExternalStore提供按切片订阅和引用稳定的快照
+
+import type { IVideoPlayer, PlaybackRate, VideoError, VideoEventType, VideoQuality, VideoTextTrack } from '../types';
+
+export interface VideoTimeSnapshot {
+  currentTime: number;
+  duration: number;
+}
+
+export interface VideoBufferedRange {
+  start: number;
+  end: number;
+}
+
+export interface VideoBufferedSnapshot {
+  ranges: VideoBufferedRange[];
+  // 当前播放位置所在缓冲区间的结束时间，未命中区间时等于currentTime
+  bufferedEnd: number;
+}
+
+export interface VideoQualitySnapshot {
+  current: VideoQuality;
+  available: VideoQuality[];
+}
+
+export interface VideoPlaybackSnapshot {
+  paused: boolean;
+  ended: boolean;
+}
+
+export interface VideoVolumeSnapshot {
+  volume: number;
+  muted: boolean;
+}
+
+export type VideoStoreSlice = 'time' | 'buffered' | 'quality' | 'error' | 'playback' | 'volume' | 'rate' | 'texttracks';
+
+// 各切片依赖的事件，订阅者只在相关事件发生时被通知
+export const VIDEO_STORE_SLICE_EVENTS: Record<VideoStoreSlice, VideoEventType[]> = {
+  time: ['timeupdate', 'seeked', 'durationchange', 'loadedmetadata', 'emptied'],
+  buffered: ['progress', 'seeked', 'emptied'],
+  quality: ['qualitychange', 'loadedmetadata'],
+  error: ['error', 'loadstart', 'playing'],
+  playback: ['play', 'pause', 'playing', 'ended', 'emptied'],
+  volume: ['volumechange'],
+  rate: ['ratechange'],
+  texttracks: ['texttrackchange', 'loadedmetadata']
+};
+
+// 服务端和播放器创建前使用的初始快照
+export const INITIAL_TIME_SNAPSHOT: VideoTimeSnapshot = { currentTime: 0, duration: 0 };
+export const INITIAL_BUFFERED_SNAPSHOT: VideoBufferedSnapshot = { ranges: [], bufferedEnd: 0 };
+export const INITIAL_QUALITY_SNAPSHOT: VideoQualitySnapshot = { current: 'auto', available: ['auto'] };
+export const INITIAL_PLAYBACK_SNAPSHOT: VideoPlaybackSnapshot = { paused: true, ended: false };
+export const INITIAL_VOLUME_SNAPSHOT: VideoVolumeSnapshot = { volume: 1, muted: false };
+export const INITIAL_TEXT_TRACKS_SNAPSHOT: VideoTextTrack[] = [];
+
+const isSameRanges = (a: VideoBufferedRange[], b: VideoBufferedRange[]): boolean =>
+  a.length === b.length && a.every((range, i) => range.start === b[i].start && range.end === b[i].end);
+
+const isSameTextTracks = (a: VideoTextTrack[], b: VideoTextTrack[]): boolean =>
+  a.length === b.length && a.every((track, i) =>
+    track.id === b[i].id && track.active === b[i].active && track.label === b[i].label);
+
+const isSameQualities = (a: VideoQuality[], b: VideoQuality[]): boolean =>
+  a.length === b.length && a.every((quality, i) => quality === b[i]);
+
+export class VideoStore {
+  private _player: IVideoPlayer;
+  private _time = INITIAL_TIME_SNAPSHOT;
+  private _buffered = INITIAL_BUFFERED_SNAPSHOT;
+  private _quality = INITIAL_QUALITY_SNAPSHOT;
+  private _currentQuality: VideoQuality = 'auto';
+  private _error: VideoError | null = null;
+  private _playback = INITIAL_PLAYBACK_SNAPSHOT;
+  private _volume = INITIAL_VOLUME_SNAPSHOT;
+  private _textTracks = INITIAL_TEXT_TRACKS_SNAPSHOT;
+
+  constructor(player: IVideoPlayer) {
+    this._player = player;
+
+    // 质量和错误只能从事件得知，创建时即开始跟踪；监听先于订阅者注册，通知时状态已更新
+    player.on('qualitychange', event => {
+      this._currentQuality = event.payload.to;
+    });
+    player.on('error', event => {
+      this._error = event.payload;
+    });
+    player.on('loadstart', () => {
+      this._error = null;
+    });
+    player.on('playing', () => {
+      this._error = null;
+    });
+  }
+
+  get player(): IVideoPlayer {
+    return this._player;
+  }
+
+  /**
+   * 订阅切片变化，返回取消订阅函数
+   */
+  subscribe(slice: VideoStoreSlice, callback: () => void): () => void {
+    const events = VIDEO_STORE_SLICE_EVENTS[slice];
+    const listener = () => callback();
+    events.forEach(event => this._player.on(event, listener));
+
+    return () => {
+      events.forEach(event => this._player.off(event, listener));
+    };
+  }
+
+  getTime(): VideoTimeSnapshot {
+    const element = this._player.element;
+    const currentTime = element.currentTime || 0;
+    const duration = element.duration || 0;
+
+    if (currentTime !== this._time.currentTime || duration !== this._time.duration) {
+      this._time = { currentTime, duration };
+    }
+    return this._time;
+  }
+
+  getBuffered(): VideoBufferedSnapshot {
+    const element = this._player.element;
+    const buffered = element.buffered;
+    const ranges: VideoBufferedRange[] = [];
+    for (let i = 0; i < (buffered?.length ?? 0); i++) {
+      ranges.push({ start: buffered.start(i), end: buffered.end(i) });
+    }
+
+    const currentTime = element.currentTime || 0;
+    const current = ranges.find(range => range.start <= currentTime && currentTime <= range.end);
+    const bufferedEnd = current ? current.end : currentTime;
+
+    if (!isSameRanges(ranges, this._buffered.ranges) || bufferedEnd !== this._buffered.bufferedEnd) {
+      this._buffered = { ranges, bufferedEnd };
+    }
+    return this._buffered;
+  }
+
+  getQuality(): VideoQualitySnapshot {
+    const current = this._currentQuality;
+    const available = this._player.getAvailableQualities();
+
+    if (current !== this._quality.current || !isSameQualities(available, this._quality.available)) {
+      this._quality = { current, available };
+    }
+    return this._quality;
+  }
+
+  getError(): VideoError | null {
+    return this._error;
+  }
+
+  getPlayback(): VideoPlaybackSnapshot {
+    const { paused, ended } = this._player.element;
+
+    if (paused !== this._playback.paused || ended !== this._playback.ended) {
+      this._playback = { paused, ended };
+    }
+    return this._playback;
+  }
+
+  getVolume(): VideoVolumeSnapshot {
+    const { volume, muted } = this._player.element;
+
+    if (volume !== this._volume.volume || muted !== this._volume.muted) {
+      this._volume = { volume, muted };
+    }
+    return this._volume;
+  }
+
+  getRate(): PlaybackRate {
+    return this._player.element.playbackRate;
+  }
+
+  getTextTracks(): VideoTextTrack[] {
+    const tracks = this._player.getTextTracks();
+
+    if (!isSameTextTracks(tracks, this._textTracks)) {
+      this._textTracks = tracks;
+    }
+    return this._textTracks;
+  }
+}
+
+// 同一播放器的多个Hook共享一个仓库
+const stores = new WeakMap<IVideoPlayer, VideoStore>();
+
+export const getVideoStore = (player: IVideoPlayer): VideoStore => {
+  let store = stores.get(player);
+  if (!store) {
+    store = new VideoStore(player);
+    stores.set(player, store);
+  }
+  return store;
+};
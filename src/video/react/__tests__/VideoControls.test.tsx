@@ -0,0 +1,192 @@
+import React from 'react';
+import { render, screen, act, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { HTML5VideoAPI } from '../../VideoAPI';
+import { VideoProvider } from '../VideoContext';
+import {
+  VideoControls,
+  ControlBar,
+  PlayButton,
+  SeekBar,
+  VolumeControl,
+  QualityMenu
+} from '../controls';
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(function (this: HTMLMediaElement) {
+    Object.defineProperty(this, 'paused', { value: true, configurable: true });
+    this.dispatchEvent(new Event('pause'));
+  });
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(function (this: HTMLMediaElement) {
+    Object.defineProperty(this, 'paused', { value: false, configurable: true });
+    this.dispatchEvent(new Event('play'));
+    return Promise.resolve();
+  });
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const createPlayer = () => {
+  const element = document.createElement('video');
+  Object.defineProperty(element, 'duration', { value: 100, configurable: true });
+  Object.defineProperty(element, 'buffered', {
+    configurable: true,
+    value: { length: 1, start: () => 0, end: () => 40 }
+  });
+  return new HTML5VideoAPI(element, { sources: [], hotkeys: false, qualities: ['auto', '720p', '1080p'] });
+};
+
+const renderControls = (player: HTML5VideoAPI, hideDelay?: number) => render(
+  <VideoProvider player={player}>
+    <VideoControls hideDelay={hideDelay}>
+      <ControlBar>
+        <PlayButton />
+        <SeekBar />
+        <VolumeControl />
+        <QualityMenu />
+      </ControlBar>
+    </VideoControls>
+  </VideoProvider>
+);
+
+describe('VideoControls', () => {
+  test('进度条应该提供滑块语义、缓冲区间和键盘跳转', () => {
+    const player = createPlayer();
+    const { container } = renderControls(player);
+    const seekBar = screen.getByRole('slider', { name: '播放进度' });
+
+    expect(seekBar).toHaveAttribute('aria-valuemax', '100');
+    expect(seekBar).toHaveAttribute('aria-valuetext', '0:00 / 1:40');
+    expect(container.querySelector('[data-part="buffered"]')).toHaveStyle({ left: '0%', width: '40%' });
+
+    act(() => {
+      fireEvent.keyDown(seekBar, { key: 'ArrowRight' });
+      player.element.dispatchEvent(new Event('timeupdate'));
+    });
+    expect(player.element.currentTime).toBe(5);
+    expect(seekBar).toHaveAttribute('aria-valuenow', '5');
+
+    act(() => {
+      fireEvent.keyDown(seekBar, { key: 'End' });
+    });
+    expect(player.element.currentTime).toBe(100);
+    player.destroy();
+  });
+
+  test('播放、静音和音量控件应该反映并修改播放器状态', () => {
+    const player = createPlayer();
+    renderControls(player);
+
+    fireEvent.click(screen.getByRole('button', { name: '播放' }));
+    expect(screen.getByRole('button', { name: '暂停' })).toBeInTheDocument();
+
+    const volume = screen.getByRole('slider', { name: '音量' });
+    act(() => {
+      fireEvent.keyDown(volume, { key: 'ArrowDown' });
+    });
+    expect(player.element.volume).toBe(0.95);
+    expect(volume).toHaveAttribute('aria-valuetext', '95%');
+
+    fireEvent.click(screen.getByRole('button', { name: '静音' }));
+    expect(player.element.muted).toBe(true);
+    expect(volume).toHaveAttribute('aria-valuenow', '0');
+    expect(screen.getByRole('button', { name: '取消静音' })).toBeInTheDocument();
+    player.destroy();
+  });
+
+  test('画质菜单应该支持菜单语义和键盘操作', () => {
+    const player = createPlayer();
+    renderControls(player);
+    const trigger = screen.getByRole('button', { name: '画质' });
+
+    fireEvent.click(trigger);
+    expect(trigger).toHaveAttribute('aria-expanded', 'true');
+    const items = screen.getAllByRole('menuitemradio');
+    expect(items.map(item => item.textContent)).toEqual(['自动', '720p', '1080p']);
+    expect(items[0]).toHaveAttribute('aria-checked', 'true');
+    expect(items[0]).toHaveFocus();
+
+    fireEvent.keyDown(items[0], { key: 'ArrowUp' });
+    expect(items[2]).toHaveFocus();
+    fireEvent.click(items[2]);
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+    expect(trigger).toHaveFocus();
+    expect(trigger).toHaveTextContent('1080p');
+
+    fireEvent.keyDown(trigger, { key: 'ArrowDown' });
+    fireEvent.keyDown(screen.getByRole('menu'), { key: 'Escape' });
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+    expect(trigger).toHaveFocus();
+    player.destroy();
+  });
+
+  test('播放中无操作后自动隐藏控件，并关闭原生控件', () => {
+    jest.useFakeTimers();
+    const player = createPlayer();
+    const { container } = renderControls(player, 1000);
+    const bar = container.querySelector('[data-part="control-bar"]')!;
+    expect(player.element.controls).toBe(false);
+
+    act(() => {
+      player.element.play();
+    });
+    expect(bar).toHaveAttribute('data-visible', 'true');
+
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(bar).toHaveAttribute('data-visible', 'false');
+
+    // 键盘操作重新显示
+    act(() => {
+      fireEvent.keyDown(container.firstChild as Element, { key: 'Shift' });
+    });
+    expect(bar).toHaveAttribute('data-visible', 'true');
+
+    act(() => {
+      player.element.pause();
+      jest.advanceTimersByTime(1000);
+    });
+    expect(bar).toHaveAttribute('data-visible', 'true');
+
+    jest.useRealTimers();
+    player.destroy();
+  });
+
+  test('点击控件获得的焦点不阻止自动隐藏，键盘聚焦时保持显示', () => {
+    jest.useFakeTimers();
+    const player = createPlayer();
+    const { container } = renderControls(player, 1000);
+    const bar = container.querySelector('[data-part="control-bar"]')!;
+    const playButton = screen.getByRole('button', { name: '播放' });
+
+    act(() => {
+      fireEvent.pointerDown(playButton);
+      playButton.focus();
+      fireEvent.click(playButton);
+    });
+    expect(player.element.paused).toBe(false);
+    expect(playButton).toHaveFocus();
+
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(bar).toHaveAttribute('data-visible', 'false');
+
+    // Tab切换到进度条
+    const seekBar = screen.getByRole('slider', { name: '播放进度' });
+    act(() => {
+      fireEvent.keyDown(playButton, { key: 'Tab' });
+      seekBar.focus();
+      jest.advanceTimersByTime(1000);
+    });
+    expect(bar).toHaveAttribute('data-visible', 'true');
+
+    jest.useRealTimers();
+    player.destroy();
+  });
+});
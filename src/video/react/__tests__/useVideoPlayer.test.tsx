@@ -0,0 +1,143 @@
+import React from 'react';
+import { render, screen, act } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { HTML5VideoAPI } from '../../VideoAPI';
+import { videoPlayerFactory } from '../../VideoPlayerFactory';
+import type { IVideoPlayer, VideoConfig } from '../../types';
+import { useVideoPlayer, diffVideoConfig } from '../useVideoPlayer';
+import { VideoProvider } from '../VideoContext';
+import { useVideoTime, useVideoQuality, useVideoError } from '../useVideoStore';
+
+// jsdom未实现媒体加载与播放
+beforeAll(() => {
+  jest.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const mp4 = (name: string) => ({ src: `https://cdn.example.com/${name}.mp4`, type: 'mp4' as const });
+
+describe('useVideoPlayer', () => {
+  test('配置变化应该按字段更新现有播放器，非运行时字段变化才重建', () => {
+    const players: (IVideoPlayer | null)[] = [];
+    const Player: React.FC<{ config: VideoConfig }> = ({ config }) => {
+      const { videoRef, player } = useVideoPlayer(config);
+      players.push(player);
+      return <video ref={videoRef} data-testid="video" />;
+    };
+
+    const base: VideoConfig = { sources: [mp4('a')], hotkeys: false, muted: false };
+    const { rerender, unmount } = render(<Player config={base} />);
+    const element = screen.getByTestId('video') as HTMLVideoElement;
+    const first = players[players.length - 1]!;
+    expect(first).toBeInstanceOf(HTML5VideoAPI);
+    expect(element.src).toBe(mp4('a').src);
+
+    rerender(<Player config={{ ...base, sources: [mp4('b')], muted: true, poster: '/poster.jpg' }} />);
+    expect(players[players.length - 1]).toBe(first);
+    expect(element.src).toBe(mp4('b').src);
+    expect(element.muted).toBe(true);
+    expect(element.getAttribute('poster')).toBe('/poster.jpg');
+
+    rerender(<Player config={{ ...base, sources: [mp4('b')], muted: true, poster: '/poster.jpg', hotkeys: true }} />);
+    const rebuilt = players[players.length - 1]!;
+    expect(rebuilt).not.toBe(first);
+    expect(videoPlayerFactory.getAllPlayers()).toEqual([rebuilt]);
+
+    unmount();
+    expect(videoPlayerFactory.getAllPlayers()).toEqual([]);
+  });
+
+  test('源类型变化导致播放器类型不同时需要重建', () => {
+    const base: VideoConfig = { sources: [mp4('a')], volume: 0.5 };
+
+    expect(diffVideoConfig(base, { ...base, sources: [mp4('a')] })).toEqual({});
+    expect(diffVideoConfig(base, { ...base, volume: 1 })).toEqual({ volume: 1 });
+    expect(diffVideoConfig(base, { ...base, sources: [{ src: 'https://cdn.example.com/a.m3u8', type: 'hls' }] })).toBeNull();
+    expect(diffVideoConfig(base, { ...base, drm: { keySystem: 'org.w3.clearkey' } })).toBeNull();
+  });
+});
+
+describe('状态Hook', () => {
+  const createPlayer = () => {
+    const element = document.createElement('video');
+    Object.defineProperty(element, 'duration', { value: 60, configurable: true });
+    return new HTML5VideoAPI(element, { sources: [], hotkeys: false, qualities: ['720p', '1080p'] });
+  };
+
+  test('timeupdate只重新渲染订阅进度的组件', () => {
+    const player = createPlayer();
+    const renders = { time: 0, quality: 0 };
+    const Time = () => {
+      renders.time++;
+      const { currentTime, duration } = useVideoTime();
+      return <span data-testid="time">{currentTime}/{duration}</span>;
+    };
+    const Quality = () => {
+      renders.quality++;
+      const { current, available } = useVideoQuality();
+      return <span data-testid="quality">{current}:{available.join(',')}</span>;
+    };
+
+    render(
+      <VideoProvider player={player}>
+        <Time />
+        <Quality />
+      </VideoProvider>
+    );
+    expect(screen.getByTestId('time')).toHaveTextContent('0/60');
+    expect(screen.getByTestId('quality')).toHaveTextContent('auto:720p,1080p');
+    const initial = { ...renders };
+
+    act(() => {
+      player.element.currentTime = 12;
+      player.element.dispatchEvent(new Event('timeupdate'));
+    });
+    expect(screen.getByTestId('time')).toHaveTextContent('12/60');
+    expect(renders).toEqual({ time: initial.time + 1, quality: initial.quality });
+
+    act(() => player.setQuality('1080p'));
+    expect(screen.getByTestId('quality')).toHaveTextContent('1080p:720p,1080p');
+    expect(renders).toEqual({ time: initial.time + 1, quality: initial.quality + 1 });
+
+    player.destroy();
+  });
+
+  test('useVideoError应该在错误时更新并在重新加载后清空', () => {
+    const player = createPlayer();
+    const ErrorMessage = () => {
+      const error = useVideoError(player);
+      return <span data-testid="error">{error ? error.message : 'none'}</span>;
+    };
+    render(<ErrorMessage />);
+
+    act(() => {
+      player.emit('error', {
+        type: 'error',
+        timestamp: Date.now(),
+        currentTime: 0,
+        duration: 60,
+        payload: { type: 'network', code: 2, message: 'Network error', timestamp: Date.now(), fatal: true }
+      });
+    });
+    expect(screen.getByTestId('error')).toHaveTextContent('Network error');
+
+    act(() => {
+      player.element.dispatchEvent(new Event('loadstart'));
+    });
+    expect(screen.getByTestId('error')).toHaveTextContent('none');
+    player.destroy();
+  });
+
+  test('未提供播放器时应该抛出错误', () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const Time = () => <span>{useVideoTime().currentTime}</span>;
+
+    expect(() => render(<Time />)).toThrow('useVideoTime must be used within a VideoProvider or receive a player');
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useEffect, useId, useRef, useState, ReactNode } from 'react';
+
+export interface ControlMenuOption<T> {
+  value: T;
+  label: string;
+}
+
+export interface ControlMenuProps<T> {
+  label: string;
+  options: ControlMenuOption<T>[];
+  value: T;
+  onSelect: (value: T) => void;
+  className?: string;
+  // 触发按钮内容，默认显示当前选项
+  children?: ReactNode;
+}
+
+/**
+ * 无样式的单选菜单按钮：menu/menuitemradio语义，
+ * 方向键/Home/End移动焦点，Escape关闭并把焦点还给触发按钮，点击外部或Tab离开时关闭
+ */
+export function ControlMenu<T>({ label, options, value, onSelect, className, children }: ControlMenuProps<T>) {
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const itemRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const menuId = useId();
+  const selectedIndex = Math.max(0, options.findIndex(option => Object.is(option.value, value)));
+
+  // 打开时聚焦当前选项
+  useEffect(() => {
+    if (open) itemRefs.current[selectedIndex]?.focus();
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!rootRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [open]);
+
+  const close = () => {
+    setOpen(false);
+    triggerRef.current?.focus();
+  };
+
+  const handleMenuKeyDown = (event: React.KeyboardEvent<HTMLUListElement>) => {
+    const items = itemRefs.current.filter((item): item is HTMLButtonElement => item !== null);
+    const current = items.indexOf(document.activeElement as HTMLButtonElement);
+    const focusAt = (index: number) => items[(index + items.length) % items.length]?.focus();
+
+    switch (event.key) {
+      case 'ArrowDown':
+        focusAt(current + 1);
+        break;
+      case 'ArrowUp':
+        focusAt(current - 1);
+        break;
+      case 'Home':
+        focusAt(0);
+        break;
+      case 'End':
+        focusAt(items.length - 1);
+        break;
+      case 'Escape':
+        close();
+        break;
+      case 'Tab':
+        setOpen(false);
+        return;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  const handleTriggerKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      setOpen(true);
+    }
+  };
+
+  return (
+    <div ref={rootRef} className={className} data-open={open || undefined}>
+      <button
+        ref={triggerRef}
+        type="button"
+        aria-label={label}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        aria-controls={open ? menuId : undefined}
+        onClick={() => setOpen(!open)}
+        onKeyDown={handleTriggerKeyDown}
+      >
+        {children ?? options[selectedIndex]?.label}
+      </button>
+      {open && (
+        <ul id={menuId} role="menu" aria-label={label} onKeyDown={handleMenuKeyDown}>
+          {options.map((option, index) => (
+            <li key={option.label} role="none">
+              <button
+                ref={element => { itemRefs.current[index] = element; }}
+                type="button"
+                role="menuitemradio"
+                aria-checked={index === selectedIndex}
+                tabIndex={-1}
+                onClick={() => {
+                  onSelect(option.value);
+                  close();
+                }}
+              >
+                {option.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default ControlMenu;
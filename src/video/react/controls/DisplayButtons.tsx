@@ -0,0 +1,92 @@
+'use client';
+
+import React, { useCallback, useSyncExternalStore } from 'react';
+import type { IVideoPlayer } from '../../types';
+import { useControls } from './VideoControls';
+
+interface DisplayButtonProps {
+  player?: IVideoPlayer | null;
+  className?: string;
+}
+
+// 画中画状态来自元素事件，服务端视为不支持
+const usePictureInPicture = (element: HTMLVideoElement | null) => {
+  const subscribe = useCallback((callback: () => void) => {
+    if (!element) return () => {};
+    element.addEventListener('enterpictureinpicture', callback);
+    element.addEventListener('leavepictureinpicture', callback);
+    return () => {
+      element.removeEventListener('enterpictureinpicture', callback);
+      element.removeEventListener('leavepictureinpicture', callback);
+    };
+  }, [element]);
+
+  const supported = useSyncExternalStore(
+    subscribe,
+    () => Boolean((document as any).pictureInPictureEnabled) && !(element as any)?.disablePictureInPicture,
+    () => false
+  );
+  const active = useSyncExternalStore(
+    subscribe,
+    () => element !== null && (document as any).pictureInPictureElement === element,
+    () => false
+  );
+  return { supported, active };
+};
+
+// 全屏状态来自document事件
+const subscribeFullscreen = (callback: () => void) => {
+  document.addEventListener('fullscreenchange', callback);
+  return () => document.removeEventListener('fullscreenchange', callback);
+};
+
+export const PiPButton: React.FC<DisplayButtonProps> = ({ player: playerProp, className }) => {
+  const { player, labels } = useControls(playerProp, 'PiPButton');
+  const { supported, active } = usePictureInPicture(player?.element ?? null);
+  if (!player || !supported || player.config.pip === false) return null;
+
+  return (
+    <button
+      type="button"
+      className={className}
+      aria-label={active ? labels.exitPiP : labels.enterPiP}
+      aria-pressed={active}
+      onClick={() => player.togglePiP().catch(error => console.warn('Picture-in-Picture failed:', error))}
+    >
+      ⧉
+    </button>
+  );
+};
+
+// 全屏按钮：在VideoControls内时以控件容器为全屏目标，否则使用播放器的全屏方法
+export const FullscreenButton: React.FC<DisplayButtonProps> = ({ player: playerProp, className }) => {
+  const { player, container, labels } = useControls(playerProp, 'FullscreenButton');
+  const supported = useSyncExternalStore(subscribeFullscreen, () => Boolean(document.fullscreenEnabled), () => false);
+  const fullscreenElement = useSyncExternalStore(subscribeFullscreen, () => document.fullscreenElement, () => null);
+  if (!player || !supported || player.config.fullscreen === false) return null;
+
+  const target = container?.current ?? player.element;
+  const active = fullscreenElement !== null && fullscreenElement === target;
+
+  const toggle = async () => {
+    if (active) {
+      await document.exitFullscreen();
+    } else if (container?.current) {
+      await container.current.requestFullscreen();
+    } else {
+      await player.enterFullscreen();
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      className={className}
+      aria-label={active ? labels.exitFullscreen : labels.enterFullscreen}
+      aria-pressed={active}
+      onClick={() => toggle().catch(error => console.warn('Fullscreen request failed:', error))}
+    >
+      ⛶
+    </button>
+  );
+};
@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { IVideoPlayer } from '../../types';
+import { useVideoBuffered, useVideoPlayback, useVideoTime, useVideoVolume } from '../useVideoStore';
+import { useControls } from './VideoControls';
+import { Slider } from './Slider';
+import { formatTime } from './utils';
+
+interface ControlProps {
+  player?: IVideoPlayer | null;
+  className?: string;
+}
+
+// 播放/暂停按钮
+export const PlayButton: React.FC<ControlProps> = ({ player: playerProp, className }) => {
+  const { player, labels } = useControls(playerProp, 'PlayButton');
+  const { paused } = useVideoPlayback(player);
+
+  const handleClick = () => {
+    if (!player) return;
+    if (paused) {
+      // 播放失败已通过error事件发射
+      player.play().catch(() => {});
+    } else {
+      player.pause();
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      className={className}
+      aria-label={paused ? labels.play : labels.pause}
+      data-state={paused ? 'paused' : 'playing'}
+      disabled={!player}
+      onClick={handleClick}
+    >
+      {paused ? '▶' : '❚❚'}
+    </button>
+  );
+};
+
+interface SeekBarProps extends ControlProps {
+  // 方向键跳转步长（秒），默认5
+  step?: number;
+}
+
+// 进度条：显示缓冲区间，拖动期间只更新预览位置，松开后跳转
+export const SeekBar: React.FC<SeekBarProps> = ({ player: playerProp, className, step = 5 }) => {
+  const { player, labels } = useControls(playerProp, 'SeekBar');
+  const { currentTime, duration } = useVideoTime(player);
+  const { ranges } = useVideoBuffered(player);
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+  const seekable = player !== null && Number.isFinite(duration) && duration > 0;
+  const value = scrubTime ?? currentTime;
+
+  return (
+    <Slider
+      label={labels.seek}
+      className={className}
+      min={0}
+      max={seekable ? duration : 0}
+      value={seekable ? value : 0}
+      step={step}
+      valueText={`${formatTime(value)} / ${formatTime(duration)}`}
+      disabled={!seekable}
+      onChange={setScrubTime}
+      onChangeEnd={time => {
+        setScrubTime(null);
+        player?.seek(time);
+      }}
+    >
+      {seekable && ranges.map(range => (
+        <div
+          key={range.start}
+          data-part="buffered"
+          style={{
+            position: 'absolute',
+            top: 0,
+            bottom: 0,
+            left: `${(range.start / duration) * 100}%`,
+            width: `${((Math.min(range.end, duration) - range.start) / duration) * 100}%`
+          }}
+        />
+      ))}
+    </Slider>
+  );
+};
+
+// 静音按钮与音量滑块（0~100）
+export const VolumeControl: React.FC<ControlProps> = ({ player: playerProp, className }) => {
+  const { player, labels } = useControls(playerProp, 'VolumeControl');
+  const { volume, muted } = useVideoVolume(player);
+  const level = muted ? 0 : Math.round(volume * 100);
+
+  const handleChange = (value: number) => {
+    if (!player) return;
+    player.setVolume(value / 100);
+    if (muted && value > 0) player.unmute();
+  };
+
+  return (
+    <div className={className} data-part="volume">
+      <button
+        type="button"
+        aria-label={muted ? labels.unmute : labels.mute}
+        data-state={muted ? 'muted' : 'unmuted'}
+        disabled={!player}
+        onClick={() => player?.toggleMute()}
+      >
+        {muted || volume === 0 ? '🔇' : '🔊'}
+      </button>
+      <Slider
+        label={labels.volume}
+        min={0}
+        max={100}
+        value={level}
+        step={5}
+        valueText={`${level}%`}
+        disabled={!player}
+        onChange={handleChange}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+'use client';
+
+import React from 'react';
+import type { IVideoPlayer, PlaybackRate, VideoQuality } from '../../types';
+import { useVideoQuality, useVideoRate, useVideoTextTracks } from '../useVideoStore';
+import { useControls } from './VideoControls';
+import { ControlMenu } from './ControlMenu';
+
+interface MenuControlProps {
+  player?: IVideoPlayer | null;
+  className?: string;
+}
+
+// 画质菜单，只有一个可选画质时不渲染
+export const QualityMenu: React.FC<MenuControlProps> = ({ player: playerProp, className }) => {
+  const { player, labels } = useControls(playerProp, 'QualityMenu');
+  const { current, available } = useVideoQuality(player);
+  if (!player || available.length <= 1) return null;
+
+  return (
+    <ControlMenu<VideoQuality>
+      label={labels.quality}
+      className={className}
+      value={current}
+      options={available.map(quality => ({
+        value: quality,
+        label: quality === 'auto' ? labels.qualityAuto : quality
+      }))}
+      onSelect={quality => player.setQuality(quality)}
+    />
+  );
+};
+
+// 播放速度菜单
+export const RateMenu: React.FC<MenuControlProps> = ({ player: playerProp, className }) => {
+  const { player, labels } = useControls(playerProp, 'RateMenu');
+  const rate = useVideoRate(player);
+  if (!player) return null;
+
+  return (
+    <ControlMenu<PlaybackRate>
+      label={labels.rate}
+      className={className}
+      value={rate}
+      options={player.getPlaybackRates().map(value => ({ value, label: `${value}x` }))}
+      onSelect={value => player.setPlaybackRate(value)}
+    />
+  );
+};
+
+// 字幕菜单，没有字幕轨道时不渲染
+export const CaptionsMenu: React.FC<MenuControlProps> = ({ player: playerProp, className }) => {
+  const { player, labels } = useControls(playerProp, 'CaptionsMenu');
+  const tracks = useVideoTextTracks(player);
+  const captionTracks = tracks.filter(track => track.kind === 'subtitles' || track.kind === 'captions');
+  if (!player || captionTracks.length === 0) return null;
+
+  const active = captionTracks.find(track => track.active)?.id ?? null;
+
+  return (
+    <ControlMenu<string | null>
+      label={labels.captions}
+      className={className}
+      value={active}
+      options={[
+        { value: null, label: labels.captionsOff },
+        ...captionTracks.map(track => ({ value: track.id, label: track.label || track.language || track.id }))
+      ]}
+      onSelect={id => player.setTextTrack(id)}
+    >
+      {labels.captions}
+    </ControlMenu>
+  );
+};
@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useRef, useState, ReactNode } from 'react';
+import { clamp } from './utils';
+
+export interface SliderProps {
+  label: string;
+  min: number;
+  max: number;
+  value: number;
+  // 方向键步进
+  step: number;
+  // PageUp/PageDown步进，默认为范围的10%
+  largeStep?: number;
+  valueText?: string;
+  disabled?: boolean;
+  className?: string;
+  // 拖动或按键时持续调用
+  onChange: (value: number) => void;
+  // 松开指针或按键操作完成时调用
+  onChangeEnd?: (value: number) => void;
+  // 轨道上的附加层（如缓冲区间）
+  children?: ReactNode;
+}
+
+/**
+ * 无样式的ARIA滑块：支持方向键/PageUp/PageDown/Home/End，
+ * 通过Pointer Events统一处理鼠标与触摸拖动
+ */
+export const Slider: React.FC<SliderProps> = ({
+  label,
+  min,
+  max,
+  value,
+  step,
+  largeStep,
+  valueText,
+  disabled = false,
+  className,
+  onChange,
+  onChangeEnd,
+  children
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const range = max - min;
+  const percent = range > 0 ? ((clamp(value, min, max) - min) / range) * 100 : 0;
+
+  const commit = (next: number) => {
+    const clamped = clamp(next, min, max);
+    onChange(clamped);
+    onChangeEnd?.(clamped);
+  };
+
+  const valueFromPointer = (clientX: number): number => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return value;
+    return min + clamp((clientX - rect.left) / rect.width, 0, 1) * range;
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (disabled) return;
+
+    const page = largeStep ?? range / 10;
+    const keySteps: Record<string, number> = {
+      ArrowRight: step,
+      ArrowUp: step,
+      ArrowLeft: -step,
+      ArrowDown: -step,
+      PageUp: page,
+      PageDown: -page
+    };
+
+    if (event.key in keySteps) {
+      commit(value + keySteps[event.key]);
+    } else if (event.key === 'Home') {
+      commit(min);
+    } else if (event.key === 'End') {
+      commit(max);
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled || (event.pointerType === 'mouse' && event.button !== 0)) return;
+
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    event.currentTarget.focus();
+    setDragging(true);
+    onChange(valueFromPointer(event.clientX));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragging) return;
+    onChange(valueFromPointer(event.clientX));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragging) return;
+
+    setDragging(false);
+    event.currentTarget.releasePointerCapture?.(event.pointerId);
+    onChangeEnd?.(valueFromPointer(event.clientX));
+  };
+
+  return (
+    <div
+      ref={trackRef}
+      role="slider"
+      tabIndex={disabled ? -1 : 0}
+      aria-label={label}
+      aria-valuemin={min}
+      aria-valuemax={max}
+      aria-valuenow={value}
+      aria-valuetext={valueText}
+      aria-orientation="horizontal"
+      aria-disabled={disabled || undefined}
+      data-dragging={dragging || undefined}
+      className={className}
+      style={{ position: 'relative', touchAction: 'none' }}
+      onKeyDown={handleKeyDown}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {children}
+      <div data-part="fill" style={{ position: 'absolute', left: 0, top: 0, bottom: 0, width: `${percent}%` }} />
+      <div data-part="thumb" style={{ position: 'absolute', left: `${percent}%` }} />
+    </div>
+  );
+};
+
+export default Slider;
@@ -0,0 +1,176 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode, RefObject } from 'react';
+import type { IVideoPlayer } from '../../types';
+import { useResolvedPlayer } from '../VideoContext';
+import { useVideoPlayback } from '../useVideoStore';
+import { DEFAULT_CONTROL_LABELS } from './utils';
+import type { VideoControlLabels } from './utils';
+
+interface ControlsContextValue {
+  player: IVideoPlayer | null;
+  // 全屏时以容器为目标，使自定义控件保持可见
+  container: RefObject<HTMLDivElement | null>;
+  visible: boolean;
+  labels: VideoControlLabels;
+}
+
+const ControlsContext = createContext<ControlsContextValue | undefined>(undefined);
+
+// 在VideoControls外单独使用控件时，文案使用默认值，全屏以视频元素为目标
+export const useControls = (player: IVideoPlayer | null | undefined, hookName: string) => {
+  const context = useContext(ControlsContext);
+  const resolved = useResolvedPlayer(player ?? context?.player, hookName);
+  return {
+    player: resolved,
+    container: context?.container ?? null,
+    visible: context?.visible ?? true,
+    labels: context?.labels ?? DEFAULT_CONTROL_LABELS
+  };
+};
+
+interface VideoControlsProps {
+  player?: IVideoPlayer | null;
+  children: ReactNode;
+  className?: string;
+  // 播放中无操作后隐藏控件的延迟（毫秒），默认3000
+  hideDelay?: number;
+  labels?: Partial<VideoControlLabels>;
+}
+
+export const DEFAULT_HIDE_DELAY = 3000;
+
+/**
+ * 控件容器：包裹<video>和ControlBar。挂载时关闭原生控件；
+ * 播放中鼠标静止、触摸后或焦点离开一段时间后自动隐藏，暂停或键盘聚焦时保持显示；
+ * 点击或拖动控件获得的焦点不阻止隐藏
+ */
+export const VideoControls: React.FC<VideoControlsProps> = ({
+  player: playerProp,
+  children,
+  className,
+  hideDelay = DEFAULT_HIDE_DELAY,
+  labels
+}) => {
+  const player = useResolvedPlayer(playerProp, 'VideoControls');
+  const { paused } = useVideoPlayback(player);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [active, setActive] = useState(true);
+  const [focusWithin, setFocusWithin] = useState(false);
+  // 最近一次输入来自指针：点击或拖动控件产生的焦点不固定显示控件
+  const pointerInputRef = useRef(false);
+  const visible = active || paused || focusWithin;
+
+  // 原生控件与自定义控件互斥
+  useEffect(() => {
+    if (!player) return;
+    const nativeControls = player.config.controls ?? true;
+    player.updateConfig({ controls: false });
+    return () => player.updateConfig({ controls: nativeControls });
+  }, [player]);
+
+  const clearTimer = () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const reveal = useCallback(() => {
+    clearTimer();
+    setActive(true);
+    timerRef.current = setTimeout(() => setActive(false), hideDelay);
+  }, [hideDelay]);
+
+  const hide = () => {
+    clearTimer();
+    setActive(false);
+  };
+
+  useEffect(() => clearTimer, []);
+
+  // 恢复播放时重新开始计时
+  useEffect(() => {
+    if (!paused) reveal();
+  }, [paused, reveal]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.pointerType !== 'touch') return;
+
+    // 触摸控件栏外区域切换显示，隐藏时的首次触摸只用于唤出控件
+    const onBar = (event.target as Element).closest?.('[data-part="control-bar"]');
+    if (!visible) {
+      reveal();
+    } else if (!onBar && !paused) {
+      hide();
+    } else {
+      reveal();
+    }
+  };
+
+  const handleKeyDown = () => {
+    pointerInputRef.current = false;
+    reveal();
+  };
+
+  const handleBlur = (event: React.FocusEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      pointerInputRef.current = false;
+      setFocusWithin(false);
+    }
+  };
+
+  return (
+    <ControlsContext.Provider
+      value={{
+        player,
+        container: containerRef,
+        visible,
+        labels: { ...DEFAULT_CONTROL_LABELS, ...labels }
+      }}
+    >
+      <div
+        ref={containerRef}
+        className={className}
+        data-controls-visible={visible}
+        style={{ position: 'relative', cursor: visible ? undefined : 'none' }}
+        onPointerMove={event => event.pointerType === 'mouse' && reveal()}
+        onPointerLeave={event => event.pointerType === 'mouse' && hide()}
+        onPointerDownCapture={() => { pointerInputRef.current = true; }}
+        onPointerDown={handlePointerDown}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setFocusWithin(!pointerInputRef.current)}
+        onBlur={handleBlur}
+      >
+        {children}
+      </div>
+    </ControlsContext.Provider>
+  );
+};
+
+interface ControlBarProps {
+  children: ReactNode;
+  className?: string;
+}
+
+// 控件栏，隐藏时保留在无障碍树中，聚焦其中的控件会重新显示
+export const ControlBar: React.FC<ControlBarProps> = ({ children, className }) => {
+  const context = useContext(ControlsContext);
+  const visible = context?.visible ?? true;
+
+  return (
+    <div
+      role="group"
+      aria-label={context?.labels.controls ?? DEFAULT_CONTROL_LABELS.controls}
+      data-part="control-bar"
+      data-visible={visible}
+      className={className}
+      style={visible ? undefined : { opacity: 0, pointerEvents: 'none' }}
+    >
+      {children}
+    </div>
+  );
+};
+
+export default VideoControls;
@@ -0,0 +1,12 @@
+// 可组合的无障碍播放控件
+
+export { VideoControls, ControlBar, DEFAULT_HIDE_DELAY } from './VideoControls';
+export { PlayButton, SeekBar, VolumeControl } from './PlaybackControls';
+export { QualityMenu, RateMenu, CaptionsMenu } from './SettingsMenus';
+export { PiPButton, FullscreenButton } from './DisplayButtons';
+export { Slider } from './Slider';
+export type { SliderProps } from './Slider';
+export { ControlMenu } from './ControlMenu';
+export type { ControlMenuOption, ControlMenuProps } from './ControlMenu';
+export { formatTime, DEFAULT_CONTROL_LABELS } from './utils';
+export type { VideoControlLabels } from './utils';
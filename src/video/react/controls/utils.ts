@@ -0,0 +1,55 @@
+// 控件通用工具 - 时间格式化与默认文案
+
+// 秒数格式化为 m:ss 或 h:mm:ss；无效值显示为0:00
+export const formatTime = (seconds: number): string => {
+  const total = Number.isFinite(seconds) && seconds > 0 ? Math.floor(seconds) : 0;
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = (total % 60).toString().padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${mins.toString().padStart(2, '0')}:${secs}`
+    : `${mins}:${secs}`;
+};
+
+export const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
+// 控件的无障碍文案，可通过VideoControls的labels覆盖
+export interface VideoControlLabels {
+  controls: string;
+  play: string;
+  pause: string;
+  seek: string;
+  volume: string;
+  mute: string;
+  unmute: string;
+  quality: string;
+  qualityAuto: string;
+  rate: string;
+  captions: string;
+  captionsOff: string;
+  enterPiP: string;
+  exitPiP: string;
+  enterFullscreen: string;
+  exitFullscreen: string;
+}
+
+export const DEFAULT_CONTROL_LABELS: VideoControlLabels = {
+  controls: '播放控件',
+  play: '播放',
+  pause: '暂停',
+  seek: '播放进度',
+  volume: '音量',
+  mute: '静音',
+  unmute: '取消静音',
+  quality: '画质',
+  qualityAuto: '自动',
+  rate: '播放速度',
+  captions: '字幕',
+  captionsOff: '关闭',
+  enterPiP: '画中画',
+  exitPiP: '退出画中画',
+  enterFullscreen: '全屏',
+  exitFullscreen: '退出全屏'
+};
@@ -0,0 +1,26 @@
+// React绑定 - 无UI的播放器Hook与状态订阅
+
+export { useVideoPlayer, diffVideoConfig } from './useVideoPlayer';
+export type { UseVideoPlayerResult } from './useVideoPlayer';
+export { VideoProvider, useVideoContext } from './VideoContext';
+export {
+  useVideoTime,
+  useVideoBuffered,
+  useVideoQuality,
+  useVideoError,
+  useVideoPlayback,
+  useVideoVolume,
+  useVideoRate,
+  useVideoTextTracks
+} from './useVideoStore';
+export { VideoStore, getVideoStore } from './VideoStore';
+export type {
+  VideoStoreSlice,
+  VideoTimeSnapshot,
+  VideoBufferedRange,
+  VideoBufferedSnapshot,
+  VideoQualitySnapshot,
+  VideoPlaybackSnapshot,
+  VideoVolumeSnapshot
+} from './VideoStore';
+export * from './controls';
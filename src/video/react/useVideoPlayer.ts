@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import type { IVideoPlayer, RuntimeConfigUpdate, VideoConfig } from '../types';
+import { RUNTIME_CONFIG_KEYS } from '../types';
+import { videoPlayerFactory } from '../VideoPlayerFactory';
+import { useClientOnly } from '../../hooks/useClientOnly';
+
+export interface UseVideoPlayerResult {
+  // 绑定到<video>元素
+  videoRef: RefObject<HTMLVideoElement | null>;
+  // 服务端渲染和挂载前为null
+  player: IVideoPlayer | null;
+}
+
+// 配置值结构比较，函数等按引用比较
+const isSameConfigValue = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const recordA = a as Record<string, unknown>;
+  const recordB = b as Record<string, unknown>;
+  const keys = Object.keys(recordA);
+  return keys.length === Object.keys(recordB).length &&
+    keys.every(key => Object.prototype.hasOwnProperty.call(recordB, key) && isSameConfigValue(recordA[key], recordB[key]));
+};
+
+const isRuntimeConfigKey = (key: string): boolean =>
+  (RUNTIME_CONFIG_KEYS as readonly string[]).includes(key);
+
+/**
+ * 比较两次配置，返回可在运行时应用的变更；
+ * 变更涉及非运行时字段或源类型变化导致播放器类型不同时返回null，表示需要重建播放器
+ */
+export function diffVideoConfig(prev: VideoConfig, next: VideoConfig): RuntimeConfigUpdate | null {
+  const changes: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+
+  for (const key of keys) {
+    const prevValue = (prev as unknown as Record<string, unknown>)[key];
+    const nextValue = (next as unknown as Record<string, unknown>)[key];
+    if (isSameConfigValue(prevValue, nextValue)) continue;
+    if (!isRuntimeConfigKey(key)) return null;
+    changes[key] = nextValue;
+  }
+
+  if (changes.sources &&
+      videoPlayerFactory.determinePlayerType(prev.sources) !== videoPlayerFactory.determinePlayerType(next.sources)) {
+    return null;
+  }
+
+  return changes as RuntimeConfigUpdate;
+}
+
+/**
+ * 在React中创建并管理播放器：仅在客户端挂载后创建，卸载时注销；
+ * 配置变化时按字段比较并应用到现有播放器，只有无法运行时更新时才重建
+ */
+export function useVideoPlayer(config: VideoConfig): UseVideoPlayerResult {
+  const isClient = useClientOnly();
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [player, setPlayer] = useState<IVideoPlayer | null>(null);
+  // 需要重建时递增
+  const [generation, setGeneration] = useState(0);
+  const configRef = useRef(config);
+  const appliedConfigRef = useRef<VideoConfig | null>(null);
+  const hasSources = config.sources.length > 0;
+
+  // 先于创建播放器的Effect更新，重建时使用最新配置
+  useEffect(() => {
+    configRef.current = config;
+  });
+
+  useEffect(() => {
+    const element = videoRef.current;
+    const initialConfig = configRef.current;
+    if (!isClient || !element || initialConfig.sources.length === 0) return;
+
+    const instance = videoPlayerFactory.create(element, initialConfig as never) as IVideoPlayer;
+    appliedConfigRef.current = initialConfig;
+    setPlayer(instance);
+
+    return () => {
+      appliedConfigRef.current = null;
+      setPlayer(null);
+      videoPlayerFactory.unregisterPlayer(instance);
+    };
+  }, [isClient, hasSources, generation]);
+
+  useEffect(() => {
+    const appliedConfig = appliedConfigRef.current;
+    if (!player || !appliedConfig || appliedConfig === config) return;
+
+    const changes = diffVideoConfig(appliedConfig, config);
+    if (!changes) {
+      setGeneration(value => value + 1);
+      return;
+    }
+
+    appliedConfigRef.current = config;
+    if (Object.keys(changes).length > 0) {
+      player.updateConfig(changes);
+    }
+  });
+
+  return { videoRef, player };
+}
+
+export default useVideoPlayer;
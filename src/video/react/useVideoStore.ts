@@ -0,0 +1,92 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import type { IVideoPlayer, PlaybackRate, VideoError, VideoTextTrack } from '../types';
+import { useResolvedPlayer } from './VideoContext';
+import {
+  getVideoStore,
+  INITIAL_TIME_SNAPSHOT,
+  INITIAL_BUFFERED_SNAPSHOT,
+  INITIAL_QUALITY_SNAPSHOT,
+  INITIAL_PLAYBACK_SNAPSHOT,
+  INITIAL_VOLUME_SNAPSHOT,
+  INITIAL_TEXT_TRACKS_SNAPSHOT
+} from './VideoStore';
+import type {
+  VideoStore,
+  VideoStoreSlice,
+  VideoTimeSnapshot,
+  VideoBufferedSnapshot,
+  VideoQualitySnapshot,
+  VideoPlaybackSnapshot,
+  VideoVolumeSnapshot
+} from './VideoStore';
+
+const noopUnsubscribe = () => {};
+
+/**
+ * 订阅单个状态切片；播放器为空（服务端或创建前）时返回初始快照
+ */
+function useVideoSlice<T>(
+  player: IVideoPlayer | null,
+  slice: VideoStoreSlice,
+  read: (store: VideoStore) => T,
+  initial: T
+): T {
+  const subscribe = useCallback(
+    (callback: () => void) => player ? getVideoStore(player).subscribe(slice, callback) : noopUnsubscribe,
+    [player, slice]
+  );
+  const getSnapshot = () => player ? read(getVideoStore(player)) : initial;
+  const getServerSnapshot = () => initial;
+
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+}
+
+// 播放进度，仅在timeupdate/seeked/durationchange等事件时重新渲染
+export function useVideoTime(player?: IVideoPlayer | null): VideoTimeSnapshot {
+  const resolved = useResolvedPlayer(player, 'useVideoTime');
+  return useVideoSlice(resolved, 'time', store => store.getTime(), INITIAL_TIME_SNAPSHOT);
+}
+
+// 缓冲区间，仅在progress等事件时重新渲染
+export function useVideoBuffered(player?: IVideoPlayer | null): VideoBufferedSnapshot {
+  const resolved = useResolvedPlayer(player, 'useVideoBuffered');
+  return useVideoSlice(resolved, 'buffered', store => store.getBuffered(), INITIAL_BUFFERED_SNAPSHOT);
+}
+
+// 当前质量和可选质量
+export function useVideoQuality(player?: IVideoPlayer | null): VideoQualitySnapshot {
+  const resolved = useResolvedPlayer(player, 'useVideoQuality');
+  return useVideoSlice(resolved, 'quality', store => store.getQuality(), INITIAL_QUALITY_SNAPSHOT);
+}
+
+// 最近一次错误，重新加载或恢复播放后清空
+export function useVideoError(player?: IVideoPlayer | null): VideoError | null {
+  const resolved = useResolvedPlayer(player, 'useVideoError');
+  return useVideoSlice<VideoError | null>(resolved, 'error', store => store.getError(), null);
+}
+
+// 播放/暂停状态
+export function useVideoPlayback(player?: IVideoPlayer | null): VideoPlaybackSnapshot {
+  const resolved = useResolvedPlayer(player, 'useVideoPlayback');
+  return useVideoSlice(resolved, 'playback', store => store.getPlayback(), INITIAL_PLAYBACK_SNAPSHOT);
+}
+
+// 音量与静音
+export function useVideoVolume(player?: IVideoPlayer | null): VideoVolumeSnapshot {
+  const resolved = useResolvedPlayer(player, 'useVideoVolume');
+  return useVideoSlice(resolved, 'volume', store => store.getVolume(), INITIAL_VOLUME_SNAPSHOT);
+}
+
+// 当前播放速度
+export function useVideoRate(player?: IVideoPlayer | null): PlaybackRate {
+  const resolved = useResolvedPlayer(player, 'useVideoRate');
+  return useVideoSlice(resolved, 'rate', store => store.getRate(), 1);
+}
+
+// 字幕轨道列表及激活状态
+export function useVideoTextTracks(player?: IVideoPlayer | null): VideoTextTrack[] {
+  const resolved = useResolvedPlayer(player, 'useVideoTextTracks');
+  return useVideoSlice(resolved, 'texttracks', store => store.getTextTracks(), INITIAL_TEXT_TRACKS_SNAPSHOT);
+}
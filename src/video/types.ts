@@ -17,8 +17,8 @@ export type VideoState =
 // 字面量类型 - 视频质量
 export type VideoQuality = '240p' | '360p' | '480p' | '720p' | '1080p' | '1440p' | '2160p' | 'auto';
 
-// 字面量类型 - 播放速度
-export type PlaybackRate = 0.25 | 0.5 | 0.75 | 1 | 1.25 | 1.5 | 1.75 | 2;
+// 播放速度 - 取值范围与步进由 PlaybackRateConfig 约束
+export type PlaybackRate = number;
 
 // 字面量类型 - 视频格式
 export type VideoFormat = 'mp4' | 'webm' | 'ogg' | 'hls' | 'dash';
@@ -28,8 +28,25 @@ export type VideoErrorType =
   | 'network'
   | 'decode' 
   | 'src_not_supported'
+  | 'aborted'
+  | 'timeout'
+  // 带HTTP错误状态的请求
+  | 'http'
+  // 清单或播放列表无法解析
+  | 'manifest'
+  // 浏览器拦截了未经用户交互的播放
+  | 'autoplay_blocked'
+  // 加密内容（EME）
+  | 'key_system_unsupported'
+  | 'license_request_failed'
+  | 'key_session_failed'
+  | 'key_status_error'
   | 'unknown';
 
+// 插件事件注册表 - 插件通过模块扩充声明自定义事件及其payload，例如：
+// declare module '@/video/types' { interface VideoPluginEventMap { 'watermark:shown': { id: string } } }
+export interface VideoPluginEventMap {}
+
 // 联合类型 - 事件类型
 export type VideoEventType = 
   // HTML5 Video Events
@@ -60,7 +77,24 @@ export type VideoEventType =
   | 'fullscreenchange'
   | 'pip'
   | 'buffering'
-  | 'ready';
+  | 'ready'
+  | 'sourcechange'
+  | 'recovering'
+  | 'recovered'
+  | 'recoveryfailed'
+  | 'texttrackchange'
+  | 'cuechange'
+  | 'audiotrackchange'
+  | 'chapterchange'
+  | 'cuepoint'
+  | 'adbreakstart'
+  | 'adbreakend'
+  | 'adstart'
+  | 'adend'
+  | 'liveedge'
+  | 'behindlive'
+  // 插件声明的事件
+  | keyof VideoPluginEventMap;
 
 // 泛型接口 - 视频源配置
 export interface VideoSource<T extends VideoFormat = VideoFormat> {
@@ -68,6 +102,65 @@ export interface VideoSource<T extends VideoFormat = VideoFormat> {
   type: T;
   quality?: VideoQuality;
   label?: string;
+  // 回退优先级，数值越大越优先；相同优先级保持配置顺序
+  priority?: number;
+}
+
+// 字面量类型 - 切换视频源的原因
+export type SourceChangeReason = 'error' | 'unsupported';
+
+// 字面量类型 - 文本轨道
+export type TextTrackKind = 'subtitles' | 'captions' | 'descriptions' | 'chapters' | 'metadata';
+export type TextTrackFormat = 'vtt' | 'srt';
+
+// 文本轨道配置：src（WebVTT/SRT地址）与content（内联字符串）二选一
+export interface TextTrackConfig {
+  id?: string;
+  kind?: TextTrackKind;
+  label?: string;
+  language?: string;
+  src?: string;
+  content?: string;
+  format?: TextTrackFormat;
+  default?: boolean;
+}
+
+// 播放器暴露的文本轨道信息（配置轨道与流内字幕合并）
+export interface VideoTextTrack {
+  id: string;
+  kind: TextTrackKind;
+  label: string;
+  language: string;
+  origin: 'config' | 'stream';
+  active: boolean;
+}
+
+// 激活中的字幕cue，用于自定义渲染
+export interface VideoTextCue {
+  id: string;
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
+// 播放器暴露的音频轨道信息
+export interface VideoAudioTrack {
+  id: string;
+  label: string;
+  language: string;
+  kind: string;
+  active: boolean;
+}
+
+// 原生字幕渲染样式（映射到 ::cue）
+export interface TextTrackStyle {
+  color?: string;
+  backgroundColor?: string;
+  fontSize?: string;
+  fontFamily?: string;
+  fontWeight?: string;
+  textShadow?: string;
+  opacity?: number;
 }
 
 // 泛型类型 - HLS配置基础接口
@@ -102,11 +195,255 @@ export interface BaseHLSConfig {
   fpsDroppedMonitoringThreshold?: number;
   appendErrorMaxRetry?: number;
   debug?: boolean;
+  // 致命错误恢复策略（不会传递给hls.js）
+  recovery?: HLSRecoveryPolicy;
+}
+
+// 字面量类型 - HLS错误分类
+export type HLSErrorClass = 'network' | 'media' | 'other';
+
+// 字面量类型 - HLS恢复阶段
+export type HLSRecoveryStage = 'startLoad' | 'recoverMediaError' | 'swapAudioCodec' | 'reinitialize';
+
+// HLS致命错误恢复策略
+export interface HLSRecoveryPolicy {
+  // 每类错误的最大恢复次数
+  maxAttempts?: Partial<Record<HLSErrorClass, number>>;
+  // 指数退避：delay = min(maxDelay, baseDelay * backoffMultiplier^(attempt-1))
+  baseDelay?: number;
+  maxDelay?: number;
+  backoffMultiplier?: number;
+  // 第二次媒体错误时是否先切换音频编解码器
+  swapAudioCodec?: boolean;
+  // 恢复成功后持续无错误多久（毫秒）才重置计数
+  resetWindow?: number;
 }
 
 // 泛型类型 - HLS配置
 export type HLSConfig<T extends Record<string, any> = Record<string, any>> = BaseHLSConfig & T;
 
+// DASH配置基础接口
+export interface BaseDASHConfig {
+  maxBufferLength?: number;
+  backBufferLength?: number;
+  initialBandwidthEstimate?: number;
+  abrBandwidthFactor?: number;
+  abrEwmaAlpha?: number;
+  manifestLoadingTimeOut?: number;
+  segmentLoadingTimeOut?: number;
+  segmentLoadingMaxRetry?: number;
+  segmentLoadingRetryDelay?: number;
+  debug?: boolean;
+}
+
+// 泛型类型 - DASH配置
+export type DASHConfig<T extends Record<string, any> = Record<string, any>> = BaseDASHConfig & T;
+
+// 观看记录
+export interface WatchHistoryEntry {
+  id: string;
+  title?: string;
+  position: number;
+  duration: number;
+  // 0-1 观看进度
+  progress: number;
+  completed: boolean;
+  playbackRate: number;
+  volume: number;
+  muted: boolean;
+  updatedAt: number;
+}
+
+// 观看记录存储适配器
+export interface ResumeStorageAdapter {
+  get(id: string): Promise<WatchHistoryEntry | null>;
+  set(entry: WatchHistoryEntry): Promise<void>;
+  remove(id: string): Promise<void>;
+  list(): Promise<WatchHistoryEntry[]>;
+  clear(): Promise<void>;
+}
+
+export type ResumeStorageType = 'localStorage' | 'indexedDB' | 'memory';
+
+// 观看记录查询条件
+export interface WatchHistoryQuery {
+  completed?: boolean;
+  // 仅返回该时间戳之后更新的记录
+  since?: number;
+  limit?: number;
+  orderBy?: 'updatedAt' | 'progress';
+}
+
+// 断点续播配置
+export interface ResumeConfig {
+  // 内容ID，同一内容在不同源/页面间共享进度
+  id: string;
+  title?: string;
+  storage?: ResumeStorageType | ResumeStorageAdapter;
+  // timeupdate期间的保存间隔（毫秒）
+  saveInterval?: number;
+  // 进度小于该秒数时不恢复
+  minPosition?: number;
+  // 距结尾小于该秒数时视为看完，不恢复
+  endThreshold?: number;
+}
+
+// 快捷键动作
+export type HotkeyAction =
+  | 'togglePlay'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'seekBackwardLong'
+  | 'seekForwardLong'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'toggleMute'
+  | 'toggleFullscreen'
+  | 'togglePiP'
+  | 'decreaseRate'
+  | 'increaseRate'
+  | 'seekPercent';
+
+// 快捷键配置 - 键名使用 KeyboardEvent.key（空格为 ' '）
+export interface HotkeyConfig {
+  // 覆盖指定动作的按键，空数组表示禁用该动作
+  keymap?: Partial<Record<HotkeyAction, string[]>>;
+  // 方向键跳转秒数
+  seekStep?: number;
+  // j/l 跳转秒数
+  longSeekStep?: number;
+  volumeStep?: number;
+  // 监听按键的容器，默认为视频元素本身
+  container?: HTMLElement;
+}
+
+// 播放速度配置
+export interface PlaybackRateConfig {
+  min?: number;
+  max?: number;
+  // 非预设值按步进取整
+  step?: number;
+  // 速度菜单和快捷键使用的预设值
+  presets?: PlaybackRate[];
+  // 变速时保持音调
+  preservesPitch?: boolean;
+  // 持久化用户偏好：true使用默认存储键，字符串作为存储键（可包含用户ID）
+  persist?: boolean | string;
+}
+
+// 缩略图（雪碧图）配置
+export interface ThumbnailConfig {
+  // WebVTT雪碧图索引（#xywh片段）或HLS I帧图像播放列表/包含EXT-X-IMAGE-STREAM-INF的主播放列表
+  src: string;
+  // 未指定时根据扩展名和内容识别
+  type?: 'vtt' | 'hls';
+  // 随缓冲区预加载雪碧图，默认开启
+  preload?: boolean;
+}
+
+// 直播配置
+export interface LiveConfig {
+  // 目标延迟（秒）；HLS未指定时使用hls.js按liveSyncDurationCount计算的目标
+  targetLatency?: number;
+  // 延迟偏离目标超过该值（秒）时调整播放速度，默认0.5
+  latencyTolerance?: number;
+  // 是否通过播放速度追赶目标延迟，默认在指定targetLatency时开启
+  catchUp?: boolean;
+  // 追赶时的播放速度范围，默认[0.95, 1.1]
+  minCatchUpRate?: number;
+  maxCatchUpRate?: number;
+  // 延迟超过目标该秒数视为落后直播，默认3
+  liveEdgeThreshold?: number;
+}
+
+// 加密内容配置（EME）
+export interface DRMConfig {
+  // 密钥系统，如 'org.w3.clearkey'、'com.widevine.alpha'、'com.microsoft.playready'
+  keySystem: string;
+  // 许可证服务器地址，许可证请求以POST发送原始challenge
+  licenseUrl?: string;
+  // 许可证请求头（如鉴权令牌）
+  headers?: Record<string, string>;
+  // 服务器证书（地址或二进制数据）
+  serverCertificate?: string | ArrayBuffer;
+  // ClearKey本地密钥（keyId → key，base64url或十六进制），配置后不请求许可证服务器，仅用于原生EME
+  clearKeys?: Record<string, string>;
+  videoRobustness?: string;
+  audioRobustness?: string;
+}
+
+// 直播可跳转窗口（DVR），取自seekable
+export interface VideoLiveWindow {
+  start: number;
+  end: number;
+  duration: number;
+}
+
+// 某一时间点的缩略图（雪碧图中的区域）
+export interface VideoThumbnail {
+  url: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  startTime: number;
+  endTime: number;
+}
+
+// 章节配置
+export interface ChapterConfig {
+  id?: string;
+  title: string;
+  startTime: number;
+  // 未指定时到下一章节开始（或视频结尾）
+  endTime?: number;
+}
+
+// 提示点配置
+export interface CuePointConfig {
+  id?: string;
+  startTime: number;
+  // 未指定时为瞬时提示点，经过时依次触发enter和exit
+  endTime?: number;
+  data?: Record<string, any>;
+}
+
+// 定时元数据来源：内联数组、WebVTT文件或HLS EXT-X-DATERANGE（可按CLASS过滤）
+export type TimedMetadataSource<T> = T[] | { src: string } | { dateRange: true | string };
+
+export interface VideoChapter {
+  id: string;
+  title: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface VideoCuePoint {
+  id: string;
+  startTime: number;
+  endTime?: number;
+  data?: Record<string, any>;
+  // HLS EXT-X-DATERANGE的CLASS
+  class?: string;
+}
+
+// 广告时段位置
+export type VideoAdBreakPosition = 'preroll' | 'midroll' | 'postroll';
+
+// 广告结束原因
+export type VideoAdEndReason = 'complete' | 'skipped' | 'error';
+
+// 接口 - 插播广告信息
+export interface VideoAdInfo {
+  id: string;
+  title: string;
+  duration: number;
+  // 可跳过的时间点（秒），null表示不可跳过
+  skipOffset: number | null;
+  clickThrough?: string;
+  mediaUrl: string;
+}
+
 // 泛型接口 - 视频配置
 export interface VideoConfig<THls extends Record<string, any> = Record<string, any>> {
   sources: VideoSource[];
@@ -122,15 +459,35 @@ export interface VideoConfig<THls extends Record<string, any> = Record<string, a
   height?: number;
   volume?: number;
   playbackRate?: PlaybackRate;
+  playbackRates?: PlaybackRateConfig;
   currentTime?: number;
   // HLS特定配置
   hls?: HLSConfig<THls>;
+  // DASH特定配置
+  dash?: DASHConfig;
   // 自定义配置
   customControls?: boolean;
-  hotkeys?: boolean;
+  hotkeys?: boolean | HotkeyConfig;
   pip?: boolean; // Picture-in-Picture
   fullscreen?: boolean;
   qualities?: VideoQuality[];
+  // 文本轨道（字幕）
+  textTracks?: TextTrackConfig[];
+  // native: 浏览器渲染字幕；custom: 仅发射cuechange事件供自定义渲染
+  textTrackDisplay?: 'native' | 'custom';
+  // 首选音频语言（BCP 47，如 'en'、'zh-CN'），启动时自动选择匹配的音轨
+  preferredLanguage?: string;
+  // 章节与提示点
+  chapters?: TimedMetadataSource<ChapterConfig>;
+  cuePoints?: TimedMetadataSource<CuePointConfig>;
+  // 拖动预览缩略图
+  thumbnails?: ThumbnailConfig;
+  // 断点续播（按内容ID持久化播放进度）
+  resume?: ResumeConfig;
+  // 直播延迟控制
+  live?: LiveConfig;
+  // 加密内容
+  drm?: DRMConfig;
 }
 
 // 泛型接口 - 视频元数据
@@ -162,13 +519,35 @@ export interface VideoStats {
 // 泛型接口 - 视频错误信息
 export interface VideoError {
   type: VideoErrorType;
+  // 错误码目录中的编码（见ErrorCatalog）
   code: number;
   message: string;
   timestamp: number;
   fatal: boolean;
+  // 重试可能成功（网络、超时、服务端错误）；由normalizeVideoError填充
+  retryable?: boolean;
+  // 面向用户的消息键；由normalizeVideoError填充
+  messageKey?: string;
+  httpStatus?: number;
+  // 恢复策略用尽后标记为false
+  recoverable?: boolean;
   details?: Record<string, any>;
 }
 
+// 播放方式：原生（含Safari原生HLS）、hls.js或DASH的MSE管线
+export type VideoPlaybackMethod = 'native' | 'hls.js' | 'mse';
+
+// ready事件数据 - 元数据和首帧可用时发射，每次加载新源发射一次
+export interface VideoReadyInfo {
+  duration: number;
+  videoWidth: number;
+  videoHeight: number;
+  live: boolean;
+  method: VideoPlaybackMethod;
+  // 可切换的质量级别数，原生播放为0
+  levels: number;
+}
+
 // 泛型接口 - 事件数据
 export interface VideoEventData<T extends VideoEventType = VideoEventType> {
   type: T;
@@ -181,7 +560,7 @@ export interface VideoEventData<T extends VideoEventType = VideoEventType> {
     : T extends 'qualitychange'
     ? { from: VideoQuality; to: VideoQuality }
     : T extends 'ratechange'
-    ? { rate: PlaybackRate }
+    ? { rate: PlaybackRate; preservesPitch: boolean }
     : T extends 'volumechange'
     ? { volume: number; muted: boolean }
     : T extends 'progress'
@@ -190,12 +569,69 @@ export interface VideoEventData<T extends VideoEventType = VideoEventType> {
     ? { currentTime: number; duration: number }
     : T extends 'buffering'
     ? { isBuffering: boolean; bufferLevel: number }
+    : T extends 'fullscreenchange'
+    ? { isFullscreen: boolean; element: Element | null }
+    : T extends 'pip'
+    ? { isPiP: boolean }
+    : T extends 'ready'
+    ? VideoReadyInfo
+    : T extends 'sourcechange'
+    ? { from: VideoSource | null; to: VideoSource; reason: SourceChangeReason; index: number; error?: VideoError }
+    : T extends 'recovering'
+    ? { errorClass: HLSErrorClass; stage: HLSRecoveryStage; attempt: number; maxAttempts: number; delay: number; error: VideoError }
+    : T extends 'recovered'
+    ? { errorClass: HLSErrorClass; stage: HLSRecoveryStage; attempts: number }
+    : T extends 'recoveryfailed'
+    ? { errorClass: HLSErrorClass; attempts: number; error: VideoError }
+    : T extends 'texttrackchange'
+    ? { from: string | null; to: string | null; tracks: VideoTextTrack[] }
+    : T extends 'cuechange'
+    ? { trackId: string; cues: VideoTextCue[] }
+    : T extends 'audiotrackchange'
+    ? { from: string | null; to: string | null; tracks: VideoAudioTrack[] }
+    : T extends 'chapterchange'
+    ? { from: VideoChapter | null; to: VideoChapter | null }
+    : T extends 'cuepoint'
+    ? { action: 'enter' | 'exit'; cuePoint: VideoCuePoint }
+    : T extends 'adbreakstart'
+    ? { breakId: string; position: VideoAdBreakPosition; adCount: number }
+    : T extends 'adbreakend'
+    ? { breakId: string; position: VideoAdBreakPosition }
+    : T extends 'adstart'
+    ? { breakId: string; ad: VideoAdInfo; index: number; total: number }
+    : T extends 'adend'
+    ? { breakId: string; ad: VideoAdInfo; reason: VideoAdEndReason; error?: VideoError }
+    : T extends 'liveedge' | 'behindlive'
+    ? { latency: number; targetLatency: number | null }
+    : T extends keyof VideoPluginEventMap
+    ? VideoPluginEventMap[T]
     : Record<string, any>;
 }
 
-// 泛型类型 - 事件监听器
+// 事件传播控制 - 作为第二个参数传给监听器，停止后低优先级的监听器不再执行
+export interface VideoEventControl<K extends PropertyKey = string> {
+  // 实际发射的事件名，通配监听器据此区分事件
+  readonly name: K;
+  readonly propagationStopped: boolean;
+  stopPropagation(): void;
+}
+
+// 监听器选项
+export interface VideoEventListenerOptions {
+  // 数值越大越先执行，默认0；同优先级按注册顺序
+  priority?: number;
+  // 中止时自动移除监听器
+  signal?: AbortSignal;
+  once?: boolean;
+}
+
+// 异步发射模式：series逐个等待，parallel同时执行后等待全部完成
+export type VideoEmitMode = 'series' | 'parallel';
+
+// 泛型类型 - 事件监听器；异步监听器返回的Promise由emitAsync在运行时识别并等待
 export type VideoEventListener<T extends VideoEventType = VideoEventType> = (
-  event: VideoEventData<T>
+  event: VideoEventData<T>,
+  control: VideoEventControl
 ) => void;
 
 // 泛型接口 - 事件监听器映射
@@ -203,6 +639,48 @@ export type VideoEventListeners = {
   [K in VideoEventType]?: VideoEventListener<K>[];
 };
 
+// 插件上下文 - 插件通过它访问播放器并发射事件
+export interface VideoPluginContext {
+  readonly player: IVideoPlayer;
+  emit<T extends VideoEventType>(type: T, payload: VideoEventData<T>['payload']): void;
+  // 等待异步监听器执行完毕
+  emitAsync<T extends VideoEventType>(
+    type: T,
+    payload: VideoEventData<T>['payload'],
+    mode?: VideoEmitMode
+  ): Promise<boolean>;
+}
+
+// 插件挂载的命名空间方法
+export type VideoPluginMethods = Record<string, (...args: any[]) => any>;
+
+// 泛型接口 - 播放器插件
+export interface VideoPlugin<TName extends string = string, TMethods extends VideoPluginMethods = {}> {
+  // 唯一名称，同时是方法命名空间 player.plugins[name]
+  name: TName;
+  setup?(context: VideoPluginContext): void;
+  // 经由事件中间件调用，返回false拦截事件（后续插件和监听器不再收到）
+  onEvent?(event: VideoEventData, context: VideoPluginContext): void | false;
+  // 返回false否决播放
+  beforePlay?(context: VideoPluginContext): boolean | void | Promise<boolean | void>;
+  // 返回false否决跳转
+  beforeSeek?(time: number, context: VideoPluginContext): boolean | void;
+  destroy?(context: VideoPluginContext): void;
+  // 每个播放器调用一次，返回值挂载到 player.plugins[name]
+  methods?(context: VideoPluginContext): TMethods;
+}
+
+// 映射类型 - use()后可按名称访问插件方法
+export type VideoPluginNamespace<TName extends string, TMethods extends VideoPluginMethods> = {
+  readonly plugins: { readonly [K in TName]: TMethods };
+};
+
+// 媒体元素让渡选项
+export interface MediaReleaseOptions {
+  // 再次调用play()时自动从释放时的位置收回媒体（资源回收场景）；默认false，需由接管方调用restoreMedia
+  resumeOnPlay?: boolean;
+}
+
 // 泛型接口 - 视频播放器接口
 export interface IVideoPlayer<TConfig extends VideoConfig = VideoConfig> {
   // 基本属性
@@ -211,6 +689,7 @@ export interface IVideoPlayer<TConfig extends VideoConfig = VideoConfig> {
   readonly state: VideoState;
   readonly metadata: VideoMetadata | null;
   readonly stats: VideoStats;
+  readonly isLive: boolean;
   
   // 播放控制
   play(): Promise<void>;
@@ -226,11 +705,43 @@ export interface IVideoPlayer<TConfig extends VideoConfig = VideoConfig> {
   
   // 播放速度控制
   setPlaybackRate(rate: PlaybackRate): void;
+  getPlaybackRates(): PlaybackRate[];
+  // 同步组校正偏差的临时速度，不作为用户偏好；null恢复到调整前的速度
+  setSyncPlaybackRate(rate: PlaybackRate | null): void;
   
   // 质量控制
   setQuality(quality: VideoQuality): void;
   getAvailableQualities(): VideoQuality[];
   
+  // 字幕控制
+  getTextTracks(): VideoTextTrack[];
+  setTextTrack(id: string | null): void;
+  setTextTrackStyle(style: TextTrackStyle): void;
+  
+  // 章节
+  getChapters(): VideoChapter[];
+  seekToChapter(id: string | number): void;
+  
+  // 缩略图预览（未配置或尚未加载时返回null）
+  getThumbnailAt(time: number): VideoThumbnail | null;
+  
+  // 音轨控制
+  getAudioTracks(): VideoAudioTrack[];
+  setAudioTrack(id: string): void;
+  
+  // 直播
+  getLiveLatency(): number | null;
+  getLiveWindow(): VideoLiveWindow | null;
+  seekToLiveEdge(): void;
+  
+  // 媒体元素让渡（插播广告期间由其他模块接管同一个<video>）
+  readonly isMediaReleased: boolean;
+  releaseMedia(options?: MediaReleaseOptions): void;
+  restoreMedia(time: number, resume: boolean): void;
+  
+  // 运行时配置更新（切换源、音量、属性等，无需重建播放器）
+  updateConfig(changes: RuntimeConfigUpdate): void;
+  
   // 全屏控制
   enterFullscreen(): Promise<void>;
   exitFullscreen(): Promise<void>;
@@ -241,10 +752,18 @@ export interface IVideoPlayer<TConfig extends VideoConfig = VideoConfig> {
   exitPiP(): Promise<void>;
   togglePiP(): Promise<void>;
   
+  // 插件
+  readonly plugins: Readonly<Record<string, VideoPluginMethods>>;
+  use<TName extends string, TMethods extends VideoPluginMethods = {}>(
+    plugin: VideoPlugin<TName, TMethods>
+  ): this & VideoPluginNamespace<TName, TMethods>;
+  unuse(name: string): boolean;
+  
   // 事件系统
-  on<T extends VideoEventType>(event: T, listener: VideoEventListener<T>): void;
+  on<T extends VideoEventType>(event: T, listener: VideoEventListener<T>, options?: VideoEventListenerOptions): void;
   off<T extends VideoEventType>(event: T, listener: VideoEventListener<T>): void;
   emit<T extends VideoEventType>(event: T, data: VideoEventData<T>): void;
+  emitAsync<T extends VideoEventType>(event: T, data: VideoEventData<T>, mode?: VideoEmitMode): Promise<boolean>;
   
   // 生命周期
   destroy(): void;
@@ -256,6 +775,12 @@ export type HLSVideoConfig<T extends Record<string, any> = Record<string, any>>
   hls: HLSConfig<T>;
 };
 
+// 类型约束 - DASH源配置
+export type DASHVideoConfig<T extends Record<string, any> = Record<string, any>> = VideoConfig & {
+  sources: (VideoSource<'dash'> & { src: string })[];
+  dash?: DASHConfig<T>;
+};
+
 // 映射类型 - 从配置生成播放器类型
 export type VideoPlayerFromConfig<T extends VideoConfig> = T extends HLSVideoConfig<infer U>
   ? IVideoPlayer<HLSVideoConfig<U>>
@@ -278,6 +803,49 @@ export type VideoEventMap = {
   [K in VideoEventType as VideoEventName<K>]: VideoEventData<K>;
 };
 
+// 播放列表重复模式
+export type PlaylistRepeatMode = 'none' | 'one' | 'all';
+
+// 泛型接口 - 播放列表条目
+export interface PlaylistItem<TConfig extends VideoConfig = VideoConfig> {
+  id: string;
+  config: TConfig;
+  title?: string;
+}
+
+// 播放列表选项
+export interface PlaylistOptions {
+  startIndex?: number;
+  shuffle?: boolean;
+  repeat?: PlaylistRepeatMode;
+  // ended时自动播放下一项，默认开启
+  autoAdvance?: boolean;
+  // 预取下一项的HLS/DASH清单，默认开启
+  preloadNext?: boolean;
+}
+
+export type PlaylistChangeReason = 'add' | 'remove' | 'move' | 'clear' | 'shuffle' | 'repeat';
+
+export type PlaylistItemChangeReason = 'start' | 'next' | 'previous' | 'ended' | 'select' | 'remove';
+
+// 播放列表事件映射
+export interface PlaylistEventMap<TConfig extends VideoConfig = VideoConfig> {
+  playlistchange: {
+    reason: PlaylistChangeReason;
+    items: PlaylistItem<TConfig>[];
+    currentIndex: number;
+    shuffle: boolean;
+    repeat: PlaylistRepeatMode;
+  };
+  itemchange: {
+    from: PlaylistItem<TConfig> | null;
+    to: PlaylistItem<TConfig> | null;
+    index: number;
+    reason: PlaylistItemChangeReason;
+    player: IVideoPlayer | null;
+  };
+}
+
 // 泛型约束 - 确保质量设置有效
 export type ValidQualityConfig<T extends VideoQuality[]> = T extends readonly VideoQuality[] 
   ? T[number] extends VideoQuality 
@@ -295,6 +863,16 @@ export type VideoConfigUpdate<T extends VideoConfig = VideoConfig> = Partial<{
   [K in keyof T]: T[K] extends object ? Partial<T[K]> : T[K];
 }>;
 
+// 运行时可直接更新的配置字段，其余字段变化需要重建播放器
+export const RUNTIME_CONFIG_KEYS = [
+  'sources', 'poster', 'autoplay', 'loop', 'muted', 'controls', 'preload',
+  'playsinline', 'width', 'height', 'volume', 'playbackRate'
+] as const;
+
+export type RuntimeConfigKey = typeof RUNTIME_CONFIG_KEYS[number];
+
+export type RuntimeConfigUpdate = Partial<Pick<VideoConfig, RuntimeConfigKey>>;
+
 // 联合类型守卫
 export const isVideoState = (value: any): value is VideoState => {
   return typeof value === 'string' && [
@@ -310,7 +888,7 @@ export const isVideoQuality = (value: any): value is VideoQuality => {
 };
 
 export const isPlaybackRate = (value: any): value is PlaybackRate => {
-  return typeof value === 'number' && [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2].includes(value);
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
 };
 
 export const isVideoFormat = (value: any): value is VideoFormat => {